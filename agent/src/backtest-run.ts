@@ -0,0 +1,137 @@
+import { promises as fs } from "node:fs";
+import { parseArgs } from "node:util";
+import { isCandleResolution } from "./candles.js";
+import { loadCandleSeries, loadPriceSeries, runBacktest } from "./backtest.js";
+import type { PriceTick } from "./backtest.js";
+import {
+  createPlanner,
+  loadPlanner,
+  loadRecordedCodexOutputs,
+  momentumPlanner,
+  recordedPlanner,
+  scriptedPlanner,
+} from "./planner.js";
+import type { Planner, ScriptedStep } from "./planner.js";
+
+// Replay a price series through the agent's state, safety and breaker code:
+//   pnpm --filter agent backtest --prices prices.csv --codex codex-outputs.jsonl
+//   pnpm --filter agent backtest --prices prices.jsonl --script steps.json
+//   pnpm --filter agent backtest --prices prices.csv --momentum <mint>,<mint>
+//   pnpm --filter agent backtest --candles 1m --from 2026-10-01 --codex codex-outputs.jsonl
+//   pnpm --filter agent backtest --prices prices.csv --planner rules
+// --candles replays the price recorder's store (optionally --mints a,b).
+// --planner runs a planner as RUNTIME_PLANNER would pick it, with its
+// RUNTIME_PLANNER_* settings.
+// Limits come from the agent's .env, so a backtest checks the settings the
+// agent would trade with. --out writes the equity curve and trades as JSON.
+// LOG_LEVEL=warn hides the per-exit log lines.
+
+const { values } = parseArgs({
+  options: {
+    prices: { type: "string" },
+    candles: { type: "string" },
+    mints: { type: "string" },
+    from: { type: "string" },
+    to: { type: "string" },
+    codex: { type: "string" },
+    script: { type: "string" },
+    momentum: { type: "string" },
+    planner: { type: "string" },
+    "momentum-lookback-min": { type: "string", default: "60" },
+    "momentum-entry-pct": { type: "string", default: "0.05" },
+    "momentum-sol": { type: "string", default: "0.5" },
+    "cash-sol": { type: "string" },
+    "perp-balance-usd": { type: "string" },
+    "planner-interval-s": { type: "string" },
+    "safety-interval-s": { type: "string" },
+    "slippage-bps": { type: "string" },
+    out: { type: "string" },
+  },
+});
+
+function optionalNumber(raw: string | undefined): number | undefined {
+  if (raw === undefined) return undefined;
+  const n = Number(raw);
+  if (!Number.isFinite(n)) throw new Error(`not a number: ${raw}`);
+  return n;
+}
+
+async function loadSource(): Promise<Planner> {
+  if (values.planner) return loadPlanner(values.planner);
+  if (values.codex) return createPlanner(recordedPlanner(await loadRecordedCodexOutputs(values.codex)));
+  if (values.script) {
+    return createPlanner(scriptedPlanner(JSON.parse(await fs.readFile(values.script, "utf8")) as ScriptedStep[]));
+  }
+  if (values.momentum) {
+    return createPlanner(momentumPlanner({
+      mints: values.momentum.split(",").map((mint) => mint.trim()).filter(Boolean),
+      lookbackMs: Number(values["momentum-lookback-min"]) * 60_000,
+      entryPct: Number(values["momentum-entry-pct"]),
+      amountLamports: Math.floor(Number(values["momentum-sol"]) * 1_000_000_000),
+    }));
+  }
+  throw new Error("choose a planner: --codex, --script, --momentum or --planner <name>");
+}
+
+async function loadTicks(): Promise<PriceTick[]> {
+  if (values.prices) return loadPriceSeries(values.prices);
+  if (values.candles) {
+    if (!isCandleResolution(values.candles)) throw new Error(`--candles must be 1m, 5m or 1h`);
+    return loadCandleSeries(values.candles, {
+      mints: values.mints ? values.mints.split(",").map((mint) => mint.trim()).filter(Boolean) : undefined,
+      fromMs: values.from ? Date.parse(values.from) : undefined,
+      toMs: values.to ? Date.parse(values.to) : undefined,
+    });
+  }
+  throw new Error("--prices <file.csv|file.jsonl> or --candles <1m|5m|1h> is required");
+}
+
+async function main(): Promise<void> {
+  const ticks = await loadTicks();
+  if (ticks.length === 0) throw new Error("no prices in the selected series");
+
+  const cashSol = optionalNumber(values["cash-sol"]);
+  const plannerIntervalS = optionalNumber(values["planner-interval-s"]);
+  const safetyIntervalS = optionalNumber(values["safety-interval-s"]);
+  const slippageBps = optionalNumber(values["slippage-bps"]);
+  const planner = await loadSource();
+
+  const result = await runBacktest({
+    ticks,
+    planner,
+    initialCashLamports: cashSol !== undefined ? String(Math.floor(cashSol * 1_000_000_000)) : undefined,
+    initialPerpBalanceUsd: optionalNumber(values["perp-balance-usd"]),
+    plannerIntervalMs: plannerIntervalS !== undefined ? plannerIntervalS * 1000 : undefined,
+    safetyIntervalMs: safetyIntervalS !== undefined ? safetyIntervalS * 1000 : undefined,
+    fills: slippageBps !== undefined ? { slippageBps } : undefined,
+  });
+
+  const s = result.summary;
+  const pct = (value: number): string => `${(value * 100).toFixed(2)}%`;
+  console.log(`Backtest (${planner.name}) ${s.from ?? "-"} → ${s.to ?? "-"}: ${s.ticks} ticks, ${s.plannerRuns} planner runs`);
+  for (const trade of result.trades) {
+    const pnl = trade.pnlUsd !== undefined ? ` pnl=$${trade.pnlUsd.toFixed(2)}` : "";
+    const why = trade.exitReason ?? trade.reason;
+    console.log(`  ${trade.at} ${trade.action.toUpperCase()} ${trade.symbol} @ $${trade.priceUsd}${pnl}${why ? ` (${why})` : ""}`);
+  }
+  if (result.skipped.length > 0) console.log(`Skipped ${result.skipped.length} intent(s)`);
+  for (const halt of s.breakerTrips) console.log(`Breaker tripped at ${halt.trippedAt}: ${halt.reason}`);
+  console.log(
+    `Equity $${s.startEquityUsd.toFixed(2)} → $${s.endEquityUsd.toFixed(2)} (${pct(s.returnPct)}), max drawdown ${pct(s.maxDrawdownPct)}`
+  );
+  console.log(
+    `Trades ${s.trades}, closed ${s.closedTrades}, win rate ${pct(s.winRate)} (${s.wins}W/${s.losses}L), ` +
+      `realized ${s.realizedPnlSol.toFixed(4)} SOL + $${s.realizedPerpPnlUsd.toFixed(2)} perps, ` +
+      `fees ${s.networkFeesSol.toFixed(4)} SOL + $${s.perpFeesUsd.toFixed(2)} perps`
+  );
+
+  if (values.out) {
+    await fs.writeFile(values.out, JSON.stringify(result, null, 2));
+    console.log(`Results written to ${values.out}`);
+  }
+}
+
+main().catch((e) => {
+  console.error("Backtest failed:", e);
+  process.exit(1);
+});
@@ -0,0 +1,484 @@
+import { promises as fs } from "node:fs";
+import { breakerBlocks, calcEquityUsd, recordTradeOutcome, updateBreaker } from "./breaker.js";
+import { CANDLE_RESOLUTIONS, readCandles } from "./candles.js";
+import type { CandleResolution } from "./candles.js";
+import { config } from "./config.js";
+import type { Planner } from "./planner.js";
+import { checkQuote, evaluatePerpExits, evaluateSpotExits, revalidatePlannedIntent, validateIntent } from "./safety.js";
+import { applyPerpClose, applyPerpOpen, applyResult, buildInitialState } from "./state.js";
+import type { BreakerHalt, State, TradeIntent, TradeResult } from "./state.js";
+
+const SOL_MINT = "So11111111111111111111111111111111111111112";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+// USD prices by mint at one instant of simulated time
+export interface PriceTick {
+  atMs: number;
+  prices: Record<string, number>;
+}
+
+export interface FillModel {
+  // adverse price move applied to every simulated swap
+  slippageBps: number;
+  // base + priority fee per swap, charged to the swap's SOL leg
+  networkFeeLamports: number;
+}
+
+export interface BacktestOptions {
+  ticks: PriceTick[];
+  // built with createPlanner; run with the tick's prices, never live ones
+  planner: Planner;
+  initialCashLamports?: string;
+  initialPerpBalanceUsd?: number;
+  // defaults: config.scanIntervalSeconds and config.stopLossIntervalSeconds
+  plannerIntervalMs?: number;
+  safetyIntervalMs?: number;
+  fills?: Partial<FillModel>;
+}
+
+export interface EquityPoint {
+  at: string;
+  equityUsd: number;
+  cashSol: number;
+  positions: number;
+  perpPositions: number;
+}
+
+export interface BacktestTrade {
+  at: string;
+  intentId: string;
+  planner: string;
+  action: TradeIntent["action"];
+  symbol: string;
+  priceUsd: number;
+  inputAmount?: string;
+  outputAmount?: string;
+  // closing trades only
+  pnlLamports?: string;
+  pnlUsd?: number;
+  exitReason?: string;
+  reason?: string;
+}
+
+export interface BacktestSkip {
+  at: string;
+  intentId: string;
+  action: TradeIntent["action"];
+  reason: string;
+}
+
+export interface BacktestSummary {
+  from?: string;
+  to?: string;
+  ticks: number;
+  plannerRuns: number;
+  startEquityUsd: number;
+  endEquityUsd: number;
+  returnPct: number;
+  maxDrawdownPct: number;
+  trades: number;
+  // sells and perp closes
+  closedTrades: number;
+  wins: number;
+  losses: number;
+  winRate: number;
+  realizedPnlSol: number;
+  realizedPerpPnlUsd: number;
+  networkFeesSol: number;
+  // open/close fees and borrow, as charged by applyPerpOpen/applyPerpClose
+  perpFeesUsd: number;
+  breakerTrips: BreakerHalt[];
+}
+
+export interface BacktestResult {
+  state: State;
+  equity: EquityPoint[];
+  trades: BacktestTrade[];
+  skipped: BacktestSkip[];
+  notes: string[];
+  summary: BacktestSummary;
+}
+
+// ---------------------------------------------------------------------------
+// Price series — CSV (long `timestamp,mint,price` rows or one column per
+// mint), JSONL `{ "at": ..., "prices": { mint: usd } }` snapshots, or the
+// recorder's candle store
+// ---------------------------------------------------------------------------
+
+function parseTimestamp(value: string): number {
+  const trimmed = value.trim();
+  if (/^\d+(\.\d+)?$/.test(trimmed)) {
+    const n = Number(trimmed);
+    // epoch seconds until the year 2286
+    return n < 10_000_000_000 ? n * 1000 : n;
+  }
+  return Date.parse(trimmed);
+}
+
+function mergeTicks(rows: Array<{ atMs: number; mint: string; price: number }>): PriceTick[] {
+  const byTime = new Map<number, Record<string, number>>();
+  for (const row of rows) {
+    if (!Number.isFinite(row.atMs) || !(row.price > 0)) continue;
+    const prices = byTime.get(row.atMs) ?? {};
+    prices[row.mint] = row.price;
+    byTime.set(row.atMs, prices);
+  }
+  return [...byTime.entries()].sort(([a], [b]) => a - b).map(([atMs, prices]) => ({ atMs, prices }));
+}
+
+export function parsePriceCsv(text: string): PriceTick[] {
+  const lines = text.split(/\r?\n/).map((line) => line.trim()).filter((line) => line && !line.startsWith("#"));
+  if (lines.length === 0) return [];
+  const header = lines[0].split(",").map((cell) => cell.trim());
+  const column = (...names: string[]): number => header.findIndex((cell) => names.includes(cell.toLowerCase()));
+  const timeCol = column("timestamp", "time", "at");
+  if (timeCol < 0) throw new Error("price CSV needs a timestamp column");
+
+  const rows: Array<{ atMs: number; mint: string; price: number }> = [];
+  const mintCol = column("mint");
+  const priceCol = column("price", "priceusd", "close");
+  for (const line of lines.slice(1)) {
+    const cells = line.split(",").map((cell) => cell.trim());
+    const atMs = parseTimestamp(cells[timeCol] ?? "");
+    if (mintCol >= 0 && priceCol >= 0) {
+      rows.push({ atMs, mint: cells[mintCol], price: Number(cells[priceCol]) });
+      continue;
+    }
+    header.forEach((mint, i) => {
+      if (i !== timeCol) rows.push({ atMs, mint, price: Number(cells[i]) });
+    });
+  }
+  return mergeTicks(rows);
+}
+
+export function parsePriceJsonl(text: string): PriceTick[] {
+  const rows: Array<{ atMs: number; mint: string; price: number }> = [];
+  for (const line of text.split("\n")) {
+    if (!line.trim()) continue;
+    const parsed = JSON.parse(line) as { at?: unknown; prices?: Record<string, unknown> };
+    const atMs = parseTimestamp(String(parsed.at ?? ""));
+    for (const [mint, price] of Object.entries(parsed.prices ?? {})) {
+      rows.push({ atMs, mint, price: Number(price) });
+    }
+  }
+  return mergeTicks(rows);
+}
+
+export async function loadPriceSeries(filePath: string): Promise<PriceTick[]> {
+  const text = await fs.readFile(filePath, "utf8");
+  return filePath.endsWith(".csv") ? parsePriceCsv(text) : parsePriceJsonl(text);
+}
+
+/**
+ * One tick per recorded candle close. Each candle's low and high are not
+ * replayed, so exits trigger at closes only; use a finer resolution for
+ * tighter stops.
+ */
+export async function loadCandleSeries(
+  resolution: CandleResolution,
+  options: { mints?: string[]; fromMs?: number; toMs?: number } = {}
+): Promise<PriceTick[]> {
+  const periodMs = CANDLE_RESOLUTIONS[resolution];
+  const candles = await readCandles(resolution, options);
+  return mergeTicks(
+    candles.map((candle) => ({ atMs: Date.parse(candle.start) + periodMs, mint: candle.mint, price: candle.close }))
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Fills — swaps fill at the tick price less slippage; perps at the mark
+// ---------------------------------------------------------------------------
+
+function simulateSwap(
+  state: State,
+  intent: TradeIntent,
+  prices: Record<string, number>,
+  fills: FillModel
+): { result: TradeResult; priceUsd: number } {
+  const solPriceUsd = prices[SOL_MINT] ?? 0;
+  const isBuy = intent.action === "buy";
+  const tokenMint = isBuy ? intent.outputMint : intent.inputMint;
+  const tokenPriceUsd = prices[tokenMint] ?? 0;
+  const failed = (error: string): { result: TradeResult; priceUsd: number } => ({
+    result: { success: false, inputAmount: "0", outputAmount: "0", error },
+    priceUsd: tokenPriceUsd,
+  });
+  if (solPriceUsd <= 0 || tokenPriceUsd <= 0) return failed("no price at this tick");
+
+  const decimals = isBuy
+    ? (typeof intent.metadata?.decimals === "number" ? (intent.metadata.decimals as number) : 9)
+    : (state.positions[tokenMint]?.decimals ?? 9);
+  const keep = 1 - fills.slippageBps / 10_000;
+  const amount = intent.amountLamports;
+
+  if (isBuy) {
+    const outRaw = Math.floor((((amount / 1_000_000_000) * solPriceUsd) / tokenPriceUsd) * 10 ** decimals * keep);
+    if (outRaw <= 0) return failed("output rounds to zero");
+    return {
+      result: {
+        success: true,
+        inputAmount: String(amount + fills.networkFeeLamports),
+        outputAmount: String(outRaw),
+        quotedOutputAmount: String(outRaw),
+        realizedSlippageBps: 0,
+      },
+      priceUsd: tokenPriceUsd,
+    };
+  }
+
+  const outLamports =
+    Math.floor((((amount / 10 ** decimals) * tokenPriceUsd) / solPriceUsd) * 1_000_000_000 * keep) -
+    fills.networkFeeLamports;
+  if (outLamports <= 0) return failed("output does not cover the network fee");
+  return {
+    result: {
+      success: true,
+      inputAmount: String(amount),
+      outputAmount: String(outLamports),
+      quotedOutputAmount: String(outLamports),
+      realizedSlippageBps: 0,
+    },
+    priceUsd: tokenPriceUsd,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Stats
+// ---------------------------------------------------------------------------
+
+function maxDrawdown(equity: EquityPoint[]): number {
+  let peak = 0;
+  let worst = 0;
+  for (const point of equity) {
+    peak = Math.max(peak, point.equityUsd);
+    if (peak > 0) worst = Math.max(worst, 1 - point.equityUsd / peak);
+  }
+  return worst;
+}
+
+// ---------------------------------------------------------------------------
+// runBacktest — drive the live state, safety and breaker code with the
+// tick timestamps as the clock. Each tick runs the exit checks when the
+// stop-loss interval has elapsed, then the planner when the scan interval
+// has, as the two live loops would. Prices carry forward between ticks
+// that do not list every mint. Not simulated: quote price impact, failed
+// transactions (so no perp write-offs) and wallet reconciliation.
+// ---------------------------------------------------------------------------
+
+export async function runBacktest(options: BacktestOptions): Promise<BacktestResult> {
+  const fills: FillModel = { slippageBps: 50, networkFeeLamports: 25_000, ...options.fills };
+  const plannerIntervalMs = options.plannerIntervalMs ?? config.scanIntervalSeconds * 1000;
+  const safetyIntervalMs = options.safetyIntervalMs ?? config.stopLossIntervalSeconds * 1000;
+
+  const state = buildInitialState(options.initialCashLamports);
+  if (options.initialPerpBalanceUsd !== undefined) state.perpBalanceUsd = options.initialPerpBalanceUsd;
+
+  const equity: EquityPoint[] = [];
+  const trades: BacktestTrade[] = [];
+  const skipped: BacktestSkip[] = [];
+  const notes: string[] = [];
+  const breakerTrips: BreakerHalt[] = [];
+  const prices: Record<string, number> = {};
+  let networkFeesLamports = 0;
+  let perpFeesUsd = 0;
+  let plannerRuns = 0;
+  let lastSafetyMs = -Infinity;
+  let lastPlannerMs = -Infinity;
+
+  const noteTrip = (halt: BreakerHalt | null): void => {
+    if (halt) breakerTrips.push(halt);
+  };
+  const checkBreaker = (nowMs: number): void => {
+    const equityUsd = calcEquityUsd(state, prices, nowMs);
+    if (equityUsd !== null) noteTrip(updateBreaker(state, equityUsd, new Date(nowMs)));
+  };
+
+  const execute = (intent: TradeIntent, nowMs: number): void => {
+    const at = new Date(nowMs);
+    const skip = (reason: string): void => {
+      skipped.push({ at: at.toISOString(), intentId: intent.id, action: intent.action, reason });
+    };
+    const error = validateIntent(intent);
+    if (error) {
+      state.failedCount++;
+      return skip(error);
+    }
+    const halted = breakerBlocks(state, intent);
+    if (halted) return skip(halted);
+
+    const trade = {
+      at: at.toISOString(),
+      intentId: intent.id,
+      planner: String(intent.metadata?.planner ?? ""),
+      action: intent.action,
+      reason: typeof intent.metadata?.reason === "string" ? intent.metadata.reason : undefined,
+      exitReason: typeof intent.metadata?.exitReason === "string" ? intent.metadata.exitReason : undefined,
+    };
+
+    if (intent.action === "perp_open") {
+      const market = intent.metadata.perpMarket as string;
+      const leverage = intent.metadata.leverage as number;
+      const collateralUsd = intent.metadata.collateralUsd as number;
+      const entryPrice = prices[intent.inputMint] ?? 0;
+      if (entryPrice <= 0) {
+        state.failedCount++;
+        return skip("no entry price at this tick");
+      }
+      applyPerpOpen(state, market, intent.inputMint, intent.metadata.perpSide as "long" | "short", leverage, collateralUsd, entryPrice, at);
+      state.filledCount++;
+      perpFeesUsd += collateralUsd * leverage * config.perps.openCloseFeeRate;
+      trades.push({ ...trade, symbol: market, priceUsd: entryPrice });
+      return;
+    }
+
+    if (intent.action === "perp_close") {
+      const market = intent.metadata.perpMarket as string;
+      const pos = state.perpPositions[market];
+      if (!pos) return skip("no position to close");
+      const closePrice = prices[pos.underlyingMint] ?? 0;
+      if (closePrice <= 0) {
+        state.failedCount++;
+        return skip("no close price at this tick");
+      }
+      const { pnlUsd } = applyPerpClose(state, market, closePrice);
+      state.filledCount++;
+      perpFeesUsd += pos.borrowFeeUsd + pos.sizeUsd * config.perps.openCloseFeeRate;
+      noteTrip(recordTradeOutcome(state, pnlUsd < 0, at));
+      trades.push({ ...trade, symbol: market, priceUsd: closePrice, pnlUsd });
+      return;
+    }
+
+    const symbol = String(
+      intent.metadata?.tokenSymbol ?? (intent.action === "buy" ? intent.outputMint : intent.inputMint).slice(0, 6)
+    );
+    const { result, priceUsd } = simulateSwap(state, intent, prices, fills);
+
+    // The live quote gate, against a quote that fills at the tick price
+    if (result.success && intent.metadata?.planner !== "safety" && config.revalidation.enabled) {
+      const decimals = intent.action === "sell"
+        ? (state.positions[intent.inputMint]?.decimals ?? 9)
+        : (typeof intent.metadata?.decimals === "number" ? (intent.metadata.decimals as number) : 9);
+      const quote = {
+        quoteId: intent.id,
+        inputMint: intent.inputMint,
+        outputMint: intent.outputMint,
+        inAmount: String(intent.amountLamports),
+        outAmount: result.outputAmount,
+        slippageBps: intent.slippageBps,
+        priceImpactPct: 0,
+      };
+      const check = checkQuote(intent, quote, decimals, prices[SOL_MINT] ?? 0);
+      if (check.verdict !== "ok") {
+        state.failedCount++;
+        return skip(`quote check: ${check.reason}`);
+      }
+    }
+
+    const pnlLamports = applyResult(state, intent, result, at);
+    if (!result.success) return skip(result.error ?? "swap failed");
+    networkFeesLamports += fills.networkFeeLamports;
+    const pnlUsd = pnlLamports !== undefined
+      ? (Number(pnlLamports) / 1_000_000_000) * (prices[SOL_MINT] ?? 0)
+      : undefined;
+    if (pnlLamports !== undefined) noteTrip(recordTradeOutcome(state, BigInt(pnlLamports) < 0n, at));
+    trades.push({
+      ...trade,
+      symbol,
+      priceUsd,
+      inputAmount: result.inputAmount,
+      outputAmount: result.outputAmount,
+      ...(pnlLamports !== undefined ? { pnlLamports, pnlUsd } : {}),
+    });
+  };
+
+  for (const tick of options.ticks) {
+    Object.assign(prices, tick.prices);
+    const nowMs = tick.atMs;
+
+    if (nowMs - lastSafetyMs >= safetyIntervalMs) {
+      lastSafetyMs = nowMs;
+      const hasSpot = Object.keys(state.positions).length > 0;
+      const hasPerps = Object.keys(state.perpPositions).length > 0;
+      if (hasSpot || hasPerps) {
+        const intents = [
+          ...(hasSpot ? evaluateSpotExits(state, prices, nowMs) : []),
+          ...(hasPerps && config.perps.enabled ? evaluatePerpExits(state, prices, nowMs) : []),
+        ];
+        for (const intent of intents) execute(intent, nowMs);
+        checkBreaker(nowMs);
+      }
+    }
+
+    if (nowMs - lastPlannerMs >= plannerIntervalMs) {
+      lastPlannerMs = nowMs;
+      plannerRuns++;
+      state.cycle++;
+      checkBreaker(nowMs);
+
+      // Plan against a snapshot and revalidate against the state, as the
+      // live loop does while the stop-loss loop trades underneath.
+      const snapshot = structuredClone(state);
+      const now = new Date(nowMs);
+      const planned = await options.planner.plan(snapshot, { now, prices: { ...prices } });
+      notes.push(...planned.notes.map((note) => `${now.toISOString()} ${note}`));
+      for (const [key, at] of Object.entries(snapshot.lastIntentAt)) {
+        state.lastIntentAt[key] = Math.max(state.lastIntentAt[key] ?? 0, at);
+      }
+      for (const intent of planned.intents) {
+        const dropped = revalidatePlannedIntent(state, snapshot, intent);
+        if (dropped) {
+          skipped.push({ at: now.toISOString(), intentId: intent.id, action: intent.action, reason: dropped });
+          continue;
+        }
+        execute(intent, nowMs);
+      }
+    }
+
+    const equityUsd = calcEquityUsd(state, prices, nowMs);
+    if (equityUsd !== null) {
+      equity.push({
+        at: new Date(nowMs).toISOString(),
+        equityUsd,
+        cashSol: Number(state.cashLamports) / 1_000_000_000,
+        positions: Object.keys(state.positions).length,
+        perpPositions: Object.keys(state.perpPositions).length,
+      });
+    }
+  }
+
+  const closed = trades.filter((trade) => trade.pnlUsd !== undefined);
+  const wins = closed.filter((trade) => (trade.pnlUsd ?? 0) > 0).length;
+  const startEquityUsd = equity[0]?.equityUsd ?? 0;
+  const endEquityUsd = equity[equity.length - 1]?.equityUsd ?? 0;
+
+  return {
+    state,
+    equity,
+    trades,
+    skipped,
+    notes,
+    summary: {
+      from: options.ticks[0] ? new Date(options.ticks[0].atMs).toISOString() : undefined,
+      to: options.ticks.length > 0 ? new Date(options.ticks[options.ticks.length - 1].atMs).toISOString() : undefined,
+      ticks: options.ticks.length,
+      plannerRuns,
+      startEquityUsd,
+      endEquityUsd,
+      returnPct: startEquityUsd > 0 ? endEquityUsd / startEquityUsd - 1 : 0,
+      maxDrawdownPct: maxDrawdown(equity),
+      trades: trades.length,
+      closedTrades: closed.length,
+      wins,
+      losses: closed.length - wins,
+      winRate: closed.length > 0 ? wins / closed.length : 0,
+      realizedPnlSol: Number(state.realizedPnlLamports) / 1_000_000_000,
+      realizedPerpPnlUsd: state.realizedPerpPnlUsd,
+      networkFeesSol: networkFeesLamports / 1_000_000_000,
+      perpFeesUsd,
+      breakerTrips,
+    },
+  };
+}
@@ -0,0 +1,16 @@
+import { requestBreakerReset } from "./breaker.js";
+
+// Operator reset for the drawdown circuit breaker:
+//   pnpm --filter agent breaker:reset "reviewed losses, resuming"
+// The running agent applies it on its next check (or at startup).
+
+const note = process.argv.slice(2).join(" ").trim();
+
+requestBreakerReset(note)
+  .then((requestPath) => {
+    console.log(`Breaker reset requested: ${requestPath}`);
+  })
+  .catch((e) => {
+    console.error("Failed to request breaker reset:", e);
+    process.exit(1);
+  });
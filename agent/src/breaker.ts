@@ -0,0 +1,268 @@
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import { config } from "./config.js";
+import { createLogger } from "./logger.js";
+import { fetchPricesUsd } from "./prices.js";
+import type { BreakerHalt, BreakerState, State, TradeIntent } from "./state.js";
+
+const log = createLogger("breaker");
+
+const SOL_MINT = "So11111111111111111111111111111111111111112";
+
+export interface BreakerReset {
+  note: string;
+  requestedAt: string;
+  previous?: BreakerHalt;
+  equityUsd: number;
+  // the request file's text, so only this request is removed once applied
+  requestText: string;
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function toBigint(value: string): bigint {
+  try {
+    return BigInt(value);
+  } catch {
+    return 0n;
+  }
+}
+
+function dayKeyOf(now: Date): string {
+  return now.toISOString().slice(0, 10);
+}
+
+function pct(value: number): string {
+  return `${(value * 100).toFixed(2)}%`;
+}
+
+export function resetRequestPath(): string {
+  return config.breaker.resetPath || path.join(path.dirname(config.statePath), "breaker-reset.json");
+}
+
+// ---------------------------------------------------------------------------
+// Equity — same math as the dashboard snapshot: SOL cash and spot
+// positions at market, perp balance plus unrealized PnL net of borrow.
+// ---------------------------------------------------------------------------
+
+/**
+ * Returns null when any price is missing: a position valued at zero would
+ * read as a loss and trip the breaker on a price outage.
+ */
+export function calcEquityUsd(state: State, prices: Record<string, number>, nowMs = Date.now()): number | null {
+  const solPriceUsd = prices[SOL_MINT] ?? 0;
+  if (solPriceUsd <= 0) return null;
+
+  let equity = (Number(toBigint(state.cashLamports)) / 1_000_000_000) * solPriceUsd;
+
+  for (const position of Object.values(state.positions)) {
+    const price = prices[position.mint] ?? 0;
+    if (price <= 0) return null;
+    equity += (Number(toBigint(position.rawAmount)) / 10 ** position.decimals) * price;
+  }
+
+  equity += state.perpBalanceUsd;
+  for (const pos of Object.values(state.perpPositions)) {
+    const mark = prices[pos.underlyingMint] ?? 0;
+    if (mark <= 0 || pos.entryPriceUsd <= 0) return null;
+    const holdHours = Math.max(0, (nowMs - Date.parse(pos.openedAt)) / 3_600_000);
+    const borrowFeeUsd = pos.sizeUsd * config.perps.hourlyBorrowRate * holdHours;
+    const priceChange = (mark - pos.entryPriceUsd) / pos.entryPriceUsd;
+    const rawPnl = pos.side === "long" ? pos.sizeUsd * priceChange : pos.sizeUsd * -priceChange;
+    equity += pos.collateralUsd + rawPnl - borrowFeeUsd;
+  }
+
+  return equity;
+}
+
+export async function fetchEquityUsd(state: State): Promise<number | null> {
+  const mints = [
+    SOL_MINT,
+    ...Object.keys(state.positions),
+    ...Object.values(state.perpPositions).map((p) => p.underlyingMint),
+  ];
+  const prices = await fetchPricesUsd([...new Set(mints)]);
+  // An unpriced holding would read as a loss and could trip the breaker.
+  const unpriced = Object.keys(prices).filter((mint) => !(prices[mint] > 0));
+  if (unpriced.length > 0) {
+    log.warn(`Equity skipped: no price for ${unpriced.join(", ")}`);
+    return null;
+  }
+  return calcEquityUsd(state, prices);
+}
+
+// ---------------------------------------------------------------------------
+// Tracking and trips
+// ---------------------------------------------------------------------------
+
+function ensureBreaker(state: State, equityUsd: number, now: Date): BreakerState {
+  if (!state.breaker) {
+    state.breaker = {
+      peakEquityUsd: equityUsd,
+      dayKey: dayKeyOf(now),
+      dayStartEquityUsd: equityUsd,
+      lastEquityUsd: equityUsd,
+      consecutiveLosses: 0,
+      updatedAt: now.toISOString(),
+    };
+  }
+  return state.breaker;
+}
+
+function trip(breaker: BreakerState, halt: BreakerHalt): BreakerHalt {
+  breaker.halt = halt;
+  log.error(`[Breaker] TRIPPED (${halt.trigger}): ${halt.reason} — buys and perp opens halted until reset`);
+  return halt;
+}
+
+/**
+ * Record the latest equity: roll the daily baseline at UTC midnight,
+ * raise the peak, and trip on drawdown from peak or daily loss. Returns
+ * the halt only when this call tripped it.
+ */
+export function updateBreaker(state: State, equityUsd: number, now = new Date()): BreakerHalt | null {
+  const breaker = ensureBreaker(state, equityUsd, now);
+  const dayKey = dayKeyOf(now);
+  if (breaker.dayKey !== dayKey) {
+    breaker.dayKey = dayKey;
+    breaker.dayStartEquityUsd = equityUsd;
+  }
+  breaker.peakEquityUsd = Math.max(breaker.peakEquityUsd, equityUsd);
+  breaker.lastEquityUsd = equityUsd;
+  breaker.updatedAt = now.toISOString();
+  if (breaker.halt) return null;
+
+  const drawdown = breaker.peakEquityUsd > 0 ? 1 - equityUsd / breaker.peakEquityUsd : 0;
+  if (config.breaker.maxDrawdownPct > 0 && drawdown >= config.breaker.maxDrawdownPct) {
+    return trip(breaker, {
+      trigger: "drawdown",
+      reason: `drawdown ${pct(drawdown)} from peak $${breaker.peakEquityUsd.toFixed(2)} (limit ${pct(config.breaker.maxDrawdownPct)})`,
+      trippedAt: now.toISOString(),
+      equityUsd,
+    });
+  }
+
+  const dailyLoss = breaker.dayStartEquityUsd > 0 ? 1 - equityUsd / breaker.dayStartEquityUsd : 0;
+  if (config.breaker.maxDailyLossPct > 0 && dailyLoss >= config.breaker.maxDailyLossPct) {
+    return trip(breaker, {
+      trigger: "daily_loss",
+      reason: `daily loss ${pct(dailyLoss)} from $${breaker.dayStartEquityUsd.toFixed(2)} (limit ${pct(config.breaker.maxDailyLossPct)})`,
+      trippedAt: now.toISOString(),
+      equityUsd,
+    });
+  }
+
+  return null;
+}
+
+/**
+ * Count a closed trade. A loss extends the losing streak, anything else
+ * ends it. Returns the halt only when this call tripped it.
+ */
+export function recordTradeOutcome(state: State, isLoss: boolean, now = new Date()): BreakerHalt | null {
+  const breaker = ensureBreaker(state, state.breaker?.lastEquityUsd ?? 0, now);
+  breaker.consecutiveLosses = isLoss ? breaker.consecutiveLosses + 1 : 0;
+  breaker.updatedAt = now.toISOString();
+  if (breaker.halt) return null;
+
+  const limit = config.breaker.maxConsecutiveLosses;
+  if (limit > 0 && breaker.consecutiveLosses >= limit) {
+    return trip(breaker, {
+      trigger: "consecutive_losses",
+      reason: `${breaker.consecutiveLosses} consecutive losing trades (limit ${limit})`,
+      trippedAt: now.toISOString(),
+      equityUsd: breaker.lastEquityUsd,
+    });
+  }
+  return null;
+}
+
+/**
+ * Deposits and withdrawals move equity without any trading. Shift the
+ * peak and daily baseline by the same amount so they do not read as
+ * gains or drawdown.
+ */
+export function adjustBreakerForTransfer(state: State, diffUsd: number): void {
+  const breaker = state.breaker;
+  if (!breaker || !Number.isFinite(diffUsd) || diffUsd === 0) return;
+  breaker.peakEquityUsd = Math.max(0, breaker.peakEquityUsd + diffUsd);
+  breaker.dayStartEquityUsd = Math.max(0, breaker.dayStartEquityUsd + diffUsd);
+  breaker.lastEquityUsd = Math.max(0, breaker.lastEquityUsd + diffUsd);
+}
+
+// ---------------------------------------------------------------------------
+// Gate — exits stay allowed so a halted agent can still reduce risk
+// ---------------------------------------------------------------------------
+
+export function breakerBlocks(state: State, intent: TradeIntent): string | null {
+  const halt = state.breaker?.halt;
+  if (!halt) return null;
+  if (intent.action !== "buy" && intent.action !== "perp_open") return null;
+  return `Circuit breaker halted (${halt.trigger}) since ${halt.trippedAt}: ${halt.reason}`;
+}
+
+// ---------------------------------------------------------------------------
+// Operator reset — a request file, so the reset reaches a running agent
+// and survives a restart. Applied on the agent's next check and removed
+// once the cleared halt is saved.
+// ---------------------------------------------------------------------------
+
+export async function requestBreakerReset(note: string): Promise<string> {
+  const requestPath = resetRequestPath();
+  await fs.mkdir(path.dirname(requestPath), { recursive: true });
+  const tempPath = requestPath + ".tmp";
+  await fs.writeFile(tempPath, JSON.stringify({ note, requestedAt: new Date().toISOString() }, null, 2));
+  await fs.rename(tempPath, requestPath);
+  return requestPath;
+}
+
+/**
+ * Apply a pending reset request: clear the halt and losing streak, and
+ * restart the peak and daily baseline from the last equity so the same
+ * drawdown does not trip again immediately. The request stays on disk
+ * until `clearBreakerResetRequest`, which callers run after saving state.
+ */
+export async function consumeBreakerReset(state: State, now = new Date()): Promise<BreakerReset | null> {
+  const raw = await fs.readFile(resetRequestPath(), "utf8").catch(() => "");
+  if (!raw) return null;
+
+  let request: { note?: unknown; requestedAt?: unknown } = {};
+  try {
+    request = JSON.parse(raw) as typeof request;
+  } catch {
+    // an unreadable request still counts as a reset
+  }
+
+  const breaker = state.breaker;
+  const previous = breaker?.halt;
+  const equityUsd = breaker?.lastEquityUsd ?? 0;
+  if (breaker) {
+    breaker.halt = undefined;
+    breaker.consecutiveLosses = 0;
+    breaker.peakEquityUsd = equityUsd;
+    breaker.dayKey = dayKeyOf(now);
+    breaker.dayStartEquityUsd = equityUsd;
+    breaker.updatedAt = now.toISOString();
+  }
+
+  const reset = {
+    note: typeof request.note === "string" ? request.note : "",
+    requestedAt: typeof request.requestedAt === "string" ? request.requestedAt : now.toISOString(),
+    previous,
+    equityUsd,
+    requestText: raw,
+  };
+  log.warn(
+    `[Breaker] RESET by operator${reset.note ? ` (${reset.note})` : ""}${previous ? `, was halted: ${previous.reason}` : ""}`
+  );
+  return reset;
+}
+
+/** Remove an applied request, unless the operator has written a new one since. */
+export async function clearBreakerResetRequest(reset: BreakerReset): Promise<void> {
+  const requestPath = resetRequestPath();
+  const raw = await fs.readFile(requestPath, "utf8").catch(() => "");
+  if (raw === reset.requestText) await fs.rm(requestPath, { force: true });
+}
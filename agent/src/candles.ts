@@ -0,0 +1,269 @@
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import { config } from "./config.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type CandleResolution = "1m" | "5m" | "1h";
+
+export const CANDLE_RESOLUTIONS: Record<CandleResolution, number> = {
+  "1m": 60_000,
+  "5m": 5 * 60_000,
+  "1h": 60 * 60_000,
+};
+
+// USD OHLC of one mint over one period, from the samples the recorder took
+export interface Candle {
+  mint: string;
+  // period start
+  start: string;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  samples: number;
+}
+
+export interface CandleQuery {
+  fromMs?: number;
+  toMs?: number;
+  // newest candles only, once the range is applied
+  limit?: number;
+}
+
+interface OpenCandleStore {
+  candles: Record<string, Candle>;
+  updatedAt: string;
+}
+
+// ---------------------------------------------------------------------------
+// Store — closed candles are appended to one JSONL file per resolution and
+// UTC day (`<dir>/<res>/<YYYY-MM-DD>.jsonl`); the periods still filling
+// live in open.json, so a restart or the standalone dashboard sees them.
+// ---------------------------------------------------------------------------
+
+let openCandles: Map<string, Candle> | null = null;
+
+// Writes are chained so a slow append cannot overtake the next sample.
+let writeChain: Promise<void> = Promise.resolve();
+
+export function candleStoreDir(): string {
+  return config.priceRecorder.dir || path.join(path.dirname(config.statePath), "prices");
+}
+
+function openPath(): string {
+  return path.join(candleStoreDir(), "open.json");
+}
+
+function dayFile(resolution: CandleResolution, day: string): string {
+  return path.join(candleStoreDir(), resolution, `${day}.jsonl`);
+}
+
+function openKey(resolution: CandleResolution, mint: string): string {
+  return `${resolution}:${mint}`;
+}
+
+async function readOpenCandles(): Promise<Map<string, Candle>> {
+  const raw = await fs.readFile(openPath(), "utf8").catch(() => "");
+  if (!raw) return new Map();
+  try {
+    const parsed = JSON.parse(raw) as OpenCandleStore;
+    return new Map(Object.entries(parsed.candles ?? {}));
+  } catch {
+    return new Map();
+  }
+}
+
+async function writeOpenCandles(candles: Map<string, Candle>): Promise<void> {
+  const target = openPath();
+  await fs.mkdir(path.dirname(target), { recursive: true });
+  const store: OpenCandleStore = { candles: Object.fromEntries(candles), updatedAt: new Date().toISOString() };
+  const tempPath = target + ".tmp";
+  await fs.writeFile(tempPath, JSON.stringify(store));
+  await fs.rename(tempPath, target);
+}
+
+async function appendClosed(resolution: CandleResolution, candles: Candle[]): Promise<void> {
+  const byDay = new Map<string, string[]>();
+  for (const candle of candles) {
+    const day = candle.start.slice(0, 10);
+    byDay.set(day, [...(byDay.get(day) ?? []), JSON.stringify(candle)]);
+  }
+  await fs.mkdir(path.join(candleStoreDir(), resolution), { recursive: true });
+  for (const [day, lines] of byDay) {
+    await fs.appendFile(dayFile(resolution, day), lines.join("\n") + "\n", "utf8");
+  }
+}
+
+/**
+ * Fold one round of samples into the open candle of every resolution.
+ * Candles whose period has ended, sampled this round or not, are closed
+ * and appended.
+ */
+export function recordPriceSamples(prices: Record<string, number>, atMs = Date.now()): Promise<void> {
+  writeChain = writeChain
+    .catch(() => undefined)
+    .then(async () => {
+      openCandles ??= await readOpenCandles();
+      const closed = new Map<CandleResolution, Candle[]>();
+
+      for (const [resolution, periodMs] of Object.entries(CANDLE_RESOLUTIONS) as Array<[CandleResolution, number]>) {
+        const periodStart = Math.floor(atMs / periodMs) * periodMs;
+        const ended: Candle[] = [];
+        for (const [key, candle] of openCandles) {
+          if (!key.startsWith(`${resolution}:`)) continue;
+          if (Date.parse(candle.start) + periodMs <= atMs) {
+            ended.push(candle);
+            openCandles.delete(key);
+          }
+        }
+        if (ended.length > 0) closed.set(resolution, ended);
+
+        for (const [mint, price] of Object.entries(prices)) {
+          if (!(price > 0)) continue;
+          const key = openKey(resolution, mint);
+          const candle = openCandles.get(key);
+          if (!candle) {
+            openCandles.set(key, {
+              mint,
+              start: new Date(periodStart).toISOString(),
+              open: price,
+              high: price,
+              low: price,
+              close: price,
+              samples: 1,
+            });
+            continue;
+          }
+          candle.high = Math.max(candle.high, price);
+          candle.low = Math.min(candle.low, price);
+          candle.close = price;
+          candle.samples++;
+        }
+      }
+
+      for (const [resolution, candles] of closed) await appendClosed(resolution, candles);
+      await writeOpenCandles(openCandles);
+    });
+  return writeChain;
+}
+
+// ---------------------------------------------------------------------------
+// Query
+// ---------------------------------------------------------------------------
+
+// A crash between appending a closed candle and saving open.json can store
+// one period twice; the halves are merged.
+function mergeCandle(a: Candle, b: Candle): Candle {
+  return {
+    ...a,
+    high: Math.max(a.high, b.high),
+    low: Math.min(a.low, b.low),
+    close: b.close,
+    samples: a.samples + b.samples,
+  };
+}
+
+async function readDayFile(file: string, mints: Set<string> | null): Promise<Candle[]> {
+  const raw = await fs.readFile(file, "utf8").catch(() => "");
+  const candles: Candle[] = [];
+  for (const line of raw.split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      const candle = JSON.parse(line) as Candle;
+      if (!mints || mints.has(candle.mint)) candles.push(candle);
+    } catch {
+      // torn last line after a crash
+    }
+  }
+  return candles;
+}
+
+/**
+ * Candles of one resolution, oldest first, for the given mints (all when
+ * omitted), including the periods still open. Day files outside the range
+ * are not read.
+ */
+export async function readCandles(
+  resolution: CandleResolution,
+  options: CandleQuery & { mints?: string[] } = {}
+): Promise<Candle[]> {
+  const mints = options.mints ? new Set(options.mints) : null;
+  const fromMs = options.fromMs ?? 0;
+  const toMs = options.toMs ?? Infinity;
+  const periodMs = CANDLE_RESOLUTIONS[resolution];
+
+  const files = (await fs.readdir(path.join(candleStoreDir(), resolution)).catch(() => [] as string[]))
+    .filter((name) => /^\d{4}-\d{2}-\d{2}\.jsonl$/.test(name))
+    .sort();
+  const inRange = files.filter((name) => {
+    const dayMs = Date.parse(name.slice(0, 10));
+    return dayMs + DAY_MS > fromMs && dayMs <= toMs;
+  });
+
+  // With a limit and no start, read back from the newest day until enough.
+  const chunks: Candle[][] = [];
+  let count = 0;
+  for (const name of [...inRange].reverse()) {
+    const candles = await readDayFile(path.join(candleStoreDir(), resolution, name), mints);
+    chunks.unshift(candles);
+    count += candles.length;
+    if (options.limit !== undefined && options.fromMs === undefined && count >= options.limit * (mints?.size ?? 1)) break;
+  }
+
+  const open = openCandles ?? (await readOpenCandles());
+  const pending = [...open.entries()]
+    .filter(([key, candle]) => key.startsWith(`${resolution}:`) && (!mints || mints.has(candle.mint)))
+    .map(([, candle]) => candle);
+
+  const byPeriod = new Map<string, Candle>();
+  for (const candle of [...chunks.flat(), ...pending]) {
+    const startMs = Date.parse(candle.start);
+    if (startMs + periodMs <= fromMs || startMs > toMs) continue;
+    const key = `${candle.mint}|${candle.start}`;
+    const existing = byPeriod.get(key);
+    byPeriod.set(key, existing ? mergeCandle(existing, candle) : { ...candle });
+  }
+
+  const candles = [...byPeriod.values()].sort((a, b) => a.start.localeCompare(b.start));
+  if (options.limit === undefined) return candles;
+  if (!mints || mints.size <= 1) return candles.slice(-options.limit);
+  // keep the newest `limit` per mint
+  const kept = new Map<string, Candle[]>();
+  for (const candle of candles) kept.set(candle.mint, [...(kept.get(candle.mint) ?? []), candle]);
+  return [...kept.values()]
+    .flatMap((list) => list.slice(-options.limit!))
+    .sort((a, b) => a.start.localeCompare(b.start));
+}
+
+export function queryCandles(mint: string, resolution: CandleResolution, options: CandleQuery = {}): Promise<Candle[]> {
+  return readCandles(resolution, { ...options, mints: [mint] });
+}
+
+// ---------------------------------------------------------------------------
+// Retention — whole day files go once their last period is past the
+// resolution's retention
+// ---------------------------------------------------------------------------
+
+export async function pruneCandleStore(nowMs = Date.now()): Promise<number> {
+  let removed = 0;
+  for (const resolution of Object.keys(CANDLE_RESOLUTIONS) as CandleResolution[]) {
+    const days = config.priceRecorder.retentionDays[resolution];
+    const dir = path.join(candleStoreDir(), resolution);
+    for (const name of await fs.readdir(dir).catch(() => [] as string[])) {
+      const dayMs = Date.parse(name.slice(0, 10));
+      if (!Number.isFinite(dayMs) || dayMs + DAY_MS > nowMs - days * DAY_MS) continue;
+      await fs.rm(path.join(dir, name), { force: true });
+      removed++;
+    }
+  }
+  return removed;
+}
+
+export function isCandleResolution(value: string): value is CandleResolution {
+  return value in CANDLE_RESOLUTIONS;
+}
@@ -3,10 +3,13 @@ import { randomUUID } from "node:crypto";
 import fs from "node:fs/promises";
 import os from "node:os";
 import path from "node:path";
+import { indexPath } from "ledger";
+import { queryCandles } from "./candles.js";
 import { config } from "./config.js";
 import { createLogger } from "./logger.js";
 import { loginWithOAuth } from "./auth.js";
-import type { State, TradeIntent, PerpPosition } from "./state.js";
+import type { ModelPlannerOptions, PlannerAdapter } from "./planner.js";
+import type { ExitLadderStep, ExitPlan, State, TradeIntent, PerpPosition } from "./state.js";
 import { getDriftMarket, getAvailableMarkets, getMinOrderSizes, resolveMarketName } from "./perps.js";
 
 const log = createLogger("codex");
@@ -30,9 +33,21 @@ interface CodexDecision {
   perpSide?: unknown;
   leverage?: unknown;
   collateralUsd?: unknown;
+  exitPlan?: unknown;
+  limitPriceUsd?: unknown;
 }
 
-interface CodexOutput {
+interface CodexExitPlan {
+  targetPriceUsd?: unknown;
+  stopPriceUsd?: unknown;
+  timeStopMinutes?: unknown;
+  ladder?: unknown;
+}
+
+const MAX_LADDER_STEPS = 4;
+
+// Raw planner output, before normalizeCodexOutput sanitizes it
+export interface CodexOutput {
   notes?: unknown;
   intents?: unknown;
 }
@@ -80,8 +95,8 @@ function minBigint(a: bigint, b: bigint): bigint {
   return a < b ? a : b;
 }
 
-function makeIntentId(symbol: string, action: "buy" | "sell"): string {
-  return `agentic-${Date.now()}-${symbol.toLowerCase()}-${action}-${randomUUID().slice(0, 6)}`;
+function makeIntentId(symbol: string, action: "buy" | "sell", nowMs: number): string {
+  return `agentic-${nowMs}-${symbol.toLowerCase()}-${action}-${randomUUID().slice(0, 6)}`;
 }
 
 // Reserve for tx fees + ATA rent (priority fee + base fee + potential ATA creation)
@@ -157,29 +172,82 @@ function resolveToken(decision: CodexDecision): { mint: string; symbol: string;
   return { mint, symbol: symbol || mint.slice(0, 6), decimals };
 }
 
-async function fetchPricesUsd(mints: string[]): Promise<Record<string, number>> {
-  if (mints.length === 0) return {};
-  try {
-    const url = new URL(`${config.jupiter.baseUrl}/price/v3`);
-    url.searchParams.set("ids", mints.join(","));
-    const res = await fetch(url.toString());
-    if (!res.ok) {
-      log.warn(`[Price] HTTP ${res.status}`);
-      return {};
-    }
-    const payload = (await res.json()) as Record<string, unknown>;
-    const data = (payload?.data ?? payload) as Record<string, unknown>;
-    const prices: Record<string, number> = {};
-    for (const mint of mints) {
-      const row = data[mint] as Record<string, unknown> | undefined;
-      const price = toNumber(row?.usdPrice ?? row?.price ?? row?.priceUsd ?? row?.value);
-      prices[mint] = price > 0 ? price : 0;
+/**
+ * Validate a buy's exit plan against the current price: the target and
+ * ladder steps must sit above it, the stop below it. Invalid parts are
+ * dropped with a note rather than rejecting the buy. Without a price only
+ * the shape is checked.
+ */
+function normalizeExitPlan(
+  raw: unknown,
+  priceUsd: number,
+  nowMs: number,
+  symbol: string,
+  notes: string[]
+): ExitPlan | undefined {
+  if (!raw || typeof raw !== "object") return undefined;
+  const input = raw as CodexExitPlan;
+  const dropped: string[] = [];
+
+  let targetPriceUsd: number | undefined = toNumber(input.targetPriceUsd) || undefined;
+  if (targetPriceUsd !== undefined && (targetPriceUsd <= 0 || (priceUsd > 0 && targetPriceUsd <= priceUsd))) {
+    dropped.push(`target=$${targetPriceUsd}`);
+    targetPriceUsd = undefined;
+  }
+
+  let stopPriceUsd: number | undefined = toNumber(input.stopPriceUsd) || undefined;
+  if (stopPriceUsd !== undefined && (stopPriceUsd <= 0 || (priceUsd > 0 && stopPriceUsd >= priceUsd))) {
+    dropped.push(`stop=$${stopPriceUsd}`);
+    stopPriceUsd = undefined;
+  }
+
+  const timeStopMinutes = toNumber(input.timeStopMinutes);
+  const timeStopAt = timeStopMinutes > 0
+    ? new Date(nowMs + clamp(timeStopMinutes, 1, config.maxHoldMinutes) * 60_000).toISOString()
+    : undefined;
+
+  const ladder: ExitLadderStep[] = [];
+  for (const rawStep of Array.isArray(input.ladder) ? input.ladder : []) {
+    const step = (rawStep ?? {}) as Record<string, unknown>;
+    const stepPrice = toNumber(step.priceUsd);
+    const sellPct = toNumber(step.sellPct);
+    const valid =
+      stepPrice > 0 &&
+      (priceUsd <= 0 || stepPrice > priceUsd) &&
+      (targetPriceUsd === undefined || stepPrice < targetPriceUsd) &&
+      sellPct > 0 &&
+      sellPct <= 1;
+    if (!valid || ladder.length >= MAX_LADDER_STEPS) {
+      dropped.push(`ladder@$${stepPrice}`);
+      continue;
     }
-    return prices;
-  } catch (e) {
-    log.warn(`[Price] ${e instanceof Error ? e.message : String(e)}`);
-    return {};
+    ladder.push({ priceUsd: stepPrice, sellPct });
   }
+  ladder.sort((a, b) => a.priceUsd - b.priceUsd);
+
+  if (dropped.length > 0) {
+    notes.push(`[Codex] ${symbol} exit plan: dropped ${dropped.join(", ")} (price=$${priceUsd})`);
+  }
+  if (!targetPriceUsd && !stopPriceUsd && !timeStopAt && ladder.length === 0) return undefined;
+
+  return {
+    targetPriceUsd,
+    stopPriceUsd,
+    timeStopAt,
+    ladder: ladder.length > 0 ? ladder : undefined,
+    setAt: new Date(nowMs).toISOString(),
+  };
+}
+
+function describeExitPlan(plan: ExitPlan): string {
+  const parts: string[] = [];
+  if (plan.targetPriceUsd) parts.push(`target=$${plan.targetPriceUsd}`);
+  if (plan.stopPriceUsd) parts.push(`stop=$${plan.stopPriceUsd}`);
+  if (plan.timeStopAt) parts.push(`timeStop=${plan.timeStopAt}`);
+  for (const step of plan.ladder ?? []) {
+    parts.push(`tp@$${step.priceUsd}:${(step.sellPct * 100).toFixed(0)}%${step.filledAt ? "(filled)" : ""}`);
+  }
+  return parts.join(" ");
 }
 
 function extractFirstJsonObject(text: string): string | null {
@@ -319,7 +387,7 @@ Max open perps: ${config.perps.maxOpenPerps}
 Max collateral per position: ${(config.perps.maxCollateralPct * 100).toFixed(0)}% of perp balance
 Open/close fee: ${(config.perps.openCloseFeeRate * 100).toFixed(3)}% of notional
 Hourly borrow rate: ${(config.perps.hourlyBorrowRate * 100).toFixed(4)}%
-Stop-loss / take-profit / liquidation / timeout are handled by the engine automatically.
+Stop-loss / take-profit / trailing stop / liquidation / timeout are handled by the engine automatically.
 Perp collateral is USDC. The "Perp Balance" below is your wallet USDC balance.
 If USDC balance is low and you want to open perps, buy USDC first (mint: EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v, decimals: 6) using a regular "buy" intent with SOL.
 
@@ -331,14 +399,47 @@ ${perpPositionLines.length > 0 ? perpPositionLines.join("\n") : "  (none)"}
 `;
 }
 
-export function buildPrompt(state: State, now: Date): string {
+/**
+ * Recorded candles for SOL, held tokens and the watchlist: the last hour
+ * of 5m closes and the 24h change, so the planner sees the trend without
+ * fetching history itself. Empty until the recorder has data.
+ */
+async function buildPriceHistorySection(state: State, now: Date): Promise<string> {
+  if (!config.priceRecorder.enabled) return "";
+  const mints = [...new Set([SOL_MINT, ...Object.keys(state.positions), ...config.priceRecorder.watchlist])];
+  const price = (value: number): string => `$${value.toPrecision(6)}`;
+  const change = (from: number | undefined, to: number): string =>
+    from && from > 0 ? `${to >= from ? "+" : ""}${((to / from - 1) * 100).toFixed(2)}%` : "n/a";
+
+  const lines: string[] = [];
+  for (const mint of mints) {
+    const recent = await queryCandles(mint, "5m", { toMs: now.getTime(), limit: 12 });
+    if (recent.length === 0) continue;
+    const hourly = await queryCandles(mint, "1h", { fromMs: now.getTime() - 24 * 3_600_000, toMs: now.getTime() });
+    const last = recent[recent.length - 1].close;
+    const symbol = mint === SOL_MINT ? "SOL" : (state.positions[mint]?.symbol ?? mint.slice(0, 6));
+    lines.push(
+      `  ${symbol} (${mint}): ${price(last)}, 1h ${change(recent[0].open, last)}, 24h ${change(hourly[0]?.open, last)}; ` +
+        `5m closes: ${recent.map((candle) => candle.close.toPrecision(6)).join(", ")}`
+    );
+  }
+  if (lines.length === 0) return "";
+  return `== Recorded Prices ==
+From the agent's own price recorder (oldest first). Fetch live prices before trading.
+${lines.join("\n")}
+
+`;
+}
+
+export function buildPrompt(state: State, now: Date, priceHistory = ""): string {
   const cashLamports = toBigint(state.cashLamports);
   const cashSol = Number(cashLamports) / 1_000_000_000;
   const realizedSol = Number(toBigint(state.realizedPnlLamports)) / 1_000_000_000;
 
   const positionLines = Object.values(state.positions).map((p) => {
     const qty = Number(toBigint(p.rawAmount)) / 10 ** p.decimals;
-    return `  ${p.symbol} (${p.mint}): qty=${qty}, cost=${Number(toBigint(p.costLamports)) / 1e9} SOL, opened=${p.openedAt}`;
+    const plan = p.exitPlan ? `, exitPlan: ${describeExitPlan(p.exitPlan)}` : "";
+    return `  ${p.symbol} (${p.mint}): qty=${qty}, cost=${Number(toBigint(p.costLamports)) / 1e9} SOL, opened=${p.openedAt}${plan}`;
   });
 
   return `You are a Solana trading agent for CashCat.
@@ -350,7 +451,11 @@ Cash: ${cashSol.toFixed(4)} SOL (${cashLamports.toString()} lamports)
 Realized PnL: ${realizedSol.toFixed(4)} SOL
 Open positions (${Object.keys(state.positions).length}):
 ${positionLines.length > 0 ? positionLines.join("\n") : "  (none)"}
-
+${state.breaker?.halt ? `
+== CIRCUIT BREAKER HALTED ==
+Trading was halted at ${state.breaker.halt.trippedAt}: ${state.breaker.halt.reason}.
+Buys and perp_open are rejected until an operator resets the breaker. Only sells and perp_close are executed.
+` : ""}
 == Observations ==
 Read observations.md for recent market observations.
 Each cycle, append your market observations (prices, momentum, rationale) as a new entry under "## Recent".
@@ -364,9 +469,10 @@ COMPACTION (MANDATORY — run EVERY cycle before appending):
 4. Never duplicate cycle numbers. If the current cycle number already exists, skip writing a new entry.
 After compaction, the file should stay under 120 lines total.
 
-== Trade History ==
-Read ${config.ledgerReadPath} for the full trade ledger (JSONL format).
+${priceHistory}== Trade History ==
+Read ${config.ledgerReadPath} for recent ledger events (JSONL format, the current segment only).
 Filter for type "swap_filled" and "swap_failed" entries to see past trade results.
+Older segments are gzipped next to it; ${indexPath(config.ledgerReadPath)} lists each one's time range and event counts, so only open (zcat) the segments you need.
 Each entry has: timestamp, type, payload (with intentId, txHash, inputMint, outputMint, inputAmount, outputAmount).
 Analyze wins/losses and incorporate lessons into your strategy file.
 
@@ -385,8 +491,13 @@ Returns JSON: { "<mint>": { "usdPrice": number, "priceChange24h": number, "liqui
 - Min trade: ${config.minTradeSol} SOL
 - Max open positions: ${config.maxOpenPositions}
 - Max slippage: ${config.maxSlippageBps} bps, default slippage: ${config.intentSlippageBps} bps
-- Stop-loss is handled by the engine automatically. Do NOT generate stop-loss sells.
-- Spot positions have NO hold-time limit. You decide when to sell based on market conditions.
+- Exits are enforced by the engine automatically. Do NOT generate sells for these:
+  - stop-loss at ${(config.stopLossPct * 100).toFixed(0)}% pnl
+  - take-profit at +${(config.takeProfitPct * 100).toFixed(0)}% pnl
+  - trailing stop: ${(config.trailingStopPct * 100).toFixed(0)}% below the high once up ${(config.trailingStopActivationPct * 100).toFixed(0)}%
+  - max hold: spot positions are sold after ${config.maxHoldMinutes} min
+  - your per-position exitPlan (see Output Format)
+- You may still sell earlier based on market conditions.
 - Perp positions have an engine-enforced timeout (${config.perps.maxHoldMinutes} min) due to borrow costs.
 
 ${buildPerpPromptSection(state)}== Output Format ==
@@ -402,7 +513,14 @@ Return ONLY valid JSON (no markdown, no explanation) with keys:
       "amountLamports": number,
       "slippageBps": number,
       "reason": "brief reason",
-      "confidence": 0.0-1.0${config.perps.enabled ? `,
+      "confidence": 0.0-1.0,
+      "limitPriceUsd": number,
+      "exitPlan": {
+        "targetPriceUsd": number,
+        "stopPriceUsd": number,
+        "timeStopMinutes": number,
+        "ladder": [{ "priceUsd": number, "sellPct": 0.0-1.0 }]
+      }${config.perps.enabled ? `,
       "perpMarket": "SOL-PERP",
       "perpSide": "long" | "short",
       "leverage": number,
@@ -411,7 +529,14 @@ Return ONLY valid JSON (no markdown, no explanation) with keys:
   ]
 }
 
-For buys: amountLamports is SOL amount to spend. For sells: amountLamports is raw token amount to sell.${config.perps.enabled ? `
+For buys: amountLamports is SOL amount to spend. For sells: amountLamports is raw token amount to sell.
+limitPriceUsd is optional. For buys it is the highest token price you accept; for sells it is the lowest. Each intent is re-quoted right before execution. It is rejected if the quote breaches limitPriceUsd or the price moved more than ${(config.revalidation.maxPriceMovePct * 100).toFixed(1)}% against you since planning.
+exitPlan is optional and only read on buys. Every field in it is optional:
+- targetPriceUsd: sell all at or above this price. It replaces the default take-profit.
+- stopPriceUsd: sell all at or below this price.
+- timeStopMinutes: sell all after this many minutes.
+- ladder: up to ${MAX_LADDER_STEPS} partial take-profits; each sells sellPct of the remaining position once the price is reached. The default take-profit is held off until every step has filled.
+The engine enforces the plan every ${config.stopLossIntervalSeconds}s, so you do not need to sell for it yourself. A buy of a held token with an exitPlan replaces that position's plan.${config.perps.enabled ? `
 For perp_open: perpMarket, perpSide, leverage, collateralUsd, and mint (underlying token mint) are required. amountLamports/slippageBps are ignored.
 For perp_close: only perpMarket is required.` : ""}
 If no action is warranted, return { "notes": ["reason"], "intents": [] }.
@@ -423,7 +548,7 @@ Sitting in cash while markets move is the worst outcome. Take action.`;
 }
 
 // ---------------------------------------------------------------------------
-// invokeCodex
+// codex exec planner
 // ---------------------------------------------------------------------------
 
 function isTokenError(message: string): boolean {
@@ -437,18 +562,35 @@ async function invalidateCodexAuth(): Promise<void> {
   log.info("Invalidated codex auth for re-login");
 }
 
+const OBSERVATIONS_TEMPLATE =
+  "# Market Observations\n\n## Summary\n\n(No compacted summaries yet)\n\n## Recent\n\n(No observations yet)\n";
+
+/** Create the observations.md the prompt tells Codex to read and append to, if missing. */
+export async function ensureObservationsFile(dir = process.cwd()): Promise<string> {
+  const observationsPath = path.resolve(dir, "observations.md");
+  await fs.mkdir(path.dirname(observationsPath), { recursive: true });
+  try { await fs.access(observationsPath); } catch {
+    await fs.writeFile(observationsPath, OBSERVATIONS_TEMPLATE);
+  }
+  return observationsPath;
+}
+
 async function runCodexExec(
   prompt: string,
   codexHome: string,
   outputPath: string,
-  timeoutMs: number
+  timeoutMs: number,
+  model: string | undefined,
+  cwd: string
 ): Promise<CodexOutput> {
+  // -m overrides the planner home's config.toml model
+  const modelArgs = model ? ["-m", model] : [];
   await new Promise<void>((resolve, reject) => {
     const child = spawn(
       "codex",
-      ["exec", "--full-auto", "-c", "sandbox_workspace_write.network_access=true", "--skip-git-repo-check", "-o", outputPath, prompt],
+      ["exec", "--full-auto", "-c", "sandbox_workspace_write.network_access=true", "--skip-git-repo-check", ...modelArgs, "-o", outputPath, prompt],
       {
-        cwd: process.cwd(),
+        cwd,
         env: { ...process.env, CODEX_HOME: codexHome },
         stdio: ["ignore", "pipe", "pipe"],
       }
@@ -484,33 +626,74 @@ async function runCodexExec(
   if (!outputText) {
     throw new Error("codex exec returned empty output");
   }
+  return parseCodexOutputText(outputText, "codex exec");
+}
 
+/** Planner reply text as CodexOutput, tolerating prose around the JSON object. */
+export function parseCodexOutputText(text: string, origin: string): CodexOutput {
   try {
-    return JSON.parse(outputText) as CodexOutput;
+    return JSON.parse(text) as CodexOutput;
   } catch {
-    const jsonText = extractFirstJsonObject(outputText);
+    const jsonText = extractFirstJsonObject(text);
     if (!jsonText) {
-      throw new Error(`codex exec output was not valid JSON: ${outputText.slice(0, 200)}`);
+      throw new Error(`${origin} output was not valid JSON: ${text.slice(0, 200)}`);
     }
     return JSON.parse(jsonText) as CodexOutput;
   }
 }
 
-export async function invokeCodex(
-  state: State,
-  now: Date
-): Promise<{ intents: TradeIntent[]; notes: string[] }> {
-  const prompt = buildPrompt(state, now);
+// One JSONL line per planner call, replayed by the backtester's recorded
+// planner.
+export interface RecordedCodexOutput {
+  at: string;
+  cycle: number;
+  // absent in records from before planners were pluggable (Codex)
+  planner?: string;
+  output: CodexOutput;
+}
+
+export async function recordCodexOutput(output: CodexOutput, state: State, now: Date, planner: string): Promise<void> {
+  if (!config.codexRecordPath) return;
+  const record: RecordedCodexOutput = { at: now.toISOString(), cycle: state.cycle, planner, output };
+  try {
+    await fs.mkdir(path.dirname(config.codexRecordPath), { recursive: true });
+    await fs.appendFile(config.codexRecordPath, JSON.stringify(record) + "\n", "utf8");
+  } catch (e) {
+    log.warn(`Codex output record failed: ${e instanceof Error ? e.message : String(e)}`);
+  }
+}
+
+/** The full planner prompt, recorded price history included. */
+export async function buildPlannerPrompt(state: State, now: Date, appendix = ""): Promise<string> {
+  const prompt = buildPrompt(state, now, await buildPriceHistorySection(state, now));
+  return appendix ? `${prompt}\n${appendix.trim()}\n` : prompt;
+}
+
+/**
+ * Mints the output wants to buy that the state does not hold, so they can
+ * be priced and their exit plans checked.
+ */
+export function plannedBuyMints(output: CodexOutput, state: State): string[] {
+  const mints = (Array.isArray(output.intents) ? output.intents : [])
+    .map((item) => resolveToken((item ?? {}) as CodexDecision)?.mint)
+    .filter((mint): mint is string => !!mint && !state.positions[mint]);
+  return [...new Set(mints)];
+}
+
+async function proposeWithCodexExec(state: State, now: Date, options: ModelPlannerOptions): Promise<CodexOutput> {
+  const prompt = await buildPlannerPrompt(state, now, options.promptAppendix);
   const timeoutMs = config.codexTimeoutSeconds * 1000;
 
   const tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), "cashcat-codex-planner-"));
   const outputPath = path.join(tmpDir, "output.json");
+  // The prompt has Codex edit observations.md in its working directory.
+  const cwd = options.workDir ?? process.cwd();
+  if (options.workDir) await ensureObservationsFile(cwd);
 
-  let raw: CodexOutput;
   try {
     const codexHome = await prepareCodexHome();
     try {
-      raw = await runCodexExec(prompt, codexHome, outputPath, timeoutMs);
+      return await runCodexExec(prompt, codexHome, outputPath, timeoutMs, options.model, cwd);
     } catch (e) {
       const message = e instanceof Error ? e.message : String(e);
       if (!isTokenError(message)) throw e;
@@ -519,16 +702,19 @@ export async function invokeCodex(
       log.warn("Codex token error, re-authenticating...");
       await invalidateCodexAuth();
       const freshHome = await prepareCodexHome();
-      raw = await runCodexExec(prompt, freshHome, outputPath, timeoutMs);
+      return await runCodexExec(prompt, freshHome, outputPath, timeoutMs, options.model, cwd);
     }
   } finally {
     await fs.rm(tmpDir, { recursive: true, force: true });
   }
+}
 
-  const positionMints = Object.keys(state.positions);
-  const prices = await fetchPricesUsd([SOL_MINT, ...positionMints]);
-  const solPriceUsd = prices[SOL_MINT] ?? 0;
-  return normalizeCodexOutput(raw, state, now, solPriceUsd, prices);
+/** The `codex exec` CLI, re-authenticating once on a token error. */
+export function codexExecPlanner(options: ModelPlannerOptions = {}): PlannerAdapter {
+  return {
+    name: "codex-agent",
+    propose: ({ state, now }) => proposeWithCodexExec(state, now, options),
+  };
 }
 
 // ---------------------------------------------------------------------------
@@ -541,7 +727,8 @@ function normalizePerpDecision(
   state: State,
   nowMs: number,
   minGapMs: number,
-  notes: string[]
+  notes: string[],
+  planner: string
 ): TradeIntent | null {
   if (!config.perps.enabled) return null;
 
@@ -579,14 +766,14 @@ function normalizePerpDecision(
     notes.push(`[Codex] PERP_CLOSE ${market}${reason ? ` reason=${reason}` : ""}`);
 
     return {
-      id: `agentic-${Date.now()}-${market.toLowerCase()}-perp_close-${randomUUID().slice(0, 6)}`,
+      id: `agentic-${nowMs}-${market.toLowerCase()}-perp_close-${randomUUID().slice(0, 6)}`,
       action: "perp_close",
       inputMint: pos.underlyingMint,
       outputMint: "",
       amountLamports: 0,
       slippageBps: 0,
       metadata: {
-        planner: "codex-agent",
+        planner,
         perpMarket: market,
         reason,
         confidence,
@@ -647,14 +834,14 @@ function normalizePerpDecision(
   );
 
   return {
-    id: `agentic-${Date.now()}-${market.toLowerCase()}-perp_open-${randomUUID().slice(0, 6)}`,
+    id: `agentic-${nowMs}-${market.toLowerCase()}-perp_open-${randomUUID().slice(0, 6)}`,
     action: "perp_open",
     inputMint: mint,
     outputMint: "",
     amountLamports: 0,
     slippageBps: 0,
     metadata: {
-      planner: "codex-agent",
+      planner,
       perpMarket: market,
       perpSide: side,
       leverage,
@@ -666,15 +853,18 @@ function normalizePerpDecision(
 }
 
 // ---------------------------------------------------------------------------
-// normalizeCodexOutput — sanitize + clamp codex decisions
+// normalizeCodexOutput — sanitize + clamp codex decisions. Pure given the
+// prices, so the backtester runs recorded and scripted decisions through
+// the same sizing rules.
 // ---------------------------------------------------------------------------
 
-function normalizeCodexOutput(
+export function normalizeCodexOutput(
   output: CodexOutput,
   state: State,
   now: Date,
   solPriceUsd: number,
-  prices: Record<string, number>
+  prices: Record<string, number>,
+  planner = "codex-agent"
 ): { intents: TradeIntent[]; notes: string[] } {
   const notes: string[] = [];
   const modelNotes = Array.isArray(output.notes)
@@ -704,7 +894,7 @@ function normalizeCodexOutput(
 
     // Handle perp intents separately
     if (action === "perp_open" || action === "perp_close") {
-      const perpIntent = normalizePerpDecision(decision, action, state, nowMs, minGapMs, notes);
+      const perpIntent = normalizePerpDecision(decision, action, state, nowMs, minGapMs, notes, planner);
       if (perpIntent) intents.push(perpIntent);
       continue;
     }
@@ -722,25 +912,38 @@ function normalizeCodexOutput(
     const reason = typeof decision.reason === "string" ? decision.reason.trim() : "";
     const confidence = clamp(toNumber(decision.confidence), 0, 1);
 
+    // Reference prices for the pre-execution quote check
+    const plannedPriceUsd = prices[token.mint] ?? 0;
+    const limitPriceUsd = toNumber(decision.limitPriceUsd);
+    const planning = {
+      ...(plannedPriceUsd > 0 ? { plannedPriceUsd } : {}),
+      ...(solPriceUsd > 0 ? { plannedSolPriceUsd: solPriceUsd } : {}),
+      ...(limitPriceUsd > 0 ? { limitPriceUsd } : {}),
+    };
+
     if (action === "buy") {
       if (openPositions >= config.maxOpenPositions) continue;
 
       const amount = normalizeBuyLamports(decision.amountLamports, simulatedCash);
       if (amount <= 0n) continue;
 
+      const exitPlan = normalizeExitPlan(decision.exitPlan, prices[token.mint] ?? 0, nowMs, token.symbol, notes);
+
       intents.push({
-        id: makeIntentId(token.symbol, "buy"),
+        id: makeIntentId(token.symbol, "buy", nowMs),
         action: "buy",
         inputMint: SOL_MINT,
         outputMint: token.mint,
         amountLamports: Number(amount),
         slippageBps,
         metadata: {
-          planner: "codex-agent",
+          planner,
           tokenSymbol: token.symbol,
           decimals: token.decimals,
           reason,
           confidence,
+          ...planning,
+          ...(exitPlan ? { exitPlan } : {}),
         },
       });
 
@@ -748,7 +951,7 @@ function normalizeCodexOutput(
       openPositions++;
       state.lastIntentAt[token.mint] = nowMs;
       notes.push(
-        `[Codex] BUY ${token.symbol} amount=${(Number(amount) / 1_000_000_000).toFixed(3)} SOL${reason ? ` reason=${reason}` : ""}`
+        `[Codex] BUY ${token.symbol} amount=${(Number(amount) / 1_000_000_000).toFixed(3)} SOL${exitPlan ? ` exitPlan: ${describeExitPlan(exitPlan)}` : ""}${reason ? ` reason=${reason}` : ""}`
       );
       continue;
     }
@@ -775,17 +978,19 @@ function normalizeCodexOutput(
     if (sellRaw <= 0n) continue;
 
     intents.push({
-      id: makeIntentId(token.symbol, "sell"),
+      id: makeIntentId(token.symbol, "sell", nowMs),
       action: "sell",
       inputMint: token.mint,
       outputMint: SOL_MINT,
       amountLamports: Number(sellRaw),
       slippageBps,
       metadata: {
-        planner: "codex-agent",
+        planner,
         tokenSymbol: token.symbol,
+        decimals: position.decimals,
         reason,
         confidence,
+        ...planning,
       },
     });
 
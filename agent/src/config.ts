@@ -16,6 +16,30 @@ function clamp(value: number, min: number, max: number): number {
   return value;
 }
 
+// Pyth sponsored price update accounts (shard 0) for SOL and the Drift perp
+// underlyings; RUNTIME_PRICE_PYTH_FEEDS entries override or extend these
+const DEFAULT_PYTH_FEEDS: Record<string, string> = {
+  So11111111111111111111111111111111111111112: "7UVimffxr9ow1uXYxsr4LHAcV58mLzhmwaeKvJ1pjLiE", // SOL
+  "3NZ9JMVBmGAqocybic2c7LQCJScmgsAZ6vQqTDzcqmJh": "4cSM2e6rvbGQUFiJbqytoVMi5GgghSMr8LwVrT9VPSPo", // BTC
+  "7vfCXTUXx5WJV5JADk17DUJ4ksgau7utNKj4b963voxs": "42amVS4KgzR9rA28tkVYqVXjq9Qa8dcZQMbH5EYFX6XC", // ETH
+  DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263: "DBE3N8uNjhKPRHfANdwGvCZghWXyLPdqdSbEW2XFwBiX", // BONK
+  HRQke5DKdDo3jV7ja6Vs9eqrzMFqiGuMsTCCTUBCUdax: "3adfGDsTjqC55Mw5MfzpcLpNMKGGPBwc9M8xAYq4VEQe", // PEPE
+  WENWENvqqNya429ubCdR81ZmD69brwQaaBYY6p3LCpk: "CsG7wXoqZKNxx4UnFtvozfwXQ9RgpKe7zSJa4LWh5MT9", // WEN
+  "85VBFQZC9TZkfaptBWjvUw7YbZjy52A6mjtPGjstQAmQ": "BEMsCSQEGi2kwPA4mKnGjxnreijhMki7L4eeb96ypzF9", // W
+  TNSRxcUxoT9xBG3de7PiJyTDYu7kskLqcpddxnEJAS6: "9TSGDwcPQX4JpAvZbu2Wp5b68wSYkQvHCvfeBjYcCyC", // TNSR
+  jtojtomepa8beP8AuQc6eXt5FriJwfFMwQx2v2f9mCL: "7ajR2zA4MGMMTqRAVjghTKqPPn4kbrj3pYkAVRVwTGzP", // JTO
+  EKpQGSJtjMFqKZ9KQanSqYXRcF8fBopzLHYxdM65zcjm: "6B23K3tkb51vLZA14jcEQVCA1pfHptzEHFA93V5dYwbT", // WIF
+  JUPyiwrYJFskUPiHa7hkeR8VUtAeFoSYbKedZNsDvCN: "7dbob1psH1iZBS7qPsm3Kwbf5DzSXK8Jyg31CTgTnxH5", // JUP
+  rndrizKT3MK1iimdxRdWabcF7Zg7AR5T4nud4EkHBof: "HAm5DZhrgrWa12heKSxocQRyJWGCtXegC77hFQ8F5QTH", // RENDER
+  HZ1JovNiVvGrGNiiYvEozEVgZ58xaU3RKwX8eACQBCt3: "8vjchtMuJNY4oFQdTi8yCe6mhCaNBFaUbktT482TpLPS", // PYTH
+  hntyVP6YFm1Hg25TN9WGLqM12b8TQmcknKrdu1oxWux: "4DdmDswskDxXGpwHrXUfn2CNUm9rt21ac79GHNTN3J33", // HNT
+  "6McPRfPV6bY1e9hLxWyG54W9i9Epq75QBvXg2oetBVTB": "GwXYEfmPdgHcowF9GZwbb1WiTGTn1fuT3hbSLneoBKK6", // INJ
+  "2zMMhcVQEXDtdE6vsFS7S7D5oUodfJHE8vd1gnBouauv": "27zzC5wXCeZeuJ3h9uAJzV5tGn6r5Tzo98S1ZceYKEb8", // PENGU
+  HeLp6NuQkmYB4pYWo2zYs22mESHXPQYzXbB8n4V98jwC: "BxizdE1Rd9yeCXUaorGNGLc4qHbqBULxiBtjRX37HjSV", // AI16Z
+  "6p6xgHyF7AeE6TZkSmFsko444wqoP15icUSqi2jfGiPN": "9vNb2tQoZ8bB4vzMbQLWViGwNaDJVtct13AGgno1wazp", // TRUMP
+  FUAfBo2jgks6gB4Z4LfZkqSZgzNucisEHqnNebaRxM1P: "2TMgfCHLiEdG8mQSWRMzAAo5oYdngFqfxAm1hcVoNrGC", // MELANIA
+};
+
 export const config = {
   scanIntervalSeconds: Number(process.env.SCAN_INTERVAL_SECONDS) || 90,
   stopLossIntervalSeconds: Math.max(5, Math.floor(
@@ -35,6 +59,11 @@ export const config = {
   maxSlippageBps: Number(process.env.RUNTIME_MAX_SLIPPAGE_BPS) || 300,
   stopLossPct: parseNumber(process.env.RUNTIME_AGENTIC_STOP_LOSS_PCT, -0.10),
   takeProfitPct: parseNumber(process.env.RUNTIME_AGENTIC_TAKE_PROFIT_PCT, 0.15),
+  // Trailing stop: once a position has been up trailingStopActivationPct,
+  // exit when the price falls trailingStopPct from its high-water mark.
+  // 0 disables.
+  trailingStopPct: Math.max(0, parseNumber(process.env.RUNTIME_AGENTIC_TRAILING_STOP_PCT, 0.08)),
+  trailingStopActivationPct: Math.max(0, parseNumber(process.env.RUNTIME_AGENTIC_TRAILING_STOP_ACTIVATION_PCT, 0.05)),
   maxHoldMinutes: Math.max(5, Math.floor(parseNumber(process.env.RUNTIME_AGENTIC_MAX_HOLD_MINUTES, 480))),
   maxOpenPositions: Math.max(1, Math.floor(parseNumber(process.env.RUNTIME_AGENTIC_MAX_OPEN_POSITIONS, 5))),
   minTradeSol: Math.max(0.001, parseNumber(process.env.RUNTIME_AGENTIC_MIN_TRADE_SOL, 0.1)),
@@ -47,6 +76,41 @@ export const config = {
   statePath: parseOptional(process.env.RUNTIME_AGENTIC_STATE_PATH) ?? "/tmp/cashcat-runtime/agentic-state/state.json",
   codexModel: parseOptional(process.env.RUNTIME_CODEX_MODEL) ?? "gpt-5.1-codex-mini",
   codexTimeoutSeconds: Math.max(30, Math.floor(parseNumber(process.env.RUNTIME_AGENTIC_CODEX_TIMEOUT_SECONDS, 300))),
+  // Raw Codex outputs are appended here for backtest replay; empty disables
+  codexRecordPath: parseOptional(process.env.RUNTIME_CODEX_RECORD_PATH) ?? "",
+  planner: {
+    // codex (codex exec) | openai (Responses API) | rules | scripted
+    name: parseOptional(process.env.RUNTIME_PLANNER) ?? "codex",
+    openai: {
+      baseUrl: parseOptional(process.env.RUNTIME_OPENAI_BASE_URL) ?? "https://api.openai.com/v1",
+      model: parseOptional(process.env.RUNTIME_OPENAI_MODEL)
+        ?? parseOptional(process.env.RUNTIME_CODEX_MODEL)
+        ?? "gpt-5.1-codex-mini",
+    },
+    // momentum entries; exits are left to the safety rules
+    rules: {
+      mints: (process.env.RUNTIME_PLANNER_RULES_MINTS ?? "").split(",").map((mint) => mint.trim()).filter(Boolean),
+      lookbackMinutes: Math.max(1, parseNumber(process.env.RUNTIME_PLANNER_RULES_LOOKBACK_MINUTES, 60)),
+      entryPct: parseNumber(process.env.RUNTIME_PLANNER_RULES_ENTRY_PCT, 0.05),
+      amountSol: Math.max(0.001, parseNumber(process.env.RUNTIME_PLANNER_RULES_AMOUNT_SOL, 0.5)),
+    },
+    // steps JSON (`[{ at, intents, notes? }]`) or a RUNTIME_CODEX_RECORD_PATH file
+    scriptPath: parseOptional(process.env.RUNTIME_PLANNER_SCRIPT_PATH) ?? "",
+  },
+  // Extra planners run each cycle without executing; their intents are
+  // marked to market at each horizon in the shadow ledger. Empty disables.
+  shadow: {
+    // planner specs as for RUNTIME_PLANNER, optionally with a model (openai:gpt-5.1)
+    planners: (process.env.RUNTIME_SHADOW_PLANNERS ?? "").split(",").map((spec) => spec.trim()).filter(Boolean),
+    horizonsMinutes: (process.env.RUNTIME_SHADOW_HORIZONS_MINUTES ?? "15,60,240")
+      .split(",")
+      .map((minutes) => Math.floor(Number(minutes)))
+      .filter((minutes) => Number.isFinite(minutes) && minutes > 0),
+    // defaults to shadow-ledger.jsonl next to the state file
+    ledgerPath: parseOptional(process.env.RUNTIME_SHADOW_LEDGER_PATH) ?? "",
+    // appended to the prompt of shadow codex/openai planners
+    promptAppendixPath: parseOptional(process.env.RUNTIME_SHADOW_PROMPT_APPENDIX_PATH) ?? "",
+  },
   ledgerReadPath: parseOptional(process.env.WALLET_MCP_LEDGER_PATH) ?? "/tmp/cashcat-runtime/wallet-mcp/ledger.jsonl",
   dashboardPort: Number(process.env.DASHBOARD_PORT) || 8787,
   solanaWalletAddress: parseOptional(process.env.SOLANA_WALLET_ADDRESS) ?? "",
@@ -55,6 +119,68 @@ export const config = {
     maxRetries: 2,           // max retries: original → 1/2 → 1/4
     minAmountLamports: 1000, // give up below this
   },
+  // Pre-execution quote check for planner intents (safety exits are quoted
+  // but never blocked). Price impact is a fraction, as Jupiter reports it.
+  revalidation: {
+    enabled: process.env.RUNTIME_REVALIDATE_ENABLED !== "false",
+    maxPriceMovePct: Math.max(0, parseNumber(process.env.RUNTIME_REVALIDATE_MAX_PRICE_MOVE_PCT, 0.03)),
+    maxPriceImpactPct: Math.max(0, parseNumber(process.env.RUNTIME_REVALIDATE_MAX_PRICE_IMPACT_PCT, 0.01)),
+    maxResizes: Math.max(0, Math.floor(parseNumber(process.env.RUNTIME_REVALIDATE_MAX_RESIZES, 2))),
+  },
+  // Write-ahead journal of swap intents, resumed on startup
+  journal: {
+    // defaults to journal.json next to the state file
+    path: parseOptional(process.env.RUNTIME_JOURNAL_PATH) ?? "",
+    // Unresolved entries older than this are abandoned during recovery
+    staleSeconds: Math.max(30, Math.floor(parseNumber(process.env.RUNTIME_JOURNAL_STALE_SECONDS, 180))),
+    retentionDays: Math.max(1, Math.floor(parseNumber(process.env.RUNTIME_JOURNAL_RETENTION_DAYS, 7))),
+  },
+  // Drawdown circuit breaker. Each limit set to 0 is disabled.
+  breaker: {
+    maxDrawdownPct: clamp(parseNumber(process.env.RUNTIME_BREAKER_MAX_DRAWDOWN_PCT, 0.20), 0, 1),
+    maxDailyLossPct: clamp(parseNumber(process.env.RUNTIME_BREAKER_MAX_DAILY_LOSS_PCT, 0.10), 0, 1),
+    maxConsecutiveLosses: Math.max(0, Math.floor(parseNumber(process.env.RUNTIME_BREAKER_MAX_CONSECUTIVE_LOSSES, 5))),
+    // Operator reset request file; defaults to breaker-reset.json next to the state file
+    resetPath: parseOptional(process.env.RUNTIME_BREAKER_RESET_PATH) ?? "",
+  },
+  // Background price sampling into 1m/5m/1h candles (candles.ts)
+  prices: {
+    // priority order; the first source that has a mint is its primary
+    sources: (process.env.RUNTIME_PRICE_SOURCES ?? "jupiter,drift,pyth")
+      .split(",")
+      .map((name) => name.trim())
+      .filter(Boolean),
+    // consensus prices are shared across callers for this long
+    cacheTtlMs: Math.max(0, Math.floor(parseNumber(process.env.RUNTIME_PRICE_CACHE_TTL_MS, 2000))),
+    // quotes older than this are dropped before consensus
+    maxAgeSeconds: Math.max(1, parseNumber(process.env.RUNTIME_PRICE_MAX_AGE_SECONDS, 60)),
+    // quotes further than this from the median are rejected as outliers
+    maxDeviationPct: clamp(parseNumber(process.env.RUNTIME_PRICE_MAX_DEVIATION_PCT, 0.02), 0.001, 0.5),
+    sourceTimeoutMs: Math.max(500, Math.floor(parseNumber(process.env.RUNTIME_PRICE_SOURCE_TIMEOUT_MS, 5000))),
+    // <mint>=<Pyth price update account>, comma-separated, over the defaults
+    pythFeeds: {
+      ...DEFAULT_PYTH_FEEDS,
+      ...(Object.fromEntries(
+        (process.env.RUNTIME_PRICE_PYTH_FEEDS ?? "")
+          .split(",")
+          .map((pair) => pair.split("=").map((part) => part.trim()))
+          .filter((parts) => parts.length === 2 && parts[0] && parts[1])
+      ) as Record<string, string>),
+    },
+  },
+  priceRecorder: {
+    enabled: process.env.RUNTIME_PRICE_RECORDER_ENABLED !== "false",
+    intervalSeconds: Math.max(5, Math.floor(parseNumber(process.env.RUNTIME_PRICE_RECORDER_INTERVAL_SECONDS, 15))),
+    // defaults to prices/ next to the state file
+    dir: parseOptional(process.env.RUNTIME_PRICE_STORE_DIR) ?? "",
+    // mints sampled besides SOL, held tokens and perp underlyings
+    watchlist: (process.env.RUNTIME_PRICE_WATCHLIST ?? "").split(",").map((mint) => mint.trim()).filter(Boolean),
+    retentionDays: {
+      "1m": Math.max(1, parseNumber(process.env.RUNTIME_PRICE_RETENTION_1M_DAYS, 2)),
+      "5m": Math.max(1, parseNumber(process.env.RUNTIME_PRICE_RETENTION_5M_DAYS, 30)),
+      "1h": Math.max(1, parseNumber(process.env.RUNTIME_PRICE_RETENTION_1H_DAYS, 365)),
+    },
+  },
   perps: {
     enabled: process.env.RUNTIME_PERPS_ENABLED === "true",
     initialBalanceUsd: parseNumber(process.env.RUNTIME_PERPS_INITIAL_BALANCE_USD, 500),
@@ -62,6 +188,10 @@ export const config = {
     maxOpenPerps: 3,
     stopLossPct: -0.15,
     takeProfitPct: 0.20,
+    // Mark retrace from the high-water mark, armed once pnl on collateral
+    // has reached trailingStopActivationPct.
+    trailingStopPct: 0.03,
+    trailingStopActivationPct: 0.10,
     maxHoldMinutes: 480,
     maxCollateralPct: 0.30,
     openCloseFeeRate: 0.0007,
@@ -0,0 +1,262 @@
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import type { LedgerEnvelope, LedgerEvent, LedgerEventType, SwapFilledPayload } from "ledger";
+import { config } from "./config.js";
+import { readLedgerEvents } from "./ledger.js";
+import { createLogger } from "./logger.js";
+import type { TradeIntent, TradeResult } from "./state.js";
+import { getTx } from "./wallet.js";
+
+const log = createLogger("journal");
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+// planned: accepted for execution, nothing sent to wallet-mcp yet
+// submitted: wallet_execute_swap was called for attemptId
+// confirmed: the swap filled; result is set but not yet booked in state
+// applied: the fill is booked in a saved state (terminal)
+// failed / abandoned: nothing to book (terminal)
+export type JournalStatus = "planned" | "submitted" | "confirmed" | "failed" | "applied" | "abandoned";
+
+export interface JournalEntry {
+  intentId: string;
+  // intentId, or `${intentId}-retryN` once slippage retries start
+  attemptId: string;
+  intent: TradeIntent;
+  amountLamports: number;
+  status: JournalStatus;
+  quoteId?: string;
+  quotedOutAmount?: string;
+  txHash?: string;
+  result?: TradeResult;
+  note?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface JournalStore {
+  entries: Record<string, JournalEntry>;
+  updatedAt: string;
+}
+
+export type Resolution =
+  | { outcome: "filled"; result: TradeResult; source: "ledger" | "tx_status" }
+  | { outcome: "failed"; error: string }
+  | { outcome: "abandoned"; note: string }
+  | { outcome: "pending"; note: string };
+
+// ---------------------------------------------------------------------------
+// Store
+// ---------------------------------------------------------------------------
+
+let store: JournalStore = { entries: {}, updatedAt: new Date().toISOString() };
+
+// Writes are chained so concurrent updates cannot rename over each other.
+let persistChain: Promise<void> = Promise.resolve();
+
+export function journalPath(): string {
+  return config.journal.path || path.join(path.dirname(config.statePath), "journal.json");
+}
+
+function persistStore(): Promise<void> {
+  const storePath = journalPath();
+  persistChain = persistChain
+    .catch(() => undefined)
+    .then(async () => {
+      store.updatedAt = new Date().toISOString();
+      await fs.mkdir(path.dirname(storePath), { recursive: true });
+      const tempPath = storePath + ".tmp";
+      await fs.writeFile(tempPath, JSON.stringify(store, null, 2));
+      await fs.rename(tempPath, storePath);
+    });
+  return persistChain;
+}
+
+function isTerminal(entry: JournalEntry): boolean {
+  return entry.status === "applied" || entry.status === "failed" || entry.status === "abandoned";
+}
+
+function pruneStore(nowMs: number): void {
+  const cutoff = nowMs - config.journal.retentionDays * DAY_MS;
+  for (const [id, entry] of Object.entries(store.entries)) {
+    if (isTerminal(entry) && Date.parse(entry.updatedAt) < cutoff) delete store.entries[id];
+  }
+}
+
+export async function loadJournal(): Promise<void> {
+  const raw = await fs.readFile(journalPath(), "utf8").catch(() => "");
+  if (raw) {
+    try {
+      const parsed = JSON.parse(raw) as JournalStore;
+      if (parsed.entries && typeof parsed.entries === "object") {
+        store = { entries: parsed.entries, updatedAt: parsed.updatedAt };
+      }
+    } catch (e) {
+      log.warn(`Journal unreadable, starting empty: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }
+  pruneStore(Date.now());
+  await persistStore();
+}
+
+export function unresolvedEntries(): JournalEntry[] {
+  return Object.values(store.entries)
+    .filter((entry) => !isTerminal(entry))
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+async function update(intentId: string, patch: Partial<JournalEntry>): Promise<void> {
+  const entry = store.entries[intentId];
+  if (!entry) return;
+  Object.assign(entry, patch, { updatedAt: new Date().toISOString() });
+  await persistStore();
+}
+
+// ---------------------------------------------------------------------------
+// Lifecycle — each step is persisted before the caller moves on
+// ---------------------------------------------------------------------------
+
+export async function journalPlanned(
+  intent: TradeIntent,
+  amountLamports: number,
+  quote?: { quoteId: string; outAmount: string }
+): Promise<void> {
+  const now = new Date().toISOString();
+  store.entries[intent.id] = {
+    intentId: intent.id,
+    attemptId: intent.id,
+    intent,
+    amountLamports,
+    status: "planned",
+    quoteId: quote?.quoteId,
+    quotedOutAmount: quote?.outAmount,
+    createdAt: now,
+    updatedAt: now,
+  };
+  await persistStore();
+}
+
+export async function journalSubmitted(intentId: string, attemptId: string, amountLamports: number): Promise<void> {
+  const entry = store.entries[intentId];
+  // Retries are unquoted, so the first quote no longer describes the attempt.
+  const requoted = entry && attemptId !== entry.attemptId;
+  await update(intentId, {
+    status: "submitted",
+    attemptId,
+    amountLamports,
+    ...(requoted ? { quoteId: undefined, quotedOutAmount: undefined } : {}),
+  });
+}
+
+export async function journalSettled(intentId: string, result: TradeResult): Promise<void> {
+  await update(intentId, {
+    status: result.success ? "confirmed" : "failed",
+    txHash: result.txHash,
+    result,
+  });
+}
+
+export async function journalApplied(intentId: string, note?: string): Promise<void> {
+  await update(intentId, { status: "applied", ...(note ? { note } : {}) });
+}
+
+export async function journalFailed(intentId: string, error: string): Promise<void> {
+  await update(intentId, { status: "failed", note: error });
+}
+
+export async function journalAbandoned(intentId: string, note: string): Promise<void> {
+  await update(intentId, { status: "abandoned", note });
+}
+
+// ---------------------------------------------------------------------------
+// Recovery — what became of an entry a previous process left unresolved.
+// wallet-mcp logs intent_submitted as soon as a transaction is broadcast
+// and swap_filled / swap_failed / swap_rejected when the call finishes.
+// ---------------------------------------------------------------------------
+
+/**
+ * Ledger events for the given attempt ids, oldest first. `since` (the
+ * oldest entry's creation) lets the read skip rotated segments.
+ */
+export async function readAttemptEvents(attemptIds: string[], since?: string): Promise<Map<string, LedgerEvent[]>> {
+  const events = new Map<string, LedgerEvent[]>();
+  for (const event of await readLedgerEvents({ intentIds: attemptIds, since })) {
+    const intentId = (event.payload as { intentId?: string }).intentId ?? "";
+    const list = events.get(intentId) ?? [];
+    list.push(event);
+    events.set(intentId, list);
+  }
+  return events;
+}
+
+function findEvent<K extends LedgerEventType>(events: LedgerEvent[], type: K): LedgerEnvelope<K> | undefined {
+  return events.find((e): e is LedgerEnvelope<K> & LedgerEvent => e.type === type);
+}
+
+function resultFromFill(fill: SwapFilledPayload): TradeResult {
+  return {
+    success: true,
+    txHash: fill.txHash,
+    inputAmount: fill.inputAmount,
+    outputAmount: fill.outputAmount,
+    quotedOutputAmount: fill.quotedOutputAmount,
+    realizedSlippageBps: fill.realizedSlippageBps,
+  };
+}
+
+export async function resolveEntry(
+  entry: JournalEntry,
+  events: LedgerEvent[],
+  nowMs = Date.now()
+): Promise<Resolution> {
+  if (entry.status === "confirmed" && entry.result) {
+    return { outcome: "filled", result: entry.result, source: "ledger" };
+  }
+  if (entry.status === "planned") {
+    return { outcome: "abandoned", note: "never submitted" };
+  }
+
+  const fill = findEvent(events, "swap_filled");
+  if (fill) return { outcome: "filled", result: resultFromFill(fill.payload), source: "ledger" };
+
+  const failed = findEvent(events, "swap_failed");
+  if (failed) return { outcome: "failed", error: failed.payload.error };
+  const rejected = findEvent(events, "swap_rejected");
+  if (rejected) return { outcome: "failed", error: rejected.payload.reason };
+
+  const stale = nowMs - Date.parse(entry.updatedAt) >= config.journal.staleSeconds * 1000;
+  const submitted = findEvent(events, "intent_submitted");
+  if (!submitted) {
+    return stale
+      ? { outcome: "abandoned", note: "no broadcast recorded by wallet-mcp" }
+      : { outcome: "pending", note: "waiting for wallet-mcp to record the attempt" };
+  }
+
+  const txHash = submitted.payload.txHash;
+  const tx = await getTx(txHash);
+  if (tx.found && tx.error) return { outcome: "failed", error: `tx ${txHash} failed on-chain` };
+  if (tx.found) {
+    // The call died after broadcast, so only the quote says what filled.
+    if (!entry.quotedOutAmount) {
+      return { outcome: "abandoned", note: `tx ${txHash} landed without a quote to book it from; balances reconcile next cycle` };
+    }
+    return {
+      outcome: "filled",
+      result: {
+        success: true,
+        txHash,
+        inputAmount: String(entry.amountLamports),
+        outputAmount: entry.quotedOutAmount,
+        quotedOutputAmount: entry.quotedOutAmount,
+      },
+      source: "tx_status",
+    };
+  }
+  return stale
+    ? { outcome: "abandoned", note: `tx ${txHash} not found after ${config.journal.staleSeconds}s` }
+    : { outcome: "pending", note: `tx ${txHash} not found yet` };
+}
@@ -0,0 +1,19 @@
+import { createLedgerWriter, readLedger } from "ledger";
+import type { LedgerEvent, LedgerEventMap, LedgerEventType, LedgerFilter } from "ledger";
+import { config } from "./config.js";
+
+export type { LedgerEvent } from "ledger";
+
+// The agent books into wallet-mcp's ledger, so both writers share its lock.
+const writer = createLedgerWriter({ path: config.ledgerReadPath, writer: "agent" });
+
+export async function appendLedgerEvent<K extends LedgerEventType>(
+  type: K,
+  payload: LedgerEventMap[K]
+): Promise<void> {
+  await writer.append(type, payload);
+}
+
+export function readLedgerEvents(filter?: LedgerFilter): Promise<LedgerEvent[]> {
+  return readLedger(config.ledgerReadPath, filter);
+}
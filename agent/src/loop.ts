@@ -2,72 +2,130 @@ import fs from "node:fs/promises";
 import path from "node:path";
 import { config } from "./config.js";
 import { createLogger } from "./logger.js";
-import { loadState, saveState, applyResult, applyPerpOpen, applyPerpClose, writeOffPerp, reconcileSpotPositions, getSummary } from "./state.js";
-import type { State, TradeIntent } from "./state.js";
-import { getBalance, executeSwap, signAndSendTransaction } from "./wallet.js";
-import type { TradeOrder } from "./wallet.js";
-import { buildOpenPositionTx, buildClosePositionTx, buildInitializeUserTx, getUsdcBalanceUsd, getAllSplTokenBalances } from "./perps.js";
-import { checkStopLoss, checkPerpStopLoss, checkPerpWriteOffs, validateIntent } from "./safety.js";
-import { invokeCodex } from "./codex.js";
+import { fetchPriceUsd } from "./prices.js";
+import { loadState, saveState, applyResult, applyPerpOpen, applyPerpClose, writeOffPerp, reconcileSpotPositions, getSummary, isIntentApplied, markIntentApplied } from "./state.js";
+import type { BreakerHalt, State, TradeIntent, TradeResult } from "./state.js";
+import { getBalance, getTokenBalances, getQuote, executeSwap, signAndSendTransaction, stopWalletMcp } from "./wallet.js";
+import type { SwapQuote, TradeOrder } from "./wallet.js";
+import { buildOpenPositionTx, buildClosePositionTx, buildInitializeUserTx, getUsdcBalanceUsd } from "./perps.js";
+import { checkQuote, checkStopLoss, checkPerpStopLoss, checkPerpWriteOffs, revalidatePlannedIntent, validateIntent } from "./safety.js";
+import { adjustBreakerForTransfer, breakerBlocks, clearBreakerResetRequest, consumeBreakerReset, fetchEquityUsd, recordTradeOutcome, updateBreaker } from "./breaker.js";
+import { ensureObservationsFile } from "./codex.js";
+import { loadPlanner } from "./planner.js";
+import { runPriceRecorder } from "./recorder.js";
+import { markShadowDecisions, recordLiveDecisions, runShadowPlanners, startShadowMode } from "./shadow.js";
+import { appendLedgerEvent } from "./ledger.js";
+import {
+  journalAbandoned,
+  journalApplied,
+  journalFailed,
+  journalPlanned,
+  journalSettled,
+  journalSubmitted,
+  loadJournal,
+  readAttemptEvents,
+  resolveEntry,
+  unresolvedEntries,
+} from "./journal.js";
+import type { Resolution } from "./journal.js";
 import { startDashboard } from "./ui.js";
 
 const log = createLogger("loop");
 
+const SOL_MINT = "So11111111111111111111111111111111111111112";
+
 function sleep(ms: number): Promise<void> {
   return new Promise((resolve) => setTimeout(resolve, ms));
 }
 
-async function appendLedgerEvent(
-  type: string,
-  payload: Record<string, unknown>
-): Promise<void> {
-  const ledgerPath = config.ledgerReadPath;
-  const event = { timestamp: new Date().toISOString(), type, payload };
-  await fs.mkdir(path.dirname(ledgerPath), { recursive: true });
-  await fs.appendFile(ledgerPath, JSON.stringify(event) + "\n", "utf8");
-}
+// ---------------------------------------------------------------------------
+// Circuit breaker — ledger side of breaker.ts
+// ---------------------------------------------------------------------------
 
-async function fetchPriceUsd(mint: string): Promise<number> {
+async function recordBreakerTrip(state: State, halt: BreakerHalt | null): Promise<void> {
+  if (!halt) return;
   try {
-    const url = new URL(`${config.jupiter.baseUrl}/price/v3`);
-    url.searchParams.set("ids", mint);
-    const res = await fetch(url.toString());
-    if (!res.ok) return 0;
-    const payload = (await res.json()) as Record<string, unknown>;
-    const data = (payload?.data ?? payload) as Record<string, unknown>;
-    const row = data[mint] as Record<string, unknown> | undefined;
-    const price = Number(row?.usdPrice ?? row?.price ?? row?.priceUsd ?? row?.value ?? 0);
-    return Number.isFinite(price) && price > 0 ? price : 0;
-  } catch {
-    return 0;
+    await appendLedgerEvent("breaker_tripped", {
+      trigger: halt.trigger,
+      reason: halt.reason,
+      equityUsd: halt.equityUsd,
+      peakEquityUsd: state.breaker?.peakEquityUsd,
+      dayStartEquityUsd: state.breaker?.dayStartEquityUsd,
+      consecutiveLosses: state.breaker?.consecutiveLosses,
+    });
+  } catch (e) {
+    log.warn(`Ledger write failed: ${e instanceof Error ? e.message : String(e)}`);
   }
 }
 
+// Apply a pending operator reset, then mark equity to market and trip the
+// breaker if a limit is crossed. The reset is saved before its request is
+// removed, so a crash in between applies it again rather than losing it.
+async function checkBreaker(state: State): Promise<void> {
+  const reset = await consumeBreakerReset(state);
+  if (reset) {
+    try {
+      await appendLedgerEvent("breaker_reset", {
+        note: reset.note,
+        requestedAt: reset.requestedAt,
+        previousTrigger: reset.previous?.trigger,
+        previousReason: reset.previous?.reason,
+        equityUsd: reset.equityUsd,
+      });
+    } catch (e) {
+      log.warn(`Ledger write failed: ${e instanceof Error ? e.message : String(e)}`);
+    }
+    await saveState(state);
+    await clearBreakerResetRequest(reset);
+  }
+
+  const equityUsd = await fetchEquityUsd(state);
+  if (equityUsd === null) return;
+  await recordBreakerTrip(state, updateBreaker(state, equityUsd));
+}
+
 // ---------------------------------------------------------------------------
 // Async mutex — prevents stop-loss and Codex loops from executing trades
-// or mutating state simultaneously.
+// or mutating state simultaneously. High-priority waiters (the stop-loss
+// loop) are granted the lock before normal ones.
 // ---------------------------------------------------------------------------
 
-type Mutex = { acquire(): Promise<() => void> };
+type Mutex = { acquire(priority?: "high" | "normal"): Promise<() => void> };
 
 function createMutex(): Mutex {
-  let current: Promise<void> = Promise.resolve();
+  let locked = false;
+  const high: Array<() => void> = [];
+  const normal: Array<() => void> = [];
+
+  const handOff = (): void => {
+    const next = high.shift() ?? normal.shift();
+    if (next) next();
+    else locked = false;
+  };
+
   return {
-    async acquire(): Promise<() => void> {
-      let release!: () => void;
-      const next = new Promise<void>((resolve) => {
-        release = resolve;
+    acquire(priority = "normal"): Promise<() => void> {
+      return new Promise((resolve) => {
+        const grant = (): void => {
+          locked = true;
+          let released = false;
+          resolve(() => {
+            if (released) return;
+            released = true;
+            handOff();
+          });
+        };
+        if (!locked) grant();
+        else (priority === "high" ? high : normal).push(grant);
       });
-      const prev = current;
-      current = next;
-      await prev;
-      return release;
     },
   };
 }
 
 // ---------------------------------------------------------------------------
-// Swap error classification for retry logic
+// Swap error classification for retry logic. wallet-mcp simulates live
+// transactions before sending, so these codes usually arrive as
+// "Simulation failed: <Name> (0x....)" with no fee spent.
 // ---------------------------------------------------------------------------
 
 // Jupiter error 0x1771 (6001) = SlippageToleranceExceeded — retry with halved amount
@@ -85,6 +143,171 @@ function isInsufficientFundsError(error: string | undefined): boolean {
   return /0x1788\b|InsufficientFunds/i.test(error);
 }
 
+// ---------------------------------------------------------------------------
+// quoteForExecution — re-quote right before the swap. Planner intents must
+// pass checkQuote (halving on high price impact); safety exits are never
+// blocked and fall back to an unquoted swap if quoting fails.
+// ---------------------------------------------------------------------------
+
+type QuoteGate = { quote?: SwapQuote; amountLamports: number } | { rejected: string };
+
+async function quoteForExecution(
+  state: State,
+  intent: TradeIntent,
+  order: TradeOrder,
+  symbol: string
+): Promise<QuoteGate> {
+  const isSafety = intent.metadata?.planner === "safety";
+  if (!config.revalidation.enabled && !isSafety) return { amountLamports: order.amountLamports };
+
+  const decimals =
+    intent.action === "sell" && state.positions[intent.inputMint]
+      ? state.positions[intent.inputMint].decimals
+      : typeof intent.metadata?.decimals === "number"
+        ? (intent.metadata.decimals as number)
+        : 9;
+  const solPriceUsd = isSafety ? 0 : await fetchPriceUsd(SOL_MINT);
+  const minAmount = intent.action === "buy"
+    ? Math.floor(config.minTradeSol * 1_000_000_000)
+    : config.swapRetryOnSlippage.minAmountLamports;
+
+  let amount = order.amountLamports;
+  for (let resize = 0; ; resize++) {
+    let quote: SwapQuote;
+    try {
+      quote = await getQuote({ ...order, amountLamports: amount });
+    } catch (e) {
+      const error = e instanceof Error ? e.message : String(e);
+      if (isSafety) {
+        log.warn(`[Revalidate] ${symbol}: ${error} — executing exit without a quote`);
+        return { amountLamports: amount };
+      }
+      return { rejected: `quote failed: ${error}` };
+    }
+    if (isSafety) return { quote, amountLamports: amount };
+
+    const check = checkQuote(intent, quote, decimals, solPriceUsd);
+    if (check.verdict === "ok") return { quote, amountLamports: amount };
+    if (check.verdict === "reject") return { rejected: check.reason };
+
+    const next = Math.floor(amount / 2);
+    if (resize >= config.revalidation.maxResizes || next < minAmount) {
+      return { rejected: `${check.reason} after ${resize} resize(s)` };
+    }
+    log.info(`[Revalidate] ${intent.action.toUpperCase()} ${symbol}: ${check.reason} — resizing ${amount}→${next}`);
+    amount = next;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Booking — a fill is applied, marked applied and saved in one step, so a
+// crash leaves it either fully booked or still confirmed in the journal.
+// The swap_applied event carries what replay.ts needs to book it again.
+// ---------------------------------------------------------------------------
+
+async function bookSwapResult(state: State, intent: TradeIntent, result: TradeResult): Promise<void> {
+  const held = intent.action === "sell" ? state.positions[intent.inputMint] : undefined;
+  const pnlLamports = applyResult(state, intent, result);
+  if (!result.success) return;
+  if (pnlLamports !== undefined) {
+    await recordBreakerTrip(state, recordTradeOutcome(state, BigInt(pnlLamports) < 0n));
+  }
+  markIntentApplied(state, intent.id);
+  await saveState(state);
+  await journalApplied(intent.id);
+
+  const booked = intent.action === "buy" ? state.positions[intent.outputMint] : held;
+  try {
+    await appendLedgerEvent("swap_applied", {
+      intentId: intent.id,
+      action: intent.action,
+      inputMint: intent.inputMint,
+      outputMint: intent.outputMint,
+      symbol: booked?.symbol ?? intent.metadata?.tokenSymbol,
+      decimals: booked?.decimals ?? intent.metadata?.decimals,
+      inputAmount: result.inputAmount,
+      outputAmount: result.outputAmount,
+      txHash: result.txHash,
+      pnlLamports,
+      exitPlan: intent.metadata?.exitPlan,
+      ladderStep: intent.metadata?.ladderStep,
+    });
+  } catch (e) {
+    log.warn(`Ledger write failed: ${e instanceof Error ? e.message : String(e)}`);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// recoverJournal — settle swaps a previous process left unresolved: book
+// confirmed fills exactly once, fail or abandon the rest. Entries whose tx
+// is not visible yet stay open and are checked again next cycle.
+// ---------------------------------------------------------------------------
+
+async function recoverJournal(state: State): Promise<void> {
+  const entries = unresolvedEntries();
+  if (entries.length === 0) return;
+
+  const events = await readAttemptEvents(entries.map((e) => e.attemptId), entries[0].createdAt);
+  for (const entry of entries) {
+    const symbol = String(entry.intent.metadata?.tokenSymbol ?? entry.intent.outputMint.slice(0, 6));
+    const label = `${entry.intent.action.toUpperCase()} ${symbol} (${entry.intentId})`;
+
+    let outcome: "applied" | "failed" | "abandoned";
+    let detail: Record<string, unknown> = {};
+    if (isIntentApplied(state, entry.intentId)) {
+      // Booked and saved, but the journal write did not follow.
+      await journalApplied(entry.intentId);
+      outcome = "applied";
+    } else {
+      let resolution: Resolution;
+      try {
+        resolution = await resolveEntry(entry, events.get(entry.attemptId) ?? []);
+      } catch (e) {
+        log.warn(`[Journal] ${label}: check failed, retrying next cycle: ${e instanceof Error ? e.message : String(e)}`);
+        continue;
+      }
+
+      if (resolution.outcome === "pending") {
+        log.info(`[Journal] ${label}: ${resolution.note}`);
+        continue;
+      }
+      if (resolution.outcome === "filled") {
+        await journalSettled(entry.intentId, resolution.result);
+        await bookSwapResult(state, { ...entry.intent, amountLamports: entry.amountLamports }, resolution.result);
+        outcome = "applied";
+        detail = {
+          source: resolution.source,
+          txHash: resolution.result.txHash,
+          inputAmount: resolution.result.inputAmount,
+          outputAmount: resolution.result.outputAmount,
+        };
+      } else if (resolution.outcome === "failed") {
+        await journalFailed(entry.intentId, resolution.error);
+        outcome = "failed";
+        detail = { error: resolution.error };
+      } else {
+        await journalAbandoned(entry.intentId, resolution.note);
+        outcome = "abandoned";
+        detail = { note: resolution.note };
+      }
+    }
+
+    log.warn(`[Journal] Recovered ${label}: ${outcome} (was ${entry.status})`);
+    try {
+      await appendLedgerEvent("intent_recovered", {
+        intentId: entry.intentId,
+        attemptId: entry.attemptId,
+        action: entry.intent.action,
+        previousStatus: entry.status,
+        outcome,
+        ...detail,
+      });
+    } catch (e) {
+      log.warn(`Ledger write failed: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }
+}
+
 // ---------------------------------------------------------------------------
 // executeIntent — validate and execute a single trade intent
 // ---------------------------------------------------------------------------
@@ -100,6 +323,24 @@ async function executeIntent(
     return;
   }
 
+  const halted = breakerBlocks(state, intent);
+  if (halted) {
+    log.warn(`[Breaker] Intent ${intent.id} blocked: ${halted}`);
+    try {
+      await appendLedgerEvent("breaker_blocked", {
+        intentId: intent.id,
+        action: intent.action,
+        inputMint: intent.inputMint,
+        outputMint: intent.outputMint,
+        amountLamports: intent.amountLamports,
+        reason: halted,
+      });
+    } catch (e) {
+      log.warn(`Ledger write failed: ${e instanceof Error ? e.message : String(e)}`);
+    }
+    return;
+  }
+
   // Perp intents are handled entirely in-agent (no wallet-mcp)
   if (intent.action === "perp_open") {
     await executePerpOpen(state, intent);
@@ -118,10 +359,36 @@ async function executeIntent(
     slippageBps: intent.slippageBps,
   };
 
-  let result = await executeSwap(intent.id, order);
+  const symbol = String(intent.metadata?.tokenSymbol ?? intent.outputMint.slice(0, 6));
+
+  const gate = await quoteForExecution(state, intent, order, symbol);
+  if ("rejected" in gate) {
+    log.warn(`[Revalidate] ${intent.action.toUpperCase()} ${symbol} rejected: ${gate.rejected}`);
+    state.failedCount++;
+    try {
+      await appendLedgerEvent("intent_revalidation_rejected", {
+        intentId: intent.id,
+        action: intent.action,
+        inputMint: intent.inputMint,
+        outputMint: intent.outputMint,
+        amountLamports: intent.amountLamports,
+        plannedPriceUsd: intent.metadata?.plannedPriceUsd,
+        limitPriceUsd: intent.metadata?.limitPriceUsd,
+        reason: gate.rejected,
+      });
+    } catch (e) {
+      log.warn(`Ledger write failed: ${e instanceof Error ? e.message : String(e)}`);
+    }
+    return;
+  }
+  order.amountLamports = gate.amountLamports;
+
+  // Write-ahead: each step is on disk before the next call can act on it.
+  await journalPlanned(intent, gate.amountLamports, gate.quote);
+  await journalSubmitted(intent.id, intent.id, gate.amountLamports);
+  let result = await executeSwap(intent.id, order, gate.quote?.quoteId);
   const retryCfg = config.swapRetryOnSlippage;
-  let currentAmount = intent.amountLamports;
-  const symbol = intent.metadata?.tokenSymbol ?? intent.outputMint.slice(0, 6);
+  let currentAmount = gate.amountLamports;
 
   for (let retry = 1; retry <= retryCfg.maxRetries; retry++) {
     if (result.success) break;
@@ -147,18 +414,40 @@ async function executeIntent(
 
     log.info(`[Retry] ${intent.action.toUpperCase()} ${symbol} retry=${retry}/${retryCfg.maxRetries} amount=${prevAmount}→${currentAmount}`);
     const retryOrder: TradeOrder = { ...order, amountLamports: currentAmount };
+    await journalSubmitted(intent.id, `${intent.id}-retry${retry}`, currentAmount);
     result = await executeSwap(`${intent.id}-retry${retry}`, retryOrder);
   }
 
   const retryIntent = currentAmount !== intent.amountLamports
     ? { ...intent, amountLamports: currentAmount }
     : intent;
-  applyResult(state, retryIntent, result);
+  await journalSettled(intent.id, result);
+  await bookSwapResult(state, retryIntent, result);
 
   if (result.success) {
+    const slippage =
+      typeof result.realizedSlippageBps === "number" ? ` slippage=${result.realizedSlippageBps}bps` : "";
     log.info(
-      `[Filled] ${intent.action.toUpperCase()} ${symbol} tx=${result.txHash ?? "n/a"}`
+      `[Filled] ${intent.action.toUpperCase()} ${symbol} tx=${result.txHash ?? "n/a"}${slippage}`
     );
+    if (intent.action === "sell" && intent.metadata?.exitReason) {
+      try {
+        await appendLedgerEvent("spot_exit", {
+          intentId: intent.id,
+          mint: intent.inputMint,
+          symbol,
+          exitReason: intent.metadata.exitReason,
+          reason: intent.metadata.reason,
+          pnlPct: intent.metadata.pnlPct,
+          holdMinutes: intent.metadata.holdMinutes,
+          inputAmount: result.inputAmount,
+          outputAmount: result.outputAmount,
+          txHash: result.txHash,
+        });
+      } catch (e) {
+        log.warn(`Ledger write failed: ${e instanceof Error ? e.message : String(e)}`);
+      }
+    }
   } else {
     log.warn(
       `[Failed] ${intent.action.toUpperCase()} ${symbol}: ${result.error}`
@@ -222,6 +511,7 @@ async function executePerpOpen(state: State, intent: TradeIntent): Promise<void>
     await appendLedgerEvent("perp_opened", {
       intentId: intent.id,
       market,
+      underlyingMint,
       side,
       leverage,
       collateralUsd,
@@ -294,6 +584,7 @@ async function executePerpClose(state: State, intent: TradeIntent): Promise<void
 
   const { pnlUsd } = applyPerpClose(state, market, closePrice);
   state.filledCount++;
+  await recordBreakerTrip(state, recordTradeOutcome(state, pnlUsd < 0));
 
   const pnlSign = pnlUsd >= 0 ? "+" : "";
   log.info(
@@ -309,9 +600,11 @@ async function executePerpClose(state: State, intent: TradeIntent): Promise<void
       entryPriceUsd: pos.entryPriceUsd,
       closePriceUsd: closePrice,
       pnlUsd,
+      borrowFeeUsd: pos.borrowFeeUsd,
       collateralUsd: pos.collateralUsd,
       sizeUsd: pos.sizeUsd,
       reason: intent.metadata.reason,
+      exitReason: intent.metadata.exitReason,
       mode: config.perps.paperOnly ? "paper" : "live",
     });
   } catch (e) {
@@ -347,7 +640,7 @@ async function runStopLossLoop(
     // Skip if no positions at all — avoids unnecessary Jupiter API calls
     if (!hasSpotPositions && !hasPerpPositions) continue;
 
-    const release = await mutex.acquire();
+    const release = await mutex.acquire("high");
     try {
       const intents: TradeIntent[] = [];
 
@@ -366,12 +659,15 @@ async function runStopLossLoop(
         await executeIntent(state, intent);
       }
 
+      await checkBreaker(state);
+
       // Write-off stuck perp positions
       const writeOffMarkets = checkPerpWriteOffs(state);
       for (const market of writeOffMarkets) {
         const pos = state.perpPositions[market];
         if (!pos) continue;
         const { pnlUsd } = writeOffPerp(state, market);
+        await recordBreakerTrip(state, recordTradeOutcome(state, pnlUsd < 0));
         log.warn(`[WriteOff] ${market} ${pos.side} ${pos.leverage}x: wrote off collateral=$${pos.collateralUsd.toFixed(2)}, pnl=$${pnlUsd.toFixed(2)} (failCount=${pos.closeFailCount ?? 0})`);
         try {
           await appendLedgerEvent("perp_write_off", {
@@ -389,9 +685,9 @@ async function runStopLossLoop(
         }
       }
 
-      if (intents.length > 0 || writeOffMarkets.length > 0) {
-        await saveState(state);
-      }
+      // Always save: the checks advance high-water marks even when
+      // nothing is sold, and the trailing stop depends on them.
+      await saveState(state);
     } catch (e) {
       log.error(`Stop-loss check error: ${e instanceof Error ? e.message : String(e)}`);
     } finally {
@@ -409,6 +705,13 @@ async function runStopLossLoop(
 export async function runLoop(signal: AbortSignal): Promise<void> {
   log.info("CashCat Agent starting...");
   log.info(`Scan interval: ${config.scanIntervalSeconds}s`);
+  const planner = await loadPlanner();
+  log.info(`Planner: ${planner.name}`);
+  try {
+    await startShadowMode();
+  } catch (e) {
+    log.warn(`Shadow mode not started: ${e instanceof Error ? e.message : String(e)}`);
+  }
 
   // Determine initial cash from wallet if no existing state
   let realCashLamports: string | undefined;
@@ -431,12 +734,24 @@ export async function runLoop(signal: AbortSignal): Promise<void> {
   log.info(
     `State loaded: cycle=${state.cycle}, ${getSummary(state)}`
   );
+  if (!stateExists) {
+    // Replay starts from here (replay.ts)
+    try {
+      await appendLedgerEvent("state_initialized", {
+        cashLamports: state.cashLamports,
+        perpBalanceUsd: state.perpBalanceUsd,
+      });
+    } catch (e) {
+      log.warn(`Ledger write failed: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }
+
+  // Settle swaps a previous run left in flight before anything trades.
+  await loadJournal();
+  await recoverJournal(state);
 
   // Ensure Codex-accessible files exist so it can always read them
-  const observationsPath = path.resolve("observations.md");
-  try { await fs.access(observationsPath); } catch {
-    await fs.writeFile(observationsPath, "# Market Observations\n\n## Summary\n\n(No compacted summaries yet)\n\n## Recent\n\n(No observations yet)\n");
-  }
+  const observationsPath = await ensureObservationsFile();
 
   startDashboard();
 
@@ -471,11 +786,18 @@ export async function runLoop(signal: AbortSignal): Promise<void> {
     log.error(`Stop-loss loop crashed: ${e instanceof Error ? e.message : String(e)}`);
   });
 
+  if (config.priceRecorder.enabled) {
+    runPriceRecorder(state, signal).catch((e) => {
+      log.error(`Price recorder crashed: ${e instanceof Error ? e.message : String(e)}`);
+    });
+  }
+
   while (!signal.aborted) {
     state.cycle++;
     log.info(`=== Cycle #${state.cycle} ===`);
 
-    // Codex agent (mutex-protected)
+    // Sync and snapshot (mutex-protected)
+    let snapshot: State | null = null;
     if (!signal.aborted) {
       const release = await mutex.acquire();
       try {
@@ -488,15 +810,31 @@ export async function runLoop(signal: AbortSignal): Promise<void> {
           const absDiff = diff < 0n ? -diff : diff;
 
           if (absDiff > 1_000_000n) {
-            state.cashLamports = walletLamports.toString();
-            const initialLamports = BigInt(state.initialCashLamports ?? state.cashLamports);
-            state.initialCashLamports = (initialLamports + diff).toString();
-
             const diffSol = Number(diff) / 1_000_000_000;
-            if (diff > 0n) {
-              log.info(`Deposit detected: +${diffSol.toFixed(4)} SOL — cashLamports synced to wallet`);
+            // The breaker needs the transfer in USD; without a SOL price the
+            // sync waits for the next cycle rather than read as a loss or gain.
+            const solPriceUsd = state.breaker ? await fetchPriceUsd(SOL_MINT) : 0;
+            if (state.breaker && !(solPriceUsd > 0)) {
+              log.warn(`Wallet SOL changed by ${diffSol.toFixed(4)} SOL but SOL is unpriced — sync deferred`);
             } else {
-              log.info(`Withdrawal detected: ${diffSol.toFixed(4)} SOL — cashLamports synced to wallet`);
+              state.cashLamports = walletLamports.toString();
+              const initialLamports = BigInt(state.initialCashLamports ?? state.cashLamports);
+              state.initialCashLamports = (initialLamports + diff).toString();
+
+              adjustBreakerForTransfer(state, diffSol * solPriceUsd);
+              try {
+                await appendLedgerEvent("cash_synced", {
+                  diffLamports: diff.toString(),
+                  cashLamports: state.cashLamports,
+                });
+              } catch (e) {
+                log.warn(`Ledger write failed: ${e instanceof Error ? e.message : String(e)}`);
+              }
+              if (diff > 0n) {
+                log.info(`Deposit detected: +${diffSol.toFixed(4)} SOL — cashLamports synced to wallet`);
+              } else {
+                log.info(`Withdrawal detected: ${diffSol.toFixed(4)} SOL — cashLamports synced to wallet`);
+              }
             }
           }
         } catch {
@@ -510,9 +848,7 @@ export async function runLoop(signal: AbortSignal): Promise<void> {
         // can also desync from airdrops, rewards, or failed state writes.
         if (config.solanaWalletAddress) {
           try {
-            const { PublicKey } = await import("@solana/web3.js");
-            const walletPubkey = new PublicKey(config.solanaWalletAddress);
-            const splBalances = await getAllSplTokenBalances(walletPubkey);
+            const splBalances = await getTokenBalances(config.solanaWalletAddress);
 
             if (config.perps.enabled && !config.perps.paperOnly) {
               const usdc = splBalances.find(
@@ -521,8 +857,19 @@ export async function runLoop(signal: AbortSignal): Promise<void> {
               const usdcBalance = usdc
                 ? Number(BigInt(usdc.rawAmount)) / 10 ** usdc.decimals
                 : 0;
+              const previousUsd = state.perpBalanceUsd;
               state.perpBalanceUsd = usdcBalance;
               log.info(`USDC balance synced: $${usdcBalance.toFixed(2)}`);
+              if (Math.abs(usdcBalance - previousUsd) >= 0.01) {
+                // Trades already moved perpBalanceUsd, so what is left is a
+                // USDC deposit or withdrawal.
+                adjustBreakerForTransfer(state, usdcBalance - previousUsd);
+                try {
+                  await appendLedgerEvent("perp_balance_synced", { previousUsd, perpBalanceUsd: usdcBalance });
+                } catch (e) {
+                  log.warn(`Ledger write failed: ${e instanceof Error ? e.message : String(e)}`);
+                }
+              }
             }
 
             const diffs = reconcileSpotPositions(state, splBalances);
@@ -530,6 +877,11 @@ export async function runLoop(signal: AbortSignal): Promise<void> {
               log.info(
                 `[Reconcile] ${d.symbol} (${d.mint.slice(0, 8)}…): ${d.beforeRaw} → ${d.afterRaw} (${d.action})`
               );
+              try {
+                await appendLedgerEvent("position_reconciled", { ...d });
+              } catch (e) {
+                log.warn(`Ledger write failed: ${e instanceof Error ? e.message : String(e)}`);
+              }
             }
           } catch (e) {
             log.warn(`Balance sync failed: ${e instanceof Error ? e.message : String(e)}`);
@@ -559,24 +911,75 @@ export async function runLoop(signal: AbortSignal): Promise<void> {
           }
         } catch { /* non-fatal */ }
 
-        const { intents, notes } = await invokeCodex(state, new Date());
+        await recoverJournal(state);
+        await checkBreaker(state);
+        snapshot = structuredClone(state);
+      } catch (e) {
+        log.warn(`Cycle sync failed: ${e instanceof Error ? e.message : String(e)}`);
+      } finally {
+        release();
+      }
+    }
+
+    // The planner runs against the snapshot without the lock — a model run
+    // can take up to codexTimeoutSeconds and the stop-loss loop must keep
+    // selling.
+    // Shadow planners run on their own copies and are not awaited; marks
+    // for horizons that have come due are written first.
+    let planned: TradeIntent[] = [];
+    if (snapshot && !signal.aborted) {
+      try {
+        await markShadowDecisions();
+      } catch (e) {
+        log.warn(`Shadow marking failed: ${e instanceof Error ? e.message : String(e)}`);
+      }
+      const now = new Date();
+      runShadowPlanners(snapshot, now);
+      try {
+        const { intents, notes } = await planner.plan(snapshot, { now });
         for (const note of notes) {
           log.info(note);
         }
-        for (const intent of intents) {
-          if (signal.aborted) break;
-          await executeIntent(state, intent);
+        // Cooldowns are stamped on the snapshot during normalization.
+        for (const [key, at] of Object.entries(snapshot.lastIntentAt)) {
+          state.lastIntentAt[key] = Math.max(state.lastIntentAt[key] ?? 0, at);
+        }
+        planned = intents;
+        await recordLiveDecisions(planner.name, intents, snapshot);
+      } catch (e) {
+        log.warn(`Planner ${planner.name} failed: ${e instanceof Error ? e.message : String(e)}`);
+      }
+    }
+
+    // Execute one intent per lock hold, so a waiting stop-loss check runs
+    // between them, and revalidate each against the live state first.
+    for (const intent of planned) {
+      if (signal.aborted || !snapshot) break;
+      const release = await mutex.acquire();
+      try {
+        const dropped = revalidatePlannedIntent(state, snapshot, intent);
+        if (dropped) {
+          log.info(`[Plan] Dropped ${intent.id}: ${dropped}`);
+          continue;
         }
+        await executeIntent(state, intent);
       } catch (e) {
-        log.warn(`Codex invocation failed: ${e instanceof Error ? e.message : String(e)}`);
+        log.warn(`Intent ${intent.id} failed: ${e instanceof Error ? e.message : String(e)}`);
       } finally {
         release();
       }
     }
 
-    // Save state
-    await saveState(state);
-    log.info(`[Summary] ${getSummary(state)}`);
+    // Save state — under the lock, like the stop-loss loop's saves
+    const release = await mutex.acquire();
+    try {
+      await saveState(state);
+      log.info(`[Summary] ${getSummary(state)}`);
+    } catch (e) {
+      log.warn(`State save failed: ${e instanceof Error ? e.message : String(e)}`);
+    } finally {
+      release();
+    }
 
     // Wait
     if (!signal.aborted) {
@@ -591,5 +994,6 @@ export async function runLoop(signal: AbortSignal): Promise<void> {
     }
   }
 
+  stopWalletMcp();
   log.info("Agent stopped.");
 }
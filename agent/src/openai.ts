@@ -0,0 +1,65 @@
+import { getAccessToken } from "./auth.js";
+import { buildPlannerPrompt, parseCodexOutputText } from "./codex.js";
+import type { CodexOutput } from "./codex.js";
+import { config } from "./config.js";
+import type { ModelPlannerOptions, PlannerAdapter } from "./planner.js";
+import type { State } from "./state.js";
+
+// ---------------------------------------------------------------------------
+// Responses API planner — the Codex prompt sent straight to the model with
+// the OAuth token from auth.ts. There are no tools, so the prompt's ledger
+// and price-API hints go unused: the model plans from the state and
+// recorded prices the prompt carries.
+// ---------------------------------------------------------------------------
+
+interface ResponsesReply {
+  output_text?: unknown;
+  output?: Array<{
+    type?: string;
+    content?: Array<{ type?: string; text?: unknown }>;
+  }>;
+}
+
+function replyText(reply: ResponsesReply): string {
+  if (typeof reply.output_text === "string") return reply.output_text;
+  return (reply.output ?? [])
+    .filter((item) => item.type === "message")
+    .flatMap((item) => item.content ?? [])
+    .filter((part) => part.type === "output_text" && typeof part.text === "string")
+    .map((part) => part.text as string)
+    .join("");
+}
+
+async function proposeWithResponses(state: State, now: Date, options: ModelPlannerOptions): Promise<CodexOutput> {
+  const prompt = await buildPlannerPrompt(state, now, options.promptAppendix);
+  const token = await getAccessToken();
+
+  const res = await fetch(`${config.planner.openai.baseUrl}/responses`, {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${token}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({
+      model: options.model ?? config.planner.openai.model,
+      input: prompt,
+      store: false,
+      text: { format: { type: "json_object" } },
+    }),
+    signal: AbortSignal.timeout(config.codexTimeoutSeconds * 1000),
+  });
+  if (!res.ok) {
+    throw new Error(`Responses API failed: ${res.status} ${(await res.text()).slice(0, 200)}`);
+  }
+
+  const text = replyText((await res.json()) as ResponsesReply).trim();
+  if (!text) throw new Error("Responses API returned no output text");
+  return parseCodexOutputText(text, "Responses API");
+}
+
+export function openaiResponsesPlanner(options: ModelPlannerOptions = {}): PlannerAdapter {
+  return {
+    name: "openai-responses",
+    propose: ({ state, now }) => proposeWithResponses(state, now, options),
+  };
+}
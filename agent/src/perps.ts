@@ -13,6 +13,9 @@ import {
   BASE_PRECISION,
   PRICE_PRECISION,
   initialize,
+  getMarketsAndOraclesForSubscription,
+  PerpMarkets,
+  SpotMarkets,
   type DriftClientConfig,
 } from "@drift-labs/sdk";
 import { getAssociatedTokenAddressSync } from "@solana/spl-token";
@@ -107,6 +110,40 @@ export function getMinOrderSizes(): Map<string, number> {
   return result;
 }
 
+export interface DriftOraclePrice {
+  priceUsd: number;
+  // slots behind the RPC's current slot, at ~400ms each
+  ageMs: number;
+}
+
+const SLOT_MS = 400;
+
+/**
+ * Oracle prices of the markets on the given underlyings, per token (the
+ * 1M markets are divided back down). Read from the wallet's DriftClient
+ * once a perp action has created it, from a market-only client before
+ * that.
+ */
+export async function getDriftOraclePrices(mints: string[]): Promise<Map<string, DriftOraclePrice>> {
+  const result = new Map<string, DriftOraclePrice>();
+  const wanted = new Set(mints);
+  const markets = Array.from(DRIFT_MARKETS.entries()).filter(([, info]) => wanted.has(info.underlyingMint));
+  if (markets.length === 0) return result;
+
+  const client = await getOracleDriftClient();
+  if (!client) return result;
+  const currentSlot = await client.connection.getSlot("confirmed");
+  for (const [name, info] of markets) {
+    const oracle = client.getOracleDataForPerpMarket(info.marketIndex);
+    let priceUsd = oracle.price.toNumber() / PRICE_PRECISION.toNumber();
+    if (name.startsWith("1M")) priceUsd /= 1_000_000;
+    if (!(priceUsd > 0)) continue;
+    const slotsBehind = Math.max(0, currentSlot - oracle.slot.toNumber());
+    result.set(info.underlyingMint, { priceUsd, ageMs: slotsBehind * SLOT_MS });
+  }
+  return result;
+}
+
 // ---------------------------------------------------------------------------
 // ReadOnly Wallet (satisfies Anchor Wallet interface for read-only DriftClient)
 // ---------------------------------------------------------------------------
@@ -189,11 +226,83 @@ async function createReadOnlyDriftClient(walletPubkey: PublicKey): Promise<Drift
 
   cachedDriftClient = client;
   cachedWalletPubkey = pubkeyStr;
+  void closeOracleDriftClient();
 
   log.info(`DriftClient initialized for ${pubkeyStr}`);
   return client;
 }
 
+// ---------------------------------------------------------------------------
+// Market-only DriftClient for oracle prices (no user account, so it works
+// before the wallet has ever traded perps)
+// ---------------------------------------------------------------------------
+
+const ORACLE_CLIENT_RETRY_MS = 60_000;
+
+let oracleDriftClient: Promise<DriftClient> | null = null;
+let oracleClientRetryAtMs = 0;
+
+async function createOracleDriftClient(): Promise<DriftClient> {
+  const env = config.perps.driftEnv as "mainnet-beta" | "devnet";
+  const sdkConfig = initialize({ env });
+  const indexes = new Set(Array.from(DRIFT_MARKETS.values(), (info) => info.marketIndex));
+  const { perpMarketIndexes, spotMarketIndexes, oracleInfos } = getMarketsAndOraclesForSubscription(
+    env,
+    PerpMarkets[env].filter((market) => indexes.has(market.marketIndex)),
+    SpotMarkets[env].filter((market) => market.marketIndex === USDC_SPOT_MARKET_INDEX)
+  );
+
+  const driftConfig: DriftClientConfig = {
+    connection: getConnection() as any, // eslint-disable-line @typescript-eslint/no-explicit-any -- web3.js version mismatch
+    wallet: new ReadOnlyWallet(PublicKey.default) as any, // eslint-disable-line @typescript-eslint/no-explicit-any
+    programID: new PublicKey(sdkConfig.DRIFT_PROGRAM_ID),
+    accountSubscription: {
+      type: "websocket",
+    },
+    skipLoadUsers: true,
+    subAccountIds: [],
+    perpMarketIndexes,
+    spotMarketIndexes,
+    oracleInfos,
+    env,
+  };
+
+  const client = new DriftClient(driftConfig);
+  await client.subscribe();
+  log.info(`Oracle DriftClient initialized for ${perpMarketIndexes.length} perp markets`);
+  return client;
+}
+
+/**
+ * The client to read oracles from: the wallet's when it exists, otherwise
+ * the market-only one, created on first use. A failed creation is retried
+ * after ORACLE_CLIENT_RETRY_MS; null until then.
+ */
+async function getOracleDriftClient(): Promise<DriftClient | null> {
+  if (cachedDriftClient) return cachedDriftClient;
+  if (!oracleDriftClient) {
+    if (Date.now() < oracleClientRetryAtMs) return null;
+    oracleDriftClient = createOracleDriftClient().catch((e: unknown) => {
+      oracleDriftClient = null;
+      oracleClientRetryAtMs = Date.now() + ORACLE_CLIENT_RETRY_MS;
+      throw e;
+    });
+  }
+  return oracleDriftClient;
+}
+
+// The wallet's client subscribes to every market itself
+async function closeOracleDriftClient(): Promise<void> {
+  const pending = oracleDriftClient;
+  oracleDriftClient = null;
+  if (!pending) return;
+  try {
+    await (await pending).unsubscribe();
+  } catch {
+    // ignore cleanup errors
+  }
+}
+
 // ---------------------------------------------------------------------------
 // Compute budget
 // ---------------------------------------------------------------------------
@@ -424,42 +533,3 @@ export async function getUsdcBalanceUsd(walletPubkey: PublicKey): Promise<number
     return 0;
   }
 }
-
-// ---------------------------------------------------------------------------
-// Public API — getAllSplTokenBalances
-// Returns the raw balance (as string) for every SPL token account owned by
-// the wallet. Used by the main loop to reconcile state.positions with
-// on-chain reality, catching desyncs caused by Drift collateral flows,
-// airdrops, or stale accounting.
-// ---------------------------------------------------------------------------
-
-export interface SplTokenBalance {
-  mint: string;
-  rawAmount: string;
-  decimals: number;
-}
-
-export async function getAllSplTokenBalances(
-  walletPubkey: PublicKey
-): Promise<SplTokenBalance[]> {
-  const connection = getConnection();
-  const resp = await connection.getParsedTokenAccountsByOwner(walletPubkey, {
-    programId: new PublicKey("TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA"),
-  });
-
-  const balances: SplTokenBalance[] = [];
-  for (const { account } of resp.value) {
-    const parsed = account.data.parsed as {
-      info?: {
-        mint?: string;
-        tokenAmount?: { amount?: string; decimals?: number };
-      };
-    };
-    const info = parsed?.info;
-    if (!info?.mint) continue;
-    const rawAmount = info.tokenAmount?.amount ?? "0";
-    const decimals = info.tokenAmount?.decimals ?? 0;
-    balances.push({ mint: info.mint, rawAmount, decimals });
-  }
-  return balances;
-}
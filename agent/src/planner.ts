@@ -0,0 +1,242 @@
+import { promises as fs } from "node:fs";
+import { codexExecPlanner, normalizeCodexOutput, plannedBuyMints, recordCodexOutput } from "./codex.js";
+import type { CodexOutput, RecordedCodexOutput } from "./codex.js";
+import { config } from "./config.js";
+import { openaiResponsesPlanner } from "./openai.js";
+import { fetchPricesUsd } from "./prices.js";
+import type { State, TradeIntent } from "./state.js";
+
+const SOL_MINT = "So11111111111111111111111111111111111111112";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface PlannerContext {
+  now: Date;
+  // fixed prices, as the backtester's ticks give; live plans fetch their own
+  prices?: Record<string, number>;
+  // a shadow run's output is kept out of the Codex record, which replays as the live planner
+  shadow?: boolean;
+}
+
+export interface ProposalContext {
+  // a snapshot the adapter may read but not keep
+  state: State;
+  now: Date;
+  // SOL, held tokens and the adapter's own mints
+  prices: Record<string, number>;
+}
+
+/**
+ * Where raw decisions come from. Output is in the Codex format; the
+ * planner built around the adapter prices and sanitizes it, so no adapter
+ * can size or tag an intent differently from another.
+ */
+export interface PlannerAdapter {
+  name: string;
+  // priced for propose() besides SOL and held tokens
+  mints?: string[];
+  propose(context: ProposalContext): CodexOutput | null | Promise<CodexOutput | null>;
+}
+
+// For the model-backed adapters, so a shadow run can trial a model or a
+// prompt change against the live planner
+export interface ModelPlannerOptions {
+  model?: string;
+  // appended to the prompt
+  promptAppendix?: string;
+  // where `codex exec` runs and keeps its observations.md; the process's
+  // working directory (the live planner's) by default
+  workDir?: string;
+}
+
+export interface PlanResult {
+  intents: TradeIntent[];
+  notes: string[];
+}
+
+export interface Planner {
+  name: string;
+  // stamps cooldowns on `state`, so callers pass a snapshot and merge back
+  plan(state: State, context: PlannerContext): Promise<PlanResult>;
+}
+
+// ---------------------------------------------------------------------------
+// createPlanner — the shared half of every planner: price, propose, record
+// and normalize
+// ---------------------------------------------------------------------------
+
+export function createPlanner(adapter: PlannerAdapter): Planner {
+  return {
+    name: adapter.name,
+    async plan(state, { now, prices: fixed, shadow }) {
+      const positionMints = Object.keys(state.positions);
+      const decisionPrices = fixed ?? (await fetchPricesUsd([SOL_MINT, ...positionMints, ...(adapter.mints ?? [])]));
+      const output = await adapter.propose({ state, now, prices: { ...decisionPrices } });
+      if (!output) return { intents: [], notes: [] };
+      if (fixed) return normalizeCodexOutput(output, state, now, fixed[SOL_MINT] ?? 0, fixed, adapter.name);
+
+      if (!shadow) await recordCodexOutput(output, state, now, adapter.name);
+      // Priced again after proposing — a model run can take minutes. Buy
+      // mints are priced too so exit plans can be checked against them.
+      const prices = await fetchPricesUsd([SOL_MINT, ...positionMints, ...plannedBuyMints(output, state)]);
+      return normalizeCodexOutput(output, state, now, prices[SOL_MINT] ?? 0, prices, adapter.name);
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Scripted and replay adapters
+// ---------------------------------------------------------------------------
+
+/**
+ * Emits each output once, at the first planner run at or after its time;
+ * outputs that fall due together are merged.
+ */
+function timedPlanner(name: string, entries: Array<{ atMs: number; output: CodexOutput }>): PlannerAdapter {
+  const pending = [...entries].sort((a, b) => a.atMs - b.atMs);
+  return {
+    name,
+    propose({ now }) {
+      const due: CodexOutput[] = [];
+      while (pending.length > 0 && pending[0].atMs <= now.getTime()) due.push(pending.shift()!.output);
+      if (due.length === 0) return null;
+      const list = (value: unknown): unknown[] => (Array.isArray(value) ? value : []);
+      return {
+        notes: due.flatMap((output) => list(output.notes)),
+        intents: due.flatMap((output) => list(output.intents)),
+      };
+    },
+  };
+}
+
+export interface ScriptedStep {
+  at: string;
+  intents: unknown[];
+  notes?: string[];
+}
+
+/** Fixed decisions at fixed times, in the Codex intent format. */
+export function scriptedPlanner(steps: ScriptedStep[]): PlannerAdapter {
+  return timedPlanner(
+    "scripted",
+    steps.map((step) => ({ atMs: Date.parse(step.at), output: { intents: step.intents, notes: step.notes } }))
+  );
+}
+
+/** Replays outputs recorded through RUNTIME_CODEX_RECORD_PATH. */
+export function recordedPlanner(records: RecordedCodexOutput[]): PlannerAdapter {
+  return timedPlanner(
+    "recorded-codex",
+    records.map((record) => ({ atMs: Date.parse(record.at), output: record.output }))
+  );
+}
+
+export async function loadRecordedCodexOutputs(filePath: string): Promise<RecordedCodexOutput[]> {
+  const text = await fs.readFile(filePath, "utf8");
+  return text
+    .split("\n")
+    .filter((line) => line.trim())
+    .map((line) => JSON.parse(line) as RecordedCodexOutput);
+}
+
+/** A steps JSON array, or recorded outputs one per line. */
+export async function loadScriptedPlanner(filePath: string): Promise<PlannerAdapter> {
+  const text = await fs.readFile(filePath, "utf8");
+  if (text.trimStart().startsWith("[")) return scriptedPlanner(JSON.parse(text) as ScriptedStep[]);
+  return recordedPlanner(await loadRecordedCodexOutputs(filePath));
+}
+
+// ---------------------------------------------------------------------------
+// Rule-based adapter
+// ---------------------------------------------------------------------------
+
+export interface MomentumOptions {
+  mints: string[];
+  lookbackMs: number;
+  // buy once the price is up this fraction over the lookback
+  entryPct: number;
+  amountLamports: number;
+}
+
+/**
+ * Buy a token that has risen entryPct over the lookback and is not held.
+ * Exits are left to the safety rules. The history is the prices the
+ * planner was called with, so it needs one lookback of runs to warm up.
+ */
+export function momentumPlanner(options: MomentumOptions): PlannerAdapter {
+  const history = new Map<string, Array<{ atMs: number; price: number }>>();
+  return {
+    name: "momentum",
+    mints: options.mints,
+    propose({ state, now, prices }) {
+      const intents: unknown[] = [];
+      for (const mint of options.mints) {
+        const price = prices[mint] ?? 0;
+        if (price <= 0) continue;
+        const series = history.get(mint) ?? [];
+        series.push({ atMs: now.getTime(), price });
+        while (series.length > 1 && series[1].atMs <= now.getTime() - options.lookbackMs) series.shift();
+        history.set(mint, series);
+
+        const base = series[0];
+        if (base.atMs > now.getTime() - options.lookbackMs || state.positions[mint]) continue;
+        const change = price / base.price - 1;
+        if (change < options.entryPct) continue;
+        intents.push({
+          action: "buy",
+          mint,
+          amountLamports: options.amountLamports,
+          reason: `momentum +${(change * 100).toFixed(2)}% over ${Math.round(options.lookbackMs / 60_000)}min`,
+          confidence: 0.5,
+        });
+      }
+      return intents.length > 0 ? { intents } : null;
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Selection
+// ---------------------------------------------------------------------------
+
+export const PLANNER_NAMES = ["codex", "openai", "rules", "scripted"] as const;
+
+/**
+ * The planner a spec names: `codex`, `openai`, `rules` or `scripted`, the
+ * first two optionally with a model (`openai:gpt-5.1`). A model or prompt
+ * override shows in the planner's name, which tags its intents.
+ */
+export async function loadPlanner(spec = config.planner.name, options: ModelPlannerOptions = {}): Promise<Planner> {
+  const [name, ...rest] = spec.split(":");
+  const modelOptions: ModelPlannerOptions = { ...options, ...(rest.length > 0 ? { model: rest.join(":") } : {}) };
+  const named = (adapter: PlannerAdapter): Planner => {
+    const suffix = `${modelOptions.model ? `:${modelOptions.model}` : ""}${modelOptions.promptAppendix ? "+prompt" : ""}`;
+    return createPlanner({ ...adapter, name: adapter.name + suffix });
+  };
+
+  if (rest.length > 0 && name !== "codex" && name !== "openai") {
+    throw new Error(`Planner "${name}" takes no model (${spec})`);
+  }
+  switch (name) {
+    case "codex":
+      return named(codexExecPlanner(modelOptions));
+    case "openai":
+      return named(openaiResponsesPlanner(modelOptions));
+    case "rules":
+      return createPlanner(
+        momentumPlanner({
+          mints: config.planner.rules.mints,
+          lookbackMs: config.planner.rules.lookbackMinutes * 60_000,
+          entryPct: config.planner.rules.entryPct,
+          amountLamports: Math.floor(config.planner.rules.amountSol * 1_000_000_000),
+        })
+      );
+    case "scripted":
+      if (!config.planner.scriptPath) throw new Error("RUNTIME_PLANNER_SCRIPT_PATH is required for the scripted planner");
+      return createPlanner(await loadScriptedPlanner(config.planner.scriptPath));
+    default:
+      throw new Error(`Unknown planner "${spec}" (expected ${PLANNER_NAMES.join(", ")})`);
+  }
+}
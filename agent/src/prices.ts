@@ -0,0 +1,365 @@
+import { Connection, PublicKey } from "@solana/web3.js";
+import { PythPullClient } from "@drift-labs/sdk";
+import { config } from "./config.js";
+import { createLogger } from "./logger.js";
+import { getDriftOraclePrices } from "./perps.js";
+
+const log = createLogger("prices");
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface PriceQuote {
+  mint: string;
+  priceUsd: number;
+  source: string;
+  // when the source says the price was observed (fetch time for Jupiter)
+  observedAtMs: number;
+}
+
+export interface PriceProvider {
+  name: string;
+  // quotes for the mints this source knows; mints it has no price for are left out
+  fetchQuotes(mints: string[], nowMs: number): Promise<PriceQuote[]>;
+}
+
+export interface RejectedQuote {
+  source: string;
+  priceUsd: number;
+  reason: "stale" | "outlier";
+}
+
+export interface ConsensusPrice {
+  mint: string;
+  // 0 when no source had a usable quote
+  priceUsd: number;
+  // sources whose quotes make up the price
+  sources: string[];
+  rejected: RejectedQuote[];
+  // the fresh quotes disagreed with no majority; the highest-priority one was used
+  disputed?: boolean;
+  at: string;
+}
+
+export interface PriceSourceHealth {
+  requests: number;
+  failures: number;
+  consecutiveFailures: number;
+  quotes: number;
+  stale: number;
+  outliers: number;
+  lastLatencyMs: number;
+  lastSuccessAt?: string;
+  lastError?: string;
+  lastErrorAt?: string;
+}
+
+export interface PriceHealth {
+  sources: Record<string, PriceSourceHealth>;
+  cacheHits: number;
+  cacheMisses: number;
+  // mints priced without their primary source
+  fallbacks: number;
+  // mints no source could price
+  unpriced: number;
+  disputed: number;
+}
+
+// ---------------------------------------------------------------------------
+// Providers
+// ---------------------------------------------------------------------------
+
+function toNumber(value: unknown): number {
+  const num = typeof value === "number" ? value : typeof value === "string" ? Number(value) : Number.NaN;
+  return Number.isFinite(num) ? num : 0;
+}
+
+const jupiterProvider: PriceProvider = {
+  name: "jupiter",
+  async fetchQuotes(mints, nowMs) {
+    const url = new URL(`${config.jupiter.baseUrl}/price/v3`);
+    url.searchParams.set("ids", mints.join(","));
+    const response = await fetch(url.toString());
+    if (!response.ok) {
+      const body = (await response.text()).slice(0, 200);
+      throw new Error(`HTTP ${response.status} ${body}`);
+    }
+    const payload = (await response.json()) as Record<string, unknown> | { data?: Record<string, unknown> };
+    const data: Record<string, unknown> =
+      payload && typeof payload === "object" && "data" in payload && payload.data && typeof payload.data === "object"
+        ? (payload.data as Record<string, unknown>)
+        : (payload as Record<string, unknown>);
+
+    const quotes: PriceQuote[] = [];
+    for (const mint of mints) {
+      const row = data[mint] as Record<string, unknown> | undefined;
+      const priceUsd = toNumber(row?.usdPrice ?? row?.price ?? row?.priceUsd ?? row?.value);
+      if (priceUsd > 0) quotes.push({ mint, priceUsd, source: "jupiter", observedAtMs: nowMs });
+    }
+    return quotes;
+  },
+};
+
+const driftProvider: PriceProvider = {
+  name: "drift",
+  async fetchQuotes(mints, nowMs) {
+    const oracles = await getDriftOraclePrices(mints);
+    return [...oracles].map(([mint, oracle]) => ({
+      mint,
+      priceUsd: oracle.priceUsd,
+      source: "drift",
+      observedAtMs: nowMs - oracle.ageMs,
+    }));
+  },
+};
+
+let pythClient: PythPullClient | null = null;
+
+const pythProvider: PriceProvider = {
+  name: "pyth",
+  async fetchQuotes(mints) {
+    const feeds = mints.filter((mint) => config.prices.pythFeeds[mint]);
+    if (feeds.length === 0) return [];
+    const connection = new Connection(config.solanaRpcUrl, "confirmed");
+    pythClient ??= new PythPullClient(connection as any); // eslint-disable-line @typescript-eslint/no-explicit-any -- web3.js version mismatch
+    const accounts = await connection.getMultipleAccountsInfo(
+      feeds.map((mint) => new PublicKey(config.prices.pythFeeds[mint]))
+    );
+
+    const quotes: PriceQuote[] = [];
+    for (const [i, mint] of feeds.entries()) {
+      const account = accounts[i];
+      if (!account) continue;
+      const { priceMessage } = pythClient.decodeFunc("priceUpdateV2", account.data);
+      const priceUsd = Number(priceMessage.price.toString()) * 10 ** priceMessage.exponent;
+      if (!(priceUsd > 0)) continue;
+      quotes.push({ mint, priceUsd, source: "pyth", observedAtMs: Number(priceMessage.publishTime.toString()) * 1000 });
+    }
+    return quotes;
+  },
+};
+
+const PROVIDERS: Record<string, PriceProvider> = {
+  jupiter: jupiterProvider,
+  drift: driftProvider,
+  pyth: pythProvider,
+};
+
+function activeProviders(): PriceProvider[] {
+  return config.prices.sources.map((name) => PROVIDERS[name]).filter((provider): provider is PriceProvider => !!provider);
+}
+
+// ---------------------------------------------------------------------------
+// Consensus
+// ---------------------------------------------------------------------------
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/**
+ * Combine one mint's quotes: drop the stale ones, reject those further than
+ * `maxDeviationPct` from the median and take the median of the rest. When
+ * nothing is left within range (two sources that disagree) the quote of the
+ * highest-priority source is used and the price is marked disputed.
+ * `quotes` must be in priority order.
+ */
+export function consensusPrice(
+  mint: string,
+  quotes: PriceQuote[],
+  nowMs = Date.now(),
+  options: { maxAgeMs?: number; maxDeviationPct?: number } = {}
+): ConsensusPrice {
+  const maxAgeMs = options.maxAgeMs ?? config.prices.maxAgeSeconds * 1000;
+  const maxDeviationPct = options.maxDeviationPct ?? config.prices.maxDeviationPct;
+  const rejected: RejectedQuote[] = [];
+  const at = new Date(nowMs).toISOString();
+
+  const fresh = quotes.filter((quote) => {
+    if (nowMs - quote.observedAtMs <= maxAgeMs) return true;
+    rejected.push({ source: quote.source, priceUsd: quote.priceUsd, reason: "stale" });
+    return false;
+  });
+  if (fresh.length === 0) return { mint, priceUsd: 0, sources: [], rejected, at };
+
+  const mid = median(fresh.map((quote) => quote.priceUsd));
+  const kept = fresh.filter((quote) => Math.abs(quote.priceUsd - mid) / mid <= maxDeviationPct);
+  if (kept.length === 0) {
+    const [primary, ...others] = fresh;
+    for (const quote of others) rejected.push({ source: quote.source, priceUsd: quote.priceUsd, reason: "outlier" });
+    return { mint, priceUsd: primary.priceUsd, sources: [primary.source], rejected, disputed: true, at };
+  }
+  for (const quote of fresh) {
+    if (!kept.includes(quote)) rejected.push({ source: quote.source, priceUsd: quote.priceUsd, reason: "outlier" });
+  }
+  return {
+    mint,
+    priceUsd: median(kept.map((quote) => quote.priceUsd)),
+    sources: kept.map((quote) => quote.source),
+    rejected,
+    at,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Health
+// ---------------------------------------------------------------------------
+
+const health: PriceHealth = { sources: {}, cacheHits: 0, cacheMisses: 0, fallbacks: 0, unpriced: 0, disputed: 0 };
+
+function sourceHealth(name: string): PriceSourceHealth {
+  health.sources[name] ??= {
+    requests: 0,
+    failures: 0,
+    consecutiveFailures: 0,
+    quotes: 0,
+    stale: 0,
+    outliers: 0,
+    lastLatencyMs: 0,
+  };
+  return health.sources[name];
+}
+
+export function getPriceHealth(): PriceHealth {
+  return structuredClone(health);
+}
+
+// ---------------------------------------------------------------------------
+// Fetch — every active source is asked in parallel with its own timeout, so
+// a slow or failing source only costs its quotes
+// ---------------------------------------------------------------------------
+
+async function runProvider(provider: PriceProvider, mints: string[], nowMs: number): Promise<PriceQuote[]> {
+  const stats = sourceHealth(provider.name);
+  stats.requests++;
+  const startedMs = Date.now();
+  let timer: NodeJS.Timeout | undefined;
+  try {
+    const quotes = await Promise.race([
+      provider.fetchQuotes(mints, nowMs),
+      new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new Error(`timed out after ${config.prices.sourceTimeoutMs}ms`)), config.prices.sourceTimeoutMs);
+      }),
+    ]);
+    stats.lastLatencyMs = Date.now() - startedMs;
+    stats.consecutiveFailures = 0;
+    stats.lastSuccessAt = new Date().toISOString();
+    const usable = quotes.filter((quote) => Number.isFinite(quote.priceUsd) && quote.priceUsd > 0);
+    stats.quotes += usable.length;
+    return usable;
+  } catch (e) {
+    const message = e instanceof Error ? e.message : String(e);
+    stats.lastLatencyMs = Date.now() - startedMs;
+    stats.failures++;
+    stats.consecutiveFailures++;
+    stats.lastError = message;
+    stats.lastErrorAt = new Date().toISOString();
+    // one warning per failure streak
+    if (stats.consecutiveFailures === 1) log.warn(`${provider.name} price source failed: ${message}`);
+    return [];
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+async function fetchRound(mints: string[]): Promise<Record<string, ConsensusPrice>> {
+  const nowMs = Date.now();
+  const providers = activeProviders();
+  const results = await Promise.all(providers.map((provider) => runProvider(provider, mints, nowMs)));
+
+  const prices: Record<string, ConsensusPrice> = {};
+  for (const mint of mints) {
+    const quotes = results.flat().filter((quote) => quote.mint === mint);
+    const price = consensusPrice(mint, quotes, nowMs);
+    for (const rejected of price.rejected) {
+      const stats = sourceHealth(rejected.source);
+      if (rejected.reason === "stale") stats.stale++;
+      else stats.outliers++;
+    }
+    if (price.priceUsd > 0) {
+      if (price.disputed) {
+        health.disputed++;
+        log.warn(
+          `Price sources disagree on ${mint}: ${quotes.map((quote) => `${quote.source}=$${quote.priceUsd}`).join(", ")}; using ${price.sources[0]}`
+        );
+      }
+      const primary = quotes[0]?.source;
+      if (primary !== providers[0]?.name || !price.sources.includes(primary)) health.fallbacks++;
+    } else {
+      health.unpriced++;
+    }
+    prices[mint] = price;
+  }
+  return prices;
+}
+
+// ---------------------------------------------------------------------------
+// Cache — priced mints are kept for cacheTtlMs and concurrent callers share
+// one round; unpriced mints are asked again on the next call
+// ---------------------------------------------------------------------------
+
+const cache = new Map<string, { price: ConsensusPrice; atMs: number }>();
+const inFlight = new Map<string, Promise<ConsensusPrice>>();
+
+/** Consensus price of every mint, with the quotes that were used and rejected. */
+export async function fetchPriceDetails(mints: string[]): Promise<Record<string, ConsensusPrice>> {
+  const unique = [...new Set(mints.filter(Boolean))];
+  const nowMs = Date.now();
+  const pending = new Map<string, Promise<ConsensusPrice>>();
+  const missing: string[] = [];
+  const prices: Record<string, ConsensusPrice> = {};
+
+  for (const mint of unique) {
+    const cached = cache.get(mint);
+    if (cached && nowMs - cached.atMs < config.prices.cacheTtlMs) {
+      health.cacheHits++;
+      prices[mint] = cached.price;
+      continue;
+    }
+    const shared = inFlight.get(mint);
+    if (shared) {
+      health.cacheHits++;
+      pending.set(mint, shared);
+      continue;
+    }
+    health.cacheMisses++;
+    missing.push(mint);
+  }
+
+  if (missing.length > 0) {
+    const round = fetchRound(missing);
+    for (const mint of missing) {
+      const one = round.then((result) => result[mint]);
+      inFlight.set(mint, one);
+      pending.set(mint, one);
+    }
+    round
+      .then((result) => {
+        for (const [mint, price] of Object.entries(result)) {
+          if (price.priceUsd > 0) cache.set(mint, { price, atMs: Date.now() });
+        }
+      })
+      .catch(() => undefined)
+      .finally(() => {
+        for (const mint of missing) inFlight.delete(mint);
+      });
+  }
+
+  for (const [mint, one] of pending) prices[mint] = await one;
+  return prices;
+}
+
+/** USD price per mint; 0 where no source could price it. */
+export async function fetchPricesUsd(mints: string[]): Promise<Record<string, number>> {
+  const details = await fetchPriceDetails(mints);
+  const prices: Record<string, number> = {};
+  for (const mint of mints) prices[mint] = details[mint]?.priceUsd ?? 0;
+  return prices;
+}
+
+export async function fetchPriceUsd(mint: string): Promise<number> {
+  return (await fetchPricesUsd([mint]))[mint] ?? 0;
+}
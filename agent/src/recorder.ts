@@ -0,0 +1,65 @@
+import { pruneCandleStore, recordPriceSamples } from "./candles.js";
+import { config } from "./config.js";
+import { createLogger } from "./logger.js";
+import { getAvailableMarkets } from "./perps.js";
+import { fetchPricesUsd } from "./prices.js";
+import type { State } from "./state.js";
+
+const log = createLogger("recorder");
+
+const SOL_MINT = "So11111111111111111111111111111111111111112";
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/** SOL, held tokens, perp underlyings (every market when perps are on) and the watchlist. */
+export function recordedMints(state: State): string[] {
+  const perpMints = config.perps.enabled
+    ? getAvailableMarkets().map((market) => market.underlyingMint)
+    : Object.values(state.perpPositions).map((pos) => pos.underlyingMint);
+  return [
+    ...new Set([SOL_MINT, ...Object.keys(state.positions), ...perpMints, ...config.priceRecorder.watchlist]),
+  ].filter(Boolean);
+}
+
+// ---------------------------------------------------------------------------
+// Recorder loop — samples on its own interval, next to the stop-loss loop.
+// Reads state without the mutex: a position opened mid-sample is picked up
+// on the next one.
+// ---------------------------------------------------------------------------
+
+export async function runPriceRecorder(state: State, signal: AbortSignal): Promise<void> {
+  const intervalMs = config.priceRecorder.intervalSeconds * 1000;
+  log.info(`Price recorder started (interval: ${config.priceRecorder.intervalSeconds}s)`);
+  let lastPruneMs = 0;
+
+  while (!signal.aborted) {
+    try {
+      const prices = await fetchPricesUsd(recordedMints(state));
+      await recordPriceSamples(prices);
+    } catch (e) {
+      log.warn(`Price sample failed: ${e instanceof Error ? e.message : String(e)}`);
+    }
+
+    if (Date.now() - lastPruneMs >= PRUNE_INTERVAL_MS) {
+      lastPruneMs = Date.now();
+      try {
+        const removed = await pruneCandleStore();
+        if (removed > 0) log.info(`Pruned ${removed} candle file(s) past retention`);
+      } catch (e) {
+        log.warn(`Candle retention failed: ${e instanceof Error ? e.message : String(e)}`);
+      }
+    }
+
+    await Promise.race([
+      sleep(intervalMs),
+      new Promise<void>((resolve) => {
+        signal.addEventListener("abort", () => resolve(), { once: true });
+      }),
+    ]);
+  }
+
+  log.info("Price recorder stopped.");
+}
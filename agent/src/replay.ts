@@ -0,0 +1,315 @@
+import type { LedgerEvent } from "ledger";
+import { config } from "./config.js";
+import { getDriftMarket } from "./perps.js";
+import {
+  applyPerpClose,
+  applyPerpOpen,
+  applyResult,
+  buildInitialState,
+  markIntentApplied,
+  reconcileSpotPositions,
+  writeOffPerp,
+} from "./state.js";
+import type { ExitPlan, State, TradeIntent } from "./state.js";
+
+const SOL_MINT = "So11111111111111111111111111111111111111112";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface ReplayReport {
+  state: State;
+  events: number;
+  applied: number;
+  // swap_filled events from before swap_applied existed, booked from the
+  // mints alone (symbol and decimals guessed)
+  legacyFills: number;
+  warnings: string[];
+  from?: string;
+  to?: string;
+}
+
+export interface StateDiff {
+  field: string;
+  current: string;
+  rebuilt: string;
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function str(value: unknown): string | undefined {
+  return typeof value === "string" && value ? value : undefined;
+}
+
+function num(value: unknown): number | undefined {
+  return typeof value === "number" && Number.isFinite(value) ? value : undefined;
+}
+
+function baseIntentId(attemptId: string): string {
+  return attemptId.replace(/-retry\d+$/, "");
+}
+
+// ---------------------------------------------------------------------------
+// Replay — rebuild the booked portion of State (cash, cost basis, realized
+// PnL, perps) through the same mutations the live loop uses. Cycle,
+// cooldowns, failure counts and the breaker are not in the ledger.
+// ---------------------------------------------------------------------------
+
+export function replayLedger(records: LedgerEvent[], initialCashLamports?: string): ReplayReport {
+  let state = buildInitialState(initialCashLamports);
+  const warnings: string[] = [];
+  let applied = 0;
+  let legacyFills = 0;
+
+  // Fills the agent booked itself; their swap_filled duplicates are skipped.
+  const bookedIds = new Set(
+    records.flatMap((r) => (r.type === "swap_applied" ? [r.payload.intentId] : []))
+  );
+
+  let initialized = false;
+  for (const record of records) {
+    const at = new Date(record.timestamp);
+    const where = `${record.timestamp} ${record.type}${record.seq ? ` #${record.seq}` : ""}`;
+
+    switch (record.type) {
+      case "state_initialized": {
+        if (initialized) warnings.push(`${where}: state was re-initialized; earlier history discarded`);
+        initialized = true;
+        state = buildInitialState(str(record.payload.cashLamports) ?? initialCashLamports);
+        state.perpBalanceUsd = num(record.payload.perpBalanceUsd) ?? state.perpBalanceUsd;
+        break;
+      }
+
+      case "cash_synced": {
+        const diff = BigInt(str(record.payload.diffLamports) ?? "0");
+        state.cashLamports = (BigInt(state.cashLamports) + diff).toString();
+        state.initialCashLamports = (BigInt(state.initialCashLamports ?? "0") + diff).toString();
+        break;
+      }
+
+      case "perp_balance_synced": {
+        state.perpBalanceUsd = num(record.payload.perpBalanceUsd) ?? state.perpBalanceUsd;
+        break;
+      }
+
+      case "swap_applied": {
+        const action = record.payload.action === "buy" || record.payload.action === "sell" ? record.payload.action : undefined;
+        const intentId = str(record.payload.intentId);
+        if (!action || !intentId) {
+          warnings.push(`${where}: missing action or intentId`);
+          break;
+        }
+        const intent: TradeIntent = {
+          id: intentId,
+          action,
+          inputMint: str(record.payload.inputMint) ?? "",
+          outputMint: str(record.payload.outputMint) ?? "",
+          amountLamports: 0,
+          slippageBps: 0,
+          metadata: {
+            tokenSymbol: record.payload.symbol,
+            decimals: record.payload.decimals,
+            exitPlan: record.payload.exitPlan as ExitPlan | undefined,
+            ladderStep: record.payload.ladderStep,
+          },
+        };
+        applyResult(state, intent, {
+          success: true,
+          inputAmount: str(record.payload.inputAmount) ?? "0",
+          outputAmount: str(record.payload.outputAmount) ?? "0",
+        }, at);
+        markIntentApplied(state, intentId);
+        applied++;
+        break;
+      }
+
+      case "swap_filled": {
+        const intentId = str(record.payload.intentId) ?? "";
+        if (bookedIds.has(baseIntentId(intentId))) break;
+        const inputMint = str(record.payload.inputMint) ?? "";
+        const outputMint = str(record.payload.outputMint) ?? "";
+        const action = inputMint === SOL_MINT ? "buy" : outputMint === SOL_MINT ? "sell" : undefined;
+        if (!action) {
+          warnings.push(`${where}: ${intentId || "fill"} is not a SOL swap, skipped`);
+          break;
+        }
+        const held = state.positions[action === "buy" ? outputMint : inputMint];
+        if (action === "buy" && !held) {
+          warnings.push(`${where}: ${intentId || "fill"} has no symbol/decimals, booked as 9 decimals`);
+        }
+        applyResult(state, {
+          id: intentId,
+          action,
+          inputMint,
+          outputMint,
+          amountLamports: 0,
+          slippageBps: 0,
+          metadata: {},
+        }, {
+          success: true,
+          inputAmount: str(record.payload.inputAmount) ?? "0",
+          outputAmount: str(record.payload.outputAmount) ?? "0",
+        }, at);
+        applied++;
+        legacyFills++;
+        break;
+      }
+
+      case "position_reconciled": {
+        const mint = str(record.payload.mint);
+        if (!mint || !state.positions[mint]) break;
+        const afterRaw = record.payload.action === "deleted" ? "0" : str(record.payload.afterRaw) ?? "0";
+        reconcileSpotPositions(
+          state,
+          Object.values(state.positions).map((p) => ({
+            mint: p.mint,
+            rawAmount: p.mint === mint ? afterRaw : p.rawAmount,
+          }))
+        );
+        break;
+      }
+
+      case "perp_opened": {
+        const market = str(record.payload.market);
+        const underlyingMint = str(record.payload.underlyingMint) ?? (market ? getDriftMarket(market)?.underlyingMint : undefined);
+        const collateralUsd = num(record.payload.collateralUsd);
+        const entryPriceUsd = num(record.payload.entryPriceUsd);
+        const leverage = num(record.payload.leverage);
+        if (!market || !underlyingMint || !collateralUsd || !entryPriceUsd || !leverage) {
+          warnings.push(`${where}: incomplete perp open, skipped`);
+          break;
+        }
+        const side = record.payload.side === "short" ? "short" : "long";
+        applyPerpOpen(state, market, underlyingMint, side, leverage, collateralUsd, entryPriceUsd, at);
+        state.filledCount++;
+        applied++;
+        break;
+      }
+
+      case "perp_closed": {
+        const market = str(record.payload.market);
+        const pos = market ? state.perpPositions[market] : undefined;
+        const closePriceUsd = num(record.payload.closePriceUsd);
+        if (!market || !pos || !closePriceUsd) {
+          warnings.push(`${where}: no open ${market ?? "perp"} position to close, skipped`);
+          break;
+        }
+        const borrowFeeUsd = num(record.payload.borrowFeeUsd);
+        if (borrowFeeUsd !== undefined) {
+          pos.borrowFeeUsd = borrowFeeUsd;
+        } else {
+          // Older events carry only the net PnL; back the fee out of it.
+          const pnlUsd = num(record.payload.pnlUsd) ?? 0;
+          const priceChange = (closePriceUsd - pos.entryPriceUsd) / pos.entryPriceUsd;
+          const rawPnl = pos.side === "long" ? pos.sizeUsd * priceChange : pos.sizeUsd * -priceChange;
+          pos.borrowFeeUsd = Math.max(0, rawPnl - pos.sizeUsd * config.perps.openCloseFeeRate - pnlUsd);
+        }
+        applyPerpClose(state, market, closePriceUsd);
+        state.filledCount++;
+        applied++;
+        break;
+      }
+
+      case "perp_write_off": {
+        const market = str(record.payload.market);
+        if (!market || !state.perpPositions[market]) {
+          warnings.push(`${where}: no open ${market ?? "perp"} position to write off, skipped`);
+          break;
+        }
+        writeOffPerp(state, market);
+        applied++;
+        break;
+      }
+    }
+  }
+
+  if (!initialized && records.length > 0) {
+    warnings.push("no state_initialized event: starting cash is the configured initial cash");
+  }
+
+  state.updatedAt = new Date().toISOString();
+  return {
+    state,
+    events: records.length,
+    applied,
+    legacyFills,
+    warnings,
+    from: records[0]?.timestamp,
+    to: records[records.length - 1]?.timestamp,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Diff and restore
+// ---------------------------------------------------------------------------
+
+export function diffStates(current: State | null, rebuilt: State): StateDiff[] {
+  const rows: StateDiff[] = [];
+  const push = (field: string, a: unknown, b: unknown): void => {
+    const cur = a === undefined ? "-" : String(a);
+    const next = b === undefined ? "-" : String(b);
+    if (cur !== next) rows.push({ field, current: cur, rebuilt: next });
+  };
+  const usd = (value: number | undefined): string | undefined => (value === undefined ? undefined : value.toFixed(2));
+
+  push("cashLamports", current?.cashLamports, rebuilt.cashLamports);
+  push("initialCashLamports", current?.initialCashLamports, rebuilt.initialCashLamports);
+  push("realizedPnlLamports", current?.realizedPnlLamports, rebuilt.realizedPnlLamports);
+  push("filledCount", current?.filledCount, rebuilt.filledCount);
+  push("perpBalanceUsd", usd(current?.perpBalanceUsd), usd(rebuilt.perpBalanceUsd));
+  push("realizedPerpPnlUsd", usd(current?.realizedPerpPnlUsd), usd(rebuilt.realizedPerpPnlUsd));
+
+  const mints = new Set([...Object.keys(current?.positions ?? {}), ...Object.keys(rebuilt.positions)]);
+  for (const mint of mints) {
+    const a = current?.positions[mint];
+    const b = rebuilt.positions[mint];
+    const label = `positions[${b?.symbol ?? a?.symbol ?? mint.slice(0, 8)}]`;
+    push(`${label}.rawAmount`, a?.rawAmount, b?.rawAmount);
+    push(`${label}.costLamports`, a?.costLamports, b?.costLamports);
+    push(`${label}.decimals`, a?.decimals, b?.decimals);
+  }
+
+  const markets = new Set([...Object.keys(current?.perpPositions ?? {}), ...Object.keys(rebuilt.perpPositions)]);
+  for (const market of markets) {
+    const a = current?.perpPositions[market];
+    const b = rebuilt.perpPositions[market];
+    push(`perpPositions[${market}].side`, a?.side, b?.side);
+    push(`perpPositions[${market}].collateralUsd`, usd(a?.collateralUsd), usd(b?.collateralUsd));
+    push(`perpPositions[${market}].entryPriceUsd`, a?.entryPriceUsd, b?.entryPriceUsd);
+  }
+  return rows;
+}
+
+/**
+ * The rebuilt booking with everything the ledger does not record (cycle,
+ * cooldowns, failure count, breaker, high-water marks) kept from the
+ * current state when it is readable.
+ */
+export function mergeRebuilt(current: State | null, rebuilt: State): State {
+  if (!current) return rebuilt;
+  const positions = Object.fromEntries(
+    Object.entries(rebuilt.positions).map(([mint, pos]) => [
+      mint,
+      { ...pos, highWaterPriceUsd: current.positions[mint]?.highWaterPriceUsd },
+    ])
+  );
+  const perpPositions = Object.fromEntries(
+    Object.entries(rebuilt.perpPositions).map(([market, pos]) => [
+      market,
+      { ...pos, highWaterPriceUsd: current.perpPositions[market]?.highWaterPriceUsd ?? pos.highWaterPriceUsd },
+    ])
+  );
+  return {
+    ...rebuilt,
+    cycle: current.cycle,
+    lastIntentAt: current.lastIntentAt,
+    failedCount: current.failedCount,
+    breaker: current.breaker,
+    positions,
+    perpPositions,
+    appliedIntents: [...new Set([...(current.appliedIntents ?? []), ...(rebuilt.appliedIntents ?? [])])],
+  };
+}
@@ -1,7 +1,9 @@
 import { randomUUID } from "node:crypto";
 import { config } from "./config.js";
 import { createLogger } from "./logger.js";
-import type { State, TradeIntent } from "./state.js";
+import { fetchPricesUsd } from "./prices.js";
+import type { ExitReason, Position, State, TradeIntent } from "./state.js";
+import type { SwapQuote } from "./wallet.js";
 
 const log = createLogger("safety");
 
@@ -30,44 +32,6 @@ function toNumber(value: unknown): number {
   return Number.isFinite(num) ? num : 0;
 }
 
-function buildPriceUrl(mints: string[]): string {
-  const url = new URL(`${config.jupiter.baseUrl}/price/v3`);
-  url.searchParams.set("ids", mints.join(","));
-  return url.toString();
-}
-
-async function fetchPricesUsd(mints: string[]): Promise<Record<string, number>> {
-  if (mints.length === 0) return {};
-
-  const response = await fetch(buildPriceUrl(mints));
-  if (!response.ok) {
-    const body = (await response.text()).slice(0, 200);
-    throw new Error(`Jupiter price failed: ${response.status} ${body}`);
-  }
-
-  const payload = (await response.json()) as
-    | Record<string, unknown>
-    | { data?: Record<string, unknown> };
-  const data: Record<string, unknown> =
-    payload &&
-    typeof payload === "object" &&
-    "data" in payload &&
-    payload.data &&
-    typeof payload.data === "object"
-      ? (payload.data as Record<string, unknown>)
-      : (payload as Record<string, unknown>);
-
-  const prices: Record<string, number> = {};
-  for (const mint of mints) {
-    const row = data[mint] as Record<string, unknown> | undefined;
-    const price = toNumber(
-      row?.usdPrice ?? row?.price ?? row?.priceUsd ?? row?.value
-    );
-    prices[mint] = price > 0 ? price : 0;
-  }
-  return prices;
-}
-
 function calcPositionPnlPct(
   costLamports: bigint,
   rawAmount: bigint,
@@ -99,27 +63,130 @@ function calcSellRaw(rawAmount: bigint): bigint {
   return rawAmount;
 }
 
-function makeIntentId(symbol: string, action: "buy" | "sell"): string {
-  return `agentic-${Date.now()}-${symbol.toLowerCase()}-${action}-${randomUUID().slice(0, 6)}`;
+function makeIntentId(symbol: string, action: "buy" | "sell", nowMs: number): string {
+  return `agentic-${nowMs}-${symbol.toLowerCase()}-${action}-${randomUUID().slice(0, 6)}`;
+}
+
+// ---------------------------------------------------------------------------
+// Exit rules
+// ---------------------------------------------------------------------------
+
+interface SpotExit {
+  exitReason: ExitReason;
+  reason: string;
+  // Fraction of the held amount to sell; full exits use calcSellRaw.
+  sellPct?: number;
+  ladderStep?: number;
+}
+
+/**
+ * First exit rule a spot position trips, in priority order: stop-loss,
+ * plan stop, trailing stop, take-profit (the plan target replaces the
+ * global one when set), plan time stop, max hold, then the next unfilled
+ * take-profit ladder step. The trailing stop only arms once the position
+ * was worth trailingStopActivationPct more than its cost at the
+ * high-water price.
+ */
+function decideSpotExit(
+  position: Position,
+  pnlPct: number,
+  tokenPrice: number,
+  solPriceUsd: number,
+  holdMinutes: number,
+  nowMs: number
+): SpotExit | null {
+  const pnl = `pnl=${(pnlPct * 100).toFixed(2)}%`;
+  const plan = position.exitPlan;
+  if (tokenPrice > 0 && pnlPct <= config.stopLossPct) {
+    return { exitReason: "stop_loss", reason: `stop-loss ${pnl}` };
+  }
+
+  if (tokenPrice > 0 && plan?.stopPriceUsd && tokenPrice <= plan.stopPriceUsd) {
+    return { exitReason: "plan_stop", reason: `plan-stop price=$${tokenPrice} <= $${plan.stopPriceUsd} ${pnl}` };
+  }
+
+  const highWater = position.highWaterPriceUsd ?? 0;
+  if (config.trailingStopPct > 0 && tokenPrice > 0 && highWater > 0) {
+    const peakPnlPct = calcPositionPnlPct(
+      toBigint(position.costLamports),
+      toBigint(position.rawAmount),
+      position.decimals,
+      highWater,
+      solPriceUsd
+    );
+    const drawdown = 1 - tokenPrice / highWater;
+    if (peakPnlPct >= config.trailingStopActivationPct && drawdown >= config.trailingStopPct) {
+      return {
+        exitReason: "trailing_stop",
+        reason: `trailing-stop drawdown=${(drawdown * 100).toFixed(2)}% from high=$${highWater} ${pnl}`,
+      };
+    }
+  }
+
+  // A plan's target, or its unfilled ladder steps, replace the global
+  // take-profit, which would otherwise sell everything before the ladder.
+  const ladderPending = (plan?.ladder ?? []).some((entry) => !entry.filledAt);
+  if (plan?.targetPriceUsd) {
+    if (tokenPrice >= plan.targetPriceUsd) {
+      return { exitReason: "plan_target", reason: `plan-target price=$${tokenPrice} >= $${plan.targetPriceUsd} ${pnl}` };
+    }
+  } else if (!ladderPending && tokenPrice > 0 && config.takeProfitPct > 0 && pnlPct >= config.takeProfitPct) {
+    return { exitReason: "take_profit", reason: `take-profit ${pnl}` };
+  }
+
+  if (plan?.timeStopAt && nowMs >= Date.parse(plan.timeStopAt)) {
+    return { exitReason: "plan_time_stop", reason: `plan-time-stop at=${plan.timeStopAt} ${pnl}` };
+  }
+
+  if (holdMinutes >= config.maxHoldMinutes) {
+    return { exitReason: "max_hold", reason: `max-hold hold=${holdMinutes.toFixed(0)}min ${pnl}` };
+  }
+
+  const ladder = plan?.ladder ?? [];
+  const step = ladder.findIndex((entry) => !entry.filledAt && tokenPrice > 0 && tokenPrice >= entry.priceUsd);
+  if (step >= 0) {
+    const { priceUsd, sellPct } = ladder[step];
+    return {
+      exitReason: "plan_ladder",
+      reason: `plan-ladder step=${step + 1}/${ladder.length} price=$${tokenPrice} >= $${priceUsd} sell=${(sellPct * 100).toFixed(0)}% ${pnl}`,
+      sellPct,
+      ladderStep: step,
+    };
+  }
+
+  return null;
 }
 
 // ---------------------------------------------------------------------------
-// checkStopLoss — returns sell intents for positions that hit stop-loss
+// checkStopLoss — returns sell intents for positions that hit stop-loss,
+// trailing stop, take-profit, max hold or a step of their exit plan. Also
+// advances each position's high-water price, so callers should persist
+// state afterwards.
 // ---------------------------------------------------------------------------
 
 export async function checkStopLoss(state: State): Promise<TradeIntent[]> {
   const positionMints = Object.keys(state.positions);
   if (positionMints.length === 0) return [];
 
-  const allMints = [SOL_MINT, ...positionMints];
-  let prices: Record<string, number>;
-  try {
-    prices = await fetchPricesUsd(allMints);
-  } catch (e) {
-    log.warn(`Stop-loss price fetch failed: ${e instanceof Error ? e.message : String(e)}`);
-    return [];
-  }
+  // Consensus across every price source, so a Jupiter outage or a zero
+  // quote falls back to the others instead of skipping the check.
+  const prices = await fetchPricesUsd([SOL_MINT, ...positionMints]);
+  const unpriced = positionMints.filter((mint) => !(prices[mint] > 0));
+  if (unpriced.length > 0) log.warn(`Stop-loss: no price from any source for ${unpriced.join(", ")}`);
+
+  return evaluateSpotExits(state, prices);
+}
 
+/**
+ * The price-independent half of checkStopLoss: evaluate every spot
+ * position against the given USD prices at `nowMs`. The backtester calls
+ * it directly with recorded prices and a simulated clock.
+ */
+export function evaluateSpotExits(
+  state: State,
+  prices: Record<string, number>,
+  nowMs = Date.now()
+): TradeIntent[] {
   const solPriceUsd = prices[SOL_MINT] ?? 0;
   if (solPriceUsd <= 0) {
     log.warn("SOL price unavailable, skipping stop-loss check");
@@ -133,6 +200,10 @@ export async function checkStopLoss(state: State): Promise<TradeIntent[]> {
     const rawAmount = toBigint(position.rawAmount);
     const costLamports = toBigint(position.costLamports);
 
+    if (tokenPrice > (position.highWaterPriceUsd ?? 0)) {
+      position.highWaterPriceUsd = tokenPrice;
+    }
+
     // Skip dust positions too small for Jupiter to execute (keep tracked for recovery)
     if (tokenPrice > 0 && position.decimals >= 0) {
       const valueUsd = (Number(rawAmount) / 10 ** position.decimals) * tokenPrice;
@@ -149,10 +220,14 @@ export async function checkStopLoss(state: State): Promise<TradeIntent[]> {
       tokenPrice,
       solPriceUsd
     );
+    const holdMinutes = Math.max(0, (nowMs - Date.parse(position.openedAt)) / 60_000);
 
-    if (pnlPct > config.stopLossPct) continue;
+    const exit = decideSpotExit(position, pnlPct, tokenPrice, solPriceUsd, holdMinutes, nowMs);
+    if (!exit) continue;
 
-    const sellRaw = calcSellRaw(rawAmount);
+    const sellRaw = exit.sellPct !== undefined && exit.sellPct < 1
+      ? (rawAmount * BigInt(Math.floor(exit.sellPct * 1_000_000))) / 1_000_000n
+      : calcSellRaw(rawAmount);
     if (sellRaw <= 0n) continue;
 
     // Skip sell intent if the sell amount value is below minimum trade threshold
@@ -164,12 +239,10 @@ export async function checkStopLoss(state: State): Promise<TradeIntent[]> {
       }
     }
 
-    const reason = `stop-loss pnl=${(pnlPct * 100).toFixed(2)}%`;
-
-    log.info(`[StopLoss] ${position.symbol}: ${reason}`);
+    log.info(`[StopLoss] ${position.symbol}: ${exit.reason}`);
 
     intents.push({
-      id: makeIntentId(position.symbol, "sell"),
+      id: makeIntentId(position.symbol, "sell", nowMs),
       action: "sell",
       inputMint: mint,
       outputMint: SOL_MINT,
@@ -178,8 +251,12 @@ export async function checkStopLoss(state: State): Promise<TradeIntent[]> {
       metadata: {
         planner: "safety",
         tokenSymbol: position.symbol,
-        reason,
+        reason: exit.reason,
+        exitReason: exit.exitReason,
         pnlPct,
+        holdMinutes,
+        highWaterPriceUsd: position.highWaterPriceUsd,
+        ...(exit.ladderStep !== undefined ? { ladderStep: exit.ladderStep } : {}),
       },
     });
   }
@@ -188,7 +265,8 @@ export async function checkStopLoss(state: State): Promise<TradeIntent[]> {
 }
 
 // ---------------------------------------------------------------------------
-// checkPerpStopLoss — returns perp_close intents for positions that hit SL/TP/liquidation/timeout
+// checkPerpStopLoss — returns perp_close intents for positions that hit
+// liquidation/SL/trailing stop/TP/timeout, and advances high-water marks
 // ---------------------------------------------------------------------------
 
 export async function checkPerpStopLoss(state: State): Promise<TradeIntent[]> {
@@ -204,15 +282,22 @@ export async function checkPerpStopLoss(state: State): Promise<TradeIntent[]> {
   const underlyingMints = [...new Set(Object.values(mintMap))];
   if (underlyingMints.length === 0) return [];
 
-  let prices: Record<string, number>;
-  try {
-    prices = await fetchPricesUsd(underlyingMints);
-  } catch (e) {
-    log.warn(`Perp stop-loss price fetch failed: ${e instanceof Error ? e.message : String(e)}`);
-    return [];
-  }
+  const prices = await fetchPricesUsd(underlyingMints);
+  const unpriced = underlyingMints.filter((mint) => !(prices[mint] > 0));
+  if (unpriced.length > 0) log.warn(`Perp stop-loss: no price from any source for ${unpriced.join(", ")}`);
 
-  const nowMs = Date.now();
+  return evaluatePerpExits(state, prices);
+}
+
+/**
+ * The price-independent half of checkPerpStopLoss: accrue borrow fees up
+ * to `nowMs` and evaluate every perp position against the given marks.
+ */
+export function evaluatePerpExits(
+  state: State,
+  prices: Record<string, number>,
+  nowMs = Date.now()
+): TradeIntent[] {
   const intents: TradeIntent[] = [];
 
   for (const [market, pos] of Object.entries(state.perpPositions)) {
@@ -232,10 +317,14 @@ export async function checkPerpStopLoss(state: State): Promise<TradeIntent[]> {
     const markPrice = prices[underlyingMint] ?? 0;
     if (markPrice <= 0) continue;
 
+    const highWater = pos.highWaterPriceUsd ?? pos.entryPriceUsd;
+    pos.highWaterPriceUsd =
+      pos.side === "long" ? Math.max(highWater, markPrice) : Math.min(highWater, markPrice);
+
     // Accumulate borrow fee
     const holdHours = Math.max(0, (nowMs - Date.parse(pos.openedAt)) / 3_600_000);
     pos.borrowFeeUsd = pos.sizeUsd * config.perps.hourlyBorrowRate * holdHours;
-    pos.updatedAt = new Date().toISOString();
+    pos.updatedAt = new Date(nowMs).toISOString();
 
     // PnL calculation
     const priceChange = (markPrice - pos.entryPriceUsd) / pos.entryPriceUsd;
@@ -252,20 +341,51 @@ export async function checkPerpStopLoss(state: State): Promise<TradeIntent[]> {
     const remainingCollateral = pos.collateralUsd + netPnl;
     const isLiquidation = remainingCollateral < pos.sizeUsd * config.perps.liquidationThreshold;
     const isStopLoss = pnlPct <= config.perps.stopLossPct;
-    const isTimeout = holdMinutes >= config.perps.maxHoldMinutes;
 
-    if (!isLiquidation && !isStopLoss && !isTimeout) continue;
+    // Trailing stop: pnl the best mark would have given (fees aside) arms
+    // it; a retrace of trailingStopPct from that mark fires it.
+    const favorable = (price: number): number =>
+      pos.side === "long"
+        ? (price - pos.entryPriceUsd) / pos.entryPriceUsd
+        : (pos.entryPriceUsd - price) / pos.entryPriceUsd;
+    const peakPnlPct = (pos.sizeUsd * favorable(pos.highWaterPriceUsd)) / pos.collateralUsd;
+    const retrace =
+      pos.side === "long"
+        ? (pos.highWaterPriceUsd - markPrice) / pos.highWaterPriceUsd
+        : (markPrice - pos.highWaterPriceUsd) / pos.highWaterPriceUsd;
+    const isTrailingStop =
+      config.perps.trailingStopPct > 0 &&
+      peakPnlPct >= config.perps.trailingStopActivationPct &&
+      retrace >= config.perps.trailingStopPct;
+    const isTakeProfit = pnlPct >= config.perps.takeProfitPct;
+    const isTimeout = holdMinutes >= config.perps.maxHoldMinutes;
 
-    const reason = isLiquidation
-      ? `liquidation collateral=$${remainingCollateral.toFixed(2)}`
-      : isStopLoss
-        ? `stop-loss pnl=${(pnlPct * 100).toFixed(2)}%`
-        : `timeout hold=${holdMinutes.toFixed(0)}min`;
+    const pnl = `pnl=${(pnlPct * 100).toFixed(2)}%`;
+    let exitReason: ExitReason;
+    let reason: string;
+    if (isLiquidation) {
+      exitReason = "liquidation";
+      reason = `liquidation collateral=$${remainingCollateral.toFixed(2)}`;
+    } else if (isStopLoss) {
+      exitReason = "stop_loss";
+      reason = `stop-loss ${pnl}`;
+    } else if (isTrailingStop) {
+      exitReason = "trailing_stop";
+      reason = `trailing-stop retrace=${(retrace * 100).toFixed(2)}% from $${pos.highWaterPriceUsd.toFixed(4)} ${pnl}`;
+    } else if (isTakeProfit) {
+      exitReason = "take_profit";
+      reason = `take-profit ${pnl}`;
+    } else if (isTimeout) {
+      exitReason = "max_hold";
+      reason = `timeout hold=${holdMinutes.toFixed(0)}min`;
+    } else {
+      continue;
+    }
 
     log.info(`[PerpStopLoss] ${market} ${pos.side}: ${reason}`);
 
     intents.push({
-      id: `agentic-${Date.now()}-${market.toLowerCase()}-perp_close-${randomUUID().slice(0, 6)}`,
+      id: `agentic-${nowMs}-${market.toLowerCase()}-perp_close-${randomUUID().slice(0, 6)}`,
       action: "perp_close",
       inputMint: underlyingMint,
       outputMint: "",
@@ -275,8 +395,10 @@ export async function checkPerpStopLoss(state: State): Promise<TradeIntent[]> {
         planner: "safety",
         perpMarket: market,
         reason,
+        exitReason,
         pnlPct,
         holdMinutes,
+        highWaterPriceUsd: pos.highWaterPriceUsd,
       },
     });
   }
@@ -353,6 +475,122 @@ export function validateIntent(intent: TradeIntent): string | null {
   return null;
 }
 
+// ---------------------------------------------------------------------------
+// revalidatePlannedIntent — Codex plans against a snapshot while the
+// stop-loss loop keeps trading, so re-check each intent against the live
+// state right before execution. Returns the reason to drop it, or null.
+// Sells are shrunk to what is still held.
+// ---------------------------------------------------------------------------
+
+export function revalidatePlannedIntent(
+  state: State,
+  snapshot: State,
+  intent: TradeIntent
+): string | null {
+  if (intent.action === "sell") {
+    const position = state.positions[intent.inputMint];
+    const planned = snapshot.positions[intent.inputMint];
+    if (!position) return "position was closed since planning";
+    if (planned && position.openedAt !== planned.openedAt) {
+      return "position was closed and reopened since planning";
+    }
+    const heldRaw = toBigint(position.rawAmount);
+    if (BigInt(intent.amountLamports) > heldRaw) {
+      intent.amountLamports = Number(heldRaw);
+    }
+    return null;
+  }
+
+  if (intent.action === "perp_close") {
+    const market = intent.metadata?.perpMarket as string;
+    const position = state.perpPositions[market];
+    const planned = snapshot.perpPositions[market];
+    if (!position) return "perp position was closed since planning";
+    if (planned && position.openedAt !== planned.openedAt) {
+      return "perp position was closed and reopened since planning";
+    }
+    return null;
+  }
+
+  if (intent.action === "perp_open") {
+    const market = intent.metadata?.perpMarket as string;
+    if (state.perpPositions[market]) return "perp position already open";
+    return null;
+  }
+
+  const isNewPosition = !state.positions[intent.outputMint];
+  if (isNewPosition && Object.keys(state.positions).length >= config.maxOpenPositions) {
+    return `max open positions (${config.maxOpenPositions}) reached`;
+  }
+  return null;
+}
+
+// ---------------------------------------------------------------------------
+// checkQuote — pre-execution gate for planner swaps. Compares the token
+// price implied by a fresh quote with the price the planner saw and with
+// its limit price, and asks for a smaller size when price impact is high.
+// ---------------------------------------------------------------------------
+
+export type QuoteCheck =
+  | { verdict: "ok" }
+  | { verdict: "resize"; reason: string }
+  | { verdict: "reject"; reason: string };
+
+export function checkQuote(
+  intent: TradeIntent,
+  quote: SwapQuote,
+  decimals: number,
+  solPriceUsd: number
+): QuoteCheck {
+  const limits = config.revalidation;
+  const isBuy = intent.action === "buy";
+  const solRaw = Number(isBuy ? quote.inAmount : quote.outAmount);
+  const tokenRaw = Number(isBuy ? quote.outAmount : quote.inAmount);
+  if (!(solRaw > 0) || !(tokenRaw > 0)) {
+    return { verdict: "reject", reason: `empty quote in=${quote.inAmount} out=${quote.outAmount}` };
+  }
+
+  // USD per whole token the quote actually pays (sell) or charges (buy)
+  const quotedPriceUsd =
+    solPriceUsd > 0 ? ((solRaw / 1_000_000_000) * solPriceUsd) / (tokenRaw / 10 ** decimals) : 0;
+
+  const plannedPriceUsd = toNumber(intent.metadata?.plannedPriceUsd);
+  if (quotedPriceUsd > 0 && plannedPriceUsd > 0 && limits.maxPriceMovePct > 0) {
+    const adverseMove = isBuy
+      ? quotedPriceUsd / plannedPriceUsd - 1
+      : 1 - quotedPriceUsd / plannedPriceUsd;
+    if (adverseMove > limits.maxPriceMovePct) {
+      return {
+        verdict: "reject",
+        reason: `price moved ${(adverseMove * 100).toFixed(2)}% against plan ($${plannedPriceUsd} → $${quotedPriceUsd.toPrecision(6)}, limit ${(limits.maxPriceMovePct * 100).toFixed(2)}%)`,
+      };
+    }
+  }
+
+  const limitPriceUsd = toNumber(intent.metadata?.limitPriceUsd);
+  if (limitPriceUsd > 0 && solPriceUsd > 0) {
+    // Least output the planner's limit price allows for this input
+    const floorRaw = isBuy
+      ? (((solRaw / 1_000_000_000) * solPriceUsd) / limitPriceUsd) * 10 ** decimals
+      : (((tokenRaw / 10 ** decimals) * limitPriceUsd) / solPriceUsd) * 1_000_000_000;
+    if (Number(quote.outAmount) < floorRaw) {
+      return {
+        verdict: "reject",
+        reason: `quoted output ${quote.outAmount} below floor ${Math.floor(floorRaw)} implied by limit $${limitPriceUsd}`,
+      };
+    }
+  }
+
+  if (limits.maxPriceImpactPct > 0 && Math.abs(quote.priceImpactPct) > limits.maxPriceImpactPct) {
+    return {
+      verdict: "resize",
+      reason: `priceImpactPct ${quote.priceImpactPct} above ${limits.maxPriceImpactPct}`,
+    };
+  }
+
+  return { verdict: "ok" };
+}
+
 function validatePerpIntent(intent: TradeIntent): string | null {
   if (!config.perps.enabled) {
     return "Perps are disabled";
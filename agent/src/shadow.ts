@@ -0,0 +1,318 @@
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import { createLedgerWriter, readLedger } from "ledger";
+import type { LedgerEvent, ShadowDecisionPayload } from "ledger";
+import { config } from "./config.js";
+import { createLogger } from "./logger.js";
+import { loadPlanner } from "./planner.js";
+import type { Planner } from "./planner.js";
+import { fetchPricesUsd } from "./prices.js";
+import type { State, TradeIntent } from "./state.js";
+
+const log = createLogger("shadow");
+
+const SOL_MINT = "So11111111111111111111111111111111111111112";
+const MINUTE_MS = 60_000;
+// A horizon that fell due this long ago (the agent was down) is dropped
+// rather than marked at a later price.
+const LATE_MARK_GRACE_MS = 5 * MINUTE_MS;
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface ShadowHorizonScore {
+  horizonMinutes: number;
+  marked: number;
+  // share of marked decisions with a positive return
+  hitRate: number;
+  avgReturnPct: number;
+  pnlUsd: number;
+}
+
+export interface ShadowPlannerScore {
+  planner: string;
+  live: boolean;
+  decisions: number;
+  horizons: ShadowHorizonScore[];
+}
+
+interface PendingMark {
+  decision: ShadowDecisionPayload;
+  decidedAtMs: number;
+  // horizons not marked yet
+  horizonsMinutes: number[];
+}
+
+// ---------------------------------------------------------------------------
+// Shadow ledger — its own file, so shadow decisions never mix with the
+// bookings that state is rebuilt from
+// ---------------------------------------------------------------------------
+
+export function shadowLedgerPath(): string {
+  return config.shadow.ledgerPath || path.join(path.dirname(config.statePath), "shadow-ledger.jsonl");
+}
+
+const writer = createLedgerWriter({ path: shadowLedgerPath(), writer: "agent" });
+
+let shadowPlanners: Planner[] = [];
+const running = new Set<string>();
+const pending: PendingMark[] = [];
+
+export function shadowEnabled(): boolean {
+  return config.shadow.planners.length > 0;
+}
+
+// ---------------------------------------------------------------------------
+// Decisions
+// ---------------------------------------------------------------------------
+
+/**
+ * What an intent bets on: the mint whose price decides it, the direction
+ * and the USD at stake. Null when the mint has no price.
+ */
+function describeDecision(
+  intent: TradeIntent,
+  state: State,
+  prices: Record<string, number>
+): Pick<ShadowDecisionPayload, "mint" | "priceUsd" | "notionalUsd" | "direction"> | null {
+  const meta = intent.metadata ?? {};
+  let mint: string;
+  let direction: 1 | -1;
+  let notionalUsd: (priceUsd: number) => number;
+
+  switch (intent.action) {
+    case "buy":
+      mint = intent.outputMint;
+      direction = 1;
+      notionalUsd = () => (intent.amountLamports / 1_000_000_000) * (prices[SOL_MINT] ?? 0);
+      break;
+    case "sell": {
+      mint = intent.inputMint;
+      direction = -1;
+      const decimals = state.positions[mint]?.decimals ?? (typeof meta.decimals === "number" ? meta.decimals : 9);
+      notionalUsd = (priceUsd) => (intent.amountLamports / 10 ** decimals) * priceUsd;
+      break;
+    }
+    case "perp_open":
+      mint = intent.inputMint;
+      direction = meta.perpSide === "short" ? -1 : 1;
+      notionalUsd = () => Number(meta.collateralUsd ?? 0) * Number(meta.leverage ?? 1);
+      break;
+    case "perp_close": {
+      const pos = state.perpPositions[String(meta.perpMarket ?? "")];
+      if (!pos) return null;
+      mint = pos.underlyingMint;
+      // closing a long pays off if the price then falls
+      direction = pos.side === "long" ? -1 : 1;
+      notionalUsd = () => pos.sizeUsd;
+      break;
+    }
+    default:
+      return null;
+  }
+
+  const priceUsd = prices[mint] ?? 0;
+  if (!(priceUsd > 0)) return null;
+  return { mint, priceUsd, notionalUsd: notionalUsd(priceUsd), direction };
+}
+
+async function recordDecisions(planner: string, live: boolean, intents: TradeIntent[], state: State): Promise<void> {
+  if (intents.length === 0) return;
+  const mints = intents.flatMap((intent) => [intent.inputMint, intent.outputMint]).filter(Boolean);
+  const prices = await fetchPricesUsd([...new Set([SOL_MINT, ...mints])]);
+  const horizonsMinutes = config.shadow.horizonsMinutes;
+
+  for (const intent of intents) {
+    const described = describeDecision(intent, state, prices);
+    if (!described) {
+      log.warn(`[Shadow] ${planner}: no price for ${intent.id}, not scored`);
+      continue;
+    }
+    const decision: ShadowDecisionPayload = {
+      intentId: intent.id,
+      planner,
+      live,
+      cycle: state.cycle,
+      action: intent.action,
+      ...described,
+      symbol: intent.metadata?.tokenSymbol ?? intent.metadata?.perpMarket,
+      reason: intent.metadata?.reason,
+      confidence: intent.metadata?.confidence,
+      horizonsMinutes,
+    };
+    const event = await writer.append("shadow_decision", decision);
+    pending.push({ decision, decidedAtMs: Date.parse(event.timestamp), horizonsMinutes: [...horizonsMinutes] });
+  }
+}
+
+/** The live planner's intents, recorded as the baseline the shadows are compared with. */
+export async function recordLiveDecisions(planner: string, intents: TradeIntent[], state: State): Promise<void> {
+  if (!shadowEnabled()) return;
+  try {
+    await recordDecisions(planner, true, intents, state);
+  } catch (e) {
+    log.warn(`Shadow record failed: ${e instanceof Error ? e.message : String(e)}`);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Planners — each runs on its own copy of the cycle's snapshot and is not
+// awaited, so a slow model never delays the live plan. A planner still
+// busy from an earlier cycle skips this one.
+// ---------------------------------------------------------------------------
+
+export async function startShadowMode(nowMs = Date.now()): Promise<void> {
+  if (!shadowEnabled()) return;
+  const promptAppendix = config.shadow.promptAppendixPath
+    ? await fs.readFile(config.shadow.promptAppendixPath, "utf8")
+    : undefined;
+
+  shadowPlanners = [];
+  for (const spec of config.shadow.planners) {
+    try {
+      // A shadow Codex keeps its own observations.md, so nothing it writes
+      // reaches the live planner's next prompt.
+      const workDir = path.join(path.dirname(config.statePath), "shadow", spec.replace(/[^\w.-]+/g, "_"));
+      shadowPlanners.push(await loadPlanner(spec, { promptAppendix, workDir }));
+    } catch (e) {
+      log.warn(`Shadow planner ${spec} not started: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }
+  await restorePending(nowMs);
+  log.info(
+    `Shadow mode: ${shadowPlanners.map((planner) => planner.name).join(", ") || "no planners"}; ` +
+      `horizons ${config.shadow.horizonsMinutes.join("/")}min, ${pending.length} decision(s) awaiting marks`
+  );
+}
+
+export function runShadowPlanners(snapshot: State, now: Date): void {
+  for (const planner of shadowPlanners) {
+    if (running.has(planner.name)) continue;
+    running.add(planner.name);
+    const state = structuredClone(snapshot);
+    void (async () => {
+      try {
+        const { intents, notes } = await planner.plan(state, { now, shadow: true });
+        for (const note of notes) log.debug(`[Shadow ${planner.name}] ${note}`);
+        await recordDecisions(planner.name, false, intents, state);
+        log.info(`[Shadow] ${planner.name}: ${intents.length} intent(s)`);
+      } catch (e) {
+        log.warn(`Shadow planner ${planner.name} failed: ${e instanceof Error ? e.message : String(e)}`);
+      } finally {
+        running.delete(planner.name);
+      }
+    })();
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Marks
+// ---------------------------------------------------------------------------
+
+/** Mark every decision whose horizon has come, at the current price. Runs once per cycle. */
+export async function markShadowDecisions(nowMs = Date.now()): Promise<number> {
+  const dueAt = (entry: PendingMark, minutes: number): number => entry.decidedAtMs + minutes * MINUTE_MS;
+  const due = pending.filter((entry) => entry.horizonsMinutes.some((minutes) => dueAt(entry, minutes) <= nowMs));
+  if (due.length === 0) return 0;
+
+  const prices = await fetchPricesUsd([...new Set(due.map((entry) => entry.decision.mint))]);
+  let marked = 0;
+  for (const entry of due) {
+    const { decision } = entry;
+    const priceUsd = prices[decision.mint] ?? 0;
+    entry.horizonsMinutes = entry.horizonsMinutes.filter((horizonMinutes) => {
+      if (dueAt(entry, horizonMinutes) > nowMs) return true;
+      // Unpriced: try again next cycle until the grace runs out.
+      if (!(priceUsd > 0)) return dueAt(entry, horizonMinutes) + LATE_MARK_GRACE_MS > nowMs;
+      const returnPct = decision.direction * (priceUsd / decision.priceUsd - 1);
+      void writer
+        .append("shadow_marked", {
+          intentId: decision.intentId,
+          planner: decision.planner,
+          live: decision.live,
+          horizonMinutes,
+          priceUsd,
+          returnPct,
+          pnlUsd: decision.notionalUsd * returnPct,
+        })
+        .catch((e) => log.warn(`Shadow mark write failed: ${e instanceof Error ? e.message : String(e)}`));
+      marked++;
+      return false;
+    });
+  }
+  for (let i = pending.length - 1; i >= 0; i--) {
+    if (pending[i].horizonsMinutes.length === 0) pending.splice(i, 1);
+  }
+  return marked;
+}
+
+// Decisions from before a restart keep the horizons still reachable.
+async function restorePending(nowMs: number): Promise<void> {
+  const events = await readLedger(shadowLedgerPath(), { types: ["shadow_decision", "shadow_marked"] });
+  const markedHorizons = new Map<string, Set<number>>();
+  for (const event of events) {
+    if (event.type !== "shadow_marked") continue;
+    const set = markedHorizons.get(event.payload.intentId) ?? new Set<number>();
+    set.add(event.payload.horizonMinutes);
+    markedHorizons.set(event.payload.intentId, set);
+  }
+
+  pending.length = 0;
+  for (const event of events) {
+    if (event.type !== "shadow_decision") continue;
+    const decidedAtMs = Date.parse(event.timestamp);
+    const done = markedHorizons.get(event.payload.intentId);
+    const horizonsMinutes = event.payload.horizonsMinutes.filter(
+      (minutes) => !done?.has(minutes) && decidedAtMs + minutes * MINUTE_MS + LATE_MARK_GRACE_MS > nowMs
+    );
+    if (horizonsMinutes.length > 0) pending.push({ decision: event.payload, decidedAtMs, horizonsMinutes });
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Scores — per planner and horizon, for the dashboard's comparison view
+// ---------------------------------------------------------------------------
+
+export function summarizeShadow(events: LedgerEvent[]): ShadowPlannerScore[] {
+  const byPlanner = new Map<string, { score: ShadowPlannerScore; returns: Map<number, number[]>; pnl: Map<number, number> }>();
+  const entry = (planner: string, live: boolean) => {
+    const key = `${live ? "live" : "shadow"}:${planner}`;
+    let found = byPlanner.get(key);
+    if (!found) {
+      found = { score: { planner, live, decisions: 0, horizons: [] }, returns: new Map(), pnl: new Map() };
+      byPlanner.set(key, found);
+    }
+    return found;
+  };
+
+  for (const event of events) {
+    if (event.type === "shadow_decision") {
+      entry(event.payload.planner, event.payload.live).score.decisions++;
+    } else if (event.type === "shadow_marked") {
+      const { planner, live, horizonMinutes, returnPct, pnlUsd } = event.payload;
+      const found = entry(planner, live);
+      found.returns.set(horizonMinutes, [...(found.returns.get(horizonMinutes) ?? []), returnPct]);
+      found.pnl.set(horizonMinutes, (found.pnl.get(horizonMinutes) ?? 0) + pnlUsd);
+    }
+  }
+
+  return [...byPlanner.values()]
+    .map(({ score, returns, pnl }) => ({
+      ...score,
+      horizons: [...returns.entries()]
+        .sort(([a], [b]) => a - b)
+        .map(([horizonMinutes, values]) => ({
+          horizonMinutes,
+          marked: values.length,
+          hitRate: values.filter((value) => value > 0).length / values.length,
+          avgReturnPct: values.reduce((sum, value) => sum + value, 0) / values.length,
+          pnlUsd: pnl.get(horizonMinutes) ?? 0,
+        })),
+    }))
+    .sort((a, b) => Number(b.live) - Number(a.live) || a.planner.localeCompare(b.planner));
+}
+
+export async function loadShadowScores(since?: Date): Promise<ShadowPlannerScore[]> {
+  return summarizeShadow(await readLedger(shadowLedgerPath(), { types: ["shadow_decision", "shadow_marked"], since }));
+}
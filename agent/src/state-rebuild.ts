@@ -0,0 +1,58 @@
+import { promises as fs } from "node:fs";
+import { config } from "./config.js";
+import { readLedgerEvents } from "./ledger.js";
+import { diffStates, mergeRebuilt, replayLedger } from "./replay.js";
+import { saveState } from "./state.js";
+import type { State } from "./state.js";
+
+// Rebuild the booked state from the wallet-mcp ledger and diff it against
+// the state file:
+//   pnpm --filter agent state:rebuild
+//   pnpm --filter agent state:rebuild --restore
+// --restore backs up the state file and writes the rebuilt one. Stop the
+// agent first, or its next save overwrites the restore.
+
+async function readCurrentState(): Promise<State | null> {
+  const raw = await fs.readFile(config.statePath, "utf8").catch(() => "");
+  if (!raw) return null;
+  try {
+    const parsed = JSON.parse(raw) as State;
+    return { ...parsed, positions: parsed.positions ?? {}, perpPositions: parsed.perpPositions ?? {} };
+  } catch {
+    return null;
+  }
+}
+
+async function main(): Promise<void> {
+  const restore = process.argv.includes("--restore");
+
+  const records = await readLedgerEvents();
+  const report = replayLedger(records);
+  console.log(
+    `Replayed ${report.events} ledger events (${report.from ?? "-"} → ${report.to ?? "-"}): ` +
+      `${report.applied} booked, ${report.legacyFills} legacy fills`
+  );
+  for (const warning of report.warnings) console.log(`  warning: ${warning}`);
+
+  const current = await readCurrentState();
+  if (!current) console.log(`State file ${config.statePath} is missing or unreadable`);
+
+  const diffs = diffStates(current, report.state);
+  if (diffs.length === 0) {
+    console.log("Rebuilt state matches the state file.");
+  } else {
+    console.log(`${diffs.length} difference(s) (current → rebuilt):`);
+    for (const d of diffs) console.log(`  ${d.field}: ${d.current} → ${d.rebuilt}`);
+  }
+
+  if (!restore) return;
+  const backupPath = `${config.statePath}.bak-${Date.now()}`;
+  await fs.copyFile(config.statePath, backupPath).catch(() => undefined);
+  await saveState(mergeRebuilt(current, report.state));
+  console.log(`State restored from the ledger (previous file kept as ${backupPath})`);
+}
+
+main().catch((e) => {
+  console.error("State rebuild failed:", e);
+  process.exit(1);
+});
@@ -1,11 +1,32 @@
 import { promises as fs } from "node:fs";
 import path from "node:path";
 import { config } from "./config.js";
+import { createLogger } from "./logger.js";
+
+const log = createLogger("state");
 
 // ---------------------------------------------------------------------------
 // Types
 // ---------------------------------------------------------------------------
 
+// Partial take-profit: sell `sellPct` of the then-held amount once the
+// price reaches `priceUsd`. `filledAt` is set when the sell fills.
+export interface ExitLadderStep {
+  priceUsd: number;
+  sellPct: number;
+  filledAt?: string;
+}
+
+// Planner-supplied exits, enforced by the safety loop alongside the
+// global stop-loss/take-profit/trailing/max-hold rules.
+export interface ExitPlan {
+  targetPriceUsd?: number;
+  stopPriceUsd?: number;
+  timeStopAt?: string;
+  ladder?: ExitLadderStep[];
+  setAt: string;
+}
+
 export interface Position {
   mint: string;
   symbol: string;
@@ -14,6 +35,10 @@ export interface Position {
   costLamports: string;
   openedAt: string;
   updatedAt: string;
+  // Highest token price (USD) seen by the safety loop since open; the
+  // trailing stop measures its drawdown from here.
+  highWaterPriceUsd?: number;
+  exitPlan?: ExitPlan;
 }
 
 export interface PerpPosition {
@@ -28,11 +53,35 @@ export interface PerpPosition {
   borrowFeeUsd: number;
   openedAt: string;
   updatedAt: string;
+  // Best mark seen since open: highest for longs, lowest for shorts.
+  highWaterPriceUsd?: number;
   // Close failure tracking (backoff)
   closeFailCount?: number;
   lastCloseFailedAt?: string;
 }
 
+export type BreakerTrigger = "drawdown" | "daily_loss" | "consecutive_losses";
+
+export interface BreakerHalt {
+  trigger: BreakerTrigger;
+  reason: string;
+  trippedAt: string;
+  equityUsd: number;
+}
+
+// Drawdown circuit breaker bookkeeping. Equity is USD at market (spot
+// plus perps with unrealized PnL). `halt` stays set until an operator
+// reset; while it is set, buys and perp_open are rejected.
+export interface BreakerState {
+  peakEquityUsd: number;
+  dayKey: string;
+  dayStartEquityUsd: number;
+  lastEquityUsd: number;
+  consecutiveLosses: number;
+  updatedAt: string;
+  halt?: BreakerHalt;
+}
+
 export interface State {
   cycle: number;
   cashLamports: string;
@@ -47,6 +96,11 @@ export interface State {
   perpPositions: Record<string, PerpPosition>;
   perpBalanceUsd: number;
   realizedPerpPnlUsd: number;
+  breaker?: BreakerState;
+  // Intent ids whose fills are booked in this state (most recent last).
+  // Saved atomically with the fill, so journal recovery applies each
+  // confirmed fill exactly once.
+  appliedIntents?: string[];
 }
 
 export interface TradeIntent {
@@ -59,14 +113,31 @@ export interface TradeIntent {
   metadata: Record<string, unknown>;
 }
 
+// Why the safety loop closed a position; carried in intent metadata
+// (`exitReason`) and on the exit's ledger event.
+export type ExitReason =
+  | "stop_loss"
+  | "take_profit"
+  | "trailing_stop"
+  | "max_hold"
+  | "liquidation"
+  | "plan_target"
+  | "plan_stop"
+  | "plan_time_stop"
+  | "plan_ladder";
+
 export interface TradeResult {
   success: boolean;
   txHash?: string;
   inputAmount: string;
   outputAmount: string;
+  quotedOutputAmount?: string;
+  realizedSlippageBps?: number | null;
   error?: string;
 }
 
+const MAX_APPLIED_INTENTS = 500;
+
 // ---------------------------------------------------------------------------
 // Helpers
 // ---------------------------------------------------------------------------
@@ -105,6 +176,36 @@ function initialCashLamports(): string {
   return String(Math.floor(config.initialCashSol * 1_000_000_000));
 }
 
+function sanitizePrice(value: number | undefined): number | undefined {
+  return typeof value === "number" && Number.isFinite(value) && value > 0 ? value : undefined;
+}
+
+export function sanitizeExitPlan(plan: ExitPlan | undefined): ExitPlan | undefined {
+  if (!plan || typeof plan !== "object") return undefined;
+  const timeStopMs = typeof plan.timeStopAt === "string" ? Date.parse(plan.timeStopAt) : Number.NaN;
+  const ladder = (Array.isArray(plan.ladder) ? plan.ladder : [])
+    .filter((step) => sanitizePrice(step?.priceUsd) !== undefined && step.sellPct > 0 && step.sellPct <= 1)
+    .map((step) => ({
+      priceUsd: step.priceUsd,
+      sellPct: step.sellPct,
+      ...(typeof step.filledAt === "string" ? { filledAt: step.filledAt } : {}),
+    }))
+    .sort((a, b) => a.priceUsd - b.priceUsd);
+  const sanitized: ExitPlan = {
+    targetPriceUsd: sanitizePrice(plan.targetPriceUsd),
+    stopPriceUsd: sanitizePrice(plan.stopPriceUsd),
+    timeStopAt: Number.isFinite(timeStopMs) ? new Date(timeStopMs).toISOString() : undefined,
+    ladder: ladder.length > 0 ? ladder : undefined,
+    setAt: plan.setAt || new Date().toISOString(),
+  };
+  const empty =
+    sanitized.targetPriceUsd === undefined &&
+    sanitized.stopPriceUsd === undefined &&
+    sanitized.timeStopAt === undefined &&
+    sanitized.ladder === undefined;
+  return empty ? undefined : sanitized;
+}
+
 function sanitizePosition(position: Position): Position {
   return {
     mint: position.mint,
@@ -114,6 +215,8 @@ function sanitizePosition(position: Position): Position {
     costLamports: normalizeBigintString(position.costLamports),
     openedAt: position.openedAt || new Date().toISOString(),
     updatedAt: position.updatedAt || new Date().toISOString(),
+    highWaterPriceUsd: sanitizePrice(position.highWaterPriceUsd),
+    exitPlan: sanitizeExitPlan(position.exitPlan),
   };
 }
 
@@ -148,11 +251,37 @@ function sanitizePerpPosition(pos: PerpPosition): PerpPosition {
     borrowFeeUsd: Number.isFinite(pos.borrowFeeUsd) && pos.borrowFeeUsd >= 0 ? pos.borrowFeeUsd : 0,
     openedAt: pos.openedAt || new Date().toISOString(),
     updatedAt: pos.updatedAt || new Date().toISOString(),
+    highWaterPriceUsd: sanitizePrice(pos.highWaterPriceUsd),
     closeFailCount: Number.isFinite(pos.closeFailCount) && pos.closeFailCount! > 0 ? pos.closeFailCount : undefined,
     lastCloseFailedAt: pos.lastCloseFailedAt || undefined,
   };
 }
 
+function sanitizeBreaker(breaker: BreakerState | undefined): BreakerState | undefined {
+  if (!breaker || typeof breaker !== "object") return undefined;
+  const usd = (value: number): number => (Number.isFinite(value) && value > 0 ? value : 0);
+  const halt = breaker.halt && typeof breaker.halt === "object"
+    ? {
+        trigger: breaker.halt.trigger,
+        reason: breaker.halt.reason || breaker.halt.trigger,
+        trippedAt: breaker.halt.trippedAt || new Date().toISOString(),
+        equityUsd: usd(breaker.halt.equityUsd),
+      }
+    : undefined;
+  return {
+    peakEquityUsd: usd(breaker.peakEquityUsd),
+    dayKey: typeof breaker.dayKey === "string" ? breaker.dayKey : "",
+    dayStartEquityUsd: usd(breaker.dayStartEquityUsd),
+    lastEquityUsd: usd(breaker.lastEquityUsd),
+    consecutiveLosses:
+      Number.isFinite(breaker.consecutiveLosses) && breaker.consecutiveLosses > 0
+        ? Math.floor(breaker.consecutiveLosses)
+        : 0,
+    updatedAt: breaker.updatedAt || new Date().toISOString(),
+    halt,
+  };
+}
+
 function sanitizeState(state: State): State {
   const positions: Record<string, Position> = {};
   for (const [mint, pos] of Object.entries(state.positions ?? {})) {
@@ -185,6 +314,10 @@ function sanitizeState(state: State): State {
     perpPositions,
     perpBalanceUsd: Number.isFinite(state.perpBalanceUsd) ? state.perpBalanceUsd : config.perps.initialBalanceUsd,
     realizedPerpPnlUsd: Number.isFinite(state.realizedPerpPnlUsd) ? state.realizedPerpPnlUsd : 0,
+    breaker: sanitizeBreaker(state.breaker),
+    appliedIntents: Array.isArray(state.appliedIntents)
+      ? state.appliedIntents.filter((id): id is string => typeof id === "string").slice(-MAX_APPLIED_INTENTS)
+      : [],
   };
 }
 
@@ -208,23 +341,44 @@ export async function loadState(realCashLamports?: string): Promise<State> {
   try {
     const parsed = JSON.parse(raw) as State;
     return sanitizeState(parsed);
-  } catch {
+  } catch (e) {
+    // Keep the unreadable file: the ledger can rebuild cost basis from it
+    // (state:rebuild), but only if nothing else has been booked meanwhile.
+    const corruptPath = `${config.statePath}.corrupt-${Date.now()}`;
+    await fs.rename(config.statePath, corruptPath).catch(() => undefined);
+    log.error(
+      `State file unreadable (${e instanceof Error ? e.message : String(e)}), moved to ${corruptPath} — ` +
+        "starting from an initial state; run `pnpm --filter agent state:rebuild` to recover cost basis from the ledger"
+    );
     const initial = buildInitialState(realCashLamports);
     await saveState(initial);
     return initial;
   }
 }
 
-export async function saveState(state: State): Promise<void> {
-  const next = sanitizeState({
-    ...state,
-    updatedAt: new Date().toISOString(),
-  });
+// Saves share one temp file, so they run one at a time, in call order.
+let saveChain: Promise<void> = Promise.resolve();
 
-  await ensureStateDir();
-  const tempPath = config.statePath + ".tmp";
-  await fs.writeFile(tempPath, JSON.stringify(next, null, 2));
-  await fs.rename(tempPath, config.statePath);
+export function saveState(state: State): Promise<void> {
+  // Serialized now, so the file gets the state as of this call.
+  const text = JSON.stringify(
+    sanitizeState({
+      ...state,
+      updatedAt: new Date().toISOString(),
+    }),
+    null,
+    2
+  );
+
+  saveChain = saveChain
+    .catch(() => undefined)
+    .then(async () => {
+      await ensureStateDir();
+      const tempPath = config.statePath + ".tmp";
+      await fs.writeFile(tempPath, text);
+      await fs.rename(tempPath, config.statePath);
+    });
+  return saveChain;
 }
 
 // ---------------------------------------------------------------------------
@@ -234,7 +388,8 @@ export async function saveState(state: State): Promise<void> {
 export function applyBuy(
   state: State,
   intent: TradeIntent,
-  result: TradeResult
+  result: TradeResult,
+  at = new Date()
 ): void {
   if (!result.success) {
     state.failedCount++;
@@ -253,7 +408,9 @@ export function applyBuy(
   const decimals =
     typeof intent.metadata?.decimals === "number" ? (intent.metadata.decimals as number) : 9;
   const existing = state.positions[intent.outputMint];
-  const now = new Date().toISOString();
+  const now = at.toISOString();
+  // A plan sent with the buy replaces the position's previous one.
+  const exitPlan = sanitizeExitPlan(intent.metadata?.exitPlan as ExitPlan | undefined);
 
   state.positions[intent.outputMint] = existing
     ? {
@@ -261,6 +418,7 @@ export function applyBuy(
         rawAmount: (toBigint(existing.rawAmount) + outRaw).toString(),
         costLamports: (toBigint(existing.costLamports) + inLamports).toString(),
         updatedAt: now,
+        ...(exitPlan ? { exitPlan } : {}),
       }
     : {
         mint: intent.outputMint,
@@ -270,6 +428,7 @@ export function applyBuy(
         costLamports: inLamports.toString(),
         openedAt: now,
         updatedAt: now,
+        ...(exitPlan ? { exitPlan } : {}),
       };
 
   const currentCash = toBigint(state.cashLamports);
@@ -278,10 +437,23 @@ export function applyBuy(
   ).toString();
 }
 
+function markLadderStepFilled(
+  plan: ExitPlan | undefined,
+  step: unknown,
+  filledAt: string
+): ExitPlan | undefined {
+  if (!plan?.ladder || typeof step !== "number" || !plan.ladder[step]) return plan;
+  return {
+    ...plan,
+    ladder: plan.ladder.map((entry, index) => (index === step ? { ...entry, filledAt } : entry)),
+  };
+}
+
 export function applySell(
   state: State,
   intent: TradeIntent,
-  result: TradeResult
+  result: TradeResult,
+  at = new Date()
 ): string | undefined {
   if (!result.success) {
     state.failedCount++;
@@ -318,11 +490,13 @@ export function applySell(
   if (remainingRaw <= 0n || remainingRaw <= dustThreshold) {
     delete state.positions[intent.inputMint];
   } else {
+    const now = at.toISOString();
     state.positions[intent.inputMint] = {
       ...position,
       rawAmount: remainingRaw.toString(),
       costLamports: remainingCost.toString(),
-      updatedAt: new Date().toISOString(),
+      updatedAt: now,
+      exitPlan: markLadderStepFilled(position.exitPlan, intent.metadata?.ladderStep, now),
     };
   }
 
@@ -344,7 +518,8 @@ export function applyPerpOpen(
   side: "long" | "short",
   leverage: number,
   collateralUsd: number,
-  entryPriceUsd: number
+  entryPriceUsd: number,
+  at = new Date()
 ): void {
   const fee = collateralUsd * leverage * config.perps.openCloseFeeRate;
   state.perpBalanceUsd -= collateralUsd + fee;
@@ -356,7 +531,7 @@ export function applyPerpOpen(
       ? entryPriceUsd * (1 - liqDistance)
       : entryPriceUsd * (1 + liqDistance);
 
-  const now = new Date().toISOString();
+  const now = at.toISOString();
   state.perpPositions[market] = {
     market,
     underlyingMint,
@@ -369,6 +544,7 @@ export function applyPerpOpen(
     borrowFeeUsd: 0,
     openedAt: now,
     updatedAt: now,
+    highWaterPriceUsd: entryPriceUsd,
   };
 }
 
@@ -425,8 +601,10 @@ export function reconcileSpotPositions(
 ): ReconcileDiff[] {
   const diffs: ReconcileDiff[] = [];
   const onChainByMint = new Map<string, bigint>();
+  // A mint can sit in more than one account (ATA plus auxiliary accounts),
+  // so the position is compared against the sum.
   for (const row of onChain) {
-    onChainByMint.set(row.mint, toBigint(row.rawAmount));
+    onChainByMint.set(row.mint, (onChainByMint.get(row.mint) ?? 0n) + toBigint(row.rawAmount));
   }
 
   for (const [mint, pos] of Object.entries(state.positions)) {
@@ -498,18 +676,29 @@ export function writeOffPerp(
 export function applyResult(
   state: State,
   intent: TradeIntent,
-  result: TradeResult
+  result: TradeResult,
+  at = new Date()
 ): string | undefined {
   if (intent.action === "buy") {
-    applyBuy(state, intent, result);
+    applyBuy(state, intent, result, at);
     return undefined;
   }
   if (intent.action === "sell") {
-    return applySell(state, intent, result);
+    return applySell(state, intent, result, at);
   }
   return undefined;
 }
 
+export function markIntentApplied(state: State, intentId: string): void {
+  const applied = state.appliedIntents ?? [];
+  applied.push(intentId);
+  state.appliedIntents = applied.slice(-MAX_APPLIED_INTENTS);
+}
+
+export function isIntentApplied(state: State, intentId: string): boolean {
+  return (state.appliedIntents ?? []).includes(intentId);
+}
+
 export function getSummary(state: State): string {
   const cashSol = Number(toBigint(state.cashLamports)) / 1_000_000_000;
   const realizedSol = Number(toBigint(state.realizedPnlLamports)) / 1_000_000_000;
@@ -1,12 +1,19 @@
 import { createServer } from "node:http";
 import { promises as fs } from "node:fs";
+import { tailLedger } from "ledger";
+import { isCandleResolution, queryCandles } from "./candles.js";
 import { config } from "./config.js";
 import { createLogger } from "./logger.js";
+import { fetchPricesUsd, getPriceHealth } from "./prices.js";
+import type { PriceHealth } from "./prices.js";
+import { loadShadowScores } from "./shadow.js";
+import type { ShadowPlannerScore } from "./shadow.js";
 
 const log = createLogger("ui");
 
 const DEFAULT_LEDGER_PATH = "/tmp/cashcat-runtime/wallet-mcp/ledger.jsonl";
 const SOL_MINT = "So11111111111111111111111111111111111111112";
+const SHADOW_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
 
 // ---------------------------------------------------------------------------
 // Types
@@ -57,6 +64,31 @@ interface Snapshot {
     borrowFeeUsd: number;
     openedAt: string;
   }>;
+  breaker: {
+    halted: boolean;
+    trigger?: string;
+    reason?: string;
+    trippedAt?: string;
+    peakEquityUsd: number;
+    drawdownPct: number;
+    dayStartEquityUsd: number;
+    dailyPnlPct: number;
+    consecutiveLosses: number;
+    maxDrawdownPct: number;
+    maxDailyLossPct: number;
+    maxConsecutiveLosses: number;
+  };
+  // recorded 5m closes, oldest first
+  priceHistory: Array<{
+    mint: string;
+    symbol: string;
+    closes: number[];
+    changePct: number;
+  }>;
+  // this process's price sources: the agent's own when the dashboard runs inside it
+  priceHealth: PriceHealth;
+  // live and shadow planners scored over the last week, live first
+  shadow: ShadowPlannerScore[];
   recentLedger: Array<{
     timestamp?: string;
     type?: string;
@@ -67,6 +99,7 @@ interface Snapshot {
       outputMint?: string;
       inputAmount?: string;
       outputAmount?: string;
+      reason?: string;
     };
   }>;
 }
@@ -102,74 +135,57 @@ function toRecord(value: unknown): Record<string, unknown> {
 }
 
 // ---------------------------------------------------------------------------
-// Price fetching for dashboard
+// Ledger
 // ---------------------------------------------------------------------------
 
-function buildPriceUrl(mints: string[]): string {
-  const url = new URL(`${config.jupiter.baseUrl}/price/v3`);
-  url.searchParams.set("ids", mints.join(","));
-  return url.toString();
-}
-
-async function fetchPricesUsd(mints: string[]): Promise<Record<string, number>> {
-  if (mints.length === 0) return {};
+async function loadRecentLedger(ledgerPath: string, limit = 25): Promise<Snapshot["recentLedger"]> {
+  const pick = (value: unknown): string | undefined => (typeof value === "string" ? value : undefined);
   try {
-    const response = await fetch(buildPriceUrl(mints));
-    if (!response.ok) return {};
-    const payload = (await response.json()) as Record<string, unknown> | { data?: Record<string, unknown> };
-    const data: Record<string, unknown> =
-      payload && typeof payload === "object" && "data" in payload && payload.data && typeof payload.data === "object"
-        ? (payload.data as Record<string, unknown>)
-        : (payload as Record<string, unknown>);
-    const prices: Record<string, number> = {};
-    for (const mint of mints) {
-      const row = data[mint] as Record<string, unknown> | undefined;
-      const price = Number(row?.usdPrice ?? row?.price ?? row?.priceUsd ?? row?.value ?? 0);
-      prices[mint] = Number.isFinite(price) && price > 0 ? price : 0;
-    }
-    return prices;
+    const events = await tailLedger(ledgerPath, limit);
+    return events.map((event) => {
+      const payload = event.payload as unknown as Record<string, unknown>;
+      return {
+        timestamp: event.timestamp,
+        type: event.type,
+        payload: {
+          intentId: pick(payload.intentId),
+          txHash: pick(payload.txHash),
+          inputMint: pick(payload.inputMint),
+          outputMint: pick(payload.outputMint),
+          inputAmount: pick(payload.inputAmount),
+          outputAmount: pick(payload.outputAmount),
+          reason: pick(payload.reason),
+        },
+      };
+    });
   } catch {
-    return {};
+    return [];
   }
 }
 
 // ---------------------------------------------------------------------------
-// Ledger
+// Price history — from the recorder's candle store
 // ---------------------------------------------------------------------------
 
-async function loadRecentLedger(ledgerPath: string, limit = 25): Promise<Snapshot["recentLedger"]> {
-  try {
-    const raw = await fs.readFile(ledgerPath, "utf8");
-    const lines = raw.split("\n").map((l) => l.trim()).filter(Boolean);
-    return lines
-      .slice(-limit)
-      .map((line) => {
-        try {
-          const parsed = JSON.parse(line) as Record<string, unknown>;
-          const payload =
-            parsed.payload && typeof parsed.payload === "object"
-              ? (parsed.payload as Record<string, unknown>)
-              : {};
-          return {
-            timestamp: typeof parsed.timestamp === "string" ? parsed.timestamp : undefined,
-            type: typeof parsed.type === "string" ? parsed.type : undefined,
-            payload: {
-              intentId: typeof payload.intentId === "string" ? payload.intentId : undefined,
-              txHash: typeof payload.txHash === "string" ? payload.txHash : undefined,
-              inputMint: typeof payload.inputMint === "string" ? payload.inputMint : undefined,
-              outputMint: typeof payload.outputMint === "string" ? payload.outputMint : undefined,
-              inputAmount: typeof payload.inputAmount === "string" ? payload.inputAmount : undefined,
-              outputAmount: typeof payload.outputAmount === "string" ? payload.outputAmount : undefined,
-            },
-          };
-        } catch {
-          return { type: "parse_error", payload: { intentId: undefined } };
-        }
-      })
-      .reverse();
-  } catch {
-    return [];
+async function loadPriceHistory(symbols: Map<string, string>, limit = 24): Promise<Snapshot["priceHistory"]> {
+  const history: Snapshot["priceHistory"] = [];
+  for (const [mint, symbol] of symbols) {
+    try {
+      const candles = await queryCandles(mint, "5m", { limit });
+      if (candles.length === 0) continue;
+      const first = candles[0].open;
+      const last = candles[candles.length - 1].close;
+      history.push({
+        mint,
+        symbol,
+        closes: candles.map((candle) => candle.close),
+        changePct: first > 0 ? (last / first - 1) * 100 : 0,
+      });
+    } catch {
+      // store not written yet
+    }
   }
+  return history;
 }
 
 // ---------------------------------------------------------------------------
@@ -299,7 +315,33 @@ async function loadSnapshot(): Promise<Snapshot> {
   const totalPnlUsd = equityUsd - initialEquityUsd;
   const totalPnlPct = initialEquityUsd > 0 ? (totalPnlUsd / initialEquityUsd) * 100 : 0;
 
+  // Circuit breaker: peak and daily baseline come from the agent's state,
+  // drawdown and daily PnL are re-marked against this snapshot's equity.
+  const rawBreaker = toRecord(state.breaker);
+  const rawHalt = rawBreaker.halt && typeof rawBreaker.halt === "object" ? toRecord(rawBreaker.halt) : undefined;
+  const priced = solPriceUsd > 0;
+  const peakEquityUsd = Math.max(Number(rawBreaker.peakEquityUsd ?? 0) || 0, equityUsd);
+  const dayStartEquityUsd = Number(rawBreaker.dayStartEquityUsd ?? 0) || 0;
+  const breaker: Snapshot["breaker"] = {
+    halted: !!rawHalt,
+    trigger: typeof rawHalt?.trigger === "string" ? rawHalt.trigger : undefined,
+    reason: typeof rawHalt?.reason === "string" ? rawHalt.reason : undefined,
+    trippedAt: typeof rawHalt?.trippedAt === "string" ? rawHalt.trippedAt : undefined,
+    peakEquityUsd,
+    drawdownPct: priced && peakEquityUsd > 0 ? (1 - equityUsd / peakEquityUsd) * 100 : 0,
+    dayStartEquityUsd,
+    dailyPnlPct: priced && dayStartEquityUsd > 0 ? (equityUsd / dayStartEquityUsd - 1) * 100 : 0,
+    consecutiveLosses: Number(rawBreaker.consecutiveLosses ?? 0) || 0,
+    maxDrawdownPct: config.breaker.maxDrawdownPct * 100,
+    maxDailyLossPct: config.breaker.maxDailyLossPct * 100,
+    maxConsecutiveLosses: config.breaker.maxConsecutiveLosses,
+  };
+
   const recentLedger = await loadRecentLedger(ledgerPath, 25);
+  const historySymbols = new Map<string, string>([[SOL_MINT, "SOL"]]);
+  for (const p of positions) if (p.mint) historySymbols.set(p.mint, p.symbol || p.mint.slice(0, 6));
+  for (const mint of config.priceRecorder.watchlist) if (!historySymbols.has(mint)) historySymbols.set(mint, mint.slice(0, 6));
+  const priceHistory = await loadPriceHistory(historySymbols);
 
   return {
     now: new Date().toISOString(),
@@ -321,6 +363,10 @@ async function loadSnapshot(): Promise<Snapshot> {
     perpBalanceUsd,
     realizedPerpPnlUsd,
     perpPositions,
+    breaker,
+    priceHistory,
+    priceHealth: getPriceHealth(),
+    shadow: await loadShadowScores(new Date(Date.now() - SHADOW_WINDOW_MS)).catch(() => []),
     recentLedger,
   };
 }
@@ -411,8 +457,9 @@ function htmlPage(): string {
 <body>
   <div class="wrap">
     <h1>CashCat Runtime Dashboard</h1>
-    <div class="sub">Auto refresh: 3s | Endpoint: <span class="mono">/api/snapshot</span> | PnL is estimation from state + latest prices</div>
+    <div class="sub">Auto refresh: 3s | Endpoints: <span class="mono">/api/snapshot</span>, <span class="mono">/api/candles</span>, <span class="mono">/api/shadow</span> | PnL is estimation from state + latest prices</div>
     <div id="overview" class="section"></div>
+    <div id="risk" class="section"></div>
     <div id="spot" class="section"></div>
     <div id="perp" class="section"></div>
     <div class="section">
@@ -429,6 +476,24 @@ function htmlPage(): string {
         <div id="perpPositions"></div>
       </div>
     </div>
+    <div class="row" style="margin-top:10px">
+      <div class="card" style="grid-column:1/-1">
+        <div class="k">Price History (5m, recorded)</div>
+        <div id="priceHistory"></div>
+      </div>
+    </div>
+    <div class="row" style="margin-top:10px">
+      <div class="card" style="grid-column:1/-1">
+        <div class="k">Price Sources</div>
+        <div id="priceHealth"></div>
+      </div>
+    </div>
+    <div class="row" style="margin-top:10px">
+      <div class="card" style="grid-column:1/-1">
+        <div class="k">Shadow Planners (7d, marked-to-market)</div>
+        <div id="shadow"></div>
+      </div>
+    </div>
     <div class="row" style="margin-top:10px">
       <div class="card" style="grid-column:1/-1">
         <div class="k">Recent Ledger</div>
@@ -462,6 +527,23 @@ function htmlPage(): string {
         card("Cycle", s.cycle),
       ]);
     }
+    function riskHtml(s) {
+      const b = s.breaker || {};
+      const limit = (v, unit) => Number(v) > 0 ? " / " + v + unit : " (off)";
+      const cards = [
+        b.halted
+          ? card("Circuit Breaker", "HALTED: " + (b.trigger || ""), "danger")
+          : card("Circuit Breaker", "Armed", "ok"),
+        card("Drawdown", fmt(b.drawdownPct, 2) + "%" + limit(fmt(b.maxDrawdownPct, 0), "%"), b.drawdownPct > 0 ? "warn" : ""),
+        card("Daily PnL", fmt(b.dailyPnlPct, 2) + "%" + limit(fmt(b.maxDailyLossPct, 0), "%"), b.dailyPnlPct >= 0 ? "ok" : "danger"),
+        card("Losing Streak", (b.consecutiveLosses || 0) + limit(b.maxConsecutiveLosses, ""), b.consecutiveLosses > 0 ? "warn" : ""),
+        card("Peak Equity", "$" + fmt(b.peakEquityUsd, 2)),
+      ];
+      const banner = b.halted
+        ? \`<div class="card" style="margin-top:10px;border-color:var(--danger)"><div class="k">Halted since \${esc(b.trippedAt)}</div><div class="danger">\${esc(b.reason)}</div><div class="mini">Buys and perp opens are blocked; exits still run. Reset: pnpm --filter agent breaker:reset "note"</div></div>\`
+        : "";
+      return sectionHtml("Risk", cards) + banner;
+    }
     function spotHtml(s) {
       return sectionHtml("Spot", [
         card("Cash", fmt(s.cashSol, 4) + " SOL  ($" + fmt(s.cashUsd, 2) + ")"),
@@ -497,10 +579,44 @@ function htmlPage(): string {
         items.map((p) => \`<tr><td>\${esc(p.market)}</td><td>\${esc(p.side)}</td><td>\${p.leverage}x</td><td>\$ \${fmt(p.sizeUsd, 2)}</td><td>\$ \${fmt(p.entryPriceUsd, 2)}</td><td>\$ \${fmt(p.markPriceUsd, 2)}</td><td>\$ \${fmt(p.liquidationPriceUsd, 2)}</td><td class="\${p.unrealizedPnlUsd >= 0 ? "ok" : "danger"}">\$ \${money(p.unrealizedPnlUsd)}</td></tr>\`).join("") +
         "</tbody></table>";
     }
+    function sparkline(values) {
+      if (!values || values.length < 2) return "";
+      const min = Math.min(...values);
+      const span = Math.max(...values) - min || 1;
+      const points = values.map((v, i) => \`\${(i / (values.length - 1) * 160).toFixed(1)},\${(22 - (v - min) / span * 20).toFixed(1)}\`).join(" ");
+      const color = values[values.length - 1] >= values[0] ? "var(--ok)" : "var(--danger)";
+      return \`<svg width="160" height="24"><polyline fill="none" stroke="\${color}" stroke-width="1.5" points="\${points}"/></svg>\`;
+    }
+    function priceHistoryHtml(items) {
+      if (!items || items.length === 0) return '<div class="mini">No recorded prices yet</div>';
+      return '<table><thead><tr><th>Symbol</th><th>Last(USD)</th><th>Change</th><th>Trend</th></tr></thead><tbody>' +
+        items.map((h) => \`<tr><td>\${esc(h.symbol)}</td><td>\$ \${Number(h.closes[h.closes.length - 1]).toPrecision(6)}</td><td class="\${h.changePct >= 0 ? "ok" : "danger"}">\${money(h.changePct)}%</td><td>\${sparkline(h.closes)}</td></tr>\`).join("") +
+        "</tbody></table>";
+    }
+    function priceHealthHtml(h) {
+      const names = Object.keys((h && h.sources) || {});
+      if (names.length === 0) return '<div class="mini">No price requests yet</div>';
+      const rows = names.map((name) => {
+        const x = h.sources[name];
+        const cls = x.consecutiveFailures > 0 ? "danger" : "ok";
+        return \`<tr><td>\${esc(name)}</td><td class="\${cls}">\${x.consecutiveFailures > 0 ? "failing" : "ok"}</td><td>\${x.requests}</td><td>\${x.failures}</td><td>\${x.quotes}</td><td>\${x.stale}</td><td>\${x.outliers}</td><td>\${x.lastLatencyMs}ms</td><td class="mono">\${esc(x.lastError || "-")}</td></tr>\`;
+      }).join("");
+      return '<table><thead><tr><th>Source</th><th>Status</th><th>Requests</th><th>Failures</th><th>Quotes</th><th>Stale</th><th>Outliers</th><th>Latency</th><th>Last error</th></tr></thead><tbody>' + rows + "</tbody></table>" +
+        \`<div class="mini">Cache \${h.cacheHits} hits / \${h.cacheMisses} misses | fallbacks \${h.fallbacks} | disputed \${h.disputed} | unpriced \${h.unpriced}</div>\`;
+    }
+    function shadowHtml(items) {
+      if (!items || items.length === 0) return '<div class="mini">No shadow planners configured (RUNTIME_SHADOW_PLANNERS)</div>';
+      const rows = items.flatMap((p) => {
+        const label = \`\${esc(p.planner)} <span class="mini">\${p.live ? "live" : "shadow"}</span>\`;
+        if (p.horizons.length === 0) return [\`<tr><td>\${label}</td><td>\${p.decisions}</td><td colspan="5" class="mini">awaiting first mark</td></tr>\`];
+        return p.horizons.map((h) => \`<tr><td>\${label}</td><td>\${p.decisions}</td><td>\${h.horizonMinutes}m</td><td>\${h.marked}</td><td>\${fmt(h.hitRate * 100, 0)}%</td><td class="\${h.avgReturnPct >= 0 ? "ok" : "danger"}">\${money(h.avgReturnPct * 100)}%</td><td class="\${h.pnlUsd >= 0 ? "ok" : "danger"}">$\${money(h.pnlUsd)}</td></tr>\`);
+      }).join("");
+      return '<table><thead><tr><th>Planner</th><th>Decisions</th><th>Horizon</th><th>Marked</th><th>Hit rate</th><th>Avg return</th><th>PnL</th></tr></thead><tbody>' + rows + "</tbody></table>";
+    }
     function ledgerHtml(items) {
       if (!items || items.length === 0) return '<div class="mini">No ledger entries</div>';
       return '<table><thead><tr><th>Time</th><th>Type</th><th>Intent</th><th>Tx</th></tr></thead><tbody>' +
-        items.map((e) => \`<tr><td>\${esc(e.timestamp || "-")}</td><td>\${esc(e.type || "-")}</td><td class="mono">\${esc((e.payload && e.payload.intentId) || "-")}</td><td class="mono">\${esc((e.payload && e.payload.txHash) || "-")}</td></tr>\`).join("") +
+        items.map((e) => \`<tr><td>\${esc(e.timestamp || "-")}</td><td>\${esc(e.type || "-")}</td><td class="mono">\${esc((e.payload && (e.payload.intentId || e.payload.reason)) || "-")}</td><td class="mono">\${esc((e.payload && e.payload.txHash) || "-")}</td></tr>\`).join("") +
         "</tbody></table>";
     }
     async function tick() {
@@ -508,11 +624,15 @@ function htmlPage(): string {
         const res = await fetch('/api/snapshot', { cache: 'no-store' });
         const s = await res.json();
         document.getElementById('overview').innerHTML = overviewHtml(s);
+        document.getElementById('risk').innerHTML = riskHtml(s);
         document.getElementById('spot').innerHTML = spotHtml(s);
         document.getElementById('perp').innerHTML = perpSectionHtml(s);
         document.getElementById('execution').innerHTML = executionHtml(s);
         document.getElementById('positions').innerHTML = positionsHtml(s.positions);
         document.getElementById('perpPositions').innerHTML = perpPositionsHtml(s.perpPositions);
+        document.getElementById('priceHistory').innerHTML = priceHistoryHtml(s.priceHistory);
+        document.getElementById('priceHealth').innerHTML = priceHealthHtml(s.priceHealth);
+        document.getElementById('shadow').innerHTML = shadowHtml(s.shadow);
         document.getElementById('ledger').innerHTML = ledgerHtml(s.recentLedger);
       } catch (e) {
         document.getElementById('ledger').innerHTML = '<span class="danger">Failed to load snapshot</span>';
@@ -532,6 +652,49 @@ function htmlPage(): string {
 export function startDashboard(): void {
   const server = createServer(async (req, res) => {
     const url = req.url ?? "/";
+    if (url.startsWith("/api/candles")) {
+      // /api/candles?mint=<mint>&res=1m|5m|1h&limit=<n>
+      const params = new URL(url, "http://127.0.0.1").searchParams;
+      const mint = params.get("mint") ?? "";
+      const resolution = params.get("res") ?? "5m";
+      const limit = Math.min(1000, Math.max(1, Number(params.get("limit")) || 100));
+      if (!mint || !isCandleResolution(resolution)) {
+        res.writeHead(400, { "Content-Type": "text/plain; charset=utf-8" });
+        res.end("mint and res (1m, 5m or 1h) are required");
+        return;
+      }
+      try {
+        const candles = await queryCandles(mint, resolution, { limit });
+        res.writeHead(200, {
+          "Content-Type": "application/json; charset=utf-8",
+          "Cache-Control": "no-store",
+        });
+        res.end(JSON.stringify({ mint, resolution, candles }));
+      } catch (e) {
+        res.writeHead(500, { "Content-Type": "text/plain" });
+        res.end("Internal error");
+      }
+      return;
+    }
+
+    if (url.startsWith("/api/shadow")) {
+      // /api/shadow?days=<n>
+      const params = new URL(url, "http://127.0.0.1").searchParams;
+      const days = Math.min(90, Math.max(1, Number(params.get("days")) || 7));
+      try {
+        const planners = await loadShadowScores(new Date(Date.now() - days * 24 * 60 * 60 * 1000));
+        res.writeHead(200, {
+          "Content-Type": "application/json; charset=utf-8",
+          "Cache-Control": "no-store",
+        });
+        res.end(JSON.stringify({ days, planners }));
+      } catch (e) {
+        res.writeHead(500, { "Content-Type": "text/plain" });
+        res.end("Internal error");
+      }
+      return;
+    }
+
     if (url === "/api/snapshot") {
       try {
         const snapshot = await loadSnapshot();
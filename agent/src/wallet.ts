@@ -1,4 +1,4 @@
-import { spawn } from "node:child_process";
+import { spawn, type ChildProcessWithoutNullStreams } from "node:child_process";
 import { config } from "./config.js";
 import { createLogger } from "./logger.js";
 import type { TradeResult } from "./state.js";
@@ -13,11 +13,34 @@ export interface TradeOrder {
   slippageBps: number;
 }
 
+export interface SwapQuote {
+  quoteId: string;
+  inputMint: string;
+  outputMint: string;
+  inAmount: string;
+  outAmount: string;
+  slippageBps: number;
+  // Fraction, as Jupiter reports it (0.01 = 1%)
+  priceImpactPct: number;
+  expiresAt?: string;
+}
+
 export interface WalletBalance {
   lamports: string;
   sol: string;
 }
 
+export interface TokenBalance {
+  mint: string;
+  program: "token" | "token-2022";
+  address: string;
+  ataAddress: string;
+  isAta: boolean;
+  rawAmount: string;
+  decimals: number;
+  frozen: boolean;
+}
+
 // ---------------------------------------------------------------------------
 // JSON-RPC framing
 // ---------------------------------------------------------------------------
@@ -42,10 +65,12 @@ interface JsonRpcResponse {
 
 interface WalletExecuteResult {
   intentId?: string;
-  status?: "filled" | "failed" | "rejected";
+  status?: "filled" | "failed" | "rejected" | "sent" | "in_flight" | "submitted" | "unknown";
   txHash?: string;
   inputAmount?: string;
   outputAmount?: string;
+  quotedOutputAmount?: string;
+  realizedSlippageBps?: number | null;
   error?: string;
   reason?: string;
 }
@@ -97,9 +122,9 @@ function parseFrames(
   return { rest: cursor, messages };
 }
 
-function extractResultPayload(value: unknown): WalletExecuteResult {
+function extractResultPayload(name: string, value: unknown): Record<string, unknown> {
   if (!value || typeof value !== "object") {
-    throw new Error("Invalid tools/call response");
+    throw new Error(`${name}: invalid tools/call response`);
   }
 
   const obj = value as { isError?: unknown; content?: unknown };
@@ -107,7 +132,7 @@ function extractResultPayload(value: unknown): WalletExecuteResult {
   const first = content[0] as { text?: unknown } | undefined;
   const text = typeof first?.text === "string" ? first.text : "";
   if (!text) {
-    throw new Error("wallet_execute_swap returned empty content");
+    throw new Error(`${name} returned empty content`);
   }
 
   let parsed: unknown = text;
@@ -117,152 +142,311 @@ function extractResultPayload(value: unknown): WalletExecuteResult {
     // keep raw text when tool returned plain text
   }
 
+  // Plain-text results are argument/handler errors raised inside wallet-mcp.
   if (typeof parsed === "string") {
-    return { status: obj.isError ? "failed" : "filled", error: parsed };
+    if (obj.isError) throw new Error(`${name} failed: ${parsed}`);
+    return { text: parsed };
   }
-  if (!parsed || typeof parsed !== "object") {
-    throw new Error("wallet_execute_swap returned invalid payload");
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    throw new Error(`${name} returned invalid payload`);
   }
 
-  return parsed as WalletExecuteResult;
+  return parsed as Record<string, unknown>;
 }
 
 // ---------------------------------------------------------------------------
-// getBalance
+// Session — one long-lived wallet-mcp child shared by every tool call.
+// Requests are multiplexed by JSON-RPC id; a crashed child is respawned
+// with exponential backoff so the quote cache survives between calls.
 // ---------------------------------------------------------------------------
 
-export async function getBalance(): Promise<WalletBalance> {
-  if (!config.walletMcp.enabled) {
-    throw new Error("wallet-mcp is disabled");
-  }
+const RESTART_BASE_DELAY_MS = 1_000;
+const RESTART_MAX_DELAY_MS = 30_000;
+const STDERR_TAIL_CHARS = 2_000;
 
-  const command = config.walletMcp.command.trim();
-  if (!command) {
-    throw new Error("RUNTIME_WALLET_MCP_COMMAND is empty");
-  }
+interface PendingRequest {
+  method: string;
+  resolve: (value: unknown) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
 
-  const cwd = config.walletMcp.cwd.trim() || process.cwd();
-  const timeoutMs = Math.max(5, config.walletMcp.timeoutSeconds) * 1000;
+interface Session {
+  child: ChildProcessWithoutNullStreams;
+  pending: Map<number, PendingRequest>;
+  stdoutBuffer: Buffer<ArrayBufferLike>;
+  stderrTail: string;
+  closed: boolean;
+}
 
-  return await new Promise<WalletBalance>((resolve, reject) => {
-    const child = spawn("zsh", ["-lc", command], {
-      cwd,
-      env: process.env,
-      stdio: "pipe",
-    });
+let session: Session | null = null;
+let starting: Promise<Session> | null = null;
+let nextRequestId = 1;
+let consecutiveCrashes = 0;
+let lastCrashAtMs = 0;
+let restartTimer: NodeJS.Timeout | null = null;
+let stopped = false;
 
-    const initRequestId = 1;
-    const toolCallRequestId = 2;
-    let done = false;
-    let stdoutBuffer: Buffer<ArrayBufferLike> = Buffer.alloc(0);
-    let stderr = "";
-
-    const finish = (result: WalletBalance | Error): void => {
-      if (done) return;
-      done = true;
-      clearTimeout(timer);
-      child.kill("SIGTERM");
-      if (result instanceof Error) {
-        reject(result);
-      } else {
-        resolve(result);
-      }
-    };
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function getTimeoutMs(): number {
+  return Math.max(5, config.walletMcp.timeoutSeconds) * 1000;
+}
+
+function getRestartDelayMs(): number {
+  if (consecutiveCrashes === 0) return 0;
+  const delay = RESTART_BASE_DELAY_MS * 2 ** (consecutiveCrashes - 1);
+  return Math.min(delay, RESTART_MAX_DELAY_MS);
+}
 
+function sendRequest(
+  current: Session,
+  method: string,
+  params: unknown,
+  timeoutMs: number
+): Promise<unknown> {
+  if (current.closed) {
+    return Promise.reject(new Error(`wallet-mcp is not running (${method})`));
+  }
+
+  const id = nextRequestId++;
+  return new Promise<unknown>((resolve, reject) => {
     const timer = setTimeout(() => {
-      finish(new Error(`wallet-mcp balance call timed out after ${timeoutMs}ms`));
+      current.pending.delete(id);
+      reject(new Error(`wallet-mcp ${method} timed out after ${timeoutMs}ms`));
     }, timeoutMs);
 
-    child.stdout.on("data", (chunk: Buffer<ArrayBufferLike>) => {
-      stdoutBuffer = Buffer.concat([stdoutBuffer, chunk]);
-      const parsed = parseFrames(stdoutBuffer);
-      stdoutBuffer = parsed.rest;
+    current.pending.set(id, { method, resolve, reject, timer });
+    writeFrame(current.child.stdin, { jsonrpc: "2.0", id, method, params });
+  });
+}
 
-      for (const message of parsed.messages) {
-        if (done) return;
-        if (typeof message.id !== "number") continue;
+function handleMessage(current: Session, message: JsonRpcResponse): void {
+  if (typeof message.id !== "number") return;
+  const pending = current.pending.get(message.id);
+  if (!pending) return; // late reply to a request that already timed out
 
-        if (message.id === initRequestId) {
-          if (message.error) {
-            finish(new Error(`wallet-mcp initialize failed: ${message.error.message}`));
-            return;
-          }
+  current.pending.delete(message.id);
+  clearTimeout(pending.timer);
 
-          writeFrame(child.stdin, {
-            jsonrpc: "2.0",
-            method: "notifications/initialized",
-          });
-
-          writeFrame(child.stdin, {
-            jsonrpc: "2.0",
-            id: toolCallRequestId,
-            method: "tools/call",
-            params: {
-              name: "wallet_get_balance",
-              arguments: { chain: "solana" },
-            },
-          });
-          continue;
-        }
-
-        if (message.id === toolCallRequestId) {
-          if (message.error) {
-            finish(new Error(`wallet_get_balance RPC error: ${message.error.message}`));
-            return;
-          }
+  if (message.error) {
+    pending.reject(new Error(`wallet-mcp ${pending.method} RPC error: ${message.error.message}`));
+  } else {
+    pending.resolve(message.result);
+  }
+}
 
-          try {
-            const value = message.result as {
-              content?: Array<{ text?: string }>;
-            };
-            const text = value?.content?.[0]?.text ?? "";
-            if (!text) {
-              finish(new Error("wallet_get_balance returned empty content"));
-              return;
-            }
-            const payload = JSON.parse(text) as Record<string, unknown>;
-            const lamports = String(payload.lamports ?? "0");
-            const sol = String(payload.sol ?? String(Number(lamports) / 1_000_000_000));
-            finish({ lamports, sol });
-          } catch (e) {
-            finish(new Error(`wallet_get_balance parse error: ${e instanceof Error ? e.message : String(e)}`));
-          }
-          return;
-        }
-      }
-    });
+function handleExit(current: Session, reason: string): void {
+  if (current.closed) return;
+  current.closed = true;
+  if (session === current) session = null;
 
-    child.stderr.on("data", (chunk: Buffer) => {
-      stderr += String(chunk);
-    });
+  const stderrTail = current.stderrTail.trim() ? ` | stderr=${current.stderrTail.trim()}` : "";
+  for (const [id, pending] of current.pending) {
+    clearTimeout(pending.timer);
+    pending.reject(new Error(`wallet-mcp exited before response (${reason})${stderrTail}`));
+    current.pending.delete(id);
+  }
 
-    child.on("error", (e) => {
-      finish(new Error(`wallet-mcp spawn failed: ${e instanceof Error ? e.message : String(e)}`));
-    });
+  if (stopped) return;
+
+  consecutiveCrashes++;
+  lastCrashAtMs = Date.now();
+  const delayMs = getRestartDelayMs();
+  log.warn(`wallet-mcp exited (${reason}); restarting in ${delayMs}ms (crashes=${consecutiveCrashes})`);
 
-    child.on("close", (code) => {
-      if (done) return;
-      const stderrTail = stderr.trim() ? ` | stderr=${stderr.trim()}` : "";
-      finish(new Error(`wallet-mcp exited before response (code=${code})${stderrTail}`));
+  if (restartTimer) clearTimeout(restartTimer);
+  restartTimer = setTimeout(() => {
+    restartTimer = null;
+    ensureSession().catch((e) => {
+      log.warn(`wallet-mcp restart failed: ${e instanceof Error ? e.message : String(e)}`);
     });
+  }, delayMs);
+  restartTimer.unref();
+}
+
+async function startSession(): Promise<Session> {
+  const command = config.walletMcp.command.trim();
+  if (!command) {
+    throw new Error("RUNTIME_WALLET_MCP_COMMAND is empty");
+  }
+
+  // Respect the backoff window when a caller races the scheduled restart.
+  const waitMs = lastCrashAtMs + getRestartDelayMs() - Date.now();
+  if (waitMs > 0) await sleep(waitMs);
 
-    writeFrame(child.stdin, {
-      jsonrpc: "2.0",
-      id: initRequestId,
-      method: "initialize",
-      params: {
+  const cwd = config.walletMcp.cwd.trim() || process.cwd();
+  const child = spawn("zsh", ["-lc", command], {
+    cwd,
+    env: process.env,
+    stdio: "pipe",
+  });
+
+  const current: Session = {
+    child,
+    pending: new Map(),
+    stdoutBuffer: Buffer.alloc(0),
+    stderrTail: "",
+    closed: false,
+  };
+
+  child.stdout.on("data", (chunk: Buffer<ArrayBufferLike>) => {
+    current.stdoutBuffer = Buffer.concat([current.stdoutBuffer, chunk]);
+    const parsed = parseFrames(current.stdoutBuffer);
+    current.stdoutBuffer = parsed.rest;
+    for (const message of parsed.messages) {
+      handleMessage(current, message);
+    }
+  });
+
+  child.stderr.on("data", (chunk: Buffer) => {
+    current.stderrTail = (current.stderrTail + String(chunk)).slice(-STDERR_TAIL_CHARS);
+  });
+
+  child.stdin.on("error", (e) => {
+    log.warn(`wallet-mcp stdin error: ${e.message}`);
+  });
+
+  child.on("error", (e) => {
+    handleExit(current, `spawn failed: ${e instanceof Error ? e.message : String(e)}`);
+  });
+
+  child.on("close", (code, signal) => {
+    handleExit(current, `code=${code ?? "null"} signal=${signal ?? "none"}`);
+  });
+
+  try {
+    await sendRequest(
+      current,
+      "initialize",
+      {
         protocolVersion: "2024-11-05",
         capabilities: {},
         clientInfo: { name: "cashcat-agent", version: "0.1.0" },
       },
-    });
+      getTimeoutMs()
+    );
+  } catch (e) {
+    if (!current.closed) current.child.kill("SIGTERM");
+    throw new Error(`wallet-mcp initialize failed: ${e instanceof Error ? e.message : String(e)}`);
+  }
+
+  writeFrame(child.stdin, {
+    jsonrpc: "2.0",
+    method: "notifications/initialized",
   });
+
+  consecutiveCrashes = 0;
+  log.info(`wallet-mcp session started (pid=${child.pid ?? "n/a"})`);
+  return current;
+}
+
+async function ensureSession(): Promise<Session> {
+  if (stopped) throw new Error("wallet-mcp session is stopped");
+  if (session && !session.closed) return session;
+
+  if (!starting) {
+    starting = startSession()
+      .then((created) => {
+        session = created;
+        return created;
+      })
+      .finally(() => {
+        starting = null;
+      });
+  }
+  return starting;
+}
+
+/**
+ * Stop the shared wallet-mcp child and reject any in-flight calls.
+ * Called once on agent shutdown; later calls fail fast.
+ */
+export function stopWalletMcp(): void {
+  stopped = true;
+  if (restartTimer) {
+    clearTimeout(restartTimer);
+    restartTimer = null;
+  }
+  const current = session;
+  session = null;
+  if (current && !current.closed) {
+    current.child.kill("SIGTERM");
+  }
 }
 
 // ---------------------------------------------------------------------------
-// executeSwap
+// callTool — generic tools/call over the shared session
 // ---------------------------------------------------------------------------
 
+export async function callTool(
+  name: string,
+  args: Record<string, unknown>
+): Promise<Record<string, unknown>> {
+  if (!config.walletMcp.enabled) {
+    throw new Error("wallet-mcp is disabled");
+  }
+
+  const current = await ensureSession();
+  const result = await sendRequest(
+    current,
+    "tools/call",
+    { name, arguments: args },
+    getTimeoutMs()
+  );
+  return extractResultPayload(name, result);
+}
+
+// ---------------------------------------------------------------------------
+// getBalance
+// ---------------------------------------------------------------------------
+
+export async function getBalance(): Promise<WalletBalance> {
+  const payload = await callTool("wallet_get_balance", { chain: "solana" });
+  const lamports = String(payload.lamports ?? "0");
+  const sol = String(payload.sol ?? String(Number(lamports) / 1_000_000_000));
+  return { lamports, sol };
+}
+
+// ---------------------------------------------------------------------------
+// getTokenBalances — every SPL and Token-2022 account of the wallet
+// ---------------------------------------------------------------------------
+
+export async function getTokenBalances(account?: string): Promise<TokenBalance[]> {
+  const payload = await callTool("wallet_get_token_balances", {
+    chain: "solana",
+    ...(account ? { account } : {}),
+  });
+  if (!Array.isArray(payload.tokens)) {
+    throw new Error("wallet_get_token_balances returned no tokens array");
+  }
+  return payload.tokens as TokenBalance[];
+}
+
+// ---------------------------------------------------------------------------
+// getTx — confirmation status of a transaction by hash
+// ---------------------------------------------------------------------------
+
+export interface TxStatus {
+  txHash: string;
+  found: boolean;
+  confirmationStatus?: string;
+  error?: unknown;
+}
+
+export async function getTx(txHash: string): Promise<TxStatus> {
+  const payload = await callTool("wallet_get_tx", { chain: "solana", txHash });
+  return {
+    txHash,
+    found: payload.found === true,
+    confirmationStatus:
+      typeof payload.confirmationStatus === "string" ? payload.confirmationStatus : undefined,
+    error: payload.error ?? undefined,
+  };
+}
+
 // ---------------------------------------------------------------------------
 // signAndSendTransaction
 // ---------------------------------------------------------------------------
@@ -278,321 +462,102 @@ export async function signAndSendTransaction(
   transaction: string,
   description: string
 ): Promise<SignAndSendResult> {
-  if (!config.walletMcp.enabled) {
-    return { success: false, error: "wallet-mcp execution is disabled" };
-  }
-
-  const command = config.walletMcp.command.trim();
-  if (!command) {
-    return { success: false, error: "RUNTIME_WALLET_MCP_COMMAND is empty" };
-  }
-
-  const cwd = config.walletMcp.cwd.trim() || process.cwd();
-  const timeoutMs = Math.max(5, config.walletMcp.timeoutSeconds) * 1000;
-
-  return await new Promise<SignAndSendResult>((resolve) => {
-    const child = spawn("zsh", ["-lc", command], {
-      cwd,
-      env: process.env,
-      stdio: "pipe",
-    });
-
-    const initRequestId = 1;
-    const toolCallRequestId = 2;
-    let done = false;
-    let stdoutBuffer: Buffer<ArrayBufferLike> = Buffer.alloc(0);
-    let stderr = "";
-
-    const finish = (result: SignAndSendResult): void => {
-      if (done) return;
-      done = true;
-      clearTimeout(timer);
-      child.kill("SIGTERM");
-      resolve(result);
+  try {
+    const payload = (await callTool("wallet_sign_and_send", {
+      chain: "solana",
+      intentId,
+      transaction,
+      description,
+    })) as WalletExecuteResult;
+    return {
+      // A replayed intent can come back in flight or submitted; only "sent"
+      // means this call's transaction is confirmed.
+      success: payload.status === "sent" && !payload.error,
+      txHash: payload.txHash,
+      error: payload.error ?? payload.reason,
     };
+  } catch (e) {
+    const error = e instanceof Error ? e.message : String(e);
+    log.warn(`wallet_sign_and_send failed: ${error}`);
+    return { success: false, error };
+  }
+}
 
-    const timer = setTimeout(() => {
-      const error = `wallet-mcp sign_and_send timed out after ${timeoutMs}ms`;
-      log.warn(error);
-      finish({ success: false, error });
-    }, timeoutMs);
-
-    child.stdout.on("data", (chunk: Buffer<ArrayBufferLike>) => {
-      stdoutBuffer = Buffer.concat([stdoutBuffer, chunk]);
-      const parsed = parseFrames(stdoutBuffer);
-      stdoutBuffer = parsed.rest;
-
-      for (const message of parsed.messages) {
-        if (done) return;
-        if (typeof message.id !== "number") continue;
-
-        if (message.id === initRequestId) {
-          if (message.error) {
-            finish({
-              success: false,
-              error: `wallet-mcp initialize failed: ${message.error.message}`,
-            });
-            return;
-          }
-
-          writeFrame(child.stdin, {
-            jsonrpc: "2.0",
-            method: "notifications/initialized",
-          });
-
-          writeFrame(child.stdin, {
-            jsonrpc: "2.0",
-            id: toolCallRequestId,
-            method: "tools/call",
-            params: {
-              name: "wallet_sign_and_send",
-              arguments: {
-                chain: "solana",
-                intentId,
-                transaction,
-                description,
-              },
-            },
-          });
-          continue;
-        }
-
-        if (message.id === toolCallRequestId) {
-          if (message.error) {
-            finish({
-              success: false,
-              error: `wallet_sign_and_send RPC error: ${message.error.message}`,
-            });
-            return;
-          }
-
-          try {
-            const payload = extractResultPayload(message.result);
-            const success = payload.status === "filled" || payload.status === undefined;
-            finish({
-              success: payload.status !== "failed" && !payload.error,
-              txHash: payload.txHash,
-              error: payload.error ?? payload.reason,
-            });
-          } catch (e) {
-            const msg = e instanceof Error ? e.message : String(e);
-            finish({ success: false, error: msg });
-          }
-          return;
-        }
-      }
-    });
-
-    child.stderr.on("data", (chunk: Buffer) => {
-      stderr += String(chunk);
-    });
-
-    child.on("error", (e) => {
-      finish({
-        success: false,
-        error: `wallet-mcp spawn failed: ${e instanceof Error ? e.message : String(e)}`,
-      });
-    });
-
-    child.on("close", (code) => {
-      if (done) return;
-      const stderrTail = stderr.trim() ? ` | stderr=${stderr.trim()}` : "";
-      finish({
-        success: false,
-        error: `wallet-mcp exited before response (code=${code})${stderrTail}`,
-      });
-    });
+// ---------------------------------------------------------------------------
+// getQuote — the quote is cached in wallet-mcp under quoteId, so the swap
+// that follows fills exactly what was checked here
+// ---------------------------------------------------------------------------
 
-    writeFrame(child.stdin, {
-      jsonrpc: "2.0",
-      id: initRequestId,
-      method: "initialize",
-      params: {
-        protocolVersion: "2024-11-05",
-        capabilities: {},
-        clientInfo: { name: "cashcat-agent", version: "0.1.0" },
-      },
-    });
+export async function getQuote(order: TradeOrder): Promise<SwapQuote> {
+  const payload = await callTool("wallet_get_quote", {
+    chain: "solana",
+    inputMint: order.inputMint,
+    outputMint: order.outputMint,
+    amountLamports: order.amountLamports,
+    slippageBps: order.slippageBps,
   });
+  if (payload.status === "rejected") {
+    throw new Error(`wallet_get_quote rejected: ${String(payload.reason ?? "unknown")}`);
+  }
+  if (typeof payload.quoteId !== "string" || typeof payload.outAmount !== "string") {
+    throw new Error("wallet_get_quote returned no quote");
+  }
+  return {
+    quoteId: payload.quoteId,
+    inputMint: String(payload.inputMint ?? order.inputMint),
+    outputMint: String(payload.outputMint ?? order.outputMint),
+    inAmount: String(payload.inAmount ?? order.amountLamports),
+    outAmount: payload.outAmount,
+    slippageBps: Number(payload.slippageBps ?? order.slippageBps),
+    priceImpactPct: Number(payload.priceImpactPct ?? 0) || 0,
+    expiresAt: typeof payload.expiresAt === "string" ? payload.expiresAt : undefined,
+  };
 }
 
 // ---------------------------------------------------------------------------
-// executeSwap
+// executeSwap — by quoteId when given, otherwise wallet-mcp quotes itself
 // ---------------------------------------------------------------------------
 
 export async function executeSwap(
   intentId: string,
-  order: TradeOrder
+  order: TradeOrder,
+  quoteId?: string
 ): Promise<TradeResult> {
-  if (!config.walletMcp.enabled) {
+  try {
+    const payload = (await callTool(
+      "wallet_execute_swap",
+      quoteId
+        ? { chain: "solana", intentId, quoteId }
+        : {
+            chain: "solana",
+            intentId,
+            inputMint: order.inputMint,
+            outputMint: order.outputMint,
+            amountLamports: order.amountLamports,
+            slippageBps: order.slippageBps,
+          }
+    )) as WalletExecuteResult;
+    const success = payload.status === "filled";
     return {
-      success: false,
-      inputAmount: String(order.amountLamports),
-      outputAmount: "0",
-      error: "wallet-mcp execution is disabled",
+      success,
+      txHash: payload.txHash,
+      inputAmount: payload.inputAmount ?? String(order.amountLamports),
+      outputAmount: payload.outputAmount ?? "0",
+      quotedOutputAmount: payload.quotedOutputAmount,
+      realizedSlippageBps: payload.realizedSlippageBps,
+      error:
+        payload.error ??
+        payload.reason ??
+        (success ? undefined : "wallet_execute_swap failed"),
     };
-  }
-
-  const command = config.walletMcp.command.trim();
-  if (!command) {
+  } catch (e) {
+    const error = e instanceof Error ? e.message : String(e);
+    log.warn(`wallet_execute_swap failed: ${error}`);
     return {
       success: false,
       inputAmount: String(order.amountLamports),
       outputAmount: "0",
-      error: "RUNTIME_WALLET_MCP_COMMAND is empty",
+      error,
     };
   }
-
-  const cwd = config.walletMcp.cwd.trim() || process.cwd();
-  const timeoutMs = Math.max(5, config.walletMcp.timeoutSeconds) * 1000;
-
-  return await new Promise<TradeResult>((resolve) => {
-    const child = spawn("zsh", ["-lc", command], {
-      cwd,
-      env: process.env,
-      stdio: "pipe",
-    });
-
-    const initRequestId = 1;
-    const toolCallRequestId = 2;
-    let done = false;
-    let stdoutBuffer: Buffer<ArrayBufferLike> = Buffer.alloc(0);
-    let stderr = "";
-
-    const finish = (result: TradeResult): void => {
-      if (done) return;
-      done = true;
-      clearTimeout(timer);
-      child.kill("SIGTERM");
-      resolve(result);
-    };
-
-    const timer = setTimeout(() => {
-      const error = `wallet-mcp call timed out after ${timeoutMs}ms`;
-      log.warn(error);
-      finish({
-        success: false,
-        inputAmount: String(order.amountLamports),
-        outputAmount: "0",
-        error,
-      });
-    }, timeoutMs);
-
-    child.stdout.on("data", (chunk: Buffer<ArrayBufferLike>) => {
-      stdoutBuffer = Buffer.concat([stdoutBuffer, chunk]);
-      const parsed = parseFrames(stdoutBuffer);
-      stdoutBuffer = parsed.rest;
-
-      for (const message of parsed.messages) {
-        if (done) return;
-        if (typeof message.id !== "number") continue;
-
-        if (message.id === initRequestId) {
-          if (message.error) {
-            finish({
-              success: false,
-              inputAmount: String(order.amountLamports),
-              outputAmount: "0",
-              error: `wallet-mcp initialize failed: ${message.error.message}`,
-            });
-            return;
-          }
-
-          writeFrame(child.stdin, {
-            jsonrpc: "2.0",
-            method: "notifications/initialized",
-          });
-
-          writeFrame(child.stdin, {
-            jsonrpc: "2.0",
-            id: toolCallRequestId,
-            method: "tools/call",
-            params: {
-              name: "wallet_execute_swap",
-              arguments: {
-                chain: "solana",
-                intentId,
-                inputMint: order.inputMint,
-                outputMint: order.outputMint,
-                amountLamports: order.amountLamports,
-                slippageBps: order.slippageBps,
-              },
-            },
-          });
-          continue;
-        }
-
-        if (message.id === toolCallRequestId) {
-          if (message.error) {
-            finish({
-              success: false,
-              inputAmount: String(order.amountLamports),
-              outputAmount: "0",
-              error: `wallet_execute_swap RPC error: ${message.error.message}`,
-            });
-            return;
-          }
-
-          try {
-            const payload = extractResultPayload(message.result);
-            const success = payload.status === "filled";
-            finish({
-              success,
-              txHash: payload.txHash,
-              inputAmount: payload.inputAmount ?? String(order.amountLamports),
-              outputAmount: payload.outputAmount ?? "0",
-              error:
-                payload.error ??
-                payload.reason ??
-                (success ? undefined : "wallet_execute_swap failed"),
-            });
-          } catch (e) {
-            const msg = e instanceof Error ? e.message : String(e);
-            finish({
-              success: false,
-              inputAmount: String(order.amountLamports),
-              outputAmount: "0",
-              error: msg,
-            });
-          }
-          return;
-        }
-      }
-    });
-
-    child.stderr.on("data", (chunk: Buffer) => {
-      stderr += String(chunk);
-    });
-
-    child.on("error", (e) => {
-      finish({
-        success: false,
-        inputAmount: String(order.amountLamports),
-        outputAmount: "0",
-        error: `wallet-mcp spawn failed: ${e instanceof Error ? e.message : String(e)}`,
-      });
-    });
-
-    child.on("close", (code) => {
-      if (done) return;
-      const stderrTail = stderr.trim() ? ` | stderr=${stderr.trim()}` : "";
-      finish({
-        success: false,
-        inputAmount: String(order.amountLamports),
-        outputAmount: "0",
-        error: `wallet-mcp exited before response (code=${code})${stderrTail}`,
-      });
-    });
-
-    writeFrame(child.stdin, {
-      jsonrpc: "2.0",
-      id: initRequestId,
-      method: "initialize",
-      params: {
-        protocolVersion: "2024-11-05",
-        capabilities: {},
-        clientInfo: { name: "cashcat-agent", version: "0.1.0" },
-      },
-    });
-  });
 }
@@ -0,0 +1,259 @@
+import { once } from "node:events";
+import { createReadStream, createWriteStream, promises as fs } from "node:fs";
+import path from "node:path";
+import { pipeline } from "node:stream/promises";
+import { createGzip } from "node:zlib";
+import { checkPrunedRun, checkpointKeyId, hashLine, sealEvent, signPrunedRun } from "./chain.js";
+import type { PrunedRunClaim } from "./chain.js";
+import { LEDGER_SCHEMA_VERSION } from "./events.js";
+import type { LedgerEventType } from "./events.js";
+import { isCompressed, listArchivedSegments, loadIndex, saveIndex, segmentLines } from "./segments.js";
+import type { LedgerSegmentSummary } from "./segments.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Days to keep each event type in archived segments; types without a rule
+// are kept forever.
+export type LedgerRetention = Partial<Record<LedgerEventType, number>>;
+
+export interface ArchiveReport {
+  compressed: string[];
+  // events removed by this run, by type
+  pruned: Record<string, number>;
+  indexed: number;
+}
+
+// The chain and its checkpoints are never pruned.
+const PROTECTED_TYPES: ReadonlySet<string> = new Set(["ledger_checkpoint", "ledger_segment_opened", "ledger_pruned"]);
+
+interface RawLine {
+  type?: unknown;
+  timestamp?: unknown;
+  prev?: unknown;
+  hash?: unknown;
+  payload?: { counts?: Record<string, number>; from?: unknown; to?: unknown; last?: unknown; mac?: unknown };
+}
+
+function parseRaw(line: string): RawLine | null {
+  try {
+    const parsed = JSON.parse(line) as RawLine;
+    return parsed && typeof parsed === "object" ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+function addCounts(target: Record<string, number>, source: Record<string, number>): void {
+  for (const [type, count] of Object.entries(source)) target[type] = (target[type] ?? 0) + count;
+}
+
+// ---------------------------------------------------------------------------
+// Segments
+// ---------------------------------------------------------------------------
+
+export async function summarizeSegment(file: string): Promise<LedgerSegmentSummary> {
+  const summary: LedgerSegmentSummary = {
+    file: path.basename(file),
+    events: 0,
+    counts: {},
+    pruned: {},
+    bytes: (await fs.stat(file)).size,
+  };
+  const { lines } = await segmentLines(file);
+  for await (const line of lines) {
+    const raw = parseRaw(line);
+    if (!raw || typeof raw.type !== "string") continue;
+    summary.events++;
+    summary.counts[raw.type] = (summary.counts[raw.type] ?? 0) + 1;
+    if (typeof raw.timestamp === "string") {
+      summary.from ??= raw.timestamp;
+      summary.to = raw.timestamp;
+    }
+    if (typeof raw.hash === "string") {
+      if (summary.firstPrev === undefined && typeof raw.prev === "string") summary.firstPrev = raw.prev;
+      // the line after a pruned run links to the run's last event, not to the stub
+      summary.lastHash = raw.type === "ledger_pruned" && typeof raw.payload?.last === "string" ? raw.payload.last : raw.hash;
+    }
+    if (raw.type === "ledger_pruned" && raw.payload?.counts) addCounts(summary.pruned, raw.payload.counts);
+  }
+  return summary;
+}
+
+async function compressSegment(file: string): Promise<string> {
+  const target = `${file}.gz`;
+  const tempPath = `${target}.tmp`;
+  await pipeline(createReadStream(file), createGzip(), createWriteStream(tempPath));
+  await fs.rename(tempPath, target);
+  await fs.rm(file, { force: true });
+  return target;
+}
+
+function pruneDue(summary: LedgerSegmentSummary, retention: LedgerRetention, nowMs: number): boolean {
+  if (!summary.from) return false;
+  const fromMs = Date.parse(summary.from);
+  return Object.entries(retention).some(
+    ([type, days]) =>
+      days !== undefined && !PROTECTED_TYPES.has(type) && (summary.counts[type] ?? 0) > 0 && fromMs < nowMs - days * DAY_MS
+  );
+}
+
+// An earlier stub is only extended when it is intact; anything else is
+// copied as it is, for verifyLedger to report.
+function sealedRun(line: string, raw: RawLine, key: string | undefined): PrunedRunClaim | null {
+  const payload = raw.payload;
+  if (typeof raw.prev !== "string" || typeof payload?.last !== "string" || !payload.counts) return null;
+  const { hash, ...body } = JSON.parse(line) as Record<string, unknown>;
+  if (hashLine(JSON.stringify(body)) !== hash) return null;
+  const run: PrunedRunClaim = {
+    prev: raw.prev,
+    last: payload.last,
+    counts: payload.counts,
+    from: String(payload.from ?? ""),
+    to: String(payload.to ?? ""),
+  };
+  if (key && !checkPrunedRun(key, run, String(payload.mac ?? ""))) return null;
+  return run;
+}
+
+/**
+ * Rewrite a compressed segment without the events retention has expired.
+ * Each run of removed chained lines becomes one ledger_pruned line that
+ * links from the run's first `prev`, names the run's last hash for the
+ * next line to link to, and is signed with the checkpoint key when there
+ * is one. Kept lines are copied byte for byte.
+ */
+async function pruneSegment(
+  file: string,
+  retention: LedgerRetention,
+  nowMs: number,
+  checkpointKey: string | undefined
+): Promise<Record<string, number>> {
+  const cutoffs = new Map<string, number>();
+  for (const [type, days] of Object.entries(retention)) {
+    if (days !== undefined && !PROTECTED_TYPES.has(type)) cutoffs.set(type, nowMs - days * DAY_MS);
+  }
+
+  const tempPath = `${file}.tmp`;
+  const gzip = createGzip();
+  const written = pipeline(gzip, createWriteStream(tempPath));
+  const write = async (line: string): Promise<void> => {
+    if (!gzip.write(line + "\n")) await once(gzip, "drain");
+  };
+
+  const dropped: Record<string, number> = {};
+  let run: PrunedRunClaim | null = null;
+  const flush = async (): Promise<void> => {
+    if (!run) return;
+    const { prev, ...claim } = run;
+    const signature = checkpointKey
+      ? { keyId: checkpointKeyId(checkpointKey), mac: signPrunedRun(checkpointKey, run) }
+      : {};
+    await write(
+      JSON.stringify(
+        sealEvent({
+          v: LEDGER_SCHEMA_VERSION,
+          seq: 0,
+          pid: 0,
+          writer: "retention",
+          timestamp: run.to,
+          type: "ledger_pruned",
+          payload: { ...claim, ...signature },
+          prev,
+        })
+      )
+    );
+    run = null;
+  };
+
+  const { lines } = await segmentLines(file);
+  for await (const line of lines) {
+    if (!line.trim()) continue;
+    const raw = parseRaw(line);
+    const type = typeof raw?.type === "string" ? raw.type : "";
+    const timestamp = typeof raw?.timestamp === "string" ? raw.timestamp : "";
+    const chained = typeof raw?.hash === "string" && typeof raw.prev === "string";
+
+    const earlier = type === "ledger_pruned" && chained ? sealedRun(line, raw!, checkpointKey) : null;
+    if (earlier) {
+      // An earlier run: extend it instead of nesting stubs.
+      run ??= { prev: earlier.prev, last: "", counts: {}, from: earlier.from, to: earlier.to };
+      run.last = earlier.last;
+      run.to = earlier.to;
+      addCounts(run.counts, earlier.counts);
+      continue;
+    }
+
+    const cutoff = cutoffs.get(type);
+    const atMs = Date.parse(timestamp);
+    if (cutoff === undefined || !Number.isFinite(atMs) || atMs >= cutoff) {
+      await flush();
+      await write(line);
+      continue;
+    }
+
+    dropped[type] = (dropped[type] ?? 0) + 1;
+    // Lines from before the chain carry no hash to preserve.
+    if (!chained) continue;
+    run ??= { prev: raw!.prev as string, last: "", counts: {}, from: timestamp, to: timestamp };
+    run.last = raw!.hash as string;
+    run.to = timestamp;
+    run.counts[type] = (run.counts[type] ?? 0) + 1;
+  }
+  await flush();
+  gzip.end();
+  await written;
+
+  if (Object.keys(dropped).length === 0) {
+    await fs.rm(tempPath, { force: true });
+  } else {
+    await fs.rename(tempPath, file);
+  }
+  return dropped;
+}
+
+// ---------------------------------------------------------------------------
+// Maintenance — compress rotated segments, apply retention, refresh the
+// index. Safe to re-run after a crash at any step.
+// ---------------------------------------------------------------------------
+
+export async function maintainArchive(
+  ledgerPath: string,
+  retention: LedgerRetention = {},
+  nowMs = Date.now(),
+  // signs the ledger_pruned stubs; the writer's checkpoint key
+  checkpointKey?: string
+): Promise<ArchiveReport> {
+  const report: ArchiveReport = { compressed: [], pruned: {}, indexed: 0 };
+  const index = await loadIndex(ledgerPath);
+  const byFile = new Map(index.segments.map((summary) => [summary.file, summary]));
+  const segments: LedgerSegmentSummary[] = [];
+
+  for (let file of await listArchivedSegments(ledgerPath)) {
+    if (!isCompressed(file)) {
+      file = await compressSegment(file);
+      report.compressed.push(path.basename(file));
+    }
+    let summary = byFile.get(path.basename(file));
+    const bytes = (await fs.stat(file)).size;
+    if (!summary || summary.bytes !== bytes) {
+      summary = await summarizeSegment(file);
+      report.indexed++;
+    }
+    if (pruneDue(summary, retention, nowMs)) {
+      const dropped = await pruneSegment(file, retention, nowMs, checkpointKey);
+      if (Object.keys(dropped).length > 0) {
+        addCounts(report.pruned, dropped);
+        summary = await summarizeSegment(file);
+        report.indexed++;
+      }
+    }
+    segments.push(summary);
+  }
+
+  const changed =
+    report.indexed > 0 ||
+    segments.length !== index.segments.length ||
+    segments.some((summary, i) => summary.file !== index.segments[i]?.file);
+  if (changed) await saveIndex(ledgerPath, { segments, updatedAt: index.updatedAt });
+  return report;
+}
@@ -0,0 +1,74 @@
+import { createHash, createHmac, timingSafeEqual } from "node:crypto";
+
+// `prev` of the first event of a ledger that has no earlier segment.
+export const GENESIS_HASH = "0".repeat(64);
+
+// ---------------------------------------------------------------------------
+// Hashing — an event's hash covers its serialized line minus `hash`, and
+// the line carries `prev`, so changing any earlier line breaks every later
+// link.
+// ---------------------------------------------------------------------------
+
+export function hashLine(lineWithoutHash: string): string {
+  return createHash("sha256").update(lineWithoutHash).digest("hex");
+}
+
+/** Serialize an event with `prev` and `hash` set; `body` must not carry `hash`. */
+export function sealEvent<T extends object>(body: T & { prev: string }): T & { prev: string; hash: string } {
+  return { ...body, hash: hashLine(JSON.stringify(body)) };
+}
+
+// ---------------------------------------------------------------------------
+// Checkpoints — an HMAC over the chain head. Rewriting history means
+// recomputing every hash after the change, which a checkpoint made with a
+// key the rewriter does not hold will no longer match.
+// ---------------------------------------------------------------------------
+
+export function checkpointKeyId(key: string): string {
+  return createHash("sha256").update(key).digest("hex").slice(0, 16);
+}
+
+export function signCheckpoint(key: string, through: string): string {
+  return createHmac("sha256", key).update(`ledger-checkpoint:${through}`).digest("hex");
+}
+
+export function checkCheckpoint(key: string, through: string, mac: string): boolean {
+  const expected = Buffer.from(signCheckpoint(key, through), "hex");
+  const actual = Buffer.from(mac, "hex");
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+// ---------------------------------------------------------------------------
+// Pruned runs — a ledger_pruned line stands in for removed events, so its
+// claims (what was removed, between which links) are signed with the
+// checkpoint key. Without the signature anyone able to write the file could
+// replace any run of events with a stub that keeps its end links.
+// ---------------------------------------------------------------------------
+
+export interface PrunedRunClaim {
+  // `prev` of the first removed event
+  prev: string;
+  // hash of the last removed event, which the next line links to
+  last: string;
+  counts: Record<string, number>;
+  from: string;
+  to: string;
+}
+
+function prunedRunMessage(run: PrunedRunClaim): string {
+  const counts = Object.keys(run.counts)
+    .sort()
+    .map((type) => `${type}=${run.counts[type]}`)
+    .join(",");
+  return `ledger-pruned:${run.prev}:${run.last}:${counts}:${run.from}:${run.to}`;
+}
+
+export function signPrunedRun(key: string, run: PrunedRunClaim): string {
+  return createHmac("sha256", key).update(prunedRunMessage(run)).digest("hex");
+}
+
+export function checkPrunedRun(key: string, run: PrunedRunClaim, mac: string): boolean {
+  const expected = Buffer.from(signPrunedRun(key, run), "hex");
+  const actual = Buffer.from(mac, "hex");
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
@@ -0,0 +1,466 @@
+// ---------------------------------------------------------------------------
+// Event kinds — every line in the ledger is one of these. Payload fields
+// that are passed through from intent metadata stay `unknown`.
+// ---------------------------------------------------------------------------
+
+// Bump when the envelope changes shape. Lines written before the envelope
+// existed read back as version 0 with no seq, pid or writer; version 1
+// lines have no hash chain.
+export const LEDGER_SCHEMA_VERSION = 2;
+
+export type LedgerWriterName = "agent" | "wallet-mcp";
+
+// --- wallet-mcp: reads --------------------------------------------------------
+
+export interface BalanceCheckedPayload {
+  account: string;
+  lamports: number;
+  mode?: "paper";
+}
+
+export interface TokenBalancesCheckedPayload {
+  account: string;
+  accounts: number;
+  nonZero: number;
+  mode?: "paper";
+}
+
+export interface TxCheckedPayload {
+  txHash: string;
+  found: boolean;
+  confirmationStatus?: string;
+  confirmations?: number | null;
+  slot?: number;
+  hasError?: boolean;
+}
+
+// --- wallet-mcp: swaps --------------------------------------------------------
+
+export interface QuoteIssuedPayload {
+  quoteId: string;
+  inputMint: string;
+  outputMint: string;
+  inAmount: string;
+  outAmount: string;
+  slippageBps: number;
+  priceImpactPct: number;
+  expiresAt: string;
+}
+
+export interface SwapFilledPayload {
+  intentId: string;
+  txHash?: string;
+  mode: "paper" | "live";
+  quoteId?: string;
+  inputMint: string;
+  outputMint: string;
+  inputAmount: string;
+  outputAmount: string;
+  quotedInputAmount?: string;
+  quotedOutputAmount?: string;
+  feeLamports?: string;
+  rentLamports?: string;
+  realizedSlippageBps?: number | null;
+  fillSource?: string;
+}
+
+export interface SwapFailedPayload {
+  intentId: string;
+  quoteId?: string;
+  error: string;
+}
+
+export interface SwapRejectedPayload {
+  intentId: string;
+  quoteId?: string;
+  reason: string;
+  inputMint?: string;
+  outputMint?: string;
+  inputAmount?: string;
+  amountLamports?: number;
+  slippageBps?: number;
+}
+
+export interface PaperFeeChargedPayload {
+  intentId: string;
+  feeLamports: string;
+}
+
+// --- wallet-mcp: raw transactions ---------------------------------------------
+
+export interface TxSimulatedPayload {
+  intentId: string;
+  source: string;
+  success: boolean;
+  unitsConsumed: number | null;
+  error?: string;
+  programError?: unknown;
+  solDeltaLamports?: string;
+  tokenDeltas?: unknown;
+}
+
+export interface TxRejectedPayload {
+  intentId: string;
+  reason: string;
+  description: string;
+  instructions?: unknown;
+  unresolvedLookupTables?: unknown;
+}
+
+export interface TxSignedAndSentPayload {
+  intentId: string;
+  txHash?: string;
+  mode: "paper" | "live";
+  description: string;
+  instructions?: unknown;
+}
+
+export interface TxSignAndSendFailedPayload {
+  intentId: string;
+  error: string;
+  description: string;
+  instructions?: unknown;
+}
+
+// --- wallet-mcp: intents and policy -------------------------------------------
+
+export interface IntentReplayedPayload {
+  intentId: string;
+  tool: string;
+  recordedTool: string;
+  status: string;
+  txHash?: string;
+}
+
+export interface IntentSubmittedPayload {
+  intentId: string;
+  tool: string;
+  txHash: string;
+}
+
+export interface PolicyReloadedPayload {
+  path: string;
+  changes: unknown[];
+}
+
+export interface PolicyRejectedPayload {
+  path: string;
+  errors: string[];
+}
+
+// --- agent: bookings ----------------------------------------------------------
+
+export interface StateInitializedPayload {
+  cashLamports: string;
+  perpBalanceUsd: number;
+}
+
+export interface CashSyncedPayload {
+  diffLamports: string;
+  cashLamports: string;
+}
+
+export interface PerpBalanceSyncedPayload {
+  previousUsd: number;
+  perpBalanceUsd: number;
+}
+
+export interface PositionReconciledPayload {
+  mint: string;
+  symbol: string;
+  beforeRaw: string;
+  afterRaw: string;
+  action: "updated" | "deleted";
+}
+
+export interface SwapAppliedPayload {
+  intentId: string;
+  action: "buy" | "sell" | "perp_open" | "perp_close";
+  inputMint: string;
+  outputMint: string;
+  symbol?: unknown;
+  decimals?: unknown;
+  inputAmount: string;
+  outputAmount: string;
+  txHash?: string;
+  pnlLamports?: string;
+  exitPlan?: unknown;
+  ladderStep?: unknown;
+}
+
+export interface SpotExitPayload {
+  intentId: string;
+  mint: string;
+  symbol: string;
+  exitReason: unknown;
+  reason?: unknown;
+  pnlPct?: unknown;
+  holdMinutes?: unknown;
+  inputAmount: string;
+  outputAmount: string;
+  txHash?: string;
+}
+
+export interface PerpOpenedPayload {
+  intentId: string;
+  market: string;
+  underlyingMint: string;
+  side: "long" | "short";
+  leverage: number;
+  collateralUsd: number;
+  entryPriceUsd: number;
+  sizeUsd: number;
+  reason?: unknown;
+  mode: "paper" | "live";
+}
+
+export interface PerpClosedPayload {
+  intentId: string;
+  market: string;
+  side: "long" | "short";
+  leverage: number;
+  entryPriceUsd: number;
+  closePriceUsd: number;
+  pnlUsd: number;
+  borrowFeeUsd?: number;
+  collateralUsd: number;
+  sizeUsd: number;
+  reason?: unknown;
+  exitReason?: unknown;
+  mode: "paper" | "live";
+}
+
+export interface PerpWriteOffPayload {
+  market: string;
+  side: "long" | "short";
+  leverage: number;
+  collateralUsd: number;
+  entryPriceUsd: number;
+  pnlUsd: number;
+  closeFailCount: number;
+  reason: string;
+}
+
+// --- agent: gates and recovery ------------------------------------------------
+
+export interface IntentRevalidationRejectedPayload {
+  intentId: string;
+  action: string;
+  inputMint: string;
+  outputMint: string;
+  amountLamports: number;
+  plannedPriceUsd?: unknown;
+  limitPriceUsd?: unknown;
+  reason: string;
+}
+
+export interface IntentRecoveredPayload {
+  intentId: string;
+  attemptId: string;
+  action: string;
+  previousStatus: string;
+  outcome: "applied" | "failed" | "abandoned";
+  source?: string;
+  txHash?: string;
+  inputAmount?: string;
+  outputAmount?: string;
+  error?: string;
+  note?: string;
+}
+
+export interface BreakerTrippedPayload {
+  trigger: string;
+  reason: string;
+  equityUsd: number;
+  peakEquityUsd?: number;
+  dayStartEquityUsd?: number;
+  consecutiveLosses?: number;
+}
+
+export interface BreakerResetPayload {
+  note: string;
+  requestedAt: string;
+  previousTrigger?: string;
+  previousReason?: string;
+  equityUsd: number;
+}
+
+export interface BreakerBlockedPayload {
+  intentId: string;
+  action: string;
+  inputMint: string;
+  outputMint: string;
+  amountLamports: number;
+  reason: string;
+}
+
+// --- agent: shadow planners (own ledger file) ----------------------------------
+
+// One normalized intent of a planner that was not executed, or of the live
+// planner as the baseline, with the price it would have traded at.
+export interface ShadowDecisionPayload {
+  intentId: string;
+  planner: string;
+  live: boolean;
+  cycle: number;
+  action: "buy" | "sell" | "perp_open" | "perp_close";
+  // the token bought or sold, or the perp's underlying
+  mint: string;
+  symbol?: unknown;
+  priceUsd: number;
+  notionalUsd: number;
+  // 1 when the intent gains from a rise (buy, long), -1 from a fall
+  direction: 1 | -1;
+  reason?: unknown;
+  confidence?: unknown;
+  horizonsMinutes: number[];
+}
+
+export interface ShadowMarkedPayload {
+  intentId: string;
+  planner: string;
+  live: boolean;
+  horizonMinutes: number;
+  priceUsd: number;
+  // direction * (price / decision price - 1)
+  returnPct: number;
+  pnlUsd: number;
+}
+
+// --- ledger: integrity --------------------------------------------------------
+
+export interface LedgerCheckpointPayload {
+  // hash of the last event the checkpoint covers (the one before it)
+  through: string;
+  // first 16 hex chars of sha256(key), so a verifier can tell a wrong key
+  // from a forged checkpoint
+  keyId: string;
+  mac: string;
+}
+
+export interface LedgerSegmentOpenedPayload {
+  previousSegment: string;
+  previousHash: string;
+  // last seq per writer in the previous segment, so seq resumes after a
+  // restart that only sees the new segment
+  lastSeq: Record<string, number>;
+}
+
+// Written by retention in place of a run of expired lines: `prev` is the
+// first removed line's and `hash` the last one's, so the chain still links.
+export interface LedgerPrunedPayload {
+  counts: Record<string, number>;
+  from: string;
+  to: string;
+  // hash of the last removed event; the line after the stub links to it,
+  // while the stub's own hash covers the stub
+  last: string;
+  // HMAC over prev, last, counts, from and to with the checkpoint key;
+  // absent when the ledger has no key
+  keyId?: string;
+  mac?: string;
+}
+
+// ---------------------------------------------------------------------------
+// Union
+// ---------------------------------------------------------------------------
+
+export interface LedgerEventMap {
+  balance_checked: BalanceCheckedPayload;
+  token_balances_checked: TokenBalancesCheckedPayload;
+  tx_checked: TxCheckedPayload;
+  quote_issued: QuoteIssuedPayload;
+  swap_filled: SwapFilledPayload;
+  swap_failed: SwapFailedPayload;
+  swap_rejected: SwapRejectedPayload;
+  paper_fee_charged: PaperFeeChargedPayload;
+  tx_simulated: TxSimulatedPayload;
+  tx_rejected: TxRejectedPayload;
+  tx_signed_and_sent: TxSignedAndSentPayload;
+  tx_sign_and_send_failed: TxSignAndSendFailedPayload;
+  intent_replayed: IntentReplayedPayload;
+  intent_submitted: IntentSubmittedPayload;
+  policy_reloaded: PolicyReloadedPayload;
+  policy_rejected: PolicyRejectedPayload;
+  state_initialized: StateInitializedPayload;
+  cash_synced: CashSyncedPayload;
+  perp_balance_synced: PerpBalanceSyncedPayload;
+  position_reconciled: PositionReconciledPayload;
+  swap_applied: SwapAppliedPayload;
+  spot_exit: SpotExitPayload;
+  perp_opened: PerpOpenedPayload;
+  perp_closed: PerpClosedPayload;
+  perp_write_off: PerpWriteOffPayload;
+  intent_revalidation_rejected: IntentRevalidationRejectedPayload;
+  intent_recovered: IntentRecoveredPayload;
+  breaker_tripped: BreakerTrippedPayload;
+  breaker_reset: BreakerResetPayload;
+  breaker_blocked: BreakerBlockedPayload;
+  shadow_decision: ShadowDecisionPayload;
+  shadow_marked: ShadowMarkedPayload;
+  ledger_checkpoint: LedgerCheckpointPayload;
+  ledger_segment_opened: LedgerSegmentOpenedPayload;
+  ledger_pruned: LedgerPrunedPayload;
+}
+
+export type LedgerEventType = keyof LedgerEventMap;
+
+export interface LedgerEnvelope<K extends LedgerEventType> {
+  v: number;
+  seq: number;
+  pid: number;
+  writer: string;
+  timestamp: string;
+  type: K;
+  payload: LedgerEventMap[K];
+  // hash of the previous line (or of the previous segment's last line);
+  // absent before version 2
+  prev?: string;
+  // sha256 of this line without `hash`
+  hash?: string;
+}
+
+// Discriminated on `type`, so a check on it narrows the payload.
+export type LedgerEvent = { [K in LedgerEventType]: LedgerEnvelope<K> }[LedgerEventType];
+
+const EVENT_TYPES: ReadonlySet<string> = new Set<LedgerEventType>([
+  "balance_checked",
+  "token_balances_checked",
+  "tx_checked",
+  "quote_issued",
+  "swap_filled",
+  "swap_failed",
+  "swap_rejected",
+  "paper_fee_charged",
+  "tx_simulated",
+  "tx_rejected",
+  "tx_signed_and_sent",
+  "tx_sign_and_send_failed",
+  "intent_replayed",
+  "intent_submitted",
+  "policy_reloaded",
+  "policy_rejected",
+  "state_initialized",
+  "cash_synced",
+  "perp_balance_synced",
+  "position_reconciled",
+  "swap_applied",
+  "spot_exit",
+  "perp_opened",
+  "perp_closed",
+  "perp_write_off",
+  "intent_revalidation_rejected",
+  "intent_recovered",
+  "breaker_tripped",
+  "breaker_reset",
+  "breaker_blocked",
+  "shadow_decision",
+  "shadow_marked",
+  "ledger_checkpoint",
+  "ledger_segment_opened",
+  "ledger_pruned",
+]);
+
+export function isLedgerEventType(type: string): type is LedgerEventType {
+  return EVENT_TYPES.has(type);
+}
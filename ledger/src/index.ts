@@ -0,0 +1,14 @@
+export * from "./events.js";
+export { maintainArchive, summarizeSegment } from "./archive.js";
+export type { ArchiveReport, LedgerRetention } from "./archive.js";
+export { checkpointKeyId, GENESIS_HASH } from "./chain.js";
+export { withFileLock } from "./lock.js";
+export type { FileLockOptions } from "./lock.js";
+export { iterateLedger, iterateSegment, matchesFilter, parseLedgerLine, readLedger, tailFile, tailLedger } from "./reader.js";
+export type { LedgerFilter } from "./reader.js";
+export { indexPath, listArchivedSegments, listSegments, loadIndex, segmentPath } from "./segments.js";
+export type { LedgerIndex, LedgerSegmentSummary } from "./segments.js";
+export { verifyLedger } from "./verify.js";
+export type { LedgerBreak, LedgerVerifyOptions, LedgerVerifyReport } from "./verify.js";
+export { createLedgerWriter } from "./writer.js";
+export type { LedgerCheckpointOptions, LedgerRotationOptions, LedgerWriter, LedgerWriterOptions } from "./writer.js";
@@ -0,0 +1,103 @@
+import { randomUUID } from "node:crypto";
+import { promises as fs } from "node:fs";
+
+const RETRY_MS = 10;
+const DEFAULT_TIMEOUT_MS = 5_000;
+// A holder refreshes the lock's mtime while it works (a rotation reads the
+// whole live file under it), so a lock this old belongs to a process that
+// died or hung while holding it.
+const DEFAULT_STALE_MS = 10_000;
+
+export interface FileLockOptions {
+  timeoutMs?: number;
+  staleMs?: number;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function isAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (e) {
+    // EPERM: the process exists but belongs to someone else
+    return (e as NodeJS.ErrnoException).code === "EPERM";
+  }
+}
+
+async function ownsLock(lockPath: string, token: string): Promise<boolean> {
+  return (await fs.readFile(lockPath, "utf8").catch(() => "")) === token;
+}
+
+// The stale lock's contents, or null while it is held (or gone).
+async function staleLock(lockPath: string, staleMs: number): Promise<string | null> {
+  try {
+    const [raw, stat] = await Promise.all([fs.readFile(lockPath, "utf8"), fs.stat(lockPath)]);
+    const pid = Number.parseInt(raw, 10);
+    if (Number.isFinite(pid) && pid > 0 && pid !== process.pid && !isAlive(pid)) return raw;
+    return Date.now() - stat.mtimeMs > staleMs ? raw : null;
+  } catch {
+    // gone (or unreadable mid-write) — just retry the create
+    return null;
+  }
+}
+
+/**
+ * Run `fn` while holding an exclusive lock file (O_EXCL create). Works
+ * across processes on one host; the lock is broken when its holder is
+ * dead or it is older than `staleMs`. The file holds `<pid>:<token>`, and
+ * the holder only touches or removes it while the token is still its own,
+ * so a holder whose lock was broken never releases the next one's.
+ */
+export async function withFileLock<T>(
+  lockPath: string,
+  fn: () => Promise<T>,
+  options: FileLockOptions = {}
+): Promise<T> {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const staleMs = options.staleMs ?? DEFAULT_STALE_MS;
+  const deadline = Date.now() + timeoutMs;
+  const token = `${process.pid}:${randomUUID()}`;
+
+  for (;;) {
+    try {
+      const handle = await fs.open(lockPath, "wx");
+      try {
+        await handle.writeFile(token);
+      } finally {
+        await handle.close();
+      }
+      break;
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code !== "EEXIST") throw e;
+      const stale = await staleLock(lockPath, staleMs);
+      if (stale !== null) {
+        // Another waiter may have broken it and taken a new one meanwhile.
+        if (await ownsLock(lockPath, stale)) await fs.rm(lockPath, { force: true });
+        continue;
+      }
+      if (Date.now() >= deadline) throw new Error(`Timed out waiting for ledger lock ${lockPath}`);
+      await sleep(RETRY_MS);
+    }
+  }
+
+  const heartbeat = setInterval(() => {
+    void ownsLock(lockPath, token)
+      .then((owned) => {
+        if (!owned) return;
+        const now = new Date();
+        return fs.utimes(lockPath, now, now);
+      })
+      .catch(() => undefined);
+  }, Math.max(RETRY_MS, Math.floor(staleMs / 3)));
+  heartbeat.unref();
+
+  try {
+    return await fn();
+  } finally {
+    clearInterval(heartbeat);
+    if (await ownsLock(lockPath, token)) await fs.rm(lockPath, { force: true });
+  }
+}
@@ -0,0 +1,178 @@
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import type { LedgerEvent, LedgerEventType } from "./events.js";
+import { isCompressed, listArchivedSegments, loadIndex, segmentLines } from "./segments.js";
+import type { LedgerSegmentSummary } from "./segments.js";
+
+const TAIL_CHUNK_BYTES = 64 * 1024;
+
+export interface LedgerFilter {
+  types?: LedgerEventType[];
+  // Exact match on payload.intentId; pass the attempt ids (`-retryN`) too
+  // when retries matter.
+  intentIds?: string[];
+  since?: Date | string;
+  until?: Date | string;
+}
+
+// ---------------------------------------------------------------------------
+// Parsing
+// ---------------------------------------------------------------------------
+
+/**
+ * Parse one ledger line. Lines from before the envelope existed come back
+ * as version 0 with seq and pid 0; malformed lines return null.
+ */
+export function parseLedgerLine(line: string): LedgerEvent | null {
+  if (!line.trim()) return null;
+  let parsed: Record<string, unknown>;
+  try {
+    parsed = JSON.parse(line) as Record<string, unknown>;
+  } catch {
+    return null;
+  }
+  if (typeof parsed.type !== "string" || typeof parsed.timestamp !== "string") return null;
+  return {
+    v: typeof parsed.v === "number" ? parsed.v : 0,
+    seq: typeof parsed.seq === "number" ? parsed.seq : 0,
+    pid: typeof parsed.pid === "number" ? parsed.pid : 0,
+    writer: typeof parsed.writer === "string" ? parsed.writer : "unknown",
+    timestamp: parsed.timestamp,
+    type: parsed.type,
+    payload: parsed.payload && typeof parsed.payload === "object" ? parsed.payload : {},
+    ...(typeof parsed.prev === "string" ? { prev: parsed.prev } : {}),
+    ...(typeof parsed.hash === "string" ? { hash: parsed.hash } : {}),
+  } as LedgerEvent;
+}
+
+function toMs(value: Date | string | undefined): number | undefined {
+  if (value === undefined) return undefined;
+  const ms = value instanceof Date ? value.getTime() : Date.parse(value);
+  return Number.isFinite(ms) ? ms : undefined;
+}
+
+export function matchesFilter(event: LedgerEvent, filter: LedgerFilter = {}): boolean {
+  if (filter.types && !filter.types.includes(event.type)) return false;
+  if (filter.intentIds) {
+    const intentId = (event.payload as { intentId?: unknown }).intentId;
+    if (typeof intentId !== "string" || !filter.intentIds.includes(intentId)) return false;
+  }
+  const sinceMs = toMs(filter.since);
+  const untilMs = toMs(filter.until);
+  if (sinceMs !== undefined || untilMs !== undefined) {
+    const atMs = Date.parse(event.timestamp);
+    if (!Number.isFinite(atMs)) return false;
+    if (sinceMs !== undefined && atMs < sinceMs) return false;
+    if (untilMs !== undefined && atMs > untilMs) return false;
+  }
+  return true;
+}
+
+// ---------------------------------------------------------------------------
+// Reading — the ledger is the archived segments oldest first, then the
+// live file. The index lets a filter skip whole segments.
+// ---------------------------------------------------------------------------
+
+function exists(file: string): Promise<boolean> {
+  return fs.access(file).then(() => true, () => false);
+}
+
+function segmentExcluded(summary: LedgerSegmentSummary | undefined, filter: LedgerFilter): boolean {
+  if (!summary) return false;
+  if (filter.types && !filter.types.some((type) => (summary.counts[type] ?? 0) > 0)) return true;
+  const sinceMs = toMs(filter.since);
+  const untilMs = toMs(filter.until);
+  if (sinceMs !== undefined && summary.to && Date.parse(summary.to) < sinceMs) return true;
+  if (untilMs !== undefined && summary.from && Date.parse(summary.from) > untilMs) return true;
+  return false;
+}
+
+async function selectSegments(ledgerPath: string, filter: LedgerFilter): Promise<string[]> {
+  const archived = await listArchivedSegments(ledgerPath);
+  if (archived.length === 0) return [];
+  const index = await loadIndex(ledgerPath);
+  const byFile = new Map(index.segments.map((summary) => [summary.file, summary]));
+  return archived.filter((file) => !segmentExcluded(byFile.get(path.basename(file)), filter));
+}
+
+/** Stream matching events of one segment file oldest first. A missing file yields nothing. */
+export async function* iterateSegment(file: string, filter: LedgerFilter = {}): AsyncGenerator<LedgerEvent> {
+  // A plain rotated segment may have been compressed since it was listed.
+  if (!(await exists(file)) && (isCompressed(file) || !(await exists(`${file}.gz`)))) return;
+  const { lines } = await segmentLines(file);
+  for await (const line of lines) {
+    const event = parseLedgerLine(line);
+    if (event && matchesFilter(event, filter)) yield event;
+  }
+}
+
+/** Stream matching events oldest first, across rotated segments. A missing ledger yields nothing. */
+export async function* iterateLedger(ledgerPath: string, filter: LedgerFilter = {}): AsyncGenerator<LedgerEvent> {
+  for (const file of await selectSegments(ledgerPath, filter)) yield* iterateSegment(file, filter);
+  yield* iterateSegment(ledgerPath, filter);
+}
+
+export async function readLedger(ledgerPath: string, filter: LedgerFilter = {}): Promise<LedgerEvent[]> {
+  const events: LedgerEvent[] = [];
+  for await (const event of iterateLedger(ledgerPath, filter)) events.push(event);
+  return events;
+}
+
+/**
+ * The last `limit` matching events of one uncompressed file, newest first.
+ * Reads backwards from the end in chunks, so cost follows `limit`, not
+ * file size.
+ */
+export async function tailFile(file: string, limit: number, filter: LedgerFilter = {}): Promise<LedgerEvent[]> {
+  const handle = await fs.open(file, "r").catch(() => null);
+  if (!handle) return [];
+  try {
+    const events: LedgerEvent[] = [];
+    let position = (await handle.stat()).size;
+    // Bytes of a line cut by the chunk boundary, kept as bytes so a split
+    // multi-byte character is decoded whole.
+    let carry = Buffer.alloc(0);
+    while (position > 0 && events.length < limit) {
+      const size = Math.min(TAIL_CHUNK_BYTES, position);
+      position -= size;
+      const chunk = Buffer.alloc(size);
+      await handle.read(chunk, 0, size, position);
+      let buffer = Buffer.concat([chunk, carry]);
+      if (position > 0) {
+        const firstNewline = buffer.indexOf(0x0a);
+        if (firstNewline === -1) {
+          carry = buffer;
+          continue;
+        }
+        carry = buffer.subarray(0, firstNewline);
+        buffer = buffer.subarray(firstNewline + 1);
+      } else {
+        carry = Buffer.alloc(0);
+      }
+      const lines = buffer.toString("utf8").split("\n");
+      for (let i = lines.length - 1; i >= 0 && events.length < limit; i--) {
+        const event = parseLedgerLine(lines[i]);
+        if (event && matchesFilter(event, filter)) events.push(event);
+      }
+    }
+    return events;
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * The last `limit` matching events, newest first. The live file is read
+ * backwards; older segments are only opened when it runs short.
+ */
+export async function tailLedger(ledgerPath: string, limit: number, filter: LedgerFilter = {}): Promise<LedgerEvent[]> {
+  const events = await tailFile(ledgerPath, limit, filter);
+  if (events.length >= limit) return events;
+  const segments = await selectSegments(ledgerPath, filter);
+  for (let i = segments.length - 1; i >= 0 && events.length < limit; i--) {
+    const older: LedgerEvent[] = [];
+    for await (const event of iterateSegment(segments[i], filter)) older.push(event);
+    events.push(...older.reverse().slice(0, limit - events.length));
+  }
+  return events;
+}
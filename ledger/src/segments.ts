@@ -0,0 +1,126 @@
+import { createReadStream, promises as fs } from "node:fs";
+import path from "node:path";
+import { createInterface } from "node:readline";
+import type { Interface } from "node:readline";
+import type { Readable } from "node:stream";
+import { createGunzip } from "node:zlib";
+
+// ---------------------------------------------------------------------------
+// Naming — a rotated ledger is renamed to `<name>.<stamp><ext>` next to the
+// live file and then compressed to `<name>.<stamp><ext>.gz`.
+// ---------------------------------------------------------------------------
+
+export interface LedgerSegmentSummary {
+  // basename of the segment file
+  file: string;
+  from?: string;
+  to?: string;
+  // lines in the segment, by type (a pruned run counts once as ledger_pruned)
+  events: number;
+  counts: Record<string, number>;
+  // events removed by retention, by type
+  pruned: Record<string, number>;
+  firstPrev?: string;
+  lastHash?: string;
+  bytes: number;
+}
+
+export interface LedgerIndex {
+  segments: LedgerSegmentSummary[];
+  updatedAt: string;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function splitName(ledgerPath: string): { dir: string; name: string; ext: string } {
+  const ext = path.extname(ledgerPath);
+  return { dir: path.dirname(ledgerPath), name: path.basename(ledgerPath, ext), ext };
+}
+
+export function segmentPath(ledgerPath: string, at = new Date()): string {
+  const { dir, name, ext } = splitName(ledgerPath);
+  const stamp = at.toISOString().replace(/[-:]/g, "").replace(/\.\d+Z$/, "Z");
+  return path.join(dir, `${name}.${stamp}${ext}`);
+}
+
+export function indexPath(ledgerPath: string): string {
+  const { dir, name } = splitName(ledgerPath);
+  return path.join(dir, `${name}.index.json`);
+}
+
+export function isCompressed(file: string): boolean {
+  return file.endsWith(".gz");
+}
+
+/** Rotated segments oldest first (compressed or not yet), without the live file. */
+export async function listArchivedSegments(ledgerPath: string): Promise<string[]> {
+  const { dir, name, ext } = splitName(ledgerPath);
+  const pattern = new RegExp(`^${escapeRegExp(name)}\\.(\\d{8}T\\d{6}Z)${escapeRegExp(ext)}(\\.gz)?$`);
+  const byStamp = new Map<string, string>();
+  for (const entry of await fs.readdir(dir).catch(() => [] as string[])) {
+    const match = pattern.exec(entry);
+    if (!match) continue;
+    // A finished .gz wins over the plain file a crash left behind.
+    if (!byStamp.has(match[1]) || match[2]) byStamp.set(match[1], path.join(dir, entry));
+  }
+  return [...byStamp.keys()].sort().map((stamp) => byStamp.get(stamp)!);
+}
+
+/** Rotated segments oldest first, then the live ledger if it exists. */
+export async function listSegments(ledgerPath: string): Promise<string[]> {
+  const live = await fs.access(ledgerPath).then(() => [ledgerPath], () => []);
+  return [...(await listArchivedSegments(ledgerPath)), ...live];
+}
+
+// ---------------------------------------------------------------------------
+// Reading
+// ---------------------------------------------------------------------------
+
+/**
+ * The decompressed content of a segment. A plain rotated segment that was
+ * compressed since it was listed is read from its .gz instead.
+ */
+export async function openSegment(file: string): Promise<Readable> {
+  let target = file;
+  if (!isCompressed(file) && !(await fs.access(file).then(() => true, () => false))) {
+    target = `${file}.gz`;
+  }
+  const source = createReadStream(target);
+  if (!isCompressed(target)) return source;
+  const gunzip = createGunzip();
+  source.on("error", (e) => gunzip.destroy(e));
+  return source.pipe(gunzip);
+}
+
+export async function segmentLines(file: string): Promise<{ lines: Interface; input: Readable }> {
+  const input = await openSegment(file);
+  input.setEncoding("utf8");
+  return { lines: createInterface({ input, crlfDelay: Infinity }), input };
+}
+
+// ---------------------------------------------------------------------------
+// Index — time range and counts per archived segment, so readers can skip
+// segments a filter excludes. Missing or stale entries only cost a read.
+// ---------------------------------------------------------------------------
+
+export async function loadIndex(ledgerPath: string): Promise<LedgerIndex> {
+  const raw = await fs.readFile(indexPath(ledgerPath), "utf8").catch(() => "");
+  if (raw) {
+    try {
+      const parsed = JSON.parse(raw) as LedgerIndex;
+      if (Array.isArray(parsed.segments)) return parsed;
+    } catch {
+      // rebuilt by the next maintenance run
+    }
+  }
+  return { segments: [], updatedAt: new Date(0).toISOString() };
+}
+
+export async function saveIndex(ledgerPath: string, index: LedgerIndex): Promise<void> {
+  const target = indexPath(ledgerPath);
+  const tempPath = target + ".tmp";
+  await fs.writeFile(tempPath, JSON.stringify({ ...index, updatedAt: new Date().toISOString() }, null, 2));
+  await fs.rename(tempPath, target);
+}
@@ -0,0 +1,200 @@
+import path from "node:path";
+import type { LedgerRetention } from "./archive.js";
+import { checkCheckpoint, checkpointKeyId, checkPrunedRun, GENESIS_HASH, hashLine } from "./chain.js";
+import { isCompressed, segmentLines } from "./segments.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface LedgerBreak {
+  segment: string;
+  line: number;
+  seq?: number;
+  writer?: string;
+  type?: string;
+  reason: string;
+}
+
+export interface LedgerVerifyReport {
+  ok: boolean;
+  segments: string[];
+  // chained lines checked up to the first break
+  events: number;
+  // lines from before the chain existed (schema v0/v1), not verifiable
+  unchained: number;
+  // events retention replaced with ledger_pruned lines, by type
+  pruned: Record<string, number>;
+  checkpoints: number;
+  // checkpoints whose MAC matched the key; 0 without a key
+  verifiedCheckpoints: number;
+  // events after the last verified checkpoint, which only the hash chain
+  // (and no key) protects
+  uncheckpointed: number;
+  head?: string;
+  // set when the oldest segment continues one that is no longer on disk
+  startsAfter?: string;
+  firstBreak?: LedgerBreak;
+}
+
+export interface LedgerVerifyOptions {
+  // without it checkpoints and pruned runs are only checked for linkage,
+  // not authenticity
+  hmacKey?: string;
+  // with it, a ledger_pruned line may only cover types that have a rule and
+  // events older than that rule
+  retention?: LedgerRetention;
+  nowMs?: number;
+}
+
+interface RawEvent {
+  v?: unknown;
+  seq?: unknown;
+  writer?: unknown;
+  type?: unknown;
+  timestamp?: unknown;
+  payload?: Record<string, unknown>;
+  prev?: unknown;
+  hash?: unknown;
+}
+
+/**
+ * Walk the segments oldest first and stop at the first line whose hash,
+ * link or checkpoint does not hold. Every line is re-hashed from its raw
+ * text, so edits, deletions, insertions and reordering all show up as the
+ * first line after the change.
+ */
+export async function verifyLedger(segments: string[], options: LedgerVerifyOptions = {}): Promise<LedgerVerifyReport> {
+  const report: LedgerVerifyReport = {
+    ok: true,
+    segments,
+    events: 0,
+    unchained: 0,
+    pruned: {},
+    checkpoints: 0,
+    verifiedCheckpoints: 0,
+    uncheckpointed: 0,
+  };
+  const keyId = options.hmacKey ? checkpointKeyId(options.hmacKey) : undefined;
+  let head: string | undefined;
+
+  for (const [index, segment] of segments.entries()) {
+    const name = path.basename(segment);
+    let lineNo = 0;
+    let firstInSegment = true;
+    const { lines, input } = await segmentLines(segment);
+
+    for await (const line of lines) {
+      lineNo++;
+      if (!line.trim()) continue;
+      const fail = (reason: string, raw?: RawEvent): LedgerVerifyReport => {
+        input.destroy();
+        report.ok = false;
+        report.head = head;
+        report.firstBreak = {
+          segment: name,
+          line: lineNo,
+          seq: typeof raw?.seq === "number" ? raw.seq : undefined,
+          writer: typeof raw?.writer === "string" ? raw.writer : undefined,
+          type: typeof raw?.type === "string" ? raw.type : undefined,
+          reason,
+        };
+        return report;
+      };
+
+      let raw: RawEvent;
+      try {
+        raw = JSON.parse(line) as RawEvent;
+      } catch {
+        return fail("line is not valid JSON");
+      }
+
+      if (typeof raw.hash !== "string") {
+        if (head !== undefined) return fail("line has no hash after the chain started", raw);
+        report.unchained++;
+        continue;
+      }
+
+      const { hash, ...body } = raw;
+      if (hashLine(JSON.stringify(body)) !== hash) return fail("hash does not match the line (edited)", raw);
+      const prunedRun = raw.type === "ledger_pruned";
+      // Retention only rewrites compressed, rotated segments.
+      if (prunedRun && !isCompressed(segment)) return fail("ledger_pruned outside a rotated segment", raw);
+
+      const opensSegment = raw.type === "ledger_segment_opened";
+      if (index > 0 && firstInSegment && !opensSegment) {
+        return fail("segment does not start with ledger_segment_opened", raw);
+      }
+      if (head === undefined) {
+        if (index === 0 && opensSegment) {
+          report.startsAfter = String(raw.payload?.previousSegment ?? "");
+        } else if (raw.prev !== GENESIS_HASH) {
+          return fail("first chained line does not start from the genesis hash (earlier lines removed)", raw);
+        }
+      } else if (raw.prev !== head) {
+        return fail("prev does not match the previous line's hash (line removed, inserted or reordered)", raw);
+      }
+      if (opensSegment && raw.payload?.previousHash !== raw.prev) {
+        return fail("ledger_segment_opened names a different previous hash than it links to", raw);
+      }
+
+      // The line after a pruned run links to the run's last removed event.
+      let next = hash;
+      if (prunedRun) {
+        const payload = raw.payload ?? {};
+        const counts = (payload.counts ?? {}) as Record<string, number>;
+        if (typeof payload.last !== "string") return fail("ledger_pruned names no last hash (unsealed stub)", raw);
+        if (options.hmacKey) {
+          if (typeof payload.mac !== "string") return fail("pruned run is not signed (events replaced)", raw);
+          if (payload.keyId !== keyId) return fail(`pruned run signed with another key (keyId ${String(payload.keyId)})`, raw);
+          const claim = {
+            prev: String(raw.prev),
+            last: payload.last,
+            counts,
+            from: String(payload.from ?? ""),
+            to: String(payload.to ?? ""),
+          };
+          if (!checkPrunedRun(options.hmacKey, claim, String(payload.mac ?? ""))) {
+            return fail("pruned run MAC is invalid (events replaced)", raw);
+          }
+        }
+        next = payload.last;
+        if (options.retention) {
+          const days: number[] = [];
+          for (const type of Object.keys(counts)) {
+            const rule = options.retention[type as keyof LedgerRetention];
+            if (rule === undefined) return fail(`pruned ${type} events, which have no retention rule`, raw);
+            days.push(rule);
+          }
+          // `to` is the newest removed event, so it must have outlived the shortest rule in the run.
+          const toMs = Date.parse(String(raw.payload?.to ?? ""));
+          const shortest = Math.min(...days);
+          if (!(toMs < (options.nowMs ?? Date.now()) - shortest * DAY_MS)) {
+            return fail(`pruned events younger than the ${shortest}-day retention`, raw);
+          }
+        }
+        for (const [type, count] of Object.entries(counts)) report.pruned[type] = (report.pruned[type] ?? 0) + count;
+      } else if (raw.type === "ledger_checkpoint") {
+        report.checkpoints++;
+        const payload = raw.payload ?? {};
+        if (payload.through !== raw.prev) return fail("checkpoint does not cover the line before it", raw);
+        if (options.hmacKey) {
+          if (typeof payload.mac !== "string") return fail("checkpoint is not signed (chain rewritten)", raw);
+          if (payload.keyId !== keyId) return fail(`checkpoint made with another key (keyId ${String(payload.keyId)})`, raw);
+          if (!checkCheckpoint(options.hmacKey, String(payload.through), String(payload.mac ?? ""))) {
+            return fail("checkpoint MAC is invalid (chain rewritten)", raw);
+          }
+          report.verifiedCheckpoints++;
+          report.uncheckpointed = 0;
+        }
+      } else {
+        report.uncheckpointed++;
+      }
+
+      head = next;
+      firstInSegment = false;
+      report.events++;
+    }
+  }
+
+  report.head = head;
+  return report;
+}
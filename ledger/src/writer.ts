@@ -0,0 +1,214 @@
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import { maintainArchive } from "./archive.js";
+import type { ArchiveReport, LedgerRetention } from "./archive.js";
+import { checkpointKeyId, GENESIS_HASH, sealEvent, signCheckpoint } from "./chain.js";
+import { LEDGER_SCHEMA_VERSION } from "./events.js";
+import type { LedgerEnvelope, LedgerEventMap, LedgerEventType, LedgerWriterName } from "./events.js";
+import { withFileLock } from "./lock.js";
+import type { FileLockOptions } from "./lock.js";
+import { iterateSegment, parseLedgerLine, tailFile } from "./reader.js";
+import { segmentPath } from "./segments.js";
+
+// The age check reads the live file's first line from this prefix.
+const FIRST_LINE_BYTES = 64 * 1024;
+
+export interface LedgerCheckpointOptions {
+  // HMAC key; keep it apart from the wallet key so a leaked trading key
+  // cannot also rewrite the audit trail
+  key: string;
+  // checkpoint after this many events from this writer
+  every: number;
+}
+
+export interface LedgerRotationOptions {
+  // rotate once the live file reaches this size (0 = never)
+  maxBytes: number;
+  // rotate once the live file's first event is this old (0 = never)
+  maxAgeMs: number;
+  retention?: LedgerRetention;
+  // called after an automatic rotation, to run archive maintenance
+  onRotate?: (segment: string) => void;
+}
+
+export interface LedgerWriterOptions {
+  path: string;
+  writer: LedgerWriterName;
+  lock?: FileLockOptions;
+  checkpoint?: LedgerCheckpointOptions;
+  // only the process that owns the ledger should rotate it
+  rotation?: LedgerRotationOptions;
+}
+
+export interface LedgerWriter {
+  append<K extends LedgerEventType>(type: K, payload: LedgerEventMap[K]): Promise<LedgerEnvelope<K>>;
+  /** Move the live file aside and start a new segment chained to its last hash. */
+  rotate(): Promise<string | null>;
+  /** Compress rotated segments, apply retention and refresh the index. */
+  maintain(nowMs?: number): Promise<ArchiveReport>;
+}
+
+/**
+ * Appends typed events under a lock file shared by every writer of the
+ * same ledger, so lines never interleave. `seq` is monotonic per writer
+ * name and continues across restarts; a gap means a lost write. Every
+ * line carries the hash of the line before it, whichever writer made it.
+ */
+export function createLedgerWriter(options: LedgerWriterOptions): LedgerWriter {
+  const lockPath = `${options.path}.lock`;
+  let lastSeq: number | null = null;
+  let sinceCheckpoint = 0;
+  // first-event time of the live file, by inode, for age-based rotation
+  let liveOpened: { ino: number; atMs: number } | null = null;
+  // Appends from this process go one at a time, so seq follows file order.
+  let chain: Promise<unknown> = Promise.resolve();
+
+  const resume = async (): Promise<void> => {
+    let max = 0;
+    let since = 0;
+    for await (const event of iterateSegment(options.path)) {
+      if (event.type === "ledger_segment_opened") {
+        max = Math.max(max, event.payload.lastSeq[options.writer] ?? 0);
+      }
+      if (event.writer !== options.writer) continue;
+      if (event.seq > max) max = event.seq;
+      since = event.type === "ledger_checkpoint" ? 0 : since + 1;
+    }
+    lastSeq = max;
+    sinceCheckpoint = since;
+  };
+
+  // The newest line may belong to another process, so the head is read
+  // under the lock on every append.
+  const headHash = async (): Promise<string> => {
+    const [last] = await tailFile(options.path, 1);
+    return last?.hash ?? GENESIS_HASH;
+  };
+
+  const firstEventMs = async (): Promise<number | null> => {
+    const handle = await fs.open(options.path, "r").catch(() => null);
+    if (!handle) return null;
+    try {
+      const chunk = Buffer.alloc(FIRST_LINE_BYTES);
+      const { bytesRead } = await handle.read(chunk, 0, FIRST_LINE_BYTES, 0);
+      const firstLine = chunk.subarray(0, bytesRead).toString("utf8").split("\n")[0];
+      const event = parseLedgerLine(firstLine);
+      const atMs = event ? Date.parse(event.timestamp) : NaN;
+      return Number.isFinite(atMs) ? atMs : null;
+    } finally {
+      await handle.close();
+    }
+  };
+
+  const rotationDue = async (rotation: LedgerRotationOptions): Promise<boolean> => {
+    const stat = await fs.stat(options.path).catch(() => null);
+    if (!stat || stat.size === 0) return false;
+    if (rotation.maxBytes > 0 && stat.size >= rotation.maxBytes) return true;
+    if (rotation.maxAgeMs <= 0) return false;
+    if (liveOpened?.ino !== stat.ino) {
+      const atMs = await firstEventMs();
+      // A first line too long to read here leaves rotation to size.
+      if (atMs === null) return false;
+      liveOpened = { ino: stat.ino, atMs };
+    }
+    return Date.now() - liveOpened.atMs >= rotation.maxAgeMs;
+  };
+
+  const write = async <K extends LedgerEventType>(type: K, payload: LedgerEventMap[K], prev: string): Promise<LedgerEnvelope<K>> => {
+    const event = sealEvent({
+      v: LEDGER_SCHEMA_VERSION,
+      seq: (lastSeq ?? 0) + 1,
+      pid: process.pid,
+      writer: options.writer,
+      timestamp: new Date().toISOString(),
+      type,
+      payload,
+      prev,
+    }) as LedgerEnvelope<K>;
+    await fs.appendFile(options.path, JSON.stringify(event) + "\n", "utf8");
+    lastSeq = event.seq;
+    return event;
+  };
+
+  const locked = <T>(fn: () => Promise<T>): Promise<T> => {
+    const next = chain
+      .catch(() => undefined)
+      .then(async () => {
+        await fs.mkdir(path.dirname(options.path), { recursive: true });
+        return withFileLock(
+          lockPath,
+          async () => {
+            if (lastSeq === null) await resume();
+            return fn();
+          },
+          options.lock
+        );
+      });
+    chain = next;
+    return next;
+  };
+
+  const rotateLocked = async (): Promise<string | null> => {
+    const exists = await fs.access(options.path).then(() => true, () => false);
+    if (!exists) return null;
+    const target = segmentPath(options.path);
+    // Rotated within the same second already; the next append tries again.
+    const taken = await Promise.all([target, `${target}.gz`].map((file) => fs.access(file).then(() => true, () => false)));
+    if (taken.some(Boolean)) return null;
+
+    const previousHash = await headHash();
+    const seqs: Record<string, number> = {};
+    for await (const event of iterateSegment(options.path)) {
+      if (event.type === "ledger_segment_opened") {
+        for (const [name, seq] of Object.entries(event.payload.lastSeq)) {
+          seqs[name] = Math.max(seqs[name] ?? 0, seq);
+        }
+      }
+      if (event.seq > (seqs[event.writer] ?? 0)) seqs[event.writer] = event.seq;
+    }
+
+    await fs.rename(options.path, target);
+    await write(
+      "ledger_segment_opened",
+      { previousSegment: path.basename(target), previousHash, lastSeq: seqs },
+      previousHash
+    );
+    return target;
+  };
+
+  return {
+    append<K extends LedgerEventType>(type: K, payload: LedgerEventMap[K]): Promise<LedgerEnvelope<K>> {
+      let rotated: string | null = null;
+      const appended = locked(async () => {
+        if (options.rotation && (await rotationDue(options.rotation))) rotated = await rotateLocked();
+        const event = await write(type, payload, await headHash());
+        const checkpoint = options.checkpoint;
+        if (checkpoint && ++sinceCheckpoint >= checkpoint.every) {
+          await write(
+            "ledger_checkpoint",
+            {
+              through: event.hash!,
+              keyId: checkpointKeyId(checkpoint.key),
+              mac: signCheckpoint(checkpoint.key, event.hash!),
+            },
+            event.hash!
+          );
+          sinceCheckpoint = 0;
+        }
+        return event;
+      });
+      return appended.then((event) => {
+        if (rotated) options.rotation?.onRotate?.(rotated);
+        return event;
+      });
+    },
+
+    rotate(): Promise<string | null> {
+      return locked(rotateLocked);
+    },
+
+    maintain(nowMs?: number): Promise<ArchiveReport> {
+      return maintainArchive(options.path, options.rotation?.retention, nowMs, options.checkpoint?.key);
+    },
+  };
+}
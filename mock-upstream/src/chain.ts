@@ -0,0 +1,629 @@
+import { createHash, randomBytes } from "node:crypto";
+import {
+  ComputeBudgetProgram,
+  PublicKey,
+  TransactionInstruction,
+  TransactionMessage,
+  VersionedTransaction,
+} from "@solana/web3.js";
+import { encodeBase58 } from "./base58.js";
+import { createFailureInjector, type FailureInjector } from "./failures.js";
+import {
+  normalizePricePath,
+  SOL_MINT,
+  type MockToken,
+  type MockWallet,
+  type PricePath,
+  type ResolvedScript,
+} from "./script.js";
+
+export const SYSTEM_PROGRAM_ID = "11111111111111111111111111111111";
+export const TOKEN_PROGRAM_ID = "TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA";
+export const TOKEN_2022_PROGRAM_ID = "TokenzQdBNbLqP5VEhdkAS6EPFLC1PHnBqCXEpPxuEb";
+const ATA_PROGRAM_ID = "ATokenGPvbdGVxr1b2hvZbsiqW5xWH25efTNsLJA1knL";
+const COMPUTE_BUDGET_PROGRAM_ID = "ComputeBudget111111111111111111111111111111";
+export const JUPITER_PROGRAM_ID = "JUP6LkbZbjS1jKKwapdHNy74zcZ3tLUZoi5QNyVTaV4";
+const PYTH_RECEIVER_PROGRAM_ID = "rec5EKMGg6MxZYaMdyBfgwp4d5rB9T1VQH5pJv5LtFJ";
+
+// Jupiter's program authority; fixed so transactions look the same run to run.
+const JUPITER_AUTHORITY = "BQ72nSv9f3PRyRKCBnHLVrerrv37CYTHm5h3s9VSGQDV";
+
+const TOKEN_ACCOUNT_RENT_LAMPORTS = 2_039_280n;
+const MINT_RENT_LAMPORTS = 1_461_600n;
+const SLOT_MS = 400;
+const BASE_SLOT = 300_000_000;
+const BLOCK_HEIGHT_OFFSET = 20_000_000;
+const BLOCKHASH_VALID_BLOCKS = 150;
+const SWAP_COMPUTE_UNITS = 180_000;
+const PYTH_EXPONENT = -10;
+
+export const PROGRAM_ERRORS: Record<number, { name: string; message: string }> = {
+  6001: { name: "SlippageToleranceExceeded", message: "Slippage tolerance exceeded" },
+  6024: { name: "InsufficientFunds", message: "Insufficient funds" },
+};
+export const SLIPPAGE_EXCEEDED = 6001;
+export const INSUFFICIENT_FUNDS = 6024;
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+interface WalletRecord {
+  lamports: bigint;
+  // mint → raw amount; presence means the token account exists
+  tokens: Map<string, bigint>;
+}
+
+interface TokenAccountRef {
+  owner: string;
+  mint: string;
+}
+
+interface LedgerState {
+  wallets: Map<string, WalletRecord>;
+  tokenAccounts: Map<string, TokenAccountRef>;
+}
+
+export interface QuoteResult {
+  inputMint: string;
+  outputMint: string;
+  inAmount: string;
+  outAmount: string;
+  otherAmountThreshold: string;
+  slippageBps: number;
+  priceImpactPct: string;
+}
+
+interface PendingSwap {
+  user: string;
+  inputMint: string;
+  outputMint: string;
+  inAmount: bigint;
+  minOutAmount: bigint;
+  jupiterIndex: number;
+}
+
+export interface ProgramFailure {
+  code: number;
+  instructionIndex: number;
+  logs: string[];
+}
+
+interface TokenBalanceRow {
+  accountIndex: number;
+  mint: string;
+  owner: string;
+  programId: string;
+  uiTokenAmount: { amount: string; decimals: number; uiAmount: number | null; uiAmountString: string };
+}
+
+export interface TransactionRecord {
+  signature: string;
+  slot: number;
+  blockTime: number;
+  fee: number;
+  accountKeys: Array<{ pubkey: string; signer: boolean; writable: boolean; source: "transaction" }>;
+  instructions: Array<{ programId: string; accounts: string[]; data: string }>;
+  recentBlockhash: string;
+  preBalances: number[];
+  postBalances: number[];
+  preTokenBalances: TokenBalanceRow[];
+  postTokenBalances: TokenBalanceRow[];
+  logMessages: string[];
+  computeUnitsConsumed: number;
+}
+
+export type ExecutionResult =
+  | { ok: true; logs: string[]; unitsConsumed: number; post: LedgerState; pre: LedgerState }
+  | { ok: false; failure: ProgramFailure; unitsConsumed: number };
+
+export interface AccountView {
+  lamports: number;
+  owner: string;
+  executable: boolean;
+  data: Buffer;
+  parsed?: { program: string; parsed: Record<string, unknown>; space: number };
+}
+
+export type MockChain = ReturnType<typeof createMockChain>;
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+export function associatedTokenAddress(owner: string, mint: string, programId: string): string {
+  const [address] = PublicKey.findProgramAddressSync(
+    [new PublicKey(owner).toBuffer(), new PublicKey(programId).toBuffer(), new PublicKey(mint).toBuffer()],
+    new PublicKey(ATA_PROGRAM_ID)
+  );
+  return address.toBase58();
+}
+
+function anchorDiscriminator(name: string): Buffer {
+  return createHash("sha256").update(`global:${name}`).digest().subarray(0, 8);
+}
+
+function anchorAccountDiscriminator(name: string): Buffer {
+  return createHash("sha256").update(`account:${name}`).digest().subarray(0, 8);
+}
+
+// PriceUpdateV2 with a fully verified price message published at `nowMs`.
+function pythPriceUpdate(priceUsd: number, nowMs: number, slot: number): Buffer {
+  const price = BigInt(Math.round(priceUsd * 10 ** -PYTH_EXPONENT));
+  const publishTime = BigInt(Math.floor(nowMs / 1000));
+  const data = Buffer.alloc(133);
+  anchorAccountDiscriminator("PriceUpdateV2").copy(data, 0);
+  // write_authority (8..40) left zero
+  data.writeUInt8(1, 40); // VerificationLevel::Full
+  // price_message: feed_id (41..73) left zero
+  data.writeBigInt64LE(price, 73);
+  data.writeBigUInt64LE(0n, 81); // conf
+  data.writeInt32LE(PYTH_EXPONENT, 89);
+  data.writeBigInt64LE(publishTime, 93);
+  data.writeBigInt64LE(publishTime, 101); // prev_publish_time
+  data.writeBigInt64LE(price, 109); // ema_price
+  data.writeBigUInt64LE(0n, 117); // ema_conf
+  data.writeBigUInt64LE(BigInt(slot), 125); // posted_slot
+  return data;
+}
+
+function cloneLedger(state: LedgerState): LedgerState {
+  const wallets = new Map<string, WalletRecord>();
+  for (const [address, wallet] of state.wallets) {
+    wallets.set(address, { lamports: wallet.lamports, tokens: new Map(wallet.tokens) });
+  }
+  return { wallets, tokenAccounts: new Map(state.tokenAccounts) };
+}
+
+function uiAmount(amount: bigint, decimals: number): { amount: string; decimals: number; uiAmount: number; uiAmountString: string } {
+  const ui = Number(amount) / 10 ** decimals;
+  return { amount: amount.toString(), decimals, uiAmount: ui, uiAmountString: String(ui) };
+}
+
+function programLogsFor(failure: { code: number }, programId: string): string[] {
+  const known = PROGRAM_ERRORS[failure.code];
+  const hex = `0x${failure.code.toString(16)}`;
+  return [
+    `Program ${COMPUTE_BUDGET_PROGRAM_ID} invoke [1]`,
+    `Program ${COMPUTE_BUDGET_PROGRAM_ID} success`,
+    `Program ${programId} invoke [1]`,
+    ...(known
+      ? [`Program log: AnchorError occurred. Error Code: ${known.name}. Error Number: ${failure.code}. Error Message: ${known.message}.`]
+      : []),
+    `Program ${programId} consumed 41234 of ${SWAP_COMPUTE_UNITS} compute units`,
+    `Program ${programId} failed: custom program error: ${hex}`,
+  ];
+}
+
+// ---------------------------------------------------------------------------
+// Chain
+// ---------------------------------------------------------------------------
+
+/**
+ * In-memory stand-in for the bits of Solana and Jupiter the runtime
+ * touches. Swaps built by the Jupiter mock are keyed by their (random)
+ * blockhash, so a signed transaction coming back through sendTransaction
+ * settles exactly the swap that was quoted, at the price current when it
+ * lands.
+ */
+export function createMockChain(script: ResolvedScript) {
+  const startedAtMs = Date.now();
+  let clockOffsetMs = 0;
+
+  const tokens = new Map(script.tokens);
+  const prices = new Map<string, Required<PricePath> & { startMs: number }>();
+  for (const [mint, path] of script.prices) prices.set(mint, { ...path, startMs: 0 });
+
+  let ledger: LedgerState = { wallets: new Map(), tokenAccounts: new Map() };
+  const swaps = new Map<string, PendingSwap>();
+  const transactions = new Map<string, TransactionRecord>();
+  const failures: FailureInjector = createFailureInjector(script.failures);
+  const calls = new Map<string, number>();
+
+  // -- clock ---------------------------------------------------------------
+
+  const elapsedMs = (): number => Date.now() - startedAtMs + clockOffsetMs;
+  const nowMs = (): number => startedAtMs + elapsedMs();
+  const slot = (): number => BASE_SLOT + Math.floor(elapsedMs() / SLOT_MS);
+  const blockHeight = (): number => slot() - BLOCK_HEIGHT_OFFSET;
+
+  // -- tokens and prices ---------------------------------------------------
+
+  const tokenProgramId = (mint: string): string =>
+    tokens.get(mint)?.program === "token-2022" ? TOKEN_2022_PROGRAM_ID : TOKEN_PROGRAM_ID;
+
+  const priceUsd = (mint: string): number | null => {
+    const entry = prices.get(mint);
+    if (!entry) return null;
+    const step = Math.floor(Math.max(0, elapsedMs() - entry.startMs) / entry.stepMs);
+    const index = entry.loop ? step % entry.path.length : Math.min(step, entry.path.length - 1);
+    return entry.path[index];
+  };
+
+  // A new path starts at the current virtual time, so its first value is
+  // live immediately.
+  const setPrice = (mint: string, value: number | PricePath): void => {
+    prices.set(mint, { ...normalizePricePath(value), startMs: elapsedMs() });
+  };
+
+  // -- balances ------------------------------------------------------------
+
+  const walletIn = (state: LedgerState, address: string): WalletRecord => {
+    let wallet = state.wallets.get(address);
+    if (!wallet) {
+      wallet = { lamports: 0n, tokens: new Map() };
+      state.wallets.set(address, wallet);
+    }
+    return wallet;
+  };
+
+  const setTokenBalance = (state: LedgerState, owner: string, mint: string, amount: bigint): void => {
+    const wallet = walletIn(state, owner);
+    wallet.tokens.set(mint, amount);
+    state.tokenAccounts.set(associatedTokenAddress(owner, mint, tokenProgramId(mint)), { owner, mint });
+  };
+
+  const fund = (address: string, wallet: MockWallet): void => {
+    new PublicKey(address); // validates
+    const record = walletIn(ledger, address);
+    if (wallet.lamports !== undefined) record.lamports = BigInt(wallet.lamports);
+    for (const [mint, amount] of Object.entries(wallet.tokens ?? {})) {
+      if (!tokens.has(mint)) throw new Error(`Unknown token ${mint}; add it to the script first`);
+      setTokenBalance(ledger, address, mint, BigInt(amount));
+    }
+  };
+
+  for (const [address, wallet] of Object.entries(script.wallets)) fund(address, wallet);
+
+  const balanceOf = (state: LedgerState, owner: string, mint: string): bigint => {
+    const wallet = state.wallets.get(owner);
+    if (!wallet) return 0n;
+    return mint === SOL_MINT ? wallet.lamports : wallet.tokens.get(mint) ?? 0n;
+  };
+
+  // -- account views -------------------------------------------------------
+
+  const accountView = (address: string, state: LedgerState = ledger): AccountView | null => {
+    const feedMint = script.pythFeeds.get(address);
+    const feedPrice = feedMint ? priceUsd(feedMint) : null;
+    if (feedPrice) {
+      return {
+        lamports: 1_820_000,
+        owner: PYTH_RECEIVER_PROGRAM_ID,
+        executable: false,
+        data: pythPriceUpdate(feedPrice, nowMs(), slot()),
+      };
+    }
+
+    const token = tokens.get(address);
+    if (token) {
+      const data = Buffer.alloc(82);
+      data.writeUInt8(token.decimals, 44);
+      data.writeUInt8(1, 45);
+      return {
+        lamports: Number(MINT_RENT_LAMPORTS),
+        owner: tokenProgramId(address),
+        executable: false,
+        data,
+        parsed: {
+          program: token.program === "token-2022" ? "spl-token-2022" : "spl-token",
+          parsed: {
+            type: "mint",
+            info: { decimals: token.decimals, freezeAuthority: null, isInitialized: true, mintAuthority: null, supply: "0" },
+          },
+          space: 82,
+        },
+      };
+    }
+
+    const ref = state.tokenAccounts.get(address);
+    const amount = ref ? state.wallets.get(ref.owner)?.tokens.get(ref.mint) : undefined;
+    if (ref && amount !== undefined) {
+      const data = Buffer.alloc(165);
+      new PublicKey(ref.mint).toBuffer().copy(data, 0);
+      new PublicKey(ref.owner).toBuffer().copy(data, 32);
+      data.writeBigUInt64LE(amount, 64);
+      data.writeUInt8(1, 108); // AccountState::Initialized
+      const decimals = tokens.get(ref.mint)?.decimals ?? 0;
+      return {
+        lamports: Number(TOKEN_ACCOUNT_RENT_LAMPORTS),
+        owner: tokenProgramId(ref.mint),
+        executable: false,
+        data,
+        parsed: {
+          program: tokens.get(ref.mint)?.program === "token-2022" ? "spl-token-2022" : "spl-token",
+          parsed: {
+            type: "account",
+            info: { isNative: false, mint: ref.mint, owner: ref.owner, state: "initialized", tokenAmount: uiAmount(amount, decimals) },
+          },
+          space: 165,
+        },
+      };
+    }
+
+    const wallet = state.wallets.get(address);
+    if (wallet) {
+      return { lamports: Number(wallet.lamports), owner: SYSTEM_PROGRAM_ID, executable: false, data: Buffer.alloc(0) };
+    }
+    return null;
+  };
+
+  const tokenAccountsByOwner = (
+    owner: string,
+    filter: { programId?: string; mint?: string }
+  ): Array<{ pubkey: string; account: AccountView }> => {
+    const rows: Array<{ pubkey: string; account: AccountView }> = [];
+    for (const [address, ref] of ledger.tokenAccounts) {
+      if (ref.owner !== owner) continue;
+      if (filter.mint && ref.mint !== filter.mint) continue;
+      if (filter.programId && tokenProgramId(ref.mint) !== filter.programId) continue;
+      const account = accountView(address);
+      if (account) rows.push({ pubkey: address, account });
+    }
+    return rows;
+  };
+
+  // -- Jupiter -------------------------------------------------------------
+
+  // Output at the current price, before impact and fill slippage.
+  const fairOutAmount = (inputMint: string, outputMint: string, inAmount: bigint): bigint | null => {
+    const inToken = tokens.get(inputMint);
+    const outToken = tokens.get(outputMint);
+    const inPrice = priceUsd(inputMint);
+    const outPrice = priceUsd(outputMint);
+    if (!inToken || !outToken || !inPrice || !outPrice) return null;
+    const usd = (Number(inAmount) / 10 ** inToken.decimals) * inPrice;
+    return BigInt(Math.floor((usd / outPrice) * 10 ** outToken.decimals));
+  };
+
+  const applyBps = (amount: bigint, bps: number): bigint => (amount * BigInt(10_000 - Math.round(bps))) / 10_000n;
+
+  const quote = (inputMint: string, outputMint: string, inAmount: bigint, slippageBps: number): QuoteResult | null => {
+    const fair = fairOutAmount(inputMint, outputMint, inAmount);
+    if (fair === null || fair <= 0n) return null;
+    const outAmount = applyBps(fair, script.priceImpactBps);
+    return {
+      inputMint,
+      outputMint,
+      inAmount: inAmount.toString(),
+      outAmount: outAmount.toString(),
+      otherAmountThreshold: applyBps(outAmount, slippageBps).toString(),
+      slippageBps,
+      priceImpactPct: String(script.priceImpactBps / 10_000),
+    };
+  };
+
+  const newBlockhash = (): string => new PublicKey(randomBytes(32)).toBase58();
+
+  const latestBlockhash = (): { blockhash: string; lastValidBlockHeight: number } => ({
+    blockhash: newBlockhash(),
+    lastValidBlockHeight: blockHeight() + BLOCKHASH_VALID_BLOCKS,
+  });
+
+  // Shaped like a shared_accounts_route so instruction decoders see the
+  // real account layout (destination at 6, output mint at 8).
+  const buildSwapTransaction = (user: string, q: QuoteResult): VersionedTransaction => {
+    const userKey = new PublicKey(user);
+    const authority = new PublicKey(JUPITER_AUTHORITY);
+    const tokenAccount = (owner: string, mint: string): PublicKey =>
+      new PublicKey(associatedTokenAddress(owner, mint, tokenProgramId(mint)));
+
+    const data = Buffer.alloc(8 + 1 + 8 + 8 + 2 + 1);
+    anchorDiscriminator("shared_accounts_route").copy(data, 0);
+    data.writeBigUInt64LE(BigInt(q.inAmount), 9);
+    data.writeBigUInt64LE(BigInt(q.outAmount), 17);
+    data.writeUInt16LE(q.slippageBps, 25);
+
+    const swapIx = new TransactionInstruction({
+      programId: new PublicKey(JUPITER_PROGRAM_ID),
+      keys: [
+        { pubkey: new PublicKey(TOKEN_PROGRAM_ID), isSigner: false, isWritable: false },
+        { pubkey: authority, isSigner: false, isWritable: false },
+        { pubkey: userKey, isSigner: true, isWritable: true },
+        { pubkey: tokenAccount(user, q.inputMint), isSigner: false, isWritable: true },
+        { pubkey: tokenAccount(JUPITER_AUTHORITY, q.inputMint), isSigner: false, isWritable: true },
+        { pubkey: tokenAccount(JUPITER_AUTHORITY, q.outputMint), isSigner: false, isWritable: true },
+        { pubkey: tokenAccount(user, q.outputMint), isSigner: false, isWritable: true },
+        { pubkey: new PublicKey(q.inputMint), isSigner: false, isWritable: false },
+        { pubkey: new PublicKey(q.outputMint), isSigner: false, isWritable: false },
+      ],
+      data,
+    });
+
+    const { blockhash } = latestBlockhash();
+    const message = new TransactionMessage({
+      payerKey: userKey,
+      recentBlockhash: blockhash,
+      instructions: [ComputeBudgetProgram.setComputeUnitLimit({ units: SWAP_COMPUTE_UNITS }), swapIx],
+    }).compileToV0Message();
+
+    swaps.set(blockhash, {
+      user,
+      inputMint: q.inputMint,
+      outputMint: q.outputMint,
+      inAmount: BigInt(q.inAmount),
+      minOutAmount: BigInt(q.otherAmountThreshold),
+      jupiterIndex: 1,
+    });
+    return new VersionedTransaction(message);
+  };
+
+  // -- execution -----------------------------------------------------------
+
+  /**
+   * Run a transaction against a copy of the ledger. Swaps settle at the
+   * current price less fill slippage and fail like Jupiter when that is
+   * below the quote's threshold or the wallet cannot cover the input.
+   * Anything else just pays the fee.
+   */
+  const execute = (tx: VersionedTransaction, injected: number | null): ExecutionResult => {
+    const keys = tx.message.staticAccountKeys.map((key) => key.toBase58());
+    const payer = keys[0];
+    const swap = swaps.get(tx.message.recentBlockhash);
+    const fee = BigInt(script.feeLamports);
+    const fail = (code: number, instructionIndex: number): ExecutionResult => ({
+      ok: false,
+      failure: { code, instructionIndex, logs: programLogsFor({ code }, swap ? JUPITER_PROGRAM_ID : keys[keys.length - 1]) },
+      unitsConsumed: 41_234,
+    });
+
+    const pre = cloneLedger(ledger);
+    const post = cloneLedger(ledger);
+    const payerWallet = walletIn(post, payer);
+    if (payerWallet.lamports < fee) {
+      return fail(INSUFFICIENT_FUNDS, 0);
+    }
+    if (injected !== null) return fail(injected, swap?.jupiterIndex ?? 0);
+    payerWallet.lamports -= fee;
+
+    if (!swap) {
+      return { ok: true, logs: [], unitsConsumed: 1_500, pre, post };
+    }
+
+    const fair = fairOutAmount(swap.inputMint, swap.outputMint, swap.inAmount);
+    const outAmount = fair === null ? 0n : applyBps(applyBps(fair, script.priceImpactBps), script.fillSlippageBps);
+    if (balanceOf(post, payer, swap.inputMint) < swap.inAmount) {
+      return fail(INSUFFICIENT_FUNDS, swap.jupiterIndex);
+    }
+    if (outAmount < swap.minOutAmount) {
+      return fail(SLIPPAGE_EXCEEDED, swap.jupiterIndex);
+    }
+
+    if (swap.inputMint === SOL_MINT) {
+      payerWallet.lamports -= swap.inAmount;
+    } else {
+      payerWallet.tokens.set(swap.inputMint, (payerWallet.tokens.get(swap.inputMint) ?? 0n) - swap.inAmount);
+    }
+    if (swap.outputMint === SOL_MINT) {
+      payerWallet.lamports += outAmount;
+    } else {
+      if (!payerWallet.tokens.has(swap.outputMint)) {
+        if (payerWallet.lamports < TOKEN_ACCOUNT_RENT_LAMPORTS) return fail(INSUFFICIENT_FUNDS, swap.jupiterIndex);
+        payerWallet.lamports -= TOKEN_ACCOUNT_RENT_LAMPORTS;
+      }
+      setTokenBalance(post, payer, swap.outputMint, (payerWallet.tokens.get(swap.outputMint) ?? 0n) + outAmount);
+    }
+
+    const logs = [
+      `Program ${COMPUTE_BUDGET_PROGRAM_ID} invoke [1]`,
+      `Program ${COMPUTE_BUDGET_PROGRAM_ID} success`,
+      `Program ${JUPITER_PROGRAM_ID} invoke [1]`,
+      `Program log: Instruction: SharedAccountsRoute`,
+      `Program ${JUPITER_PROGRAM_ID} consumed 98765 of ${SWAP_COMPUTE_UNITS} compute units`,
+      `Program ${JUPITER_PROGRAM_ID} success`,
+    ];
+    return { ok: true, logs, unitsConsumed: 98_765, pre, post };
+  };
+
+  const lamportsOf = (state: LedgerState, address: string): number => {
+    const account = accountView(address, state);
+    if (account) return account.lamports;
+    return address === JUPITER_PROGRAM_ID || address === COMPUTE_BUDGET_PROGRAM_ID ? 1 : 0;
+  };
+
+  const tokenRows = (state: LedgerState, keys: string[]): TokenBalanceRow[] => {
+    const rows: TokenBalanceRow[] = [];
+    keys.forEach((address, accountIndex) => {
+      const ref = state.tokenAccounts.get(address);
+      const amount = ref ? state.wallets.get(ref.owner)?.tokens.get(ref.mint) : undefined;
+      if (!ref || amount === undefined) return;
+      rows.push({
+        accountIndex,
+        mint: ref.mint,
+        owner: ref.owner,
+        programId: tokenProgramId(ref.mint),
+        uiTokenAmount: uiAmount(amount, tokens.get(ref.mint)?.decimals ?? 0),
+      });
+    });
+    return rows;
+  };
+
+  const commit = (tx: VersionedTransaction, result: Extract<ExecutionResult, { ok: true }>): TransactionRecord => {
+    const message = tx.message;
+    const keys = message.staticAccountKeys.map((key) => key.toBase58());
+    const signature = encodeBase58(tx.signatures[0]);
+    ledger = result.post;
+
+    const record: TransactionRecord = {
+      signature,
+      slot: slot(),
+      blockTime: Math.floor(nowMs() / 1000),
+      fee: script.feeLamports,
+      accountKeys: keys.map((pubkey, i) => ({
+        pubkey,
+        signer: message.isAccountSigner(i),
+        writable: message.isAccountWritable(i),
+        source: "transaction",
+      })),
+      instructions: message.compiledInstructions.map((ix) => ({
+        programId: keys[ix.programIdIndex],
+        accounts: ix.accountKeyIndexes.map((i) => keys[i]),
+        data: encodeBase58(ix.data),
+      })),
+      recentBlockhash: message.recentBlockhash,
+      preBalances: keys.map((key) => lamportsOf(result.pre, key)),
+      postBalances: keys.map((key) => lamportsOf(result.post, key)),
+      preTokenBalances: tokenRows(result.pre, keys),
+      postTokenBalances: tokenRows(result.post, keys),
+      logMessages: result.logs,
+      computeUnitsConsumed: result.unitsConsumed,
+    };
+    transactions.set(signature, record);
+    swaps.delete(message.recentBlockhash);
+    return record;
+  };
+
+  // -- bookkeeping ---------------------------------------------------------
+
+  const countCall = (target: string): void => {
+    calls.set(target, (calls.get(target) ?? 0) + 1);
+  };
+
+  const snapshot = () => ({
+    nowMs: nowMs(),
+    slot: slot(),
+    prices: Object.fromEntries([...prices.keys()].map((mint) => [mint, priceUsd(mint)])),
+    wallets: Object.fromEntries(
+      [...ledger.wallets].map(([address, wallet]) => [
+        address,
+        {
+          lamports: wallet.lamports.toString(),
+          tokens: Object.fromEntries([...wallet.tokens].map(([mint, amount]) => [mint, amount.toString()])),
+        },
+      ])
+    ),
+    transactions: transactions.size,
+    pendingSwaps: swaps.size,
+    calls: Object.fromEntries(calls),
+    failures: failures.list(),
+  });
+
+  return {
+    nowMs,
+    slot,
+    blockHeight,
+    advance(ms: number): void {
+      clockOffsetMs += Math.max(0, ms);
+    },
+    priceUsd,
+    setPrice,
+    token: (mint: string): Required<MockToken> | null => tokens.get(mint) ?? null,
+    addToken(token: MockToken): void {
+      tokens.set(token.mint, { program: "token", ...token });
+    },
+    fund,
+    lamports: (address: string): bigint => ledger.wallets.get(address)?.lamports ?? 0n,
+    accountView: (address: string) => accountView(address),
+    simulatedAccountView: (address: string, state: LedgerState) => accountView(address, state),
+    tokenAccountsByOwner,
+    quote,
+    buildSwapTransaction,
+    latestBlockhash,
+    execute,
+    commit,
+    transaction: (signature: string): TransactionRecord | null => transactions.get(signature) ?? null,
+    failures,
+    countCall,
+    snapshot,
+  };
+}
@@ -0,0 +1,21 @@
+function parseOptional(raw: string | undefined): string | undefined {
+  const value = (raw ?? "").trim();
+  return value.length > 0 ? value : undefined;
+}
+
+function parsePositiveInteger(raw: string | undefined, fallback: number): number {
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value <= 0) return fallback;
+  return value;
+}
+
+export const config = {
+  // HTTP (Jupiter + JSON-RPC) listens on `port`; the RPC websocket, which
+  // web3.js derives from the HTTP URL, listens on `port + 1`.
+  port: parsePositiveInteger(process.env.MOCK_UPSTREAM_PORT, 8899),
+  scriptPath: parseOptional(process.env.MOCK_UPSTREAM_SCRIPT) ?? "",
+  e2e: {
+    port: parsePositiveInteger(process.env.MOCK_UPSTREAM_E2E_PORT, 18899),
+    timeoutSeconds: parsePositiveInteger(process.env.MOCK_UPSTREAM_E2E_TIMEOUT_SECONDS, 180),
+  },
+} as const;
@@ -0,0 +1,652 @@
+import assert from "node:assert/strict";
+import { spawn, type ChildProcessWithoutNullStreams } from "node:child_process";
+import { createHash } from "node:crypto";
+import { promises as fs } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { gunzipSync, gzipSync } from "node:zlib";
+import { Keypair } from "@solana/web3.js";
+import { createLedgerWriter, listArchivedSegments, listSegments, verifyLedger } from "ledger";
+import { SLIPPAGE_EXCEEDED } from "./chain.js";
+import { config } from "./config.js";
+import { createLogger } from "./logger.js";
+import { SOL_MINT, USDC_MINT, type MockScript } from "./script.js";
+import { startMockServer, type MockServer } from "./server.js";
+
+const log = createLogger("e2e");
+
+const ROOT = path.resolve(path.dirname(fileURLToPath(import.meta.url)), "../..");
+const AGENT_DIR = path.join(ROOT, "agent");
+const WALLET_MCP_DIR = path.join(ROOT, "wallet-mcp");
+
+const BONK_MINT = "DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263";
+const BONK_PRICE = 0.00002;
+const WIF_MINT = "EKpQGSJtjMFqKZ9KQanSqYXRcF8fBopzLHYxdM65zcjm";
+const WIF_PRICE = 1.5;
+
+// The agent's default Pyth price update accounts for these mints.
+const PYTH_FEEDS: Record<string, string> = {
+  "7UVimffxr9ow1uXYxsr4LHAcV58mLzhmwaeKvJ1pjLiE": SOL_MINT,
+  DBE3N8uNjhKPRHfANdwGvCZghWXyLPdqdSbEW2XFwBiX: BONK_MINT,
+  "6B23K3tkb51vLZA14jcEQVCA1pfHptzEHFA93V5dYwbT": WIF_MINT,
+};
+
+const children = new Set<ChildProcessWithoutNullStreams>();
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function tsxBin(packageDir: string): string {
+  return path.join(packageDir, "node_modules", ".bin", "tsx");
+}
+
+async function waitFor<T>(what: string, timeoutMs: number, probe: () => Promise<T | null>): Promise<T> {
+  const deadline = Date.now() + timeoutMs;
+  while (Date.now() < deadline) {
+    const value = await probe().catch(() => null);
+    if (value !== null) return value;
+    await sleep(500);
+  }
+  throw new Error(`Timed out after ${timeoutMs}ms waiting for ${what}`);
+}
+
+async function readLedger(ledgerPath: string): Promise<Array<{ type: string; payload: Record<string, unknown> }>> {
+  const raw = await fs.readFile(ledgerPath, "utf8").catch(() => "");
+  return raw
+    .split("\n")
+    .filter(Boolean)
+    .map((line) => JSON.parse(line));
+}
+
+// Children run in their own process group so the wallet-mcp the agent
+// spawns goes down with it.
+async function stopChild(child: ChildProcessWithoutNullStreams, graceMs: number): Promise<void> {
+  children.delete(child);
+  if (child.exitCode !== null || child.signalCode !== null || !child.pid) return;
+  const exited = new Promise<void>((resolve) => child.once("exit", () => resolve()));
+  try {
+    process.kill(-child.pid, "SIGTERM");
+  } catch {
+    return;
+  }
+  const timedOut = await Promise.race([exited.then(() => false), sleep(graceMs).then(() => true)]);
+  if (timedOut) {
+    try {
+      process.kill(-child.pid, "SIGKILL");
+    } catch {
+      // already gone
+    }
+    await exited;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Minimal MCP stdio client
+// ---------------------------------------------------------------------------
+
+interface ToolResult {
+  isError: boolean;
+  payload: Record<string, unknown>;
+}
+
+interface McpClient {
+  call(name: string, args: Record<string, unknown>): Promise<ToolResult>;
+  close(): Promise<void>;
+}
+
+async function startWalletMcp(env: NodeJS.ProcessEnv): Promise<McpClient> {
+  const child = spawn(tsxBin(WALLET_MCP_DIR), ["src/index.ts"], {
+    cwd: WALLET_MCP_DIR,
+    env,
+    stdio: "pipe",
+    detached: true,
+  });
+  children.add(child);
+
+  const pending = new Map<number, (message: { result?: unknown; error?: { message: string } }) => void>();
+  let nextId = 1;
+  let buffer = Buffer.alloc(0);
+  let stderrTail = "";
+
+  child.stderr.on("data", (chunk: Buffer) => {
+    stderrTail = (stderrTail + chunk.toString()).slice(-4_000);
+    if (process.env.MOCK_UPSTREAM_E2E_VERBOSE === "true") process.stderr.write(chunk);
+  });
+  child.stdout.on("data", (chunk: Buffer) => {
+    buffer = Buffer.concat([buffer, chunk]);
+    for (;;) {
+      const headerEnd = buffer.indexOf("\r\n\r\n");
+      if (headerEnd < 0) return;
+      const match = buffer.subarray(0, headerEnd).toString("utf8").match(/Content-Length:\s*(\d+)/i);
+      if (!match) throw new Error("wallet-mcp frame without Content-Length");
+      const length = Number(match[1]);
+      if (buffer.length < headerEnd + 4 + length) return;
+      const message = JSON.parse(buffer.subarray(headerEnd + 4, headerEnd + 4 + length).toString("utf8"));
+      buffer = buffer.subarray(headerEnd + 4 + length);
+      pending.get(message.id)?.(message);
+      pending.delete(message.id);
+    }
+  });
+
+  const request = (method: string, params: unknown): Promise<unknown> => {
+    const id = nextId++;
+    const body = Buffer.from(JSON.stringify({ jsonrpc: "2.0", id, method, params }), "utf8");
+    child.stdin.write(Buffer.concat([Buffer.from(`Content-Length: ${body.length}\r\n\r\n`, "utf8"), body]));
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        pending.delete(id);
+        reject(new Error(`wallet-mcp ${method} timed out | stderr=${stderrTail.slice(-1_000)}`));
+      }, 60_000);
+      pending.set(id, (message) => {
+        clearTimeout(timer);
+        if (message.error) reject(new Error(`wallet-mcp ${method}: ${message.error.message}`));
+        else resolve(message.result);
+      });
+    });
+  };
+
+  await request("initialize", {
+    protocolVersion: "2024-11-05",
+    capabilities: {},
+    clientInfo: { name: "mock-upstream-e2e", version: "0.1.0" },
+  });
+
+  return {
+    async call(name, args) {
+      const result = (await request("tools/call", { name, arguments: args })) as {
+        isError?: boolean;
+        content?: Array<{ text?: string }>;
+      };
+      const text = result.content?.[0]?.text ?? "{}";
+      let payload: Record<string, unknown>;
+      try {
+        payload = JSON.parse(text);
+      } catch {
+        payload = { error: text };
+      }
+      return { isError: result.isError === true, payload };
+    },
+    close: () => stopChild(child, 5_000),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Suite: ledger retention and tamper evidence
+// ---------------------------------------------------------------------------
+
+// A hand-written ledger_pruned line over `target`: linked and self-hashed
+// like the real thing, but without the checkpoint key's signature.
+function forgePrunedStub(target: string): string {
+  const event = JSON.parse(target) as { timestamp: string; prev: string; hash: string };
+  const body = {
+    v: 2,
+    seq: 0,
+    pid: 0,
+    writer: "retention",
+    timestamp: event.timestamp,
+    type: "ledger_pruned",
+    payload: { counts: { quote_issued: 1 }, from: event.timestamp, to: event.timestamp, last: event.hash },
+    prev: event.prev,
+  };
+  return JSON.stringify({ ...body, hash: createHash("sha256").update(JSON.stringify(body)).digest("hex") });
+}
+
+// The first checkpoint without its MAC, re-hashed so only the missing
+// signature gives it away.
+function stripCheckpointMac(text: string): string {
+  const lines = text.split("\n");
+  const index = lines.findIndex((line) => line.includes('"type":"ledger_checkpoint"'));
+  assert.notEqual(index, -1, "no ledger_checkpoint line to strip");
+  const { hash: _hash, ...body } = JSON.parse(lines[index]) as { hash: string; payload: Record<string, unknown> };
+  delete body.payload.mac;
+  lines[index] = JSON.stringify({ ...body, hash: createHash("sha256").update(JSON.stringify(body)).digest("hex") });
+  return lines.join("\n");
+}
+
+function replaceFilledLine(text: string): string {
+  const lines = text.split("\n");
+  const index = lines.findIndex((line) => line.includes('"type":"swap_filled"'));
+  assert.notEqual(index, -1, "no swap_filled line to replace");
+  lines[index] = forgePrunedStub(lines[index]);
+  return lines.join("\n");
+}
+
+async function ledgerRetentionSuite(_mock: MockServer, workDir: string): Promise<void> {
+  const ledgerPath = path.join(workDir, "ledger.jsonl");
+  const hmacKey = "e2e-checkpoint-key";
+  const retention = { quote_issued: 1 };
+  const writer = createLedgerWriter({
+    path: ledgerPath,
+    writer: "wallet-mcp",
+    checkpoint: { key: hmacKey, every: 4 },
+    rotation: { maxBytes: 0, maxAgeMs: 0, retention },
+  });
+  const quote = (quoteId: string) =>
+    writer.append("quote_issued", {
+      quoteId,
+      inputMint: SOL_MINT,
+      outputMint: BONK_MINT,
+      inAmount: "100000000",
+      outAmount: "750000000",
+      slippageBps: 100,
+      priceImpactPct: 0,
+      expiresAt: new Date().toISOString(),
+    });
+  const fill = (intentId: string) =>
+    writer.append("swap_filled", {
+      intentId,
+      mode: "paper",
+      inputMint: SOL_MINT,
+      outputMint: BONK_MINT,
+      inputAmount: "100000000",
+      outputAmount: "750000000",
+    });
+
+  for (const n of [1, 2, 3]) {
+    await quote(`q-${n}`);
+    await fill(`i-${n}`);
+  }
+  assert.ok(await writer.rotate());
+  await quote("q-4");
+  await fill("i-4");
+
+  // Two days on, the rotated segment's quotes are past the 1-day rule.
+  const nowMs = Date.now() + 2 * 24 * 60 * 60 * 1000;
+  const maintained = await writer.maintain(nowMs);
+  assert.equal(maintained.pruned.quote_issued, 3);
+  const report = await verifyLedger(await listSegments(ledgerPath), { hmacKey, retention, nowMs });
+  assert.equal(report.ok, true, JSON.stringify(report.firstBreak));
+  assert.equal(report.pruned.quote_issued, 3);
+  log.info("PASS ledger: pruned segment verifies with the key and retention rules");
+
+  const live = await fs.readFile(ledgerPath, "utf8");
+  await fs.writeFile(ledgerPath, replaceFilledLine(live));
+  const forgedLive = await verifyLedger(await listSegments(ledgerPath), { hmacKey, retention, nowMs });
+  assert.equal(forgedLive.ok, false);
+  assert.match(String(forgedLive.firstBreak?.reason), /outside a rotated segment/);
+  await fs.writeFile(ledgerPath, live);
+  log.info("PASS ledger: a pruned stub in the live file is rejected");
+
+  const [segment] = await listArchivedSegments(ledgerPath);
+  const compressed = await fs.readFile(segment);
+  const archived = gunzipSync(compressed).toString("utf8");
+  await fs.writeFile(segment, gzipSync(stripCheckpointMac(archived)));
+  const unsigned = await verifyLedger(await listSegments(ledgerPath), { hmacKey, retention, nowMs });
+  assert.equal(unsigned.ok, false);
+  assert.match(String(unsigned.firstBreak?.reason), /checkpoint is not signed/);
+  await fs.writeFile(segment, compressed);
+  log.info("PASS ledger: a checkpoint with its MAC removed fails verification");
+
+  await fs.writeFile(segment, gzipSync(replaceFilledLine(archived)));
+  const forged = await verifyLedger(await listSegments(ledgerPath), { hmacKey, retention, nowMs });
+  assert.equal(forged.ok, false);
+  assert.match(String(forged.firstBreak?.reason), /pruned run is not signed/);
+  log.info("PASS ledger: a forged pruned stub fails verification");
+}
+
+// ---------------------------------------------------------------------------
+// Suite: wallet-mcp live mode
+// ---------------------------------------------------------------------------
+
+async function walletMcpLiveSuite(mock: MockServer, workDir: string): Promise<void> {
+  const wallet = Keypair.generate();
+  const owner = wallet.publicKey.toBase58();
+  mock.chain.fund(owner, { lamports: 2_000_000_000 });
+
+  const mcp = await startWalletMcp({
+    ...process.env,
+    PAPER_TRADE: "false",
+    SOLANA_PRIVATE_KEY: Buffer.from(wallet.secretKey).toString("base64"),
+    SOLANA_RPC_URL: mock.url,
+    JUPITER_API_BASE_URL: mock.url,
+    WALLET_MCP_LEDGER_PATH: path.join(workDir, "wallet-mcp", "ledger.jsonl"),
+  });
+
+  try {
+    const balance = await mcp.call("wallet_get_balance", { chain: "solana" });
+    assert.equal(balance.isError, false);
+    assert.equal(balance.payload.lamports, "2000000000");
+    log.info("PASS live: balance read from RPC");
+
+    const quote = await mcp.call("wallet_get_quote", {
+      chain: "solana",
+      inputMint: SOL_MINT,
+      outputMint: USDC_MINT,
+      amountLamports: 500_000_000,
+      slippageBps: 100,
+    });
+    assert.equal(quote.isError, false, JSON.stringify(quote.payload));
+    const quoteId = String(quote.payload.quoteId);
+
+    const swap = await mcp.call("wallet_execute_swap", { chain: "solana", intentId: "e2e-live-buy", quoteId });
+    assert.equal(swap.payload.status, "filled", JSON.stringify(swap.payload));
+    assert.equal(swap.payload.fillSource, "chain");
+    const usdc = mock.chain.snapshot().wallets[owner]?.tokens[USDC_MINT];
+    assert.equal(swap.payload.outputAmount, usdc);
+    assert.equal(swap.payload.inputAmount, "500000000");
+    log.info(`PASS live: swap filled from chain balances (${usdc} USDC raw)`);
+
+    const replay = await mcp.call("wallet_execute_swap", { chain: "solana", intentId: "e2e-live-buy", quoteId });
+    assert.equal(replay.payload.replayed, true);
+    assert.equal(replay.payload.txHash, swap.payload.txHash);
+    assert.equal(mock.chain.snapshot().transactions, 1);
+    log.info("PASS live: repeated intentId replays without a second send");
+
+    const tokens = await mcp.call("wallet_get_token_balances", { chain: "solana" });
+    const rows = (tokens.payload.tokens ?? []) as Array<{ mint: string; rawAmount: string }>;
+    assert.equal(rows.find((row) => row.mint === USDC_MINT)?.rawAmount, usdc);
+    log.info("PASS live: token balances list the new ATA");
+
+    await fetch(`${mock.url}/__mock/failures`, {
+      method: "POST",
+      body: JSON.stringify([{ target: "rpc.simulateTransaction", times: 1, programError: SLIPPAGE_EXCEEDED }]),
+    });
+    const failedSim = await mcp.call("wallet_execute_swap", {
+      chain: "solana",
+      intentId: "e2e-live-sell-sim",
+      inputMint: USDC_MINT,
+      outputMint: SOL_MINT,
+      amountLamports: 1_000_000,
+      slippageBps: 100,
+    });
+    assert.equal(failedSim.payload.status, "failed");
+    assert.match(String(failedSim.payload.error), /0x1771|SlippageToleranceExceeded/);
+    log.info("PASS live: injected simulation error surfaces as 0x1771");
+
+    const moveQuote = await mcp.call("wallet_get_quote", {
+      chain: "solana",
+      inputMint: SOL_MINT,
+      outputMint: USDC_MINT,
+      amountLamports: 100_000_000,
+      slippageBps: 100,
+    });
+    mock.chain.setPrice(SOL_MINT, 140);
+    const moved = await mcp.call("wallet_execute_swap", {
+      chain: "solana",
+      intentId: "e2e-live-price-move",
+      quoteId: String(moveQuote.payload.quoteId),
+    });
+    mock.chain.setPrice(SOL_MINT, 150);
+    assert.equal(moved.payload.status, "failed");
+    assert.match(String(moved.payload.error), /0x1771|SlippageToleranceExceeded/);
+    log.info("PASS live: price move past tolerance fails the swap");
+
+    await fetch(`${mock.url}/__mock/failures`, {
+      method: "POST",
+      body: JSON.stringify({ target: "jupiter.quote", times: 1, status: 503, message: "upstream unavailable" }),
+    });
+    const downQuote = await mcp.call("wallet_get_quote", {
+      chain: "solana",
+      inputMint: SOL_MINT,
+      outputMint: USDC_MINT,
+      amountLamports: 100_000_000,
+      slippageBps: 100,
+    });
+    assert.equal(downQuote.isError, true);
+    assert.match(JSON.stringify(downQuote.payload), /503/);
+    log.info("PASS live: Jupiter outage is reported as a tool error");
+  } finally {
+    await mcp.close();
+    await fetch(`${mock.url}/__mock/failures`, { method: "DELETE" });
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Suite: agent runLoop in paper mode
+// ---------------------------------------------------------------------------
+
+// The agent shells out to `codex` for plans and to `zsh` for wallet-mcp;
+// both are replaced by shims on PATH so the loop runs offline.
+async function writeShims(binDir: string): Promise<void> {
+  await fs.mkdir(binDir, { recursive: true });
+  const codex = [
+    "#!/usr/bin/env node",
+    'const fs = require("node:fs");',
+    "const args = process.argv.slice(2);",
+    'const out = args[args.indexOf("-o") + 1];',
+    "const responsesPath = process.env.MOCK_CODEX_RESPONSES;",
+    'const responses = JSON.parse(fs.readFileSync(responsesPath, "utf8"));',
+    'const countPath = responsesPath + ".calls";',
+    "let calls = 0;",
+    'try { calls = Number(fs.readFileSync(countPath, "utf8")) || 0; } catch {}',
+    "fs.writeFileSync(countPath, String(calls + 1));",
+    "fs.writeFileSync(out, JSON.stringify(responses[Math.min(calls, responses.length - 1)]));",
+    "",
+  ].join("\n");
+  await fs.writeFile(path.join(binDir, "codex"), codex, { mode: 0o755 });
+  await fs.writeFile(path.join(binDir, "zsh"), '#!/bin/sh\nexec bash "$@"\n', { mode: 0o755 });
+}
+
+async function runLoopPaperSuite(mock: MockServer, workDir: string): Promise<void> {
+  const binDir = path.join(workDir, "bin");
+  const codexHome = path.join(workDir, "codex-home");
+  const agentCwd = path.join(workDir, "agent");
+  const runtimeDir = path.join(workDir, "runtime");
+  const statePath = path.join(runtimeDir, "state.json");
+  const ledgerPath = path.join(runtimeDir, "wallet-mcp", "ledger.jsonl");
+  const responsesPath = path.join(workDir, "codex-responses.json");
+
+  await writeShims(binDir);
+  await fs.mkdir(codexHome, { recursive: true });
+  await fs.mkdir(agentCwd, { recursive: true });
+  await fs.writeFile(
+    path.join(codexHome, "auth.json"),
+    JSON.stringify({
+      auth_mode: "chatgpt",
+      OPENAI_API_KEY: null,
+      tokens: { access_token: "e2e", refresh_token: "e2e", id_token: "e2e" },
+      last_refresh: new Date().toISOString(),
+    })
+  );
+  await fs.writeFile(
+    responsesPath,
+    JSON.stringify([
+      {
+        notes: ["e2e: open a BONK position"],
+        intents: [
+          {
+            action: "buy",
+            symbol: "BONK",
+            mint: BONK_MINT,
+            decimals: 5,
+            amountLamports: 1_000_000_000,
+            slippageBps: 100,
+            reason: "e2e entry",
+            confidence: 0.8,
+          },
+        ],
+      },
+      { notes: ["e2e: hold"], intents: [] },
+    ])
+  );
+
+  const wallet = Keypair.generate().publicKey.toBase58();
+  const agent = spawn(tsxBin(AGENT_DIR), [path.join(AGENT_DIR, "src", "index.ts")], {
+    cwd: agentCwd,
+    env: {
+      ...process.env,
+      PATH: `${binDir}${path.delimiter}${process.env.PATH ?? ""}`,
+      TMPDIR: workDir,
+      CODEX_HOME: codexHome,
+      MOCK_CODEX_RESPONSES: responsesPath,
+      PAPER_TRADE: "true",
+      SOLANA_WALLET_ADDRESS: wallet,
+      SOLANA_RPC_URL: mock.url,
+      JUPITER_API_BASE_URL: mock.url,
+      SCAN_INTERVAL_SECONDS: "5",
+      RUNTIME_AGENTIC_STOP_LOSS_INTERVAL_SECONDS: "5",
+      RUNTIME_AGENTIC_STATE_PATH: statePath,
+      RUNTIME_WALLET_MCP_COMMAND: `"${tsxBin(WALLET_MCP_DIR)}" src/index.ts`,
+      RUNTIME_WALLET_MCP_CWD: WALLET_MCP_DIR,
+      DASHBOARD_PORT: String(config.e2e.port + 10),
+      WALLET_MCP_LEDGER_PATH: ledgerPath,
+      WALLET_MCP_PAPER_FAILURE_RATE: "0",
+      WALLET_MCP_PAPER_SLIPPAGE_MEAN_BPS: "0",
+      WALLET_MCP_PAPER_SLIPPAGE_STDDEV_BPS: "0",
+      WALLET_MCP_PAPER_MIN_LATENCY_MS: "0",
+      WALLET_MCP_PAPER_MAX_LATENCY_MS: "0",
+    },
+    stdio: "pipe",
+    detached: true,
+  });
+  children.add(agent);
+  let agentLog = "";
+  const capture = (chunk: Buffer): void => {
+    agentLog = (agentLog + chunk.toString()).slice(-8_000);
+    if (process.env.MOCK_UPSTREAM_E2E_VERBOSE === "true") process.stderr.write(chunk);
+  };
+  agent.stdout.on("data", capture);
+  agent.stderr.on("data", capture);
+
+  type AgentState = { positions?: Record<string, { rawAmount: string }> };
+  const readState = async (): Promise<AgentState> => JSON.parse(await fs.readFile(statePath, "utf8")) as AgentState;
+
+  try {
+    const opened = await waitFor("the planner's BONK buy", 90_000, async () => {
+      const position = (await readState()).positions?.[BONK_MINT];
+      return position ? position : null;
+    }).catch((e) => {
+      throw new Error(`${e instanceof Error ? e.message : String(e)}\n--- agent output ---\n${agentLog}`);
+    });
+    assert.ok(BigInt(opened.rawAmount) > 0n);
+    log.info(`PASS loop: planner buy booked (${opened.rawAmount} BONK raw)`);
+
+    // -30%: well past the default -10% stop.
+    mock.chain.setPrice(BONK_MINT, BONK_PRICE * 0.7);
+    await waitFor("the stop-loss exit", 60_000, async () =>
+      (await readState()).positions?.[BONK_MINT] ? null : true
+    ).catch((e) => {
+      throw new Error(`${e instanceof Error ? e.message : String(e)}\n--- agent output ---\n${agentLog}`);
+    });
+
+    const sells = (await readLedger(ledgerPath)).filter(
+      (event) => event.type === "swap_filled" && event.payload.inputMint === BONK_MINT
+    );
+    assert.equal(sells.length, 1);
+    assert.equal(sells[0].payload.mode, "paper");
+    log.info("PASS loop: stop-loss sold the position after the price drop");
+
+    // Second position, then a Jupiter price outage: the stop-loss has to
+    // price it from Pyth.
+    await fs.writeFile(
+      responsesPath,
+      JSON.stringify([
+        {
+          notes: ["e2e: open a WIF position"],
+          intents: [
+            {
+              action: "buy",
+              symbol: "WIF",
+              mint: WIF_MINT,
+              decimals: 6,
+              amountLamports: 1_000_000_000,
+              slippageBps: 100,
+              reason: "e2e entry",
+              confidence: 0.8,
+            },
+          ],
+        },
+        { notes: ["e2e: hold"], intents: [] },
+      ])
+    );
+    await fs.rm(`${responsesPath}.calls`, { force: true });
+    await waitFor("the planner's WIF buy", 90_000, async () => ((await readState()).positions?.[WIF_MINT] ? true : null)).catch(
+      (e) => {
+        throw new Error(`${e instanceof Error ? e.message : String(e)}\n--- agent output ---\n${agentLog}`);
+      }
+    );
+
+    mock.chain.failures.add([{ target: "jupiter.price", status: 500, message: "e2e: price API down" }]);
+    const priceCallsBefore = mock.chain.snapshot().calls["jupiter.price"] ?? 0;
+    mock.chain.setPrice(WIF_MINT, WIF_PRICE * 0.7);
+    await waitFor("the stop-loss exit during the Jupiter price outage", 60_000, async () =>
+      (await readState()).positions?.[WIF_MINT] ? null : true
+    ).catch((e) => {
+      throw new Error(`${e instanceof Error ? e.message : String(e)}\n--- agent output ---\n${agentLog}`);
+    });
+    mock.chain.failures.clear();
+
+    assert.ok((mock.chain.snapshot().calls["jupiter.price"] ?? 0) > priceCallsBefore);
+    const wifSells = (await readLedger(ledgerPath)).filter(
+      (event) => event.type === "swap_filled" && event.payload.inputMint === WIF_MINT
+    );
+    assert.equal(wifSells.length, 1);
+    log.info("PASS loop: stop-loss priced from Pyth while Jupiter price returned 500");
+  } finally {
+    await stopChild(agent, 15_000);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Runner
+// ---------------------------------------------------------------------------
+
+const script: MockScript = {
+  tokens: [
+    { mint: BONK_MINT, symbol: "BONK", decimals: 5 },
+    { mint: WIF_MINT, symbol: "WIF", decimals: 6 },
+  ],
+  prices: { [BONK_MINT]: BONK_PRICE, [WIF_MINT]: WIF_PRICE },
+  fillSlippageBps: 5,
+  pythFeeds: PYTH_FEEDS,
+};
+
+const suites: Array<[string, (mock: MockServer, workDir: string) => Promise<void>]> = [
+  ["ledger retention", ledgerRetentionSuite],
+  ["wallet-mcp live", walletMcpLiveSuite],
+  ["runLoop paper", runLoopPaperSuite],
+];
+
+async function main(): Promise<void> {
+  const only = process.argv.slice(2);
+  const workRoot = await fs.mkdtemp(path.join(os.tmpdir(), "cashcat-e2e-"));
+  const failures: string[] = [];
+
+  const watchdog = setTimeout(() => {
+    log.error(`E2E run exceeded ${config.e2e.timeoutSeconds}s`);
+    for (const child of children) void stopChild(child, 1_000);
+    process.exit(1);
+  }, config.e2e.timeoutSeconds * 1000);
+  watchdog.unref();
+
+  for (const [name, suite] of suites) {
+    if (only.length > 0 && !only.some((filter) => name.includes(filter))) continue;
+    const mock = await startMockServer({ port: config.e2e.port, script });
+    const workDir = path.join(workRoot, name.replace(/\W+/g, "-"));
+    await fs.mkdir(workDir, { recursive: true });
+    const startedAt = Date.now();
+    try {
+      await suite(mock, workDir);
+      log.info(`Suite "${name}" passed in ${((Date.now() - startedAt) / 1000).toFixed(1)}s`);
+    } catch (e) {
+      failures.push(name);
+      log.error(`Suite "${name}" failed`, e);
+    } finally {
+      await mock.close();
+    }
+  }
+
+  clearTimeout(watchdog);
+  if (process.env.MOCK_UPSTREAM_E2E_KEEP !== "true") {
+    await fs.rm(workRoot, { recursive: true, force: true });
+  } else {
+    log.info(`Work files kept in ${workRoot}`);
+  }
+
+  if (failures.length > 0) {
+    log.error(`${failures.length} suite(s) failed: ${failures.join(", ")}`);
+    process.exit(1);
+  }
+  log.info("All suites passed");
+}
+
+main().catch((error) => {
+  log.error("E2E runner crashed", error);
+  process.exit(1);
+});
@@ -0,0 +1,61 @@
+import type { FailureRule } from "./script.js";
+
+interface ArmedRule {
+  rule: FailureRule;
+  calls: number;
+  fired: number;
+}
+
+export interface FailureInjector {
+  take(target: string): FailureRule | null;
+  add(rules: FailureRule[]): void;
+  clear(): void;
+  list(): Array<FailureRule & { calls: number; fired: number }>;
+}
+
+function matches(pattern: string, target: string): boolean {
+  return pattern.endsWith("*") ? target.startsWith(pattern.slice(0, -1)) : pattern === target;
+}
+
+/**
+ * Rules are checked in insertion order; the first one that matches the
+ * target and decides to fire wins. Every matching rule counts the call,
+ * fired or not, so `afterCalls` means "the Nth call from now".
+ */
+export function createFailureInjector(initial: FailureRule[]): FailureInjector {
+  let rules: ArmedRule[] = [];
+
+  const add = (next: FailureRule[]): void => {
+    for (const rule of next) {
+      if (!rule || typeof rule.target !== "string" || !rule.target) {
+        throw new Error("Failure rule needs a target");
+      }
+      rules.push({ rule, calls: 0, fired: 0 });
+    }
+  };
+  add(initial);
+
+  return {
+    take(target: string): FailureRule | null {
+      let hit: FailureRule | null = null;
+      for (const armed of rules) {
+        if (!matches(armed.rule.target, target)) continue;
+        armed.calls++;
+        if (hit) continue;
+        if (armed.rule.afterCalls !== undefined && armed.calls <= armed.rule.afterCalls) continue;
+        if (armed.rule.times !== undefined && armed.fired >= armed.rule.times) continue;
+        if (Math.random() >= (armed.rule.rate ?? 1)) continue;
+        armed.fired++;
+        hit = armed.rule;
+      }
+      return hit;
+    },
+    add,
+    clear(): void {
+      rules = [];
+    },
+    list() {
+      return rules.map((armed) => ({ ...armed.rule, calls: armed.calls, fired: armed.fired }));
+    },
+  };
+}
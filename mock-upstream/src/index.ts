@@ -0,0 +1,23 @@
+import { config } from "./config.js";
+import { createLogger } from "./logger.js";
+import { loadScript } from "./script.js";
+import { startMockServer } from "./server.js";
+
+const log = createLogger("main");
+
+async function main(): Promise<void> {
+  const script = await loadScript(config.scriptPath);
+  const server = await startMockServer({ port: config.port, script });
+  if (config.scriptPath) log.info(`Scenario loaded from ${config.scriptPath}`);
+
+  const shutdown = (): void => {
+    server.close().finally(() => process.exit(0));
+  };
+  process.on("SIGINT", shutdown);
+  process.on("SIGTERM", shutdown);
+}
+
+main().catch((error) => {
+  log.error("Fatal startup error", error);
+  process.exit(1);
+});
@@ -0,0 +1,158 @@
+import { PublicKey } from "@solana/web3.js";
+import type { MockChain, QuoteResult } from "./chain.js";
+
+export interface HttpReply {
+  status: number;
+  body: unknown;
+}
+
+const routeError = (status: number, error: string, errorCode: string): HttpReply => ({
+  status,
+  body: { error, errorCode },
+});
+
+// ---------------------------------------------------------------------------
+// Handlers
+// ---------------------------------------------------------------------------
+
+// GET /swap/v1/quote?inputMint&outputMint&amount&slippageBps
+function handleQuote(chain: MockChain, query: URLSearchParams): HttpReply {
+  const inputMint = query.get("inputMint") ?? "";
+  const outputMint = query.get("outputMint") ?? "";
+  const amount = query.get("amount") ?? "";
+  const slippageBps = Number(query.get("slippageBps") ?? 50);
+
+  if (!/^\d+$/.test(amount) || BigInt(amount) <= 0n) {
+    return routeError(400, "amount must be a positive integer", "INVALID_AMOUNT");
+  }
+  if (!Number.isInteger(slippageBps) || slippageBps < 0 || slippageBps > 10_000) {
+    return routeError(400, "slippageBps must be between 0 and 10000", "INVALID_SLIPPAGE");
+  }
+  if (inputMint === outputMint) {
+    return routeError(400, "inputMint and outputMint must differ", "CIRCULAR_ARBITRAGE_IS_DISABLED");
+  }
+
+  const quote = chain.quote(inputMint, outputMint, BigInt(amount), slippageBps);
+  if (!quote) {
+    return routeError(400, "Could not find any route", "COULD_NOT_FIND_ANY_ROUTE");
+  }
+
+  return {
+    status: 200,
+    body: {
+      ...quote,
+      swapMode: "ExactIn",
+      platformFee: null,
+      routePlan: [
+        {
+          swapInfo: {
+            ammKey: "MockAmm1111111111111111111111111111111111111",
+            label: "Mock",
+            inputMint: quote.inputMint,
+            outputMint: quote.outputMint,
+            inAmount: quote.inAmount,
+            outAmount: quote.outAmount,
+            feeAmount: "0",
+            feeMint: quote.inputMint,
+          },
+          percent: 100,
+        },
+      ],
+      contextSlot: chain.slot(),
+      timeTaken: 0.001,
+    },
+  };
+}
+
+// POST /swap/v1/swap { quoteResponse, userPublicKey, ... }
+function handleSwap(chain: MockChain, body: unknown): HttpReply {
+  const request = (body ?? {}) as { quoteResponse?: Partial<QuoteResult>; userPublicKey?: string };
+  const quote = request.quoteResponse;
+  const user = request.userPublicKey ?? "";
+  try {
+    new PublicKey(user);
+  } catch {
+    return routeError(400, "userPublicKey is not a valid public key", "INVALID_USER_PUBLIC_KEY");
+  }
+  if (!quote?.inputMint || !quote.outputMint || !quote.inAmount || !quote.outAmount) {
+    return routeError(400, "quoteResponse is missing or incomplete", "INVALID_QUOTE");
+  }
+
+  const tx = chain.buildSwapTransaction(user, {
+    inputMint: quote.inputMint,
+    outputMint: quote.outputMint,
+    inAmount: String(quote.inAmount),
+    outAmount: String(quote.outAmount),
+    otherAmountThreshold: String(quote.otherAmountThreshold ?? quote.outAmount),
+    slippageBps: Number(quote.slippageBps ?? 0),
+    priceImpactPct: String(quote.priceImpactPct ?? "0"),
+  });
+
+  return {
+    status: 200,
+    body: {
+      swapTransaction: Buffer.from(tx.serialize()).toString("base64"),
+      lastValidBlockHeight: chain.blockHeight() + 150,
+      prioritizationFeeLamports: 0,
+      computeUnitLimit: 180_000,
+      dynamicSlippageReport: null,
+      simulationError: null,
+    },
+  };
+}
+
+// GET /price/v3?ids=a,b — unknown mints are omitted, as upstream does.
+function handlePrice(chain: MockChain, query: URLSearchParams): HttpReply {
+  const ids = (query.get("ids") ?? "")
+    .split(",")
+    .map((id) => id.trim())
+    .filter(Boolean);
+  const body: Record<string, unknown> = {};
+  for (const mint of ids) {
+    const usdPrice = chain.priceUsd(mint);
+    if (usdPrice === null) continue;
+    body[mint] = {
+      usdPrice,
+      blockId: chain.slot(),
+      decimals: chain.token(mint)?.decimals ?? 0,
+      priceChange24h: 0,
+    };
+  }
+  return { status: 200, body };
+}
+
+// ---------------------------------------------------------------------------
+// Dispatch
+// ---------------------------------------------------------------------------
+
+const ROUTES: Record<string, { method: string; target: string }> = {
+  "/swap/v1/quote": { method: "GET", target: "jupiter.quote" },
+  "/swap/v1/swap": { method: "POST", target: "jupiter.swap" },
+  "/price/v3": { method: "GET", target: "jupiter.price" },
+};
+
+export function isJupiterRoute(pathname: string): boolean {
+  return pathname in ROUTES;
+}
+
+export function handleJupiter(chain: MockChain, method: string, url: URL, body: unknown): HttpReply {
+  const route = ROUTES[url.pathname];
+  if (!route || route.method !== method) {
+    return routeError(404, `No route for ${method} ${url.pathname}`, "NOT_FOUND");
+  }
+
+  chain.countCall(route.target);
+  const rule = chain.failures.take(route.target);
+  if (rule) {
+    return routeError(rule.status ?? 500, rule.message ?? `Injected failure for ${route.target}`, "INJECTED");
+  }
+
+  switch (route.target) {
+    case "jupiter.quote":
+      return handleQuote(chain, url.searchParams);
+    case "jupiter.swap":
+      return handleSwap(chain, body);
+    default:
+      return handlePrice(chain, url.searchParams);
+  }
+}
@@ -0,0 +1,315 @@
+import { VersionedTransaction } from "@solana/web3.js";
+import { encodeBase58 } from "./base58.js";
+import { type AccountView, type MockChain, type ProgramFailure } from "./chain.js";
+import type { FailureRule } from "./script.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+interface JsonRpcRequest {
+  jsonrpc?: string;
+  id?: number | string | null;
+  method?: string;
+  params?: unknown[];
+}
+
+interface JsonRpcError {
+  code: number;
+  message: string;
+  data?: unknown;
+}
+
+export interface RpcReply {
+  // Transport-level failure injected for the whole HTTP request.
+  status?: number;
+  body: unknown;
+}
+
+class RpcError extends Error {
+  constructor(
+    readonly code: number,
+    message: string,
+    readonly data?: unknown
+  ) {
+    super(message);
+  }
+}
+
+// programError is set when a failure rule asked for the transaction to
+// fail inside the program rather than at the transport.
+type Handler = (chain: MockChain, params: unknown[], programError: number | null) => unknown;
+
+// ---------------------------------------------------------------------------
+// Encoding
+// ---------------------------------------------------------------------------
+
+function context(chain: MockChain): { slot: number; apiVersion: string } {
+  return { slot: chain.slot(), apiVersion: "2.2.0" };
+}
+
+function optionsOf(params: unknown[], index: number): Record<string, unknown> {
+  const value = params[index];
+  return value && typeof value === "object" ? (value as Record<string, unknown>) : {};
+}
+
+function stringParam(params: unknown[], index: number, name: string): string {
+  const value = params[index];
+  if (typeof value !== "string" || !value) {
+    throw new RpcError(-32602, `Invalid params: ${name} must be a string`);
+  }
+  return value;
+}
+
+function encodeAccount(account: AccountView | null, encoding: unknown): unknown {
+  if (!account) return null;
+  const data =
+    encoding === "jsonParsed" && account.parsed
+      ? account.parsed
+      : [account.data.toString("base64"), "base64"];
+  return {
+    lamports: account.lamports,
+    owner: account.owner,
+    executable: account.executable,
+    rentEpoch: 0,
+    space: account.data.length,
+    data,
+  };
+}
+
+function decodeTransaction(params: unknown[]): VersionedTransaction {
+  const encoded = stringParam(params, 0, "transaction");
+  const encoding = optionsOf(params, 1).encoding;
+  if (encoding !== "base64") {
+    throw new RpcError(-32602, "Invalid params: only base64 transactions are supported");
+  }
+  try {
+    return VersionedTransaction.deserialize(Buffer.from(encoded, "base64"));
+  } catch (e) {
+    throw new RpcError(-32602, `Invalid params: ${e instanceof Error ? e.message : String(e)}`);
+  }
+}
+
+function instructionError(failure: ProgramFailure): unknown {
+  return { InstructionError: [failure.instructionIndex, { Custom: failure.code }] };
+}
+
+// ---------------------------------------------------------------------------
+// Handlers
+// ---------------------------------------------------------------------------
+
+const handlers: Record<string, Handler> = {
+  getBalance(chain, params) {
+    const address = stringParam(params, 0, "pubkey");
+    return { context: context(chain), value: Number(chain.lamports(address)) };
+  },
+
+  getLatestBlockhash(chain) {
+    return { context: context(chain), value: chain.latestBlockhash() };
+  },
+
+  getBlockHeight(chain) {
+    return chain.blockHeight();
+  },
+
+  getSlot(chain) {
+    return chain.slot();
+  },
+
+  getSignatureStatuses(chain, params) {
+    const signatures = Array.isArray(params[0]) ? (params[0] as unknown[]) : [];
+    return {
+      context: context(chain),
+      value: signatures.map((signature) => {
+        const record = typeof signature === "string" ? chain.transaction(signature) : null;
+        if (!record) return null;
+        return { slot: record.slot, confirmations: null, err: null, status: { Ok: null }, confirmationStatus: "finalized" };
+      }),
+    };
+  },
+
+  sendTransaction(chain, params, programError) {
+    const tx = decodeTransaction(params);
+    const signature = tx.signatures[0];
+    if (!signature || signature.every((byte) => byte === 0)) {
+      throw new RpcError(-32003, "Transaction signature verification failure");
+    }
+    const existing = chain.transaction(encodeBase58(signature));
+    if (existing) return existing.signature;
+
+    const result = chain.execute(tx, programError);
+    if (!result.ok) {
+      const hex = `0x${result.failure.code.toString(16)}`;
+      throw new RpcError(
+        -32002,
+        `Transaction simulation failed: Error processing Instruction ${result.failure.instructionIndex}: custom program error: ${hex}`,
+        {
+          err: instructionError(result.failure),
+          logs: result.failure.logs,
+          accounts: null,
+          unitsConsumed: result.unitsConsumed,
+          returnData: null,
+        }
+      );
+    }
+    return chain.commit(tx, result).signature;
+  },
+
+  simulateTransaction(chain, params, programError) {
+    const tx = decodeTransaction(params);
+    const options = optionsOf(params, 1);
+    const accounts = (options.accounts ?? {}) as { addresses?: unknown; encoding?: unknown };
+    const addresses = Array.isArray(accounts.addresses) ? (accounts.addresses as string[]) : null;
+
+    const result = chain.execute(tx, programError);
+    if (!result.ok) {
+      return {
+        context: context(chain),
+        value: {
+          err: instructionError(result.failure),
+          logs: result.failure.logs,
+          accounts: addresses ? addresses.map(() => null) : null,
+          unitsConsumed: result.unitsConsumed,
+          returnData: null,
+        },
+      };
+    }
+    return {
+      context: context(chain),
+      value: {
+        err: null,
+        logs: result.logs,
+        accounts: addresses
+          ? addresses.map((address) => encodeAccount(chain.simulatedAccountView(address, result.post), "base64"))
+          : null,
+        unitsConsumed: result.unitsConsumed,
+        returnData: null,
+      },
+    };
+  },
+
+  getTransaction(chain, params) {
+    const signature = stringParam(params, 0, "signature");
+    const record = chain.transaction(signature);
+    if (!record) return null;
+    const encoding = optionsOf(params, 1).encoding;
+    if (encoding !== "jsonParsed") {
+      throw new RpcError(-32602, "Invalid params: only jsonParsed transactions are supported");
+    }
+    return {
+      slot: record.slot,
+      blockTime: record.blockTime,
+      version: 0,
+      transaction: {
+        signatures: [record.signature],
+        message: {
+          accountKeys: record.accountKeys,
+          instructions: record.instructions.map((ix) => ({ ...ix, stackHeight: null })),
+          recentBlockhash: record.recentBlockhash,
+          addressTableLookups: [],
+        },
+      },
+      meta: {
+        err: null,
+        status: { Ok: null },
+        fee: record.fee,
+        preBalances: record.preBalances,
+        postBalances: record.postBalances,
+        preTokenBalances: record.preTokenBalances,
+        postTokenBalances: record.postTokenBalances,
+        innerInstructions: [],
+        logMessages: record.logMessages,
+        rewards: [],
+        loadedAddresses: { writable: [], readonly: [] },
+        computeUnitsConsumed: record.computeUnitsConsumed,
+      },
+    };
+  },
+
+  getAccountInfo(chain, params) {
+    const address = stringParam(params, 0, "pubkey");
+    return { context: context(chain), value: encodeAccount(chain.accountView(address), optionsOf(params, 1).encoding) };
+  },
+
+  getMultipleAccounts(chain, params) {
+    const addresses = Array.isArray(params[0]) ? (params[0] as string[]) : [];
+    const encoding = optionsOf(params, 1).encoding;
+    return {
+      context: context(chain),
+      value: addresses.map((address) => encodeAccount(chain.accountView(address), encoding)),
+    };
+  },
+
+  // Serves getParsedTokenAccountsByOwner too; web3.js sends that as this
+  // method with encoding=jsonParsed.
+  getTokenAccountsByOwner(chain, params) {
+    const owner = stringParam(params, 0, "owner");
+    const filter = optionsOf(params, 1) as { programId?: string; mint?: string };
+    const encoding = optionsOf(params, 2).encoding;
+    return {
+      context: context(chain),
+      value: chain
+        .tokenAccountsByOwner(owner, filter)
+        .map(({ pubkey, account }) => ({ pubkey, account: encodeAccount(account, encoding) })),
+    };
+  },
+
+  getTokenAccountBalance(chain, params) {
+    const address = stringParam(params, 0, "account");
+    const account = chain.accountView(address);
+    const info = (account?.parsed?.parsed as { type?: string; info?: { tokenAmount?: unknown } } | undefined);
+    if (info?.type !== "account") {
+      throw new RpcError(-32602, "Invalid param: not a Token account");
+    }
+    return { context: context(chain), value: info.info?.tokenAmount };
+  },
+};
+
+// ---------------------------------------------------------------------------
+// Dispatch
+// ---------------------------------------------------------------------------
+
+function injectedError(rule: FailureRule, method: string): JsonRpcError {
+  return {
+    code: rule.code ?? -32005,
+    message: rule.message ?? `Injected failure for ${method}`,
+  };
+}
+
+function handleOne(chain: MockChain, request: JsonRpcRequest): RpcReply {
+  const id = request.id ?? null;
+  const method = typeof request.method === "string" ? request.method : "";
+  const params = Array.isArray(request.params) ? request.params : [];
+  chain.countCall(`rpc.${method}`);
+
+  // Program errors are not transport errors: they go through execute() so
+  // the transaction fails the way a real one would.
+  const rule = chain.failures.take(`rpc.${method}`);
+  if (rule && rule.programError === undefined) {
+    return { status: rule.status, body: { jsonrpc: "2.0", id, error: injectedError(rule, method) } };
+  }
+
+  const handler = handlers[method];
+  if (!handler) {
+    return { body: { jsonrpc: "2.0", id, error: { code: -32601, message: `Method not found: ${method}` } } };
+  }
+  try {
+    return { body: { jsonrpc: "2.0", id, result: handler(chain, params, rule?.programError ?? null) } };
+  } catch (e) {
+    const error: JsonRpcError =
+      e instanceof RpcError
+        ? { code: e.code, message: e.message, data: e.data }
+        : { code: -32603, message: e instanceof Error ? e.message : String(e) };
+    return { body: { jsonrpc: "2.0", id, error } };
+  }
+}
+
+export function handleRpc(chain: MockChain, payload: unknown): RpcReply {
+  if (Array.isArray(payload)) {
+    const replies = payload.map((request) => handleOne(chain, request as JsonRpcRequest));
+    const status = replies.find((reply) => reply.status)?.status;
+    return { status, body: replies.map((reply) => reply.body) };
+  }
+  return handleOne(chain, (payload ?? {}) as JsonRpcRequest);
+}
+
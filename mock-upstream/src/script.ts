@@ -0,0 +1,138 @@
+import { promises as fs } from "node:fs";
+
+export const SOL_MINT = "So11111111111111111111111111111111111111112";
+export const USDC_MINT = "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface MockToken {
+  mint: string;
+  symbol: string;
+  decimals: number;
+  program?: "token" | "token-2022";
+}
+
+// Price at virtual time t is path[floor(t / stepMs)], holding the last
+// value (or wrapping when `loop` is set) once the path runs out.
+export interface PricePath {
+  path: number[];
+  stepMs?: number;
+  loop?: boolean;
+}
+
+export interface MockWallet {
+  lamports?: string | number;
+  // mint → raw token amount
+  tokens?: Record<string, string | number>;
+}
+
+// target is "jupiter.quote" | "jupiter.swap" | "jupiter.price" or
+// "rpc.<method>"; a trailing "*" matches a prefix ("rpc.*").
+export interface FailureRule {
+  target: string;
+  // Probability per matching call (default 1).
+  rate?: number;
+  // Stop firing after this many injections.
+  times?: number;
+  // Let this many matching calls through before the rule arms.
+  afterCalls?: number;
+  // HTTP status for the whole response (Jupiter, or RPC transport errors).
+  status?: number;
+  // Custom program error code, e.g. 6001 (0x1771). Only meaningful for
+  // rpc.sendTransaction and rpc.simulateTransaction.
+  programError?: number;
+  // JSON-RPC error code when neither status nor programError is set.
+  code?: number;
+  message?: string;
+}
+
+export interface MockScript {
+  tokens?: MockToken[];
+  // mint → fixed USD price or a path
+  prices?: Record<string, number | PricePath>;
+  // address → starting balances
+  wallets?: Record<string, MockWallet>;
+  // Applied to every quote (reported as priceImpactPct).
+  priceImpactBps?: number;
+  // Landed output below the execution-time price, on top of price impact.
+  fillSlippageBps?: number;
+  feeLamports?: number;
+  failures?: FailureRule[];
+  // Pyth price update account → mint; served as a PriceUpdateV2 account
+  // carrying the mint's current price.
+  pythFeeds?: Record<string, string>;
+}
+
+export interface ResolvedScript {
+  tokens: Map<string, Required<MockToken>>;
+  prices: Map<string, Required<PricePath>>;
+  wallets: Record<string, MockWallet>;
+  priceImpactBps: number;
+  fillSlippageBps: number;
+  feeLamports: number;
+  failures: FailureRule[];
+  pythFeeds: Map<string, string>;
+}
+
+const DEFAULT_TOKENS: MockToken[] = [
+  { mint: SOL_MINT, symbol: "SOL", decimals: 9 },
+  { mint: USDC_MINT, symbol: "USDC", decimals: 6 },
+];
+
+const DEFAULT_PRICES: Record<string, number> = {
+  [SOL_MINT]: 150,
+  [USDC_MINT]: 1,
+};
+
+const DEFAULT_STEP_MS = 60_000;
+
+// ---------------------------------------------------------------------------
+// Loading
+// ---------------------------------------------------------------------------
+
+export function normalizePricePath(value: number | PricePath): Required<PricePath> {
+  if (typeof value === "number") {
+    return { path: [value], stepMs: DEFAULT_STEP_MS, loop: false };
+  }
+  const path = Array.isArray(value.path) ? value.path.map(Number).filter((n) => Number.isFinite(n) && n > 0) : [];
+  if (path.length === 0) {
+    throw new Error("Price path must contain at least one positive number");
+  }
+  const stepMs = Number(value.stepMs);
+  return {
+    path,
+    stepMs: Number.isFinite(stepMs) && stepMs > 0 ? stepMs : DEFAULT_STEP_MS,
+    loop: value.loop === true,
+  };
+}
+
+export function resolveScript(script: MockScript = {}): ResolvedScript {
+  const tokens = new Map<string, Required<MockToken>>();
+  for (const token of [...DEFAULT_TOKENS, ...(script.tokens ?? [])]) {
+    tokens.set(token.mint, { program: "token", ...token });
+  }
+
+  const prices = new Map<string, Required<PricePath>>();
+  for (const [mint, value] of Object.entries({ ...DEFAULT_PRICES, ...(script.prices ?? {}) })) {
+    prices.set(mint, normalizePricePath(value));
+  }
+
+  return {
+    tokens,
+    prices,
+    wallets: script.wallets ?? {},
+    priceImpactBps: Math.max(0, Number(script.priceImpactBps ?? 10)),
+    fillSlippageBps: Math.max(0, Number(script.fillSlippageBps ?? 0)),
+    feeLamports: Math.max(0, Math.floor(Number(script.feeLamports ?? 5000))),
+    failures: [...(script.failures ?? [])],
+    pythFeeds: new Map(Object.entries(script.pythFeeds ?? {})),
+  };
+}
+
+export async function loadScript(scriptPath: string): Promise<MockScript> {
+  if (!scriptPath) return {};
+  const raw = await fs.readFile(scriptPath, "utf8");
+  return JSON.parse(raw) as MockScript;
+}
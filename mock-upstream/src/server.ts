@@ -0,0 +1,160 @@
+import { createServer, type IncomingMessage, type ServerResponse } from "node:http";
+import { createMockChain, type MockChain } from "./chain.js";
+import { handleJupiter, isJupiterRoute, type HttpReply } from "./jupiter.js";
+import { createLogger } from "./logger.js";
+import { handleRpc } from "./rpc.js";
+import { resolveScript, type FailureRule, type MockScript, type MockToken, type MockWallet, type PricePath } from "./script.js";
+import { startPubsubServer } from "./ws.js";
+
+const log = createLogger("server");
+
+const CONTROL_PREFIX = "/__mock/";
+const MAX_BODY_BYTES = 5 * 1024 * 1024;
+
+export interface MockServer {
+  // Use as both SOLANA_RPC_URL and JUPITER_API_BASE_URL.
+  url: string;
+  chain: MockChain;
+  close(): Promise<void>;
+}
+
+export interface MockServerOptions {
+  port: number;
+  script?: MockScript;
+}
+
+// ---------------------------------------------------------------------------
+// HTTP plumbing
+// ---------------------------------------------------------------------------
+
+function readBody(req: IncomingMessage): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on("data", (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new Error("Request body too large"));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on("end", () => {
+      const raw = Buffer.concat(chunks).toString("utf8").trim();
+      if (!raw) return resolve(undefined);
+      try {
+        resolve(JSON.parse(raw));
+      } catch {
+        reject(new Error("Request body is not valid JSON"));
+      }
+    });
+    req.on("error", reject);
+  });
+}
+
+function writeJson(res: ServerResponse, reply: HttpReply): void {
+  res.writeHead(reply.status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(reply.body));
+}
+
+// ---------------------------------------------------------------------------
+// Control API — lets a test move prices, fund wallets and arm failures
+// while the runtime under test is running.
+// ---------------------------------------------------------------------------
+
+function handleControl(chain: MockChain, method: string, pathname: string, body: unknown): HttpReply {
+  const route = `${method} ${pathname.slice(CONTROL_PREFIX.length)}`;
+  switch (route) {
+    case "GET state":
+      return { status: 200, body: chain.snapshot() };
+    case "POST tokens": {
+      for (const token of (Array.isArray(body) ? body : []) as MockToken[]) chain.addToken(token);
+      return { status: 200, body: { ok: true } };
+    }
+    case "POST prices": {
+      for (const [mint, value] of Object.entries((body ?? {}) as Record<string, number | PricePath>)) {
+        chain.setPrice(mint, value);
+      }
+      return { status: 200, body: { ok: true, prices: chain.snapshot().prices } };
+    }
+    case "POST wallets": {
+      for (const [address, wallet] of Object.entries((body ?? {}) as Record<string, MockWallet>)) {
+        chain.fund(address, wallet);
+      }
+      return { status: 200, body: { ok: true } };
+    }
+    case "POST failures":
+      chain.failures.add((Array.isArray(body) ? body : [body]) as FailureRule[]);
+      return { status: 200, body: { ok: true, failures: chain.failures.list() } };
+    case "DELETE failures":
+      chain.failures.clear();
+      return { status: 200, body: { ok: true } };
+    case "POST advance": {
+      const ms = Number((body as { ms?: unknown } | undefined)?.ms ?? 0);
+      chain.advance(Number.isFinite(ms) ? ms : 0);
+      return { status: 200, body: { ok: true, nowMs: chain.nowMs() } };
+    }
+    default:
+      return { status: 404, body: { error: `No control route ${route}` } };
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Server
+// ---------------------------------------------------------------------------
+
+/**
+ * Start the mock on `port` (HTTP: Jupiter, JSON-RPC and control) and
+ * `port + 1` (RPC pubsub). Jupiter paths are matched exactly; any other
+ * POST is treated as JSON-RPC, whatever its path.
+ */
+export async function startMockServer(options: MockServerOptions): Promise<MockServer> {
+  const chain = createMockChain(resolveScript(options.script));
+
+  const server = createServer((req, res) => {
+    const method = req.method ?? "GET";
+    const url = new URL(req.url ?? "/", "http://127.0.0.1");
+
+    readBody(req)
+      .then((body) => {
+        if (url.pathname.startsWith(CONTROL_PREFIX)) {
+          writeJson(res, handleControl(chain, method, url.pathname, body));
+        } else if (isJupiterRoute(url.pathname)) {
+          writeJson(res, handleJupiter(chain, method, url, body));
+        } else if (method === "POST") {
+          const reply = handleRpc(chain, body);
+          writeJson(res, { status: reply.status ?? 200, body: reply.body });
+        } else {
+          writeJson(res, { status: 404, body: { error: `No route for ${method} ${url.pathname}` } });
+        }
+      })
+      .catch((e) => {
+        const message = e instanceof Error ? e.message : String(e);
+        log.warn(`${method} ${url.pathname} failed: ${message}`);
+        writeJson(res, { status: 400, body: { error: message } });
+      });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(options.port, "127.0.0.1", () => resolve());
+  });
+  const pubsub = await startPubsubServer(chain, options.port + 1).catch(async (e) => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+    throw e;
+  });
+
+  const url = `http://127.0.0.1:${options.port}`;
+  log.info(`Listening on ${url} (pubsub on port ${options.port + 1})`);
+
+  return {
+    url,
+    chain,
+    async close(): Promise<void> {
+      await pubsub.close();
+      server.closeAllConnections();
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    },
+  };
+}
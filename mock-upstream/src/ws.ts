@@ -0,0 +1,201 @@
+import { createHash } from "node:crypto";
+import { createServer, type IncomingMessage } from "node:http";
+import type { Duplex } from "node:stream";
+import type { MockChain } from "./chain.js";
+import { createLogger } from "./logger.js";
+
+const log = createLogger("ws");
+
+const WS_GUID = "258EAFA5-E914-47DA-95CA-C5AB0DC85B11";
+const NOTIFY_POLL_MS = 200;
+
+const OPCODE_TEXT = 0x1;
+const OPCODE_CLOSE = 0x8;
+const OPCODE_PING = 0x9;
+const OPCODE_PONG = 0xa;
+
+interface Subscription {
+  socket: Duplex;
+  signature: string;
+}
+
+// ---------------------------------------------------------------------------
+// Framing (RFC 6455, just enough for JSON-RPC text frames)
+// ---------------------------------------------------------------------------
+
+function encodeFrame(opcode: number, payload: Buffer): Buffer {
+  const length = payload.length;
+  let header: Buffer;
+  if (length < 126) {
+    header = Buffer.from([0x80 | opcode, length]);
+  } else if (length < 65_536) {
+    header = Buffer.alloc(4);
+    header[0] = 0x80 | opcode;
+    header[1] = 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x80 | opcode;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+  return Buffer.concat([header, payload]);
+}
+
+// Returns the frames complete in `buffer` plus whatever is left over.
+function decodeFrames(buffer: Buffer): { frames: Array<{ opcode: number; payload: Buffer }>; rest: Buffer } {
+  const frames: Array<{ opcode: number; payload: Buffer }> = [];
+  let offset = 0;
+  while (buffer.length - offset >= 2) {
+    const opcode = buffer[offset] & 0x0f;
+    const masked = (buffer[offset + 1] & 0x80) !== 0;
+    let length = buffer[offset + 1] & 0x7f;
+    let cursor = offset + 2;
+    if (length === 126) {
+      if (buffer.length < cursor + 2) break;
+      length = buffer.readUInt16BE(cursor);
+      cursor += 2;
+    } else if (length === 127) {
+      if (buffer.length < cursor + 8) break;
+      length = Number(buffer.readBigUInt64BE(cursor));
+      cursor += 8;
+    }
+    const maskLength = masked ? 4 : 0;
+    if (buffer.length < cursor + maskLength + length) break;
+    const mask = buffer.subarray(cursor, cursor + maskLength);
+    cursor += maskLength;
+    const payload = Buffer.from(buffer.subarray(cursor, cursor + length));
+    if (masked) {
+      for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i % 4];
+    }
+    frames.push({ opcode, payload });
+    offset = cursor + length;
+  }
+  return { frames, rest: buffer.subarray(offset) };
+}
+
+function send(socket: Duplex, message: unknown): void {
+  if (socket.destroyed) return;
+  socket.write(encodeFrame(OPCODE_TEXT, Buffer.from(JSON.stringify(message), "utf8")));
+}
+
+// ---------------------------------------------------------------------------
+// Server
+// ---------------------------------------------------------------------------
+
+/**
+ * The RPC pubsub endpoint. web3.js confirms transactions by subscribing
+ * to the signature, so signatureSubscribe is answered with a notification
+ * as soon as the signature is on the mock chain. Other subscriptions are
+ * acknowledged and stay silent.
+ */
+export function startPubsubServer(chain: MockChain, port: number): Promise<{ close(): Promise<void> }> {
+  const subscriptions = new Map<number, Subscription>();
+  const sockets = new Set<Duplex>();
+  let nextSubscriptionId = 1;
+
+  const notifyLanded = (): void => {
+    for (const [id, sub] of subscriptions) {
+      if (sub.socket.destroyed) {
+        subscriptions.delete(id);
+        continue;
+      }
+      const record = chain.transaction(sub.signature);
+      if (!record) continue;
+      send(sub.socket, {
+        jsonrpc: "2.0",
+        method: "signatureNotification",
+        params: { result: { context: { slot: record.slot }, value: { err: null } }, subscription: id },
+      });
+      subscriptions.delete(id);
+    }
+  };
+
+  const handleMessage = (socket: Duplex, text: string): void => {
+    let request: { id?: number | string; method?: string; params?: unknown[] };
+    try {
+      request = JSON.parse(text);
+    } catch {
+      return;
+    }
+    // Heartbeats ("ping" notifications) carry no id and need no reply.
+    if (request.id === undefined || request.id === null) return;
+
+    const method = request.method ?? "";
+    if (method.endsWith("Unsubscribe")) {
+      const id = Number(request.params?.[0]);
+      subscriptions.delete(id);
+      send(socket, { jsonrpc: "2.0", id: request.id, result: true });
+      return;
+    }
+    if (method.endsWith("Subscribe")) {
+      const id = nextSubscriptionId++;
+      if (method === "signatureSubscribe" && typeof request.params?.[0] === "string") {
+        subscriptions.set(id, { socket, signature: request.params[0] });
+      }
+      send(socket, { jsonrpc: "2.0", id: request.id, result: id });
+      notifyLanded();
+      return;
+    }
+    send(socket, { jsonrpc: "2.0", id: request.id, error: { code: -32601, message: `Method not found: ${method}` } });
+  };
+
+  const handleUpgrade = (req: IncomingMessage, socket: Duplex): void => {
+    const key = req.headers["sec-websocket-key"];
+    if (typeof key !== "string") {
+      socket.end("HTTP/1.1 400 Bad Request\r\n\r\n");
+      return;
+    }
+    const accept = createHash("sha1").update(key + WS_GUID).digest("base64");
+    socket.write(
+      "HTTP/1.1 101 Switching Protocols\r\n" +
+        "Upgrade: websocket\r\n" +
+        "Connection: Upgrade\r\n" +
+        `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+    );
+
+    sockets.add(socket);
+    socket.on("close", () => sockets.delete(socket));
+
+    let buffer: Buffer = Buffer.alloc(0);
+    socket.on("data", (chunk: Buffer) => {
+      const decoded = decodeFrames(Buffer.concat([buffer, chunk]));
+      buffer = decoded.rest;
+      for (const frame of decoded.frames) {
+        if (frame.opcode === OPCODE_TEXT) {
+          handleMessage(socket, frame.payload.toString("utf8"));
+        } else if (frame.opcode === OPCODE_PING) {
+          socket.write(encodeFrame(OPCODE_PONG, frame.payload));
+        } else if (frame.opcode === OPCODE_CLOSE) {
+          socket.end(encodeFrame(OPCODE_CLOSE, Buffer.alloc(0)));
+        }
+      }
+    });
+    socket.on("error", () => socket.destroy());
+  };
+
+  const server = createServer((_req, res) => {
+    res.writeHead(426, { "Content-Type": "text/plain" });
+    res.end("Upgrade Required");
+  });
+  server.on("upgrade", handleUpgrade);
+
+  const timer = setInterval(notifyLanded, NOTIFY_POLL_MS);
+  timer.unref();
+
+  // Upgraded sockets are no longer tracked by the HTTP server, so close()
+  // has to end them itself or it never resolves.
+  const close = (): Promise<void> => {
+    clearInterval(timer);
+    for (const socket of sockets) socket.destroy();
+    return new Promise((resolve) => server.close(() => resolve()));
+  };
+
+  return new Promise((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(port, "127.0.0.1", () => {
+      log.info(`Pubsub listening on ws://127.0.0.1:${port}`);
+      resolve({ close });
+    });
+  });
+}
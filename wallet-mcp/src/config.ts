@@ -1,4 +1,7 @@
 import "dotenv/config";
+import path from "node:path";
+import { isLedgerEventType } from "ledger";
+import type { LedgerRetention } from "ledger";
 
 function parseCsv(raw: string | undefined): string[] {
   return (raw ?? "")
@@ -18,6 +21,46 @@ function parsePositiveInteger(raw: string | undefined, fallback: number): number
   return value;
 }
 
+function parseSolAsLamports(raw: string | undefined): number {
+  const value = Number(raw);
+  if (!Number.isFinite(value) || value <= 0) return 0;
+  return Math.floor(value * 1_000_000_000);
+}
+
+function parseRate(raw: string | undefined, fallback: number): number {
+  const value = Number(raw);
+  if (!raw || !Number.isFinite(value) || value < 0 || value > 1) return fallback;
+  return value;
+}
+
+function parseNonNegativeNumber(raw: string | undefined, fallback: number): number {
+  const value = Number(raw);
+  if (!raw || !Number.isFinite(value) || value < 0) return fallback;
+  return value;
+}
+
+function parseNonNegativeInteger(raw: string | undefined, fallback = 0): number {
+  const value = Number(raw);
+  if (!raw || !Number.isInteger(value) || value < 0) return fallback;
+  return value;
+}
+
+// `type:days` pairs; types without a rule are kept forever.
+function parseRetention(raw: string | undefined): LedgerRetention {
+  const retention: LedgerRetention = {};
+  for (const item of parseCsv(raw)) {
+    const [type, days] = item.split(":").map((part) => part.trim());
+    const value = Number(days);
+    if (!isLedgerEventType(type) || !Number.isFinite(value) || value < 0) continue;
+    retention[type] = value;
+  }
+  return retention;
+}
+
+const ledgerPath =
+  parseOptional(process.env.WALLET_MCP_LEDGER_PATH) ??
+  "/tmp/cashcat-runtime/wallet-mcp/ledger.jsonl";
+
 export const config = {
   server: {
     name: "cashcat-wallet-mcp",
@@ -47,13 +90,78 @@ export const config = {
     ),
     allowedInputMints: parseCsv(process.env.WALLET_MCP_ALLOWED_INPUT_MINTS),
     allowedOutputMints: parseCsv(process.env.WALLET_MCP_ALLOWED_OUTPUT_MINTS),
+    // Extra programs and transfer destinations for wallet_sign_and_send,
+    // on top of the built-in allowlist and the wallet's own accounts.
+    allowedPrograms: parseCsv(process.env.WALLET_MCP_ALLOWED_PROGRAMS),
+    allowedDestinations: parseCsv(process.env.WALLET_MCP_ALLOWED_DESTINATIONS),
+  },
+  // Paper engine: virtual balances plus a fill model, so paper runs hit
+  // the same slippage/insufficient-funds paths as live ones.
+  paper: {
+    storePath:
+      parseOptional(process.env.WALLET_MCP_PAPER_PATH) ??
+      path.join(path.dirname(ledgerPath), "paper.json"),
+    startLamports: parseSolAsLamports(process.env.WALLET_MCP_PAPER_START_SOL) || 10_000_000_000,
+    slippageMeanBps: parseNonNegativeNumber(process.env.WALLET_MCP_PAPER_SLIPPAGE_MEAN_BPS, 10),
+    slippageStdDevBps: parseNonNegativeNumber(process.env.WALLET_MCP_PAPER_SLIPPAGE_STDDEV_BPS, 20),
+    minLatencyMs: parseNonNegativeInteger(process.env.WALLET_MCP_PAPER_MIN_LATENCY_MS, 400),
+    maxLatencyMs: parseNonNegativeInteger(process.env.WALLET_MCP_PAPER_MAX_LATENCY_MS, 1500),
+    failureRate: parseRate(process.env.WALLET_MCP_PAPER_FAILURE_RATE, 0.02),
+    baseFeeLamports: parseNonNegativeInteger(process.env.WALLET_MCP_PAPER_BASE_FEE_LAMPORTS, 5000),
+    priorityFeeLamports: parseNonNegativeInteger(
+      process.env.WALLET_MCP_PAPER_PRIORITY_FEE_LAMPORTS,
+      20000
+    ),
+  },
+  simulation: {
+    beforeSend: process.env.WALLET_MCP_SIMULATE_BEFORE_SEND !== "false",
+  },
+  policyFile: {
+    path: parseOptional(process.env.WALLET_MCP_POLICY_PATH) ?? "",
+    pollIntervalMs: parsePositiveInteger(process.env.WALLET_MCP_POLICY_POLL_MS, 2000),
+  },
+  // Stateful limits; 0 disables a limit. Notional is measured on the SOL
+  // leg of a swap (input for buys, quoted output for sells).
+  limits: {
+    maxTradeLamports: parseSolAsLamports(process.env.WALLET_MCP_MAX_TRADE_SOL),
+    maxHourlyLamports: parseSolAsLamports(process.env.WALLET_MCP_MAX_HOURLY_SOL),
+    maxDailyLamports: parseSolAsLamports(process.env.WALLET_MCP_MAX_DAILY_SOL),
+    maxSwapsPerHour: parseNonNegativeInteger(process.env.WALLET_MCP_MAX_SWAPS_PER_HOUR),
+    maxSwapsPerDay: parseNonNegativeInteger(process.env.WALLET_MCP_MAX_SWAPS_PER_DAY),
+    maxDailyLossLamports: parseSolAsLamports(process.env.WALLET_MCP_MAX_DAILY_LOSS_SOL),
+    storePath:
+      parseOptional(process.env.WALLET_MCP_LIMITS_PATH) ??
+      path.join(path.dirname(ledgerPath), "limits.json"),
+  },
+  lookupTables: {
+    cachePath:
+      parseOptional(process.env.WALLET_MCP_LOOKUP_TABLE_CACHE_PATH) ??
+      path.join(path.dirname(ledgerPath), "lookup-tables.json"),
+  },
+  // Durable intentId → status/txHash map that makes repeated execute and
+  // sign calls idempotent across agent retries and restarts.
+  intents: {
+    storePath:
+      parseOptional(process.env.WALLET_MCP_INTENTS_PATH) ??
+      path.join(path.dirname(ledgerPath), "intents.json"),
+    retentionDays: parsePositiveInteger(process.env.WALLET_MCP_INTENT_RETENTION_DAYS, 7),
   },
   quotes: {
     ttlSeconds: parsePositiveInteger(process.env.WALLET_MCP_QUOTE_TTL_SECONDS, 90),
   },
   ledger: {
-    path:
-      parseOptional(process.env.WALLET_MCP_LEDGER_PATH) ??
-      "/tmp/cashcat-runtime/wallet-mcp/ledger.jsonl",
+    path: ledgerPath,
+    // Signs a checkpoint every `checkpointEvery` events. Must not be the
+    // wallet key; unset disables checkpoints (the hash chain still applies).
+    hmacKey: parseOptional(process.env.WALLET_MCP_LEDGER_HMAC_KEY) ?? "",
+    checkpointEvery: parsePositiveInteger(process.env.WALLET_MCP_LEDGER_CHECKPOINT_EVERY, 100),
+    // The live file rotates at whichever limit comes first (0 disables one);
+    // rotated segments are gzipped and indexed next to it.
+    rotateMaxBytes: parseNonNegativeInteger(process.env.WALLET_MCP_LEDGER_ROTATE_MB, 50) * 1024 * 1024,
+    rotateMaxHours: parseNonNegativeNumber(process.env.WALLET_MCP_LEDGER_ROTATE_HOURS, 24),
+    retention: parseRetention(
+      parseOptional(process.env.WALLET_MCP_LEDGER_RETENTION) ??
+        "quote_issued:7,tx_checked:7,balance_checked:7,token_balances_checked:7"
+    ),
   },
 } as const;
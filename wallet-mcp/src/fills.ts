@@ -0,0 +1,108 @@
+import {
+  Connection,
+  PublicKey,
+  type ParsedTransactionWithMeta,
+} from "@solana/web3.js";
+
+const NATIVE_MINT = "So11111111111111111111111111111111111111112";
+
+const FETCH_ATTEMPTS = 5;
+const FETCH_RETRY_MS = 1_500;
+
+export interface ActualFill {
+  inputAmount: string;
+  outputAmount: string;
+  feeLamports: string;
+  rentLamports: string;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// A just-confirmed signature is not always served by getTransaction yet.
+async function fetchConfirmedTransaction(
+  conn: Connection,
+  txHash: string
+): Promise<ParsedTransactionWithMeta> {
+  for (let attempt = 1; attempt <= FETCH_ATTEMPTS; attempt++) {
+    const tx = await conn.getParsedTransaction(txHash, {
+      commitment: "confirmed",
+      maxSupportedTransactionVersion: 0,
+    });
+    if (tx?.meta) return tx;
+    if (attempt < FETCH_ATTEMPTS) await sleep(FETCH_RETRY_MS);
+  }
+  throw new Error(`Transaction ${txHash} not available after ${FETCH_ATTEMPTS} attempts`);
+}
+
+/**
+ * Derive what a confirmed swap actually moved for `owner` from the
+ * transaction's pre/post balances. SOL legs are measured on the owner's
+ * lamports with the network fee and any new token-account rent added back,
+ * plus the wSOL account delta when the wallet keeps a persistent wSOL ATA.
+ */
+export async function computeActualFill(
+  conn: Connection,
+  txHash: string,
+  owner: PublicKey,
+  inputMint: string,
+  outputMint: string
+): Promise<ActualFill> {
+  const tx = await fetchConfirmedTransaction(conn, txHash);
+  const meta = tx.meta!;
+  if (meta.err) {
+    throw new Error(`Transaction ${txHash} failed on-chain: ${JSON.stringify(meta.err)}`);
+  }
+
+  const ownerAddress = owner.toBase58();
+  const keys = tx.transaction.message.accountKeys.map((k) => k.pubkey.toBase58());
+  const ownerIndex = keys.indexOf(ownerAddress);
+  if (ownerIndex < 0) {
+    throw new Error(`Wallet ${ownerAddress} is not part of transaction ${txHash}`);
+  }
+
+  const pre = (meta.preTokenBalances ?? []).filter((b) => b.owner === ownerAddress);
+  const post = (meta.postTokenBalances ?? []).filter((b) => b.owner === ownerAddress);
+
+  const tokenDelta = (mint: string): bigint => {
+    const sum = (rows: typeof pre) =>
+      rows
+        .filter((b) => b.mint === mint)
+        .reduce((acc, b) => acc + BigInt(b.uiTokenAmount.amount), 0n);
+    return sum(post) - sum(pre);
+  };
+
+  // Token accounts that only exist after the tx were created by it; their
+  // rent is paid from the wallet but is not part of the swap.
+  const preIndexes = new Set(pre.map((b) => b.accountIndex));
+  let rentLamports = 0n;
+  for (const b of post) {
+    if (preIndexes.has(b.accountIndex)) continue;
+    rentLamports += BigInt(meta.postBalances[b.accountIndex] ?? 0) - BigInt(meta.preBalances[b.accountIndex] ?? 0);
+  }
+
+  const feeLamports = BigInt(meta.fee);
+  const lamportDelta =
+    BigInt(meta.postBalances[ownerIndex]) - BigInt(meta.preBalances[ownerIndex]) + feeLamports + rentLamports;
+
+  const mintDelta = (mint: string): bigint =>
+    mint === NATIVE_MINT ? lamportDelta + tokenDelta(mint) : tokenDelta(mint);
+
+  const inputDelta = mintDelta(inputMint);
+  const outputDelta = mintDelta(outputMint);
+
+  return {
+    inputAmount: (inputDelta < 0n ? -inputDelta : 0n).toString(),
+    outputAmount: (outputDelta > 0n ? outputDelta : 0n).toString(),
+    feeLamports: feeLamports.toString(),
+    rentLamports: rentLamports.toString(),
+  };
+}
+
+// Positive when the fill came in under the quote; in basis points of the quote.
+export function realizedSlippageBps(quotedOut: string, actualOut: string): number | null {
+  const quoted = BigInt(quotedOut);
+  if (quoted <= 0n) return null;
+  return Number(((quoted - BigInt(actualOut)) * 10_000n) / quoted);
+}
@@ -1,15 +1,19 @@
 import { config } from "./config.js";
-import { appendLedgerEvent } from "./ledger.js";
+import { claimIntent, completeIntent, initIntentRegistry, replayResult } from "./intents.js";
+import { appendLedgerEvent, checkpointKeyProblem, maintainLedger } from "./ledger.js";
+import { getSpendingHeadroom, initSpendingLimits } from "./limits.js";
 import { createLogger } from "./logger.js";
-import { isValidMint, validateSwapPolicy } from "./policy.js";
+import { getPolicy, initPolicy, isValidMint, validateSwapPolicy, validateToolPolicy } from "./policy.js";
 import {
   executeSwap,
   getBalance,
   getQuote,
   getStoredQuote,
+  getTokenBalances,
   getTransactionStatus,
   getWalletAddress,
   signAndSendTransaction,
+  simulateTransaction,
 } from "./solana.js";
 
 const log = createLogger("server");
@@ -58,6 +62,20 @@ const tools = [
       additionalProperties: false,
     },
   },
+  {
+    name: "wallet_get_token_balances",
+    description:
+      "List SPL and Token-2022 accounts for account (or server wallet when omitted): mint, raw amount, decimals, ATA address and frozen flag.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        chain: { type: "string", enum: ["solana"] },
+        account: { type: "string" },
+      },
+      required: ["chain"],
+      additionalProperties: false,
+    },
+  },
   {
     name: "wallet_get_quote",
     description: "Get a Jupiter swap quote and return quoteId.",
@@ -77,7 +95,7 @@ const tools = [
   {
     name: "wallet_execute_swap",
     description:
-      "Execute a swap by quoteId, or with full params when quoteId is omitted.",
+      "Execute a swap by quoteId, or with full params when quoteId is omitted. Idempotent per intentId: a repeated intentId returns the recorded result instead of swapping again.",
     inputSchema: {
       type: "object",
       properties: {
@@ -89,7 +107,7 @@ const tools = [
         amountLamports: { type: "integer", minimum: 1 },
         slippageBps: { type: "integer", minimum: 1 },
       },
-      required: ["chain"],
+      required: ["chain", "intentId"],
       additionalProperties: false,
     },
   },
@@ -109,7 +127,7 @@ const tools = [
   {
     name: "wallet_sign_and_send",
     description:
-      "Sign and send a pre-built transaction (base64-encoded VersionedTransaction).",
+      "Sign and send a pre-built transaction (base64-encoded VersionedTransaction). Instructions are decoded and checked against the program and destination allowlists first; the decoded summary is returned and logged. Idempotent per intentId.",
     inputSchema: {
       type: "object",
       properties: {
@@ -122,9 +140,24 @@ const tools = [
       additionalProperties: false,
     },
   },
+  {
+    name: "wallet_simulate",
+    description:
+      "Simulate a base64-encoded VersionedTransaction without sending it. Returns compute units, logs, decoded program error and balance deltas.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        chain: { type: "string", enum: ["solana"] },
+        intentId: { type: "string" },
+        transaction: { type: "string" },
+      },
+      required: ["chain", "transaction"],
+      additionalProperties: false,
+    },
+  },
   {
     name: "wallet_get_policy",
-    description: "Return current runtime policy and mode.",
+    description: "Return current runtime policy, mode and remaining spending headroom.",
     inputSchema: {
       type: "object",
       properties: {
@@ -216,6 +249,12 @@ async function callTool(request: ToolCallRequest): Promise<{
       const result = await getBalance(account);
       return { content: [{ type: "text", text: JSON.stringify(result) }] };
     }
+    case "wallet_get_token_balances": {
+      ensureSolanaChain(args);
+      const account = readOptionalString(args, "account");
+      const result = await getTokenBalances(account);
+      return { content: [{ type: "text", text: JSON.stringify(result) }] };
+    }
     case "wallet_get_quote": {
       ensureSolanaChain(args);
       const inputMint = readRequiredString(args, "inputMint");
@@ -254,7 +293,7 @@ async function callTool(request: ToolCallRequest): Promise<{
     }
     case "wallet_execute_swap": {
       ensureSolanaChain(args);
-      const intentId = readOptionalString(args, "intentId");
+      const intentId = readRequiredString(args, "intentId");
       const quoteId = readOptionalString(args, "quoteId");
 
       if (quoteId) {
@@ -282,7 +321,7 @@ async function callTool(request: ToolCallRequest): Promise<{
         });
         if (policyRejection) {
           await appendLedgerEvent("swap_rejected", {
-            intentId: intentId ?? "n/a",
+            intentId,
             quoteId,
             reason: policyRejection,
           });
@@ -297,7 +336,12 @@ async function callTool(request: ToolCallRequest): Promise<{
           };
         }
 
+        const prior = await claimIntent(intentId, "wallet_execute_swap");
+        if (prior) {
+          return { content: [{ type: "text", text: JSON.stringify(replayResult(prior)) }] };
+        }
         const result = await executeSwap({ intentId, quoteId });
+        await completeIntent(intentId, result);
         return { content: [{ type: "text", text: JSON.stringify(result) }] };
       }
 
@@ -314,7 +358,7 @@ async function callTool(request: ToolCallRequest): Promise<{
       });
       if (policyRejection) {
         await appendLedgerEvent("swap_rejected", {
-          intentId: intentId ?? "n/a",
+          intentId,
           reason: policyRejection,
           inputMint,
           outputMint,
@@ -332,6 +376,10 @@ async function callTool(request: ToolCallRequest): Promise<{
         };
       }
 
+      const prior = await claimIntent(intentId, "wallet_execute_swap");
+      if (prior) {
+        return { content: [{ type: "text", text: JSON.stringify(replayResult(prior)) }] };
+      }
       const result = await executeSwap({
         intentId,
         quoteRequest: {
@@ -341,6 +389,7 @@ async function callTool(request: ToolCallRequest): Promise<{
           slippageBps,
         },
       });
+      await completeIntent(intentId, result);
       return { content: [{ type: "text", text: JSON.stringify(result) }] };
     }
     case "wallet_sign_and_send": {
@@ -348,11 +397,45 @@ async function callTool(request: ToolCallRequest): Promise<{
       const intentId = readRequiredString(args, "intentId");
       const transaction = readRequiredString(args, "transaction");
       const description = readRequiredString(args, "description");
+
+      const policyRejection = validateToolPolicy("wallet_sign_and_send");
+      if (policyRejection) {
+        await appendLedgerEvent("tx_rejected", {
+          intentId,
+          reason: policyRejection,
+          description,
+        });
+        return {
+          isError: true,
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({ status: "rejected", reason: policyRejection }),
+            },
+          ],
+        };
+      }
+
+      const prior = await claimIntent(intentId, "wallet_sign_and_send");
+      if (prior) {
+        return { content: [{ type: "text", text: JSON.stringify(replayResult(prior)) }] };
+      }
       const result = await signAndSendTransaction({
         intentId,
         transaction,
         description,
       });
+      await completeIntent(intentId, result);
+      return {
+        isError: result.status === "rejected",
+        content: [{ type: "text", text: JSON.stringify(result) }],
+      };
+    }
+    case "wallet_simulate": {
+      ensureSolanaChain(args);
+      const intentId = readOptionalString(args, "intentId");
+      const transaction = readRequiredString(args, "transaction");
+      const result = await simulateTransaction({ intentId, transaction });
       return { content: [{ type: "text", text: JSON.stringify(result) }] };
     }
     case "wallet_get_tx": {
@@ -368,7 +451,17 @@ async function callTool(request: ToolCallRequest): Promise<{
         chain: "solana",
         mode: config.paperTrade ? "paper" : "live",
         wallet,
-        policy: config.policy,
+        policy: getPolicy(),
+        policyPath: config.policyFile.path || null,
+        limits: {
+          maxTradeLamports: config.limits.maxTradeLamports,
+          maxHourlyLamports: config.limits.maxHourlyLamports,
+          maxDailyLamports: config.limits.maxDailyLamports,
+          maxSwapsPerHour: config.limits.maxSwapsPerHour,
+          maxSwapsPerDay: config.limits.maxSwapsPerDay,
+          maxDailyLossLamports: config.limits.maxDailyLossLamports,
+        },
+        headroom: getSpendingHeadroom(),
         quoteTtlSeconds: config.quotes.ttlSeconds,
         ledgerPath: config.ledger.path,
       };
@@ -492,10 +585,33 @@ async function main(): Promise<void> {
     `Starting ${config.server.name} v${config.server.version} (mode=${config.paperTrade ? "paper" : "live"
     })`
   );
+  try {
+    await initPolicy();
+  } catch (error) {
+    log.error("Failed to load policy file", error);
+  }
+  const policy = getPolicy();
   log.info(
-    `Policy killSwitch=${config.policy.killSwitch} maxSlippage=${config.policy.maxSlippageBps}`
+    `Policy source=${policy.source} killSwitch=${policy.killSwitch} maxSlippage=${policy.tools.wallet_execute_swap.maxSlippageBps}`
   );
 
+  if (checkpointKeyProblem) log.warn(checkpointKeyProblem);
+
+  // Compressing a backlog of segments must not hold up the first requests.
+  void maintainLedger().catch((error) => log.error("Failed to maintain ledger archive", error));
+
+  try {
+    await initSpendingLimits();
+  } catch (error) {
+    log.error("Failed to rebuild spending counters", error);
+  }
+
+  try {
+    await initIntentRegistry();
+  } catch (error) {
+    log.error("Failed to load intent registry", error);
+  }
+
   process.stdin.on("data", (chunk: Buffer) => {
     readBuffer = Buffer.concat([readBuffer, chunk]);
     consumeFrames();
@@ -0,0 +1,499 @@
+import { createHash } from "node:crypto";
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import {
+  Connection,
+  LAMPORTS_PER_SOL,
+  PublicKey,
+  VersionedTransaction,
+} from "@solana/web3.js";
+import { config } from "./config.js";
+import { createLogger } from "./logger.js";
+
+const log = createLogger("inspect");
+
+const SYSTEM_PROGRAM_ID = "11111111111111111111111111111111";
+const COMPUTE_BUDGET_PROGRAM_ID = "ComputeBudget111111111111111111111111111111";
+export const TOKEN_PROGRAM_ID = "TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA";
+export const TOKEN_2022_PROGRAM_ID = "TokenzQdBNbLqP5VEhdkAS6EHPk5v5gQ1WuFTKPBo1k";
+const ATA_PROGRAM_ID = "ATokenGPvbdGVxr1b2hvZbsiqW5xWH25efTNsLJA8knL";
+const JUPITER_PROGRAM_ID = "JUP6LkbZbjS1jKKwapdHNy74zcZ3tLUZoi5QNyVTaV4";
+const DRIFT_PROGRAM_ID = "dRiftyHA39MWEi3m9aunc5MzRF1JYuBsbn6VPcn33UH";
+
+// Programs wallet_sign_and_send may invoke without extra policy entries.
+// System is included so SOL transfers can be checked rather than blanket-denied.
+const BUILTIN_PROGRAMS: Record<string, string> = {
+  [SYSTEM_PROGRAM_ID]: "System",
+  [COMPUTE_BUDGET_PROGRAM_ID]: "ComputeBudget",
+  [TOKEN_PROGRAM_ID]: "Token",
+  [TOKEN_2022_PROGRAM_ID]: "Token2022",
+  [ATA_PROGRAM_ID]: "AssociatedToken",
+  [JUPITER_PROGRAM_ID]: "Jupiter",
+  [DRIFT_PROGRAM_ID]: "Drift",
+};
+
+const TOKEN_ACCOUNT_MIN_LENGTH = 165;
+
+export interface InspectionRules {
+  allowedPrograms: string[];
+  allowedDestinations: string[];
+}
+
+export interface DecodedInstruction {
+  index: number;
+  programId: string;
+  program: string;
+  name: string;
+  detail?: string;
+}
+
+export interface TransactionInspection {
+  feePayer: string;
+  instructions: DecodedInstruction[];
+  summary: string[];
+  violations: string[];
+  unresolvedLookupTables: string[];
+}
+
+// ---------------------------------------------------------------------------
+// Address lookup tables
+// ---------------------------------------------------------------------------
+
+// Lookup tables are append-only, so a cached table stays valid for every
+// index it already covers. Only tables we have never seen (or that grew past
+// the indexes a message uses) need an RPC round trip.
+let lookupTableCache: Map<string, string[]> | null = null;
+
+async function loadLookupTableCache(): Promise<Map<string, string[]>> {
+  if (lookupTableCache) return lookupTableCache;
+  lookupTableCache = new Map();
+  try {
+    const raw = JSON.parse(await fs.readFile(config.lookupTables.cachePath, "utf8")) as Record<
+      string,
+      string[]
+    >;
+    for (const [key, addresses] of Object.entries(raw)) {
+      if (Array.isArray(addresses)) lookupTableCache.set(key, addresses);
+    }
+  } catch {
+    // first run or unreadable cache: start empty
+  }
+  return lookupTableCache;
+}
+
+async function persistLookupTableCache(cache: Map<string, string[]>): Promise<void> {
+  await fs.mkdir(path.dirname(config.lookupTables.cachePath), { recursive: true });
+  await fs.writeFile(
+    config.lookupTables.cachePath,
+    JSON.stringify(Object.fromEntries(cache)),
+    "utf8"
+  );
+}
+
+async function resolveLookupTable(
+  conn: Connection,
+  key: string,
+  maxIndex: number
+): Promise<string[] | null> {
+  const cache = await loadLookupTableCache();
+  const cached = cache.get(key);
+  if (cached && cached.length > maxIndex) return cached;
+
+  try {
+    const response = await conn.getAddressLookupTable(new PublicKey(key));
+    if (!response.value) return null;
+    const addresses = response.value.state.addresses.map((a) => a.toBase58());
+    cache.set(key, addresses);
+    await persistLookupTableCache(cache).catch((e) => {
+      log.warn(`Could not persist lookup table cache: ${e instanceof Error ? e.message : String(e)}`);
+    });
+    return addresses.length > maxIndex ? addresses : null;
+  } catch (e) {
+    log.warn(`Lookup table ${key} unavailable: ${e instanceof Error ? e.message : String(e)}`);
+    return null;
+  }
+}
+
+// Full account key list in message order: static keys, then every table's
+// writable indexes, then every table's readonly indexes. Keys behind a table
+// we could not resolve are null.
+async function resolveAccountKeys(
+  conn: Connection,
+  transaction: VersionedTransaction,
+  unresolved: string[]
+): Promise<(string | null)[]> {
+  const message = transaction.message;
+  const keys: (string | null)[] = message.staticAccountKeys.map((k) => k.toBase58());
+  const lookups = message.addressTableLookups;
+
+  const tables = await Promise.all(
+    lookups.map((lookup) => {
+      const maxIndex = Math.max(-1, ...lookup.writableIndexes, ...lookup.readonlyIndexes);
+      return resolveLookupTable(conn, lookup.accountKey.toBase58(), maxIndex);
+    })
+  );
+
+  lookups.forEach((lookup, i) => {
+    if (!tables[i]) unresolved.push(lookup.accountKey.toBase58());
+  });
+  lookups.forEach((lookup, i) => {
+    for (const idx of lookup.writableIndexes) keys.push(tables[i]?.[idx] ?? null);
+  });
+  lookups.forEach((lookup, i) => {
+    for (const idx of lookup.readonlyIndexes) keys.push(tables[i]?.[idx] ?? null);
+  });
+
+  return keys;
+}
+
+// ---------------------------------------------------------------------------
+// Instruction decoders
+// ---------------------------------------------------------------------------
+
+function anchorDiscriminator(name: string): string {
+  return createHash("sha256").update(`global:${name}`).digest().subarray(0, 8).toString("hex");
+}
+
+function discriminatorTable(names: string[]): Map<string, string> {
+  return new Map(names.map((name) => [anchorDiscriminator(name), name]));
+}
+
+// The decoded names are also the allowlist: any other discriminator for
+// these programs (e.g. Drift update_user_delegate, which hands trading to
+// another key) is rejected.
+const DRIFT_INSTRUCTIONS = discriminatorTable([
+  "initialize_user",
+  "initialize_user_stats",
+  "deposit",
+  "withdraw",
+  "transfer_deposit",
+  "place_perp_order",
+  "place_and_take_perp_order",
+  "place_spot_order",
+  "place_orders",
+  "cancel_order",
+  "cancel_orders",
+  "modify_order",
+  "settle_pnl",
+]);
+
+const JUPITER_INSTRUCTIONS = discriminatorTable([
+  "route",
+  "route_with_token_ledger",
+  "exact_out_route",
+  "shared_accounts_route",
+  "shared_accounts_route_with_token_ledger",
+  "shared_accounts_exact_out_route",
+  "route_v2",
+  "exact_out_route_v2",
+  "shared_accounts_route_v2",
+  "shared_accounts_exact_out_route_v2",
+  "create_token_account",
+  "set_token_ledger",
+]);
+
+// Jupiter instructions that move no output; every other decoded name must
+// have a destination layout below.
+const JUPITER_SETUP_INSTRUCTIONS: ReadonlySet<string> = new Set(["create_token_account", "set_token_ledger"]);
+
+// Where each Jupiter route variant sends its output, per the v6 IDL.
+// Non-shared routes take an optional destination at index 4 (the program id
+// stands in for None) and fall back to the user's account at index 3. The
+// v2 routes drop the token-program account in front, moving every account
+// down one, and route_v2 also gains a `source_mint` before
+// `destination_mint` (exact_out_route had one already), so both keep the
+// destination mint at index 5.
+const JUPITER_ROUTE_ACCOUNTS: Record<string, { destination: number; fallback?: number; mint: number }> = {
+  route: { destination: 4, fallback: 3, mint: 5 },
+  route_with_token_ledger: { destination: 4, fallback: 3, mint: 5 },
+  exact_out_route: { destination: 4, fallback: 3, mint: 6 },
+  shared_accounts_route: { destination: 6, mint: 8 },
+  shared_accounts_route_with_token_ledger: { destination: 6, mint: 8 },
+  shared_accounts_exact_out_route: { destination: 6, mint: 8 },
+  route_v2: { destination: 3, fallback: 2, mint: 5 },
+  exact_out_route_v2: { destination: 3, fallback: 2, mint: 5 },
+  shared_accounts_route_v2: { destination: 5, mint: 7 },
+  shared_accounts_exact_out_route_v2: { destination: 5, mint: 7 },
+};
+
+// Drift withdraw: [state, user, userStats, authority, spotMarketVault, driftSigner, userTokenAccount, tokenProgram]
+const DRIFT_WITHDRAW_DESTINATION = 6;
+
+const COMPUTE_BUDGET_INSTRUCTIONS: Record<number, string> = {
+  0: "RequestUnits",
+  1: "RequestHeapFrame",
+  2: "SetComputeUnitLimit",
+  3: "SetComputeUnitPrice",
+  4: "SetLoadedAccountsDataSizeLimit",
+};
+
+const SYSTEM_INSTRUCTIONS: Record<number, string> = {
+  0: "CreateAccount",
+  1: "Assign",
+  2: "Transfer",
+  3: "CreateAccountWithSeed",
+  4: "AdvanceNonceAccount",
+  5: "WithdrawNonceAccount",
+  6: "InitializeNonceAccount",
+  7: "AuthorizeNonceAccount",
+  8: "Allocate",
+  9: "AllocateWithSeed",
+  10: "AssignWithSeed",
+  11: "TransferWithSeed",
+  12: "UpgradeNonceAccount",
+};
+
+const TOKEN_INSTRUCTIONS: Record<number, string> = {
+  0: "InitializeMint",
+  1: "InitializeAccount",
+  2: "InitializeMultisig",
+  3: "Transfer",
+  4: "Approve",
+  5: "Revoke",
+  6: "SetAuthority",
+  7: "MintTo",
+  8: "Burn",
+  9: "CloseAccount",
+  10: "FreezeAccount",
+  11: "ThawAccount",
+  12: "TransferChecked",
+  13: "ApproveChecked",
+  14: "MintToChecked",
+  15: "BurnChecked",
+  16: "InitializeAccount2",
+  17: "SyncNative",
+  18: "InitializeAccount3",
+  22: "InitializeImmutableOwner",
+};
+
+// Token instructions that cannot move funds to a third party (Transfer,
+// TransferChecked and CloseAccount are allowed separately with a
+// destination check). Approve/SetAuthority would hand control away.
+const SAFE_TOKEN_INSTRUCTIONS = new Set([1, 5, 16, 17, 18, 22]);
+
+function readU64(data: Uint8Array, offset: number): bigint | null {
+  if (data.length < offset + 8) return null;
+  return Buffer.from(data).readBigUInt64LE(offset);
+}
+
+function readU32(data: Uint8Array, offset: number): number | null {
+  if (data.length < offset + 4) return null;
+  return Buffer.from(data).readUInt32LE(offset);
+}
+
+function shortAddress(address: string | null): string {
+  if (!address) return "<unresolved>";
+  return `${address.slice(0, 4)}..${address.slice(-4)}`;
+}
+
+function formatSol(lamports: bigint): string {
+  return `${Number(lamports) / LAMPORTS_PER_SOL} SOL`;
+}
+
+export function associatedTokenAddress(
+  owner: PublicKey,
+  mint: PublicKey,
+  tokenProgramId: string
+): string {
+  return PublicKey.findProgramAddressSync(
+    [owner.toBuffer(), new PublicKey(tokenProgramId).toBuffer(), mint.toBuffer()],
+    new PublicKey(ATA_PROGRAM_ID)
+  )[0].toBase58();
+}
+
+function findOwnerAta(owner: PublicKey, mint: string): string[] {
+  let mintKey: PublicKey;
+  try {
+    mintKey = new PublicKey(mint);
+  } catch {
+    return [];
+  }
+  return [TOKEN_PROGRAM_ID, TOKEN_2022_PROGRAM_ID].map((programId) =>
+    associatedTokenAddress(owner, mintKey, programId)
+  );
+}
+
+// ---------------------------------------------------------------------------
+// inspectTransaction
+// ---------------------------------------------------------------------------
+
+/**
+ * Decode a transaction's top-level instructions, check each program id
+ * against the allowlist and each SOL/token destination against the owner's
+ * own accounts plus `allowedDestinations`. RPC is only used for lookup
+ * tables missing from the local cache and for token destinations whose
+ * owner cannot be derived from the message itself.
+ */
+export async function inspectTransaction(
+  conn: Connection,
+  transaction: VersionedTransaction,
+  owner: PublicKey,
+  rules: InspectionRules
+): Promise<TransactionInspection> {
+  const message = transaction.message;
+  const ownerAddress = owner.toBase58();
+  const feePayer = message.staticAccountKeys[0]?.toBase58() ?? "";
+  const unresolvedLookupTables: string[] = [];
+  const keys = await resolveAccountKeys(conn, transaction, unresolvedLookupTables);
+
+  const allowedPrograms = new Set([...Object.keys(BUILTIN_PROGRAMS), ...rules.allowedPrograms]);
+  const ownAccounts = new Set([ownerAddress, ...rules.allowedDestinations]);
+
+  // ATAs created for the owner in this transaction count as own accounts.
+  for (const ix of message.compiledInstructions) {
+    if (keys[ix.programIdIndex] !== ATA_PROGRAM_ID) continue;
+    const ata = keys[ix.accountKeyIndexes[1]];
+    const wallet = keys[ix.accountKeyIndexes[2]];
+    if (ata && wallet === ownerAddress) ownAccounts.add(ata);
+  }
+
+  const violations: string[] = [];
+  const instructions: DecodedInstruction[] = [];
+  // Token accounts whose owner has to be read from chain.
+  const pendingTokenDestinations = new Map<string, string>();
+
+  if (feePayer !== ownerAddress) {
+    violations.push(`fee payer ${feePayer} is not the wallet`);
+  }
+
+  const checkSolDestination = (address: string | null, where: string): void => {
+    if (!address) {
+      violations.push(`${where}: destination is in an unresolved lookup table`);
+    } else if (!ownAccounts.has(address)) {
+      violations.push(`${where}: destination ${address} is not allowlisted`);
+    }
+  };
+
+  const checkTokenDestination = (address: string | null, mint: string | null, where: string): void => {
+    if (!address) {
+      violations.push(`${where}: destination is in an unresolved lookup table`);
+      return;
+    }
+    if (ownAccounts.has(address)) return;
+    if (mint && findOwnerAta(owner, mint).includes(address)) return;
+    pendingTokenDestinations.set(address, where);
+  };
+
+  message.compiledInstructions.forEach((ix, index) => {
+    const programId = keys[ix.programIdIndex] ?? "";
+    const program = BUILTIN_PROGRAMS[programId] ?? shortAddress(programId);
+    const account = (i: number): string | null => {
+      const keyIndex = ix.accountKeyIndexes[i];
+      return keyIndex === undefined ? null : keys[keyIndex] ?? null;
+    };
+    const data = ix.data;
+    const where = `#${index} ${program}`;
+    let name = "unknown";
+    let detail: string | undefined;
+
+    if (!allowedPrograms.has(programId)) {
+      violations.push(`${where}: program ${programId} is not allowlisted`);
+    }
+
+    switch (programId) {
+      case COMPUTE_BUDGET_PROGRAM_ID: {
+        name = COMPUTE_BUDGET_INSTRUCTIONS[data[0]] ?? name;
+        if (data[0] === 2) detail = `units=${readU32(data, 1)}`;
+        if (data[0] === 3) detail = `microLamports=${readU64(data, 1)}`;
+        break;
+      }
+      case SYSTEM_PROGRAM_ID: {
+        const tag = readU32(data, 0);
+        name = tag === null ? name : SYSTEM_INSTRUCTIONS[tag] ?? name;
+        if (tag === 2) {
+          const lamports = readU64(data, 4) ?? 0n;
+          detail = `${formatSol(lamports)} -> ${shortAddress(account(1))}`;
+          checkSolDestination(account(1), `${where}.Transfer`);
+        } else {
+          violations.push(`${where}.${name} is not allowed`);
+        }
+        break;
+      }
+      case TOKEN_PROGRAM_ID:
+      case TOKEN_2022_PROGRAM_ID: {
+        const tag = data[0];
+        name = TOKEN_INSTRUCTIONS[tag] ?? `instruction ${tag}`;
+        if (tag === 3) {
+          detail = `${readU64(data, 1)} raw -> ${shortAddress(account(1))}`;
+          checkTokenDestination(account(1), null, `${where}.Transfer`);
+        } else if (tag === 12) {
+          detail = `${readU64(data, 1)} raw (mint ${shortAddress(account(1))}) -> ${shortAddress(account(2))}`;
+          checkTokenDestination(account(2), account(1), `${where}.TransferChecked`);
+        } else if (tag === 9) {
+          detail = `${shortAddress(account(0))}, rent -> ${shortAddress(account(1))}`;
+          checkSolDestination(account(1), `${where}.CloseAccount`);
+        } else if (!SAFE_TOKEN_INSTRUCTIONS.has(tag)) {
+          violations.push(`${where}.${name} is not allowed`);
+        }
+        break;
+      }
+      case ATA_PROGRAM_ID: {
+        const tag = data.length === 0 ? 0 : data[0];
+        name = tag === 0 ? "Create" : tag === 1 ? "CreateIdempotent" : "RecoverNested";
+        if (tag > 1) {
+          violations.push(`${where}.${name} is not allowed`);
+        } else {
+          detail = `${shortAddress(account(1))} for ${shortAddress(account(2))}`;
+          checkSolDestination(account(2), `${where}.${name}`);
+        }
+        break;
+      }
+      case DRIFT_PROGRAM_ID: {
+        const discriminator = Buffer.from(data.subarray(0, 8)).toString("hex");
+        name = DRIFT_INSTRUCTIONS.get(discriminator) ?? name;
+        if (name === "unknown") {
+          violations.push(`${where}: instruction ${discriminator} is not allowed`);
+        } else if (name === "withdraw") {
+          detail = `amount=${readU64(data, 10)} -> ${shortAddress(account(DRIFT_WITHDRAW_DESTINATION))}`;
+          checkTokenDestination(account(DRIFT_WITHDRAW_DESTINATION), null, `${where}.withdraw`);
+        }
+        break;
+      }
+      case JUPITER_PROGRAM_ID: {
+        const discriminator = Buffer.from(data.subarray(0, 8)).toString("hex");
+        name = JUPITER_INSTRUCTIONS.get(discriminator) ?? name;
+        const layout = JUPITER_ROUTE_ACCOUNTS[name];
+        if (name === "unknown") {
+          violations.push(`${where}: instruction ${discriminator} is not allowed`);
+        } else if (!layout && !JUPITER_SETUP_INSTRUCTIONS.has(name)) {
+          violations.push(`${where}.${name} has no known destination and is not allowed`);
+        } else if (layout) {
+          let destination = account(layout.destination);
+          if (layout.fallback !== undefined && destination === JUPITER_PROGRAM_ID) {
+            destination = account(layout.fallback);
+          }
+          detail = `output -> ${shortAddress(destination)}`;
+          checkTokenDestination(destination, account(layout.mint), `${where}.${name}`);
+        }
+        break;
+      }
+      default:
+        break;
+    }
+
+    instructions.push({ index, programId, program, name, detail });
+  });
+
+  if (pendingTokenDestinations.size > 0) {
+    const addresses = [...pendingTokenDestinations.keys()];
+    const infos = await conn.getMultipleAccountsInfo(addresses.map((a) => new PublicKey(a)));
+    addresses.forEach((address, i) => {
+      const info = infos[i];
+      const where = pendingTokenDestinations.get(address) ?? address;
+      const isTokenAccount =
+        info &&
+        (info.owner.toBase58() === TOKEN_PROGRAM_ID || info.owner.toBase58() === TOKEN_2022_PROGRAM_ID) &&
+        info.data.length >= TOKEN_ACCOUNT_MIN_LENGTH;
+      const tokenOwner = isTokenAccount ? new PublicKey(info.data.subarray(32, 64)).toBase58() : null;
+      if (tokenOwner !== ownerAddress) {
+        violations.push(`${where}: destination ${address} is not owned by the wallet`);
+      }
+    });
+  }
+
+  const summary = instructions.map(
+    (ix) => `${ix.program}.${ix.name}${ix.detail ? ` ${ix.detail}` : ""}`
+  );
+
+  return { feePayer, instructions, summary, violations, unresolvedLookupTables };
+}
@@ -0,0 +1,190 @@
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import { config } from "./config.js";
+import { appendLedgerEvent } from "./ledger.js";
+import { createLogger } from "./logger.js";
+
+const log = createLogger("intents");
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type IntentTool = "wallet_execute_swap" | "wallet_sign_and_send";
+
+// in_flight: claimed, nothing sent yet (as far as this registry knows)
+// submitted: a transaction was broadcast; txHash is set
+// unknown: in_flight when a previous process died — it may have sent
+export type IntentStatus =
+  | "in_flight"
+  | "submitted"
+  | "unknown"
+  | "filled"
+  | "sent"
+  | "failed"
+  | "rejected";
+
+export interface IntentRecord {
+  intentId: string;
+  tool: IntentTool;
+  status: IntentStatus;
+  txHash?: string;
+  result?: Record<string, unknown>;
+  startedAt: string;
+  updatedAt: string;
+}
+
+interface IntentStore {
+  intents: Record<string, IntentRecord>;
+  updatedAt: string;
+}
+
+// ---------------------------------------------------------------------------
+// Store
+// ---------------------------------------------------------------------------
+
+let store: IntentStore = { intents: {}, updatedAt: new Date().toISOString() };
+
+// Writes are chained so concurrent updates cannot rename over each other.
+let persistChain: Promise<void> = Promise.resolve();
+
+function persistStore(): Promise<void> {
+  const storePath = config.intents.storePath;
+  persistChain = persistChain
+    .catch(() => undefined)
+    .then(async () => {
+      store.updatedAt = new Date().toISOString();
+      await fs.mkdir(path.dirname(storePath), { recursive: true });
+      const tempPath = storePath + ".tmp";
+      await fs.writeFile(tempPath, JSON.stringify(store, null, 2));
+      await fs.rename(tempPath, storePath);
+    });
+  return persistChain;
+}
+
+function pruneStore(nowMs: number): void {
+  const cutoff = nowMs - config.intents.retentionDays * DAY_MS;
+  for (const [id, record] of Object.entries(store.intents)) {
+    if (Date.parse(record.updatedAt) < cutoff) delete store.intents[id];
+  }
+}
+
+/**
+ * Load the registry. Entries still in flight belong to a process that
+ * died mid-call: with a txHash they stay `submitted`, without one we cannot
+ * tell whether a send happened, so they become `unknown` and are never
+ * re-executed automatically.
+ */
+export async function initIntentRegistry(): Promise<void> {
+  const raw = await fs.readFile(config.intents.storePath, "utf8").catch(() => "");
+  if (raw) {
+    try {
+      const parsed = JSON.parse(raw) as IntentStore;
+      if (parsed.intents && typeof parsed.intents === "object") {
+        store = { intents: parsed.intents, updatedAt: parsed.updatedAt };
+      }
+    } catch (e) {
+      log.warn(`Intent registry unreadable, starting empty: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }
+
+  let orphaned = 0;
+  for (const record of Object.values(store.intents)) {
+    if (record.status !== "in_flight") continue;
+    record.status = "unknown";
+    record.updatedAt = new Date().toISOString();
+    orphaned++;
+  }
+
+  pruneStore(Date.now());
+  await persistStore();
+  log.info(
+    `Intent registry loaded: ${Object.keys(store.intents).length} intents` +
+      (orphaned > 0 ? `, ${orphaned} orphaned in flight marked unknown` : "")
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Lifecycle
+// ---------------------------------------------------------------------------
+
+// Failures before anything was broadcast are safe to run again.
+function isRetryable(record: IntentRecord): boolean {
+  return (record.status === "failed" || record.status === "rejected") && !record.txHash;
+}
+
+/**
+ * Claim an intentId for execution. Returns null when the caller should
+ * proceed, or the existing record when the intent was already executed (or
+ * is executing) and must not be sent again.
+ */
+export async function claimIntent(
+  intentId: string,
+  tool: IntentTool
+): Promise<IntentRecord | null> {
+  const existing = store.intents[intentId];
+  if (existing && !isRetryable(existing)) {
+    await appendLedgerEvent("intent_replayed", {
+      intentId,
+      tool,
+      recordedTool: existing.tool,
+      status: existing.status,
+      txHash: existing.txHash,
+    });
+    return existing;
+  }
+
+  const now = new Date().toISOString();
+  store.intents[intentId] = {
+    intentId,
+    tool,
+    status: "in_flight",
+    startedAt: existing?.startedAt ?? now,
+    updatedAt: now,
+  };
+  await persistStore();
+  return null;
+}
+
+// Called right after broadcast, before confirmation, so a crash while
+// confirming still leaves the txHash behind — in the registry and in the
+// ledger, where the agent's journal recovery looks for it.
+export async function markIntentSubmitted(intentId: string, txHash: string): Promise<void> {
+  const record = store.intents[intentId];
+  if (!record) return;
+  record.status = "submitted";
+  record.txHash = txHash;
+  record.updatedAt = new Date().toISOString();
+  await persistStore();
+  await appendLedgerEvent("intent_submitted", { intentId, tool: record.tool, txHash });
+}
+
+export async function completeIntent(
+  intentId: string,
+  result: { status: "filled" | "sent" | "failed" | "rejected"; txHash?: string }
+): Promise<void> {
+  const record = store.intents[intentId];
+  if (!record) return;
+  record.status = result.status;
+  record.txHash = result.txHash ?? record.txHash;
+  record.result = { ...result };
+  record.updatedAt = new Date().toISOString();
+  pruneStore(Date.now());
+  await persistStore();
+}
+
+// What a repeated call gets back: the recorded result when there is one,
+// otherwise the in-flight status.
+export function replayResult(record: IntentRecord): Record<string, unknown> {
+  return {
+    ...(record.result ?? {
+      intentId: record.intentId,
+      status: record.status,
+      chain: "solana",
+    }),
+    txHash: record.txHash,
+    replayed: true,
+  };
+}
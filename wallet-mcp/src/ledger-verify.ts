@@ -0,0 +1,47 @@
+import { listSegments, verifyLedger } from "ledger";
+import { config } from "./config.js";
+
+// Check the ledger's hash chain and checkpoints:
+//   pnpm --filter wallet-mcp ledger:verify
+//   pnpm --filter wallet-mcp ledger:verify path/to/ledger.jsonl
+// Rotated segments next to the ledger are verified first, oldest first.
+// Exits 1 at the first broken link.
+
+async function main(): Promise<void> {
+  const ledgerPath = process.argv[2] ?? config.ledger.path;
+  const segments = await listSegments(ledgerPath);
+  if (segments.length === 0) {
+    console.log(`No ledger at ${ledgerPath}`);
+    return;
+  }
+  const hmacKey = config.ledger.hmacKey || undefined;
+  const report = await verifyLedger(segments, { hmacKey, retention: config.ledger.retention });
+
+  console.log(`Segments: ${segments.length} (${segments.join(", ")})`);
+  if (report.startsAfter) console.log(`Oldest segment continues ${report.startsAfter}, which is not on disk`);
+  if (report.unchained > 0) console.log(`${report.unchained} line(s) predate the hash chain and were not checked`);
+  const pruned = Object.entries(report.pruned).map(([type, count]) => `${type}=${count}`);
+  if (pruned.length > 0) console.log(`Removed by retention (linked, not re-hashed): ${pruned.join(" ")}`);
+  console.log(
+    `Checked ${report.events} chained event(s), ${report.checkpoints} checkpoint(s)` +
+      (hmacKey ? `, ${report.verifiedCheckpoints} signature(s) valid` : " (no WALLET_MCP_LEDGER_HMAC_KEY, signatures not checked)")
+  );
+
+  if (report.firstBreak) {
+    const b = report.firstBreak;
+    const what = [b.type, b.writer && `${b.writer} #${b.seq ?? "?"}`].filter(Boolean).join(" ");
+    console.log(`BROKEN at ${b.segment}:${b.line}${what ? ` (${what})` : ""}: ${b.reason}`);
+    console.log(`Last intact hash: ${report.head ?? "-"}`);
+    process.exit(1);
+  }
+
+  console.log(`Chain intact. Head: ${report.head ?? "-"}`);
+  if (hmacKey && report.uncheckpointed > 0) {
+    console.log(`${report.uncheckpointed} event(s) after the last signed checkpoint are covered by the chain only`);
+  }
+}
+
+main().catch((e) => {
+  console.error("Ledger verify failed:", e);
+  process.exit(1);
+});
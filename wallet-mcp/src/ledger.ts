@@ -1,24 +1,70 @@
-import { promises as fs } from "node:fs";
-import path from "node:path";
+import { createLedgerWriter, readLedger } from "ledger";
+import type { LedgerCheckpointOptions, LedgerEvent, LedgerEventMap, LedgerEventType, LedgerFilter } from "ledger";
 import { config } from "./config.js";
+import { createLogger } from "./logger.js";
 
-export interface LedgerEvent {
-  timestamp: string;
-  type: string;
-  payload: Record<string, unknown>;
+const log = createLogger("ledger");
+
+export type { LedgerEvent } from "ledger";
+
+// A checkpoint key equal to the wallet key would let anyone holding the
+// wallet key re-sign a rewritten ledger, which is what checkpoints exist
+// to prevent.
+export const checkpointKeyProblem: string | null = !config.ledger.hmacKey
+  ? "WALLET_MCP_LEDGER_HMAC_KEY is not set; ledger checkpoints are disabled"
+  : config.ledger.hmacKey === config.solana.privateKey
+    ? "WALLET_MCP_LEDGER_HMAC_KEY equals SOLANA_PRIVATE_KEY; ledger checkpoints are disabled"
+    : null;
+
+const checkpoint: LedgerCheckpointOptions | undefined = checkpointKeyProblem
+  ? undefined
+  : { key: config.ledger.hmacKey, every: config.ledger.checkpointEvery };
+
+// wallet-mcp owns the ledger, so it alone rotates it; the agent only appends.
+const writer = createLedgerWriter({
+  path: config.ledger.path,
+  writer: "wallet-mcp",
+  checkpoint,
+  rotation: {
+    maxBytes: config.ledger.rotateMaxBytes,
+    maxAgeMs: config.ledger.rotateMaxHours * 60 * 60 * 1000,
+    retention: config.ledger.retention,
+    onRotate: (segment) => {
+      log.info(`Rotated ledger to ${segment}`);
+      void maintainLedger().catch((error) => log.error("Ledger maintenance failed", error));
+    },
+  },
+});
+
+// Runs at startup and after each rotation; a second call while one is
+// running waits for it instead of compressing the same segment twice.
+let maintenance: Promise<void> | null = null;
+
+export function maintainLedger(): Promise<void> {
+  maintenance ??= writer
+    .maintain()
+    .then((report) => {
+      const pruned = Object.entries(report.pruned).map(([type, count]) => `${type}=${count}`);
+      if (report.compressed.length > 0 || pruned.length > 0) {
+        log.info(
+          `Ledger archive: compressed ${report.compressed.length} segment(s)` +
+            (pruned.length > 0 ? `, pruned ${pruned.join(" ")}` : "")
+        );
+      }
+    })
+    .finally(() => {
+      maintenance = null;
+    });
+  return maintenance;
 }
 
-export async function appendLedgerEvent(
-  type: string,
-  payload: Record<string, unknown>
+export async function appendLedgerEvent<K extends LedgerEventType>(
+  type: K,
+  payload: LedgerEventMap[K]
 ): Promise<void> {
-  const event: LedgerEvent = {
-    timestamp: new Date().toISOString(),
-    type,
-    payload,
-  };
-
-  const ledgerPath = config.ledger.path;
-  await fs.mkdir(path.dirname(ledgerPath), { recursive: true });
-  await fs.appendFile(ledgerPath, JSON.stringify(event) + "\n", "utf8");
+  await writer.append(type, payload);
+}
+
+export function readLedgerEvents(filter?: LedgerFilter): Promise<LedgerEvent[]> {
+  return readLedger(config.ledger.path, filter);
 }
@@ -0,0 +1,367 @@
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import { config } from "./config.js";
+import { readLedgerEvents } from "./ledger.js";
+import { createLogger } from "./logger.js";
+
+const log = createLogger("limits");
+
+const SOL_MINT = "So11111111111111111111111111111111111111112";
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+interface FillRecord {
+  at: number;
+  notionalLamports: string;
+}
+
+interface RealizedRecord {
+  at: number;
+  mint: string;
+  pnlLamports: string;
+}
+
+interface CostBasis {
+  rawAmount: string;
+  costLamports: string;
+}
+
+interface LimitsStore {
+  mode: "paper" | "live";
+  fills: FillRecord[];
+  realized: RealizedRecord[];
+  costBasis: Record<string, CostBasis>;
+  updatedAt: string;
+}
+
+export interface SwapAmounts {
+  inputMint: string;
+  outputMint: string;
+  inAmount: string;
+  outAmount: string;
+}
+
+export interface SpendingReservation {
+  notionalLamports: bigint;
+  release(): void;
+}
+
+interface LimitHeadroom {
+  limit: string;
+  used: string;
+  remaining: string;
+}
+
+export interface SpendingHeadroom {
+  perTradeLamports: string | null;
+  hourlyLamports: LimitHeadroom | null;
+  dailyLamports: LimitHeadroom | null;
+  hourlySwaps: LimitHeadroom | null;
+  dailySwaps: LimitHeadroom | null;
+  dailyLossLamports: LimitHeadroom | null;
+  realizedPnl24hLamports: string;
+}
+
+// ---------------------------------------------------------------------------
+// Store
+// ---------------------------------------------------------------------------
+
+function currentMode(): "paper" | "live" {
+  return config.paperTrade ? "paper" : "live";
+}
+
+function emptyStore(): LimitsStore {
+  return {
+    mode: currentMode(),
+    fills: [],
+    realized: [],
+    costBasis: {},
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+let store: LimitsStore = emptyStore();
+
+// Admitted swaps that have not filled or failed yet; counted against the
+// windows so two concurrent calls cannot both squeeze under a limit.
+let pendingLamports = 0n;
+let pendingSwaps = 0;
+
+function toBigint(value: unknown): bigint {
+  try {
+    return BigInt(String(value ?? "0"));
+  } catch {
+    return 0n;
+  }
+}
+
+function maxBigint(a: bigint, b: bigint): bigint {
+  return a > b ? a : b;
+}
+
+export function swapNotionalLamports(swap: SwapAmounts): bigint {
+  if (swap.inputMint === SOL_MINT) return toBigint(swap.inAmount);
+  if (swap.outputMint === SOL_MINT) return toBigint(swap.outAmount);
+  return 0n;
+}
+
+function pruneStore(target: LimitsStore, nowMs: number): void {
+  const cutoff = nowMs - DAY_MS;
+  target.fills = target.fills.filter((f) => f.at > cutoff);
+  target.realized = target.realized.filter((r) => r.at > cutoff);
+}
+
+// Average-cost accounting per mint, so a sell back into SOL yields a
+// realized PnL without knowing the agent's own books.
+function applyFill(target: LimitsStore, swap: SwapAmounts, atMs: number): void {
+  const notional = swapNotionalLamports(swap);
+  target.fills.push({ at: atMs, notionalLamports: notional.toString() });
+
+  const inAmount = toBigint(swap.inAmount);
+  const outAmount = toBigint(swap.outAmount);
+  if (inAmount <= 0n || outAmount <= 0n) return;
+
+  if (swap.inputMint === SOL_MINT) {
+    const basis = target.costBasis[swap.outputMint] ?? { rawAmount: "0", costLamports: "0" };
+    target.costBasis[swap.outputMint] = {
+      rawAmount: (toBigint(basis.rawAmount) + outAmount).toString(),
+      costLamports: (toBigint(basis.costLamports) + inAmount).toString(),
+    };
+    return;
+  }
+
+  if (swap.outputMint === SOL_MINT) {
+    const basis = target.costBasis[swap.inputMint];
+    const heldRaw = toBigint(basis?.rawAmount);
+    if (!basis || heldRaw <= 0n) return;
+
+    const soldRaw = inAmount < heldRaw ? inAmount : heldRaw;
+    const costLamports = toBigint(basis.costLamports);
+    const allocatedCost = (costLamports * soldRaw) / heldRaw;
+    const remainingRaw = heldRaw - soldRaw;
+
+    if (remainingRaw <= 0n) {
+      delete target.costBasis[swap.inputMint];
+    } else {
+      target.costBasis[swap.inputMint] = {
+        rawAmount: remainingRaw.toString(),
+        costLamports: (costLamports - allocatedCost).toString(),
+      };
+    }
+    target.realized.push({
+      at: atMs,
+      mint: swap.inputMint,
+      pnlLamports: (outAmount - allocatedCost).toString(),
+    });
+  }
+}
+
+async function persistStore(): Promise<void> {
+  const storePath = config.limits.storePath;
+  await fs.mkdir(path.dirname(storePath), { recursive: true });
+  const tempPath = storePath + ".tmp";
+  await fs.writeFile(tempPath, JSON.stringify(store, null, 2));
+  await fs.rename(tempPath, storePath);
+}
+
+async function loadStoreFile(): Promise<LimitsStore | null> {
+  const raw = await fs.readFile(config.limits.storePath, "utf8").catch(() => "");
+  if (!raw) return null;
+  try {
+    const parsed = JSON.parse(raw) as LimitsStore;
+    if (parsed.mode !== currentMode()) return null;
+    return {
+      mode: parsed.mode,
+      fills: Array.isArray(parsed.fills) ? parsed.fills : [],
+      realized: Array.isArray(parsed.realized) ? parsed.realized : [],
+      costBasis: parsed.costBasis && typeof parsed.costBasis === "object" ? parsed.costBasis : {},
+      updatedAt: parsed.updatedAt || new Date().toISOString(),
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Rebuild counters from `swap_filled` ledger events for the current mode.
+ * Falls back to the persisted store when the ledger has no fills.
+ */
+export async function initSpendingLimits(): Promise<void> {
+  const rebuilt = emptyStore();
+  let fillCount = 0;
+
+  for (const event of await readLedgerEvents({ types: ["swap_filled"] })) {
+    if (event.type !== "swap_filled") continue;
+    const payload = event.payload;
+    if (payload.mode !== rebuilt.mode) continue;
+    const atMs = Date.parse(event.timestamp);
+    if (!Number.isFinite(atMs)) continue;
+
+    applyFill(
+      rebuilt,
+      {
+        inputMint: String(payload.inputMint ?? ""),
+        outputMint: String(payload.outputMint ?? ""),
+        inAmount: String(payload.inputAmount ?? "0"),
+        outAmount: String(payload.outputAmount ?? "0"),
+      },
+      atMs
+    );
+    fillCount++;
+  }
+
+  if (fillCount > 0) {
+    store = rebuilt;
+    log.info(`Rebuilt spending counters from ${fillCount} ledger fills`);
+  } else {
+    store = (await loadStoreFile()) ?? rebuilt;
+  }
+
+  pruneStore(store, Date.now());
+  await persistStore();
+}
+
+// ---------------------------------------------------------------------------
+// Checks
+// ---------------------------------------------------------------------------
+
+function windowTotals(nowMs: number): {
+  hourLamports: bigint;
+  dayLamports: bigint;
+  hourSwaps: number;
+  daySwaps: number;
+  dayRealizedLamports: bigint;
+} {
+  let hourLamports = 0n;
+  let dayLamports = 0n;
+  let hourSwaps = 0;
+  let daySwaps = 0;
+  for (const fill of store.fills) {
+    const age = nowMs - fill.at;
+    if (age >= DAY_MS) continue;
+    const notional = toBigint(fill.notionalLamports);
+    dayLamports += notional;
+    daySwaps++;
+    if (age < HOUR_MS) {
+      hourLamports += notional;
+      hourSwaps++;
+    }
+  }
+
+  let dayRealizedLamports = 0n;
+  for (const record of store.realized) {
+    if (nowMs - record.at < DAY_MS) dayRealizedLamports += toBigint(record.pnlLamports);
+  }
+
+  return {
+    hourLamports: hourLamports + pendingLamports,
+    dayLamports: dayLamports + pendingLamports,
+    hourSwaps: hourSwaps + pendingSwaps,
+    daySwaps: daySwaps + pendingSwaps,
+    dayRealizedLamports,
+  };
+}
+
+function formatSol(lamports: bigint | number): string {
+  return (Number(lamports) / 1_000_000_000).toFixed(4);
+}
+
+export function checkSpendingLimits(swap: SwapAmounts, nowMs: number = Date.now()): string | null {
+  const limits = config.limits;
+  const notional = swapNotionalLamports(swap);
+  const totals = windowTotals(nowMs);
+
+  if (limits.maxTradeLamports > 0 && notional > BigInt(limits.maxTradeLamports)) {
+    return `trade notional ${formatSol(notional)} SOL exceeds maxTradeSol (${formatSol(limits.maxTradeLamports)})`;
+  }
+  if (limits.maxHourlyLamports > 0 && totals.hourLamports + notional > BigInt(limits.maxHourlyLamports)) {
+    return `hourly notional limit reached (${formatSol(totals.hourLamports)}/${formatSol(limits.maxHourlyLamports)} SOL)`;
+  }
+  if (limits.maxDailyLamports > 0 && totals.dayLamports + notional > BigInt(limits.maxDailyLamports)) {
+    return `daily notional limit reached (${formatSol(totals.dayLamports)}/${formatSol(limits.maxDailyLamports)} SOL)`;
+  }
+  if (limits.maxSwapsPerHour > 0 && totals.hourSwaps >= limits.maxSwapsPerHour) {
+    return `hourly swap count limit reached (${totals.hourSwaps}/${limits.maxSwapsPerHour})`;
+  }
+  if (limits.maxSwapsPerDay > 0 && totals.daySwaps >= limits.maxSwapsPerDay) {
+    return `daily swap count limit reached (${totals.daySwaps}/${limits.maxSwapsPerDay})`;
+  }
+
+  // The loss limit only blocks new exposure; sells back into SOL stay allowed.
+  if (
+    limits.maxDailyLossLamports > 0 &&
+    swap.outputMint !== SOL_MINT &&
+    -totals.dayRealizedLamports >= BigInt(limits.maxDailyLossLamports)
+  ) {
+    return `daily realized loss limit reached (${formatSol(totals.dayRealizedLamports)} SOL)`;
+  }
+
+  return null;
+}
+
+/**
+ * Check limits and hold the swap's notional until the caller releases it.
+ * Returns the rejection reason instead when a limit would be exceeded.
+ */
+export function reserveSpending(swap: SwapAmounts): SpendingReservation | string {
+  const rejection = checkSpendingLimits(swap);
+  if (rejection) return rejection;
+
+  const notionalLamports = swapNotionalLamports(swap);
+  pendingLamports += notionalLamports;
+  pendingSwaps++;
+
+  let released = false;
+  return {
+    notionalLamports,
+    release(): void {
+      if (released) return;
+      released = true;
+      pendingLamports = maxBigint(0n, pendingLamports - notionalLamports);
+      pendingSwaps = Math.max(0, pendingSwaps - 1);
+    },
+  };
+}
+
+export async function recordSwapFill(swap: SwapAmounts): Promise<void> {
+  const nowMs = Date.now();
+  applyFill(store, swap, nowMs);
+  pruneStore(store, nowMs);
+  store.updatedAt = new Date(nowMs).toISOString();
+  try {
+    await persistStore();
+  } catch (e) {
+    log.error("Failed to persist spending counters", e);
+  }
+}
+
+function headroom(limit: bigint | number, used: bigint | number): LimitHeadroom | null {
+  const limitBig = BigInt(limit);
+  if (limitBig <= 0n) return null;
+  const usedBig = BigInt(used);
+  return {
+    limit: limitBig.toString(),
+    used: usedBig.toString(),
+    remaining: maxBigint(0n, limitBig - usedBig).toString(),
+  };
+}
+
+export function getSpendingHeadroom(nowMs: number = Date.now()): SpendingHeadroom {
+  const limits = config.limits;
+  const totals = windowTotals(nowMs);
+  const dayLoss = totals.dayRealizedLamports < 0n ? -totals.dayRealizedLamports : 0n;
+
+  return {
+    perTradeLamports: limits.maxTradeLamports > 0 ? String(limits.maxTradeLamports) : null,
+    hourlyLamports: headroom(limits.maxHourlyLamports, totals.hourLamports),
+    dailyLamports: headroom(limits.maxDailyLamports, totals.dayLamports),
+    hourlySwaps: headroom(limits.maxSwapsPerHour, totals.hourSwaps),
+    dailySwaps: headroom(limits.maxSwapsPerDay, totals.daySwaps),
+    dailyLossLamports: headroom(limits.maxDailyLossLamports, dayLoss),
+    realizedPnl24hLamports: totals.dayRealizedLamports.toString(),
+  };
+}
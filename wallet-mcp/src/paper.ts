@@ -0,0 +1,298 @@
+import { randomUUID } from "node:crypto";
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import { Connection, PublicKey } from "@solana/web3.js";
+import { config } from "./config.js";
+import { associatedTokenAddress, TOKEN_2022_PROGRAM_ID, TOKEN_PROGRAM_ID } from "./inspect.js";
+import { appendLedgerEvent } from "./ledger.js";
+import { createLogger } from "./logger.js";
+
+const log = createLogger("paper");
+
+const SOL_MINT = "So11111111111111111111111111111111111111112";
+const JUPITER_PROGRAM_ID = "JUP6LkbZbjS1jKKwapdHNy74zcZ3tLUZoi5QNyVTaV4";
+
+// Same shape as a failed live simulation, so the agent's retry classifier
+// treats paper failures exactly like real ones.
+const INJECTED_ERRORS = [
+  { name: "SlippageToleranceExceeded", hex: "0x1771" },
+  { name: "InsufficientFunds", hex: "0x1788" },
+] as const;
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+interface PaperToken {
+  rawAmount: string;
+  decimals: number;
+  program: "token" | "token-2022";
+}
+
+interface PaperBook {
+  lamports: string;
+  tokens: Record<string, PaperToken>;
+  feesPaidLamports: string;
+  updatedAt: string;
+}
+
+export interface PaperSwapInput {
+  intentId: string;
+  inputMint: string;
+  outputMint: string;
+  inAmount: string;
+  outAmount: string;
+  slippageBps: number;
+}
+
+export interface PaperSwapFill {
+  txHash: string;
+  inputAmount: string;
+  outputAmount: string;
+  feeLamports: string;
+  realizedSlippageBps: number;
+}
+
+export interface PaperTokenBalance {
+  mint: string;
+  program: "token" | "token-2022";
+  address: string;
+  ataAddress: string;
+  isAta: boolean;
+  rawAmount: string;
+  decimals: number;
+  frozen: boolean;
+}
+
+// ---------------------------------------------------------------------------
+// Book
+// ---------------------------------------------------------------------------
+
+let book: PaperBook | null = null;
+
+// Serializes book mutations: a swap reads, waits out its latency and
+// writes, and two overlapping swaps must not spend the same lamports.
+let bookLock: Promise<void> = Promise.resolve();
+
+function withBookLock<T>(fn: () => Promise<T>): Promise<T> {
+  const run = bookLock.then(fn, fn);
+  bookLock = run.then(
+    () => undefined,
+    () => undefined
+  );
+  return run;
+}
+
+function freshBook(): PaperBook {
+  return {
+    lamports: String(config.paper.startLamports),
+    tokens: {},
+    feesPaidLamports: "0",
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+async function loadBook(): Promise<PaperBook> {
+  if (book) return book;
+  const raw = await fs.readFile(config.paper.storePath, "utf8").catch(() => "");
+  if (raw) {
+    try {
+      const parsed = JSON.parse(raw) as PaperBook;
+      book = {
+        lamports: String(parsed.lamports ?? "0"),
+        tokens: parsed.tokens && typeof parsed.tokens === "object" ? parsed.tokens : {},
+        feesPaidLamports: String(parsed.feesPaidLamports ?? "0"),
+        updatedAt: parsed.updatedAt || new Date().toISOString(),
+      };
+      return book;
+    } catch (e) {
+      log.warn(`Paper book unreadable, starting fresh: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }
+  book = freshBook();
+  await persistBook(book);
+  log.info(`Paper book created with ${config.paper.startLamports / 1_000_000_000} SOL`);
+  return book;
+}
+
+async function persistBook(target: PaperBook): Promise<void> {
+  const storePath = config.paper.storePath;
+  target.updatedAt = new Date().toISOString();
+  await fs.mkdir(path.dirname(storePath), { recursive: true });
+  const tempPath = storePath + ".tmp";
+  await fs.writeFile(tempPath, JSON.stringify(target, null, 2));
+  await fs.rename(tempPath, storePath);
+}
+
+function balanceOf(target: PaperBook, mint: string): bigint {
+  if (mint === SOL_MINT) return BigInt(target.lamports);
+  return BigInt(target.tokens[mint]?.rawAmount ?? "0");
+}
+
+function credit(target: PaperBook, mint: string, amount: bigint, token?: Omit<PaperToken, "rawAmount">): void {
+  if (mint === SOL_MINT) {
+    target.lamports = (BigInt(target.lamports) + amount).toString();
+    return;
+  }
+  const existing = target.tokens[mint];
+  const next = BigInt(existing?.rawAmount ?? "0") + amount;
+  if (next <= 0n) {
+    delete target.tokens[mint];
+    return;
+  }
+  target.tokens[mint] = {
+    decimals: existing?.decimals ?? token?.decimals ?? 0,
+    program: existing?.program ?? token?.program ?? "token",
+    rawAmount: next.toString(),
+  };
+}
+
+// Decimals and token program are read once from the mint account; the
+// only RPC a paper swap makes.
+async function describeMint(conn: Connection, mint: string): Promise<Omit<PaperToken, "rawAmount">> {
+  try {
+    const info = await conn.getParsedAccountInfo(new PublicKey(mint));
+    const data = info.value?.data;
+    const decimals =
+      data && "parsed" in data ? Number((data.parsed as { info?: { decimals?: number } }).info?.decimals ?? 0) : 0;
+    const program = info.value?.owner.toBase58() === TOKEN_2022_PROGRAM_ID ? "token-2022" : "token";
+    return { decimals, program };
+  } catch (e) {
+    log.warn(`Mint ${mint} lookup failed, assuming 0 decimals: ${e instanceof Error ? e.message : String(e)}`);
+    return { decimals: 0, program: "token" };
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Fill model
+// ---------------------------------------------------------------------------
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// Box-Muller; good enough for a slippage draw.
+function normalSample(mean: number, stdDev: number): number {
+  const u = 1 - Math.random();
+  const v = Math.random();
+  return mean + stdDev * Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+function injectedError(kind: (typeof INJECTED_ERRORS)[number]): Error {
+  return new Error(`Simulation failed: ${kind.name} (${kind.hex}) in ${JUPITER_PROGRAM_ID}`);
+}
+
+function networkFeeLamports(): bigint {
+  return BigInt(config.paper.baseFeeLamports + config.paper.priorityFeeLamports);
+}
+
+/**
+ * Fill a swap against the virtual book. Extra slippage beyond the quote is
+ * drawn from N(mean, stdDev) bps (never better than the quote); a draw past
+ * the quote's slippage tolerance fails like Jupiter would. Failures still
+ * burn the network fee, as a landed-but-reverted transaction does.
+ */
+export async function fillPaperSwap(
+  conn: Connection,
+  input: PaperSwapInput
+): Promise<PaperSwapFill> {
+  const latency =
+    config.paper.minLatencyMs +
+    Math.random() * Math.max(0, config.paper.maxLatencyMs - config.paper.minLatencyMs);
+  await sleep(latency);
+
+  const known = input.outputMint === SOL_MINT || !!(await loadBook()).tokens[input.outputMint];
+  const outputToken = known ? undefined : await describeMint(conn, input.outputMint);
+
+  return withBookLock(async () => {
+    const target = await loadBook();
+    const fee = networkFeeLamports();
+    const inAmount = BigInt(input.inAmount);
+    const quotedOut = BigInt(input.outAmount);
+    const solNeeded = fee + (input.inputMint === SOL_MINT ? inAmount : 0n);
+
+    const fail = async (error: Error): Promise<never> => {
+      if (BigInt(target.lamports) >= fee) {
+        target.lamports = (BigInt(target.lamports) - fee).toString();
+        target.feesPaidLamports = (BigInt(target.feesPaidLamports) + fee).toString();
+        await persistBook(target);
+      }
+      throw error;
+    };
+
+    if (BigInt(target.lamports) < solNeeded || balanceOf(target, input.inputMint) < inAmount) {
+      return fail(injectedError(INJECTED_ERRORS[1]));
+    }
+    if (Math.random() < config.paper.failureRate) {
+      const kind = INJECTED_ERRORS[Math.floor(Math.random() * INJECTED_ERRORS.length)];
+      return fail(injectedError(kind));
+    }
+
+    const extraBps = Math.max(
+      0,
+      Math.round(normalSample(config.paper.slippageMeanBps, config.paper.slippageStdDevBps))
+    );
+    if (extraBps > input.slippageBps) {
+      return fail(injectedError(INJECTED_ERRORS[0]));
+    }
+
+    const outAmount = (quotedOut * BigInt(10_000 - extraBps)) / 10_000n;
+
+    credit(target, input.inputMint, -inAmount);
+    credit(target, input.outputMint, outAmount, outputToken);
+    target.lamports = (BigInt(target.lamports) - fee).toString();
+    target.feesPaidLamports = (BigInt(target.feesPaidLamports) + fee).toString();
+    await persistBook(target);
+
+    return {
+      txHash: `paper_${randomUUID()}`,
+      inputAmount: inAmount.toString(),
+      outputAmount: outAmount.toString(),
+      feeLamports: fee.toString(),
+      realizedSlippageBps: extraBps,
+    };
+  });
+}
+
+// Pre-built transactions (Drift perps) are not executed in paper mode; they
+// only cost the network fee.
+export async function chargePaperTransactionFee(intentId: string): Promise<string> {
+  return withBookLock(async () => {
+    const target = await loadBook();
+    const fee = networkFeeLamports();
+    if (BigInt(target.lamports) < fee) {
+      throw injectedError(INJECTED_ERRORS[1]);
+    }
+    target.lamports = (BigInt(target.lamports) - fee).toString();
+    target.feesPaidLamports = (BigInt(target.feesPaidLamports) + fee).toString();
+    await persistBook(target);
+    await appendLedgerEvent("paper_fee_charged", { intentId, feeLamports: fee.toString() });
+    return fee.toString();
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Balance views
+// ---------------------------------------------------------------------------
+
+export async function getPaperLamports(): Promise<bigint> {
+  return BigInt((await loadBook()).lamports);
+}
+
+export async function getPaperTokenBalances(owner: PublicKey | null): Promise<PaperTokenBalance[]> {
+  const target = await loadBook();
+  return Object.entries(target.tokens).map(([mint, token]) => {
+    const programId = token.program === "token-2022" ? TOKEN_2022_PROGRAM_ID : TOKEN_PROGRAM_ID;
+    const ataAddress = owner ? associatedTokenAddress(owner, new PublicKey(mint), programId) : `paper:${mint}`;
+    return {
+      mint,
+      program: token.program,
+      address: ataAddress,
+      ataAddress,
+      isAta: true,
+      rawAmount: token.rawAmount,
+      decimals: token.decimals,
+      frozen: false,
+    };
+  });
+}
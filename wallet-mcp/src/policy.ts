@@ -1,5 +1,10 @@
+import { promises as fs, watchFile } from "node:fs";
 import { PublicKey } from "@solana/web3.js";
 import { config } from "./config.js";
+import { appendLedgerEvent } from "./ledger.js";
+import { createLogger } from "./logger.js";
+
+const log = createLogger("policy");
 
 export interface SwapPolicyInput {
   inputMint: string;
@@ -8,6 +13,63 @@ export interface SwapPolicyInput {
   slippageBps: number;
 }
 
+export interface QuotePolicyInput {
+  priceImpactPct: number;
+}
+
+export type PolicyTool = "wallet_execute_swap" | "wallet_sign_and_send";
+
+const POLICY_TOOLS: PolicyTool[] = ["wallet_execute_swap", "wallet_sign_and_send"];
+
+export interface ToolPolicy {
+  enabled: boolean;
+  maxSlippageBps: number;
+  maxPriceImpactPct: number | null;
+  allowedInputMints: string[];
+  allowedOutputMints: string[];
+  deniedMints: string[];
+  allowedPrograms: string[];
+  allowedDestinations: string[];
+}
+
+export interface RuntimePolicy {
+  source: "env" | "file";
+  killSwitch: boolean;
+  tools: Record<PolicyTool, ToolPolicy>;
+}
+
+// ---------------------------------------------------------------------------
+// Policy file schema
+//
+// {
+//   "killSwitch": false,
+//   "maxSlippageBps": 300,
+//   "maxPriceImpactPct": 2,
+//   "allowedInputMints": [], "allowedOutputMints": [], "deniedMints": [],
+//   "allowedPrograms": [], "allowedDestinations": [],
+//   "tools": {
+//     "wallet_execute_swap": { "enabled": true, "deniedMints": ["..."] },
+//     "wallet_sign_and_send": { "enabled": false }
+//   }
+// }
+//
+// Top-level rules are defaults for every tool; a tool block overrides them.
+// Omitted top-level fields fall back to the WALLET_MCP_* env values.
+// ---------------------------------------------------------------------------
+
+const RULE_KEYS = [
+  "enabled",
+  "maxSlippageBps",
+  "maxPriceImpactPct",
+  "allowedInputMints",
+  "allowedOutputMints",
+  "deniedMints",
+  "allowedPrograms",
+  "allowedDestinations",
+] as const;
+
+const TOP_LEVEL_KEYS = ["killSwitch", "tools", ...RULE_KEYS] as const;
+
 export function isValidMint(value: string): boolean {
   if (!value || value.length < 32 || value.length > 44) return false;
   try {
@@ -18,10 +80,270 @@ export function isValidMint(value: string): boolean {
   }
 }
 
-export function validateSwapPolicy(input: SwapPolicyInput): string | null {
-  if (config.policy.killSwitch) {
+function checkUnknownKeys(
+  obj: Record<string, unknown>,
+  allowed: readonly string[],
+  where: string,
+  errors: string[]
+): void {
+  for (const key of Object.keys(obj)) {
+    if (!allowed.includes(key)) errors.push(`${where}.${key} is not a known field`);
+  }
+}
+
+function readAddressList(
+  value: unknown,
+  where: string,
+  errors: string[],
+  kind = "mint"
+): string[] | undefined {
+  if (typeof value === "undefined") return undefined;
+  if (!Array.isArray(value)) {
+    errors.push(`${where} must be an array of ${kind} addresses`);
+    return undefined;
+  }
+  const addresses: string[] = [];
+  value.forEach((item, i) => {
+    if (typeof item !== "string" || !isValidMint(item.trim())) {
+      errors.push(`${where}[${i}] is not a valid ${kind}`);
+      return;
+    }
+    addresses.push(item.trim());
+  });
+  return addresses;
+}
+
+function readRule(
+  obj: Record<string, unknown>,
+  where: string,
+  errors: string[]
+): Partial<ToolPolicy> {
+  const rule: Partial<ToolPolicy> = {};
+
+  if (typeof obj.enabled !== "undefined") {
+    if (typeof obj.enabled !== "boolean") errors.push(`${where}.enabled must be a boolean`);
+    else rule.enabled = obj.enabled;
+  }
+  if (typeof obj.maxSlippageBps !== "undefined") {
+    const value = obj.maxSlippageBps;
+    if (!Number.isInteger(value) || Number(value) <= 0) {
+      errors.push(`${where}.maxSlippageBps must be a positive integer`);
+    } else {
+      rule.maxSlippageBps = Number(value);
+    }
+  }
+  if (typeof obj.maxPriceImpactPct !== "undefined") {
+    const value = obj.maxPriceImpactPct;
+    if (value === null) {
+      rule.maxPriceImpactPct = null;
+    } else if (typeof value !== "number" || !Number.isFinite(value) || value < 0) {
+      errors.push(`${where}.maxPriceImpactPct must be a non-negative number or null`);
+    } else {
+      rule.maxPriceImpactPct = value;
+    }
+  }
+
+  const allowedInputMints = readAddressList(obj.allowedInputMints, `${where}.allowedInputMints`, errors);
+  if (allowedInputMints) rule.allowedInputMints = allowedInputMints;
+  const allowedOutputMints = readAddressList(obj.allowedOutputMints, `${where}.allowedOutputMints`, errors);
+  if (allowedOutputMints) rule.allowedOutputMints = allowedOutputMints;
+  const deniedMints = readAddressList(obj.deniedMints, `${where}.deniedMints`, errors);
+  if (deniedMints) rule.deniedMints = deniedMints;
+  const allowedPrograms = readAddressList(obj.allowedPrograms, `${where}.allowedPrograms`, errors, "program");
+  if (allowedPrograms) rule.allowedPrograms = allowedPrograms;
+  const allowedDestinations = readAddressList(
+    obj.allowedDestinations,
+    `${where}.allowedDestinations`,
+    errors,
+    "destination"
+  );
+  if (allowedDestinations) rule.allowedDestinations = allowedDestinations;
+
+  return rule;
+}
+
+function buildEnvPolicy(): RuntimePolicy {
+  const base: ToolPolicy = {
+    enabled: true,
+    maxSlippageBps: config.policy.maxSlippageBps,
+    maxPriceImpactPct: null,
+    allowedInputMints: [...config.policy.allowedInputMints],
+    allowedOutputMints: [...config.policy.allowedOutputMints],
+    deniedMints: [],
+    allowedPrograms: [...config.policy.allowedPrograms],
+    allowedDestinations: [...config.policy.allowedDestinations],
+  };
+  return {
+    source: "env",
+    killSwitch: config.policy.killSwitch,
+    tools: {
+      wallet_execute_swap: { ...base },
+      wallet_sign_and_send: { ...base },
+    },
+  };
+}
+
+export function parsePolicyDocument(
+  raw: unknown
+): { policy: RuntimePolicy; errors: [] } | { policy: null; errors: string[] } {
+  const errors: string[] = [];
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    return { policy: null, errors: ["policy must be a JSON object"] };
+  }
+  const doc = raw as Record<string, unknown>;
+  checkUnknownKeys(doc, TOP_LEVEL_KEYS, "policy", errors);
+
+  const envPolicy = buildEnvPolicy();
+  let killSwitch = envPolicy.killSwitch;
+  if (typeof doc.killSwitch !== "undefined") {
+    if (typeof doc.killSwitch !== "boolean") errors.push("policy.killSwitch must be a boolean");
+    else killSwitch = doc.killSwitch;
+  }
+
+  const defaults: ToolPolicy = {
+    ...envPolicy.tools.wallet_execute_swap,
+    ...readRule(doc, "policy", errors),
+  };
+
+  const tools = {} as Record<PolicyTool, ToolPolicy>;
+  const rawTools = doc.tools;
+  if (typeof rawTools !== "undefined" && (!rawTools || typeof rawTools !== "object" || Array.isArray(rawTools))) {
+    errors.push("policy.tools must be an object");
+  }
+  const toolBlocks = rawTools && typeof rawTools === "object" && !Array.isArray(rawTools)
+    ? (rawTools as Record<string, unknown>)
+    : {};
+  checkUnknownKeys(toolBlocks, POLICY_TOOLS, "policy.tools", errors);
+
+  for (const tool of POLICY_TOOLS) {
+    const block = toolBlocks[tool];
+    if (typeof block === "undefined") {
+      tools[tool] = { ...defaults };
+      continue;
+    }
+    if (!block || typeof block !== "object" || Array.isArray(block)) {
+      errors.push(`policy.tools.${tool} must be an object`);
+      continue;
+    }
+    const blockObj = block as Record<string, unknown>;
+    checkUnknownKeys(blockObj, RULE_KEYS, `policy.tools.${tool}`, errors);
+    tools[tool] = { ...defaults, ...readRule(blockObj, `policy.tools.${tool}`, errors) };
+  }
+
+  if (errors.length > 0) return { policy: null, errors };
+  return { policy: { source: "file", killSwitch, tools }, errors: [] };
+}
+
+// ---------------------------------------------------------------------------
+// Active policy + hot reload
+// ---------------------------------------------------------------------------
+
+let activePolicy: RuntimePolicy = buildEnvPolicy();
+let lastFileContent: string | null = null;
+
+export function getPolicy(): RuntimePolicy {
+  return activePolicy;
+}
+
+interface PolicyChange {
+  path: string;
+  from: unknown;
+  to: unknown;
+}
+
+function diffValues(before: unknown, after: unknown, prefix: string, out: PolicyChange[]): void {
+  const isObject = (v: unknown): v is Record<string, unknown> =>
+    !!v && typeof v === "object" && !Array.isArray(v);
+
+  if (isObject(before) && isObject(after)) {
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+    for (const key of keys) {
+      diffValues(before[key], after[key], prefix ? `${prefix}.${key}` : key, out);
+    }
+    return;
+  }
+  if (JSON.stringify(before) !== JSON.stringify(after)) {
+    out.push({ path: prefix, from: before, to: after });
+  }
+}
+
+export function diffPolicies(before: RuntimePolicy, after: RuntimePolicy): PolicyChange[] {
+  const changes: PolicyChange[] = [];
+  diffValues(before, after, "", changes);
+  return changes;
+}
+
+async function reloadPolicyFile(filePath: string): Promise<void> {
+  let content: string;
+  try {
+    content = await fs.readFile(filePath, "utf8");
+  } catch (e) {
+    log.warn(`Policy file unreadable, keeping previous policy: ${e instanceof Error ? e.message : String(e)}`);
+    return;
+  }
+  if (content === lastFileContent) return;
+  lastFileContent = content;
+
+  let parsed: ReturnType<typeof parsePolicyDocument>;
+  try {
+    parsed = parsePolicyDocument(JSON.parse(content));
+  } catch (e) {
+    parsed = { policy: null, errors: [`invalid JSON: ${e instanceof Error ? e.message : String(e)}`] };
+  }
+
+  if (!parsed.policy) {
+    log.warn(`Policy file rejected, keeping previous policy: ${parsed.errors.join("; ")}`);
+    await appendLedgerEvent("policy_rejected", { path: filePath, errors: parsed.errors });
+    return;
+  }
+
+  const previous = activePolicy;
+  const changes = diffPolicies(previous, parsed.policy);
+  activePolicy = parsed.policy;
+
+  log.info(`Policy reloaded from ${filePath} (${changes.length} changes)`);
+  await appendLedgerEvent("policy_reloaded", { path: filePath, changes });
+}
+
+/**
+ * Load the policy file (when WALLET_MCP_POLICY_PATH is set) and poll it for
+ * changes. Env values stay in force until a valid file has been read.
+ */
+export async function initPolicy(): Promise<void> {
+  const filePath = config.policyFile.path;
+  if (!filePath) return;
+
+  await reloadPolicyFile(filePath);
+
+  // Polling survives editors and deploy scripts that replace the file by
+  // rename, which breaks inode-based fs.watch handles.
+  watchFile(filePath, { interval: config.policyFile.pollIntervalMs }, () => {
+    reloadPolicyFile(filePath).catch((e) => {
+      log.error("Policy reload failed", e);
+    });
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Checks
+// ---------------------------------------------------------------------------
+
+export function validateToolPolicy(tool: PolicyTool): string | null {
+  const policy = getPolicy();
+  if (policy.killSwitch) {
     return "Global kill switch is enabled";
   }
+  if (!policy.tools[tool].enabled) {
+    return `${tool} is disabled by policy`;
+  }
+  return null;
+}
+
+export function validateSwapPolicy(input: SwapPolicyInput): string | null {
+  const toolRejection = validateToolPolicy("wallet_execute_swap");
+  if (toolRejection) return toolRejection;
+
+  const rule = getPolicy().tools.wallet_execute_swap;
   if (!isValidMint(input.inputMint)) {
     return "inputMint is invalid";
   }
@@ -37,21 +359,36 @@ export function validateSwapPolicy(input: SwapPolicyInput): string | null {
   if (!Number.isInteger(input.slippageBps) || input.slippageBps <= 0) {
     return "slippageBps must be a positive integer";
   }
-  if (input.slippageBps > config.policy.maxSlippageBps) {
-    return `slippageBps exceeds maxSlippageBps (${config.policy.maxSlippageBps})`;
+  if (input.slippageBps > rule.maxSlippageBps) {
+    return `slippageBps exceeds maxSlippageBps (${rule.maxSlippageBps})`;
+  }
+  if (rule.deniedMints.includes(input.inputMint)) {
+    return "inputMint is in deniedMints";
+  }
+  if (rule.deniedMints.includes(input.outputMint)) {
+    return "outputMint is in deniedMints";
   }
   if (
-    config.policy.allowedInputMints.length > 0 &&
-    !config.policy.allowedInputMints.includes(input.inputMint)
+    rule.allowedInputMints.length > 0 &&
+    !rule.allowedInputMints.includes(input.inputMint)
   ) {
     return "inputMint not in allowedInputMints";
   }
   if (
-    config.policy.allowedOutputMints.length > 0 &&
-    !config.policy.allowedOutputMints.includes(input.outputMint)
+    rule.allowedOutputMints.length > 0 &&
+    !rule.allowedOutputMints.includes(input.outputMint)
   ) {
     return "outputMint not in allowedOutputMints";
   }
 
   return null;
 }
+
+// priceImpactPct is compared in the units Jupiter reports it in.
+export function validateQuotePolicy(input: QuotePolicyInput): string | null {
+  const maxImpact = getPolicy().tools.wallet_execute_swap.maxPriceImpactPct;
+  if (maxImpact !== null && Math.abs(input.priceImpactPct) > maxImpact) {
+    return `priceImpactPct ${input.priceImpactPct} exceeds maxPriceImpactPct (${maxImpact})`;
+  }
+  return null;
+}
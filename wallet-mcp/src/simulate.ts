@@ -0,0 +1,276 @@
+import {
+  Connection,
+  PublicKey,
+  VersionedTransaction,
+} from "@solana/web3.js";
+
+const TOKEN_PROGRAM_ID = "TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA";
+const TOKEN_2022_PROGRAM_ID = "TokenzQdBNbLqP5VEhdkAS6EHPk5v5gQ1WuFTKPBo1k";
+const JUPITER_PROGRAM_ID = "JUP6LkbZbjS1jKKwapdHNy74zcZ3tLUZoi5QNyVTaV4";
+const DRIFT_PROGRAM_ID = "dRiftyHA39MWEi3m9aunc5MzRF1JYuBsbn6VPcn33UH";
+
+// SPL token account layout: mint(32) | owner(32) | amount(u64) | ... | state(u8 @108)
+const TOKEN_ACCOUNT_MIN_LENGTH = 165;
+const MAX_SIMULATED_ACCOUNTS = 100;
+
+export interface ProgramError {
+  programId?: string;
+  instructionIndex?: number;
+  code: number;
+  hex: string;
+  name?: string;
+}
+
+export interface TokenBalanceDelta {
+  account: string;
+  mint: string;
+  preAmount: string;
+  postAmount: string;
+  delta: string;
+  decimals?: number;
+}
+
+export interface SimulationReport {
+  success: boolean;
+  unitsConsumed?: number;
+  logs: string[];
+  error?: string;
+  programError?: ProgramError;
+  solDeltaLamports?: string;
+  tokenDeltas: TokenBalanceDelta[];
+}
+
+// ---------------------------------------------------------------------------
+// Program error decoding
+// ---------------------------------------------------------------------------
+
+// Custom error codes are program-specific, so lookups are keyed by program id.
+const KNOWN_PROGRAM_ERRORS: Record<string, Record<number, string>> = {
+  [JUPITER_PROGRAM_ID]: {
+    6000: "EmptyRoute",
+    6001: "SlippageToleranceExceeded",
+    6024: "InsufficientFunds",
+  },
+  [DRIFT_PROGRAM_ID]: {
+    6003: "InsufficientCollateral",
+  },
+  [TOKEN_PROGRAM_ID]: {
+    0: "NotRentExempt",
+    1: "InsufficientFunds",
+    3: "MintMismatch",
+    4: "OwnerMismatch",
+    17: "AccountFrozen",
+  },
+  [TOKEN_2022_PROGRAM_ID]: {
+    0: "NotRentExempt",
+    1: "InsufficientFunds",
+    3: "MintMismatch",
+    4: "OwnerMismatch",
+    17: "AccountFrozen",
+  },
+};
+
+function toHex(code: number): string {
+  return `0x${code.toString(16)}`;
+}
+
+function findFailingProgramInLogs(logs: string[]): { programId: string; code: number } | null {
+  for (let i = logs.length - 1; i >= 0; i--) {
+    const match = logs[i].match(
+      /^Program (\w+) failed: custom program error: 0x([0-9a-f]+)/i
+    );
+    if (match) {
+      return { programId: match[1], code: parseInt(match[2], 16) };
+    }
+  }
+  return null;
+}
+
+export function decodeProgramError(
+  err: unknown,
+  logs: string[],
+  programIds: string[] = []
+): ProgramError | undefined {
+  let instructionIndex: number | undefined;
+  let code: number | undefined;
+
+  if (err && typeof err === "object" && "InstructionError" in err) {
+    const detail = (err as { InstructionError: unknown }).InstructionError;
+    if (Array.isArray(detail)) {
+      instructionIndex = typeof detail[0] === "number" ? detail[0] : undefined;
+      const inner = detail[1] as unknown;
+      if (inner && typeof inner === "object" && "Custom" in inner) {
+        const custom = (inner as { Custom: unknown }).Custom;
+        if (typeof custom === "number") code = custom;
+      }
+    }
+  }
+
+  // Logs name the innermost failing program (e.g. Token inside a Jupiter
+  // route); the instruction index only points at the top-level program.
+  const fromLogs = findFailingProgramInLogs(logs);
+  if (fromLogs && (code === undefined || fromLogs.code === code)) {
+    return {
+      programId: fromLogs.programId,
+      instructionIndex,
+      code: fromLogs.code,
+      hex: toHex(fromLogs.code),
+      name: KNOWN_PROGRAM_ERRORS[fromLogs.programId]?.[fromLogs.code],
+    };
+  }
+
+  if (code === undefined) return undefined;
+
+  const programId =
+    instructionIndex !== undefined ? programIds[instructionIndex] : undefined;
+  return {
+    programId,
+    instructionIndex,
+    code,
+    hex: toHex(code),
+    name: programId ? KNOWN_PROGRAM_ERRORS[programId]?.[code] : undefined,
+  };
+}
+
+export function formatSimulationError(report: SimulationReport): string {
+  const pe = report.programError;
+  if (pe) {
+    const name = pe.name ? `${pe.name} ` : "";
+    const program = pe.programId ? ` in ${pe.programId}` : "";
+    return `Simulation failed: ${name}(${pe.hex})${program}`;
+  }
+  return `Simulation failed: ${report.error ?? "unknown error"}`;
+}
+
+// ---------------------------------------------------------------------------
+// Balance snapshots
+// ---------------------------------------------------------------------------
+
+interface TokenAccountSnapshot {
+  mint: string;
+  amount: bigint;
+  decimals?: number;
+}
+
+async function loadOwnerTokenAccounts(
+  conn: Connection,
+  owner: PublicKey
+): Promise<Map<string, TokenAccountSnapshot>> {
+  const accounts = new Map<string, TokenAccountSnapshot>();
+
+  for (const programId of [TOKEN_PROGRAM_ID, TOKEN_2022_PROGRAM_ID]) {
+    const resp = await conn.getParsedTokenAccountsByOwner(owner, {
+      programId: new PublicKey(programId),
+    });
+    for (const { pubkey, account } of resp.value) {
+      const info = (account.data.parsed as {
+        info?: { mint?: string; tokenAmount?: { amount?: string; decimals?: number } };
+      })?.info;
+      if (!info?.mint) continue;
+      accounts.set(pubkey.toBase58(), {
+        mint: info.mint,
+        amount: BigInt(info.tokenAmount?.amount ?? "0"),
+        decimals: info.tokenAmount?.decimals,
+      });
+    }
+  }
+
+  return accounts;
+}
+
+function decodeTokenAccount(
+  data: Buffer
+): { mint: string; owner: string; amount: bigint } | null {
+  if (data.length < TOKEN_ACCOUNT_MIN_LENGTH) return null;
+  return {
+    mint: new PublicKey(data.subarray(0, 32)).toBase58(),
+    owner: new PublicKey(data.subarray(32, 64)).toBase58(),
+    amount: data.readBigUInt64LE(64),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// simulateVersionedTransaction
+// ---------------------------------------------------------------------------
+
+export async function simulateVersionedTransaction(
+  conn: Connection,
+  transaction: VersionedTransaction,
+  owner: PublicKey
+): Promise<SimulationReport> {
+  const message = transaction.message;
+  const staticKeys = message.staticAccountKeys.map((key) => key.toBase58());
+  const programIds = message.compiledInstructions.map(
+    (ix) => staticKeys[ix.programIdIndex] ?? ""
+  );
+
+  const ownerAddress = owner.toBase58();
+  const [preLamports, preTokens] = await Promise.all([
+    conn.getBalance(owner, "confirmed"),
+    loadOwnerTokenAccounts(conn, owner),
+  ]);
+
+  // Existing token accounts plus every static key of the message, so ATAs
+  // created inside the transaction also show up in the post-state.
+  const addresses = [
+    ...new Set([ownerAddress, ...preTokens.keys(), ...staticKeys]),
+  ].slice(0, MAX_SIMULATED_ACCOUNTS);
+
+  const response = await conn.simulateTransaction(transaction, {
+    sigVerify: false,
+    replaceRecentBlockhash: true,
+    commitment: "confirmed",
+    accounts: { encoding: "base64", addresses },
+  });
+  const value = response.value;
+  const logs = value.logs ?? [];
+
+  const tokenDeltas: TokenBalanceDelta[] = [];
+  let solDeltaLamports: string | undefined;
+
+  (value.accounts ?? []).forEach((account, i) => {
+    const address = addresses[i];
+    if (!account) return;
+
+    if (address === ownerAddress) {
+      solDeltaLamports = String(BigInt(account.lamports) - BigInt(preLamports));
+      return;
+    }
+
+    if (account.owner !== TOKEN_PROGRAM_ID && account.owner !== TOKEN_2022_PROGRAM_ID) {
+      return;
+    }
+    const decoded = decodeTokenAccount(Buffer.from(account.data[0] ?? "", "base64"));
+    if (!decoded || decoded.owner !== ownerAddress) return;
+
+    const pre = preTokens.get(address);
+    const preAmount = pre?.amount ?? 0n;
+    if (preAmount === decoded.amount) return;
+
+    tokenDeltas.push({
+      account: address,
+      mint: decoded.mint,
+      preAmount: preAmount.toString(),
+      postAmount: decoded.amount.toString(),
+      delta: (decoded.amount - preAmount).toString(),
+      decimals: pre?.decimals,
+    });
+  });
+
+  const errorText =
+    value.err === null
+      ? undefined
+      : typeof value.err === "string"
+        ? value.err
+        : JSON.stringify(value.err);
+
+  return {
+    success: value.err === null,
+    unitsConsumed: value.unitsConsumed,
+    logs,
+    error: errorText,
+    programError: value.err === null ? undefined : decodeProgramError(value.err, logs, programIds),
+    solDeltaLamports: value.err === null ? solDeltaLamports : undefined,
+    tokenDeltas: value.err === null ? tokenDeltas : [],
+  };
+}
@@ -6,8 +6,29 @@ import {
   VersionedTransaction,
 } from "@solana/web3.js";
 import { config } from "./config.js";
+import { computeActualFill, realizedSlippageBps, type ActualFill } from "./fills.js";
+import {
+  associatedTokenAddress,
+  inspectTransaction,
+  TOKEN_2022_PROGRAM_ID,
+  TOKEN_PROGRAM_ID,
+} from "./inspect.js";
+import { markIntentSubmitted } from "./intents.js";
 import { appendLedgerEvent } from "./ledger.js";
+import { recordSwapFill, reserveSpending, type SpendingReservation } from "./limits.js";
 import { createLogger } from "./logger.js";
+import {
+  chargePaperTransactionFee,
+  fillPaperSwap,
+  getPaperLamports,
+  getPaperTokenBalances,
+} from "./paper.js";
+import { getPolicy, validateQuotePolicy } from "./policy.js";
+import {
+  formatSimulationError,
+  simulateVersionedTransaction,
+  type SimulationReport,
+} from "./simulate.js";
 
 const log = createLogger("solana");
 
@@ -46,7 +67,7 @@ export interface StoredQuote {
 
 export interface SwapExecutionResult {
   intentId: string;
-  status: "filled" | "failed";
+  status: "filled" | "failed" | "rejected";
   chain: "solana";
   txHash?: string;
   quoteId: string;
@@ -54,6 +75,13 @@ export interface SwapExecutionResult {
   outputMint: string;
   inputAmount: string;
   outputAmount: string;
+  // Jupiter's quote; inputAmount/outputAmount are what the chain delivered
+  // when fillSource is "chain".
+  quotedInputAmount?: string;
+  quotedOutputAmount?: string;
+  feeLamports?: string;
+  realizedSlippageBps?: number | null;
+  fillSource?: "chain" | "quote" | "paper";
   error?: string;
   createdAt: string;
 }
@@ -157,12 +185,37 @@ export function getWalletAddress(): string {
   return getKeypair().publicKey.toBase58();
 }
 
+// In paper mode the server wallet's balances come from the virtual book.
+// Returns undefined when `account` should be read from chain instead, and
+// null when the book is addressed but no wallet key is configured (any
+// account then means the paper wallet).
+function paperBookOwner(account?: string): PublicKey | null | undefined {
+  if (!config.paperTrade) return undefined;
+  const walletAddress = config.solana.privateKey ? getWalletAddress() : null;
+  if (account && walletAddress && account !== walletAddress) return undefined;
+  const address = walletAddress ?? account;
+  return address ? new PublicKey(address) : null;
+}
+
 export async function getBalance(account?: string): Promise<{
   chain: "solana";
   account: string;
   lamports: string;
   sol: string;
 }> {
+  const paperOwner = paperBookOwner(account);
+  if (paperOwner !== undefined) {
+    const lamports = Number(await getPaperLamports());
+    const address = paperOwner?.toBase58() ?? "paper";
+    await appendLedgerEvent("balance_checked", { account: address, lamports, mode: "paper" });
+    return {
+      chain: "solana",
+      account: address,
+      lamports: String(lamports),
+      sol: (lamports / 1_000_000_000).toFixed(9),
+    };
+  }
+
   const pubkey = account
     ? new PublicKey(account)
     : new PublicKey(getWalletAddress());
@@ -181,6 +234,81 @@ export async function getBalance(account?: string): Promise<{
   };
 }
 
+export interface TokenBalance {
+  mint: string;
+  program: "token" | "token-2022";
+  address: string;
+  ataAddress: string;
+  isAta: boolean;
+  rawAmount: string;
+  decimals: number;
+  frozen: boolean;
+}
+
+// Every token account owned by the wallet under both token programs.
+// Token-2022 mints get their ATA derived under their own program id.
+export async function getTokenBalances(account?: string): Promise<{
+  chain: "solana";
+  account: string;
+  tokens: TokenBalance[];
+}> {
+  const paperOwner = paperBookOwner(account);
+  if (paperOwner !== undefined) {
+    const tokens = await getPaperTokenBalances(paperOwner);
+    const address = paperOwner?.toBase58() ?? "paper";
+    await appendLedgerEvent("token_balances_checked", {
+      account: address,
+      accounts: tokens.length,
+      nonZero: tokens.length,
+      mode: "paper",
+    });
+    return { chain: "solana", account: address, tokens };
+  }
+
+  const owner = account
+    ? new PublicKey(account)
+    : new PublicKey(getWalletAddress());
+  const conn = getConnection();
+
+  const tokens: TokenBalance[] = [];
+  for (const programId of [TOKEN_PROGRAM_ID, TOKEN_2022_PROGRAM_ID]) {
+    const resp = await conn.getParsedTokenAccountsByOwner(owner, {
+      programId: new PublicKey(programId),
+    });
+    for (const { pubkey, account: tokenAccount } of resp.value) {
+      const info = (tokenAccount.data.parsed as {
+        info?: {
+          mint?: string;
+          state?: string;
+          tokenAmount?: { amount?: string; decimals?: number };
+        };
+      })?.info;
+      if (!info?.mint) continue;
+
+      const address = pubkey.toBase58();
+      const ataAddress = associatedTokenAddress(owner, new PublicKey(info.mint), programId);
+      tokens.push({
+        mint: info.mint,
+        program: programId === TOKEN_PROGRAM_ID ? "token" : "token-2022",
+        address,
+        ataAddress,
+        isAta: address === ataAddress,
+        rawAmount: info.tokenAmount?.amount ?? "0",
+        decimals: info.tokenAmount?.decimals ?? 0,
+        frozen: info.state === "frozen",
+      });
+    }
+  }
+
+  await appendLedgerEvent("token_balances_checked", {
+    account: owner.toBase58(),
+    accounts: tokens.length,
+    nonZero: tokens.filter((t) => t.rawAmount !== "0").length,
+  });
+
+  return { chain: "solana", account: owner.toBase58(), tokens };
+}
+
 export async function getQuote(req: QuoteRequest): Promise<{
   chain: "solana";
   quoteId: string;
@@ -208,13 +336,14 @@ export async function getQuote(req: QuoteRequest): Promise<{
 }
 
 export async function executeSwap(params: {
-  intentId?: string;
+  intentId: string;
   quoteId?: string;
   quoteRequest?: QuoteRequest;
 }): Promise<SwapExecutionResult> {
   const createdAt = new Date().toISOString();
-  const intentId = params.intentId ?? `mcp-${Date.now()}`;
+  const { intentId } = params;
   let resolvedQuote: StoredQuote | null = null;
+  let spending: SpendingReservation | null = null;
 
   try {
     const cachedQuote = params.quoteId ? getStoredQuote(params.quoteId) : null;
@@ -225,17 +354,63 @@ export async function executeSwap(params: {
       );
     }
 
+    // Price impact and spending limits need the quote, so they run after quoting.
+    const quoteRejection = validateQuotePolicy({ priceImpactPct: resolvedQuote.priceImpactPct });
+    const reservation = quoteRejection ?? reserveSpending({
+      inputMint: resolvedQuote.inputMint,
+      outputMint: resolvedQuote.outputMint,
+      inAmount: resolvedQuote.inAmount,
+      outAmount: resolvedQuote.outAmount,
+    });
+    if (typeof reservation === "string") {
+      const reason = quoteRejection ?? `Spending limit: ${reservation}`;
+      await appendLedgerEvent("swap_rejected", {
+        intentId,
+        quoteId: resolvedQuote.quoteId,
+        reason,
+        inputMint: resolvedQuote.inputMint,
+        outputMint: resolvedQuote.outputMint,
+        inputAmount: resolvedQuote.inAmount,
+      });
+      return {
+        intentId,
+        status: "rejected",
+        chain: "solana",
+        quoteId: resolvedQuote.quoteId,
+        inputMint: resolvedQuote.inputMint,
+        outputMint: resolvedQuote.outputMint,
+        inputAmount: resolvedQuote.inAmount,
+        outputAmount: "0",
+        error: reason,
+        createdAt,
+      };
+    }
+    spending = reservation;
+
     if (config.paperTrade) {
+      const paperFill = await fillPaperSwap(getConnection(), {
+        intentId,
+        inputMint: resolvedQuote.inputMint,
+        outputMint: resolvedQuote.outputMint,
+        inAmount: resolvedQuote.inAmount,
+        outAmount: resolvedQuote.outAmount,
+        slippageBps: resolvedQuote.slippageBps,
+      });
       const paperResult: SwapExecutionResult = {
         intentId,
         status: "filled",
         chain: "solana",
-        txHash: `paper_${Date.now()}`,
+        txHash: paperFill.txHash,
         quoteId: resolvedQuote.quoteId,
         inputMint: resolvedQuote.inputMint,
         outputMint: resolvedQuote.outputMint,
-        inputAmount: resolvedQuote.inAmount,
-        outputAmount: resolvedQuote.outAmount,
+        inputAmount: paperFill.inputAmount,
+        outputAmount: paperFill.outputAmount,
+        quotedInputAmount: resolvedQuote.inAmount,
+        quotedOutputAmount: resolvedQuote.outAmount,
+        feeLamports: paperFill.feeLamports,
+        realizedSlippageBps: paperFill.realizedSlippageBps,
+        fillSource: "paper",
         createdAt,
       };
 
@@ -248,6 +423,17 @@ export async function executeSwap(params: {
         outputMint: paperResult.outputMint,
         inputAmount: paperResult.inputAmount,
         outputAmount: paperResult.outputAmount,
+        quotedInputAmount: paperResult.quotedInputAmount,
+        quotedOutputAmount: paperResult.quotedOutputAmount,
+        feeLamports: paperResult.feeLamports,
+        realizedSlippageBps: paperResult.realizedSlippageBps,
+        fillSource: paperResult.fillSource,
+      });
+      await recordSwapFill({
+        inputMint: paperResult.inputMint,
+        outputMint: paperResult.outputMint,
+        inAmount: paperResult.inputAmount,
+        outAmount: paperResult.outputAmount,
       });
 
       return paperResult;
@@ -262,7 +448,7 @@ export async function executeSwap(params: {
         userPublicKey: wallet.publicKey.toBase58(),
         wrapAndUnwrapSol: true,
         dynamicComputeUnitLimit: true,
-        dynamicSlippage: { maxBps: config.policy.maxSlippageBps },
+        dynamicSlippage: { maxBps: getPolicy().tools.wallet_execute_swap.maxSlippageBps },
         prioritizationFeeLamports: "auto",
       }),
     });
@@ -280,6 +466,7 @@ export async function executeSwap(params: {
 
     const txBuffer = Buffer.from(data.swapTransaction, "base64");
     const transaction = VersionedTransaction.deserialize(txBuffer);
+    await simulateBeforeSend(transaction, intentId, "execute_swap");
     transaction.sign([wallet]);
 
     const conn = getConnection();
@@ -287,6 +474,7 @@ export async function executeSwap(params: {
       skipPreflight: false,
       maxRetries: 2,
     });
+    await markIntentSubmitted(intentId, txHash);
 
     const latestBlockhash = await conn.getLatestBlockhash();
     await conn.confirmTransaction({
@@ -295,6 +483,21 @@ export async function executeSwap(params: {
       lastValidBlockHeight: latestBlockhash.lastValidBlockHeight,
     });
 
+    // The swap already landed, so a failed fill lookup must not turn it
+    // into a failure; fall back to the quote and say so.
+    let fill: ActualFill | null = null;
+    try {
+      fill = await computeActualFill(
+        conn,
+        txHash,
+        wallet.publicKey,
+        resolvedQuote.inputMint,
+        resolvedQuote.outputMint
+      );
+    } catch (e) {
+      log.warn(`Fill lookup failed for ${txHash}, booking quoted amounts: ${e instanceof Error ? e.message : String(e)}`);
+    }
+
     const result: SwapExecutionResult = {
       intentId,
       status: "filled",
@@ -303,8 +506,13 @@ export async function executeSwap(params: {
       quoteId: resolvedQuote.quoteId,
       inputMint: resolvedQuote.inputMint,
       outputMint: resolvedQuote.outputMint,
-      inputAmount: resolvedQuote.inAmount,
-      outputAmount: resolvedQuote.outAmount,
+      inputAmount: fill?.inputAmount ?? resolvedQuote.inAmount,
+      outputAmount: fill?.outputAmount ?? resolvedQuote.outAmount,
+      quotedInputAmount: resolvedQuote.inAmount,
+      quotedOutputAmount: resolvedQuote.outAmount,
+      feeLamports: fill?.feeLamports,
+      realizedSlippageBps: fill ? realizedSlippageBps(resolvedQuote.outAmount, fill.outputAmount) : null,
+      fillSource: fill ? "chain" : "quote",
       createdAt,
     };
 
@@ -317,6 +525,18 @@ export async function executeSwap(params: {
       outputMint: result.outputMint,
       inputAmount: result.inputAmount,
       outputAmount: result.outputAmount,
+      quotedInputAmount: result.quotedInputAmount,
+      quotedOutputAmount: result.quotedOutputAmount,
+      feeLamports: result.feeLamports,
+      rentLamports: fill?.rentLamports,
+      realizedSlippageBps: result.realizedSlippageBps,
+      fillSource: result.fillSource,
+    });
+    await recordSwapFill({
+      inputMint: result.inputMint,
+      outputMint: result.outputMint,
+      inAmount: result.inputAmount,
+      outAmount: result.outputAmount,
     });
 
     return result;
@@ -344,7 +564,67 @@ export async function executeSwap(params: {
     });
 
     return failedResult;
+  } finally {
+    spending?.release();
+  }
+}
+
+// ---------------------------------------------------------------------------
+// simulateTransaction — dry-run a transaction and decode the outcome
+// ---------------------------------------------------------------------------
+
+async function runSimulation(
+  transaction: VersionedTransaction,
+  intentId: string | undefined,
+  source: "tool" | "execute_swap" | "sign_and_send"
+): Promise<SimulationReport> {
+  // The fee payer owns the balances we report deltas for; no signing needed.
+  const owner = transaction.message.staticAccountKeys[0];
+  if (!owner) throw new Error("Transaction has no fee payer");
+
+  const report = await simulateVersionedTransaction(getConnection(), transaction, owner);
+
+  await appendLedgerEvent("tx_simulated", {
+    intentId: intentId ?? "n/a",
+    source,
+    success: report.success,
+    unitsConsumed: report.unitsConsumed ?? null,
+    error: report.error,
+    programError: report.programError,
+    solDeltaLamports: report.solDeltaLamports,
+    tokenDeltas: report.tokenDeltas,
+  });
+
+  return report;
+}
+
+// Runs inside the live send paths so a failing transaction is rejected
+// before any fee is paid. The thrown message keeps the program error name
+// and hex code, which the agent's retry classifier matches on.
+async function simulateBeforeSend(
+  transaction: VersionedTransaction,
+  intentId: string,
+  source: "execute_swap" | "sign_and_send"
+): Promise<void> {
+  if (!config.simulation.beforeSend) return;
+
+  const report = await runSimulation(transaction, intentId, source);
+  if (!report.success) {
+    throw new Error(formatSimulationError(report));
   }
+  log.info(
+    `Simulation ok intent=${intentId} units=${report.unitsConsumed ?? "n/a"} deltas=${report.tokenDeltas.length}`
+  );
+}
+
+export async function simulateTransaction(params: {
+  intentId?: string;
+  transaction: string; // base64-encoded VersionedTransaction
+}): Promise<SimulationReport & { chain: "solana" }> {
+  const txBuffer = Buffer.from(params.transaction, "base64");
+  const transaction = VersionedTransaction.deserialize(txBuffer);
+  const report = await runSimulation(transaction, params.intentId, "tool");
+  return { chain: "solana", ...report };
 }
 
 // ---------------------------------------------------------------------------
@@ -353,10 +633,11 @@ export async function executeSwap(params: {
 
 export interface SignAndSendResult {
   intentId: string;
-  status: "sent" | "failed";
+  status: "sent" | "failed" | "rejected";
   chain: "solana";
   txHash?: string;
   description: string;
+  instructions?: string[];
   error?: string;
   createdAt: string;
 }
@@ -368,15 +649,54 @@ export async function signAndSendTransaction(params: {
 }): Promise<SignAndSendResult> {
   const createdAt = new Date().toISOString();
   const { intentId, transaction: txBase64, description } = params;
+  let instructions: string[] | undefined;
 
   try {
+    const txBuffer = Buffer.from(txBase64, "base64");
+    const transaction = VersionedTransaction.deserialize(txBuffer);
+
+    // Paper mode has no keypair, so the fee payer stands in for the wallet.
+    const owner = config.paperTrade
+      ? transaction.message.staticAccountKeys[0]
+      : getKeypair().publicKey;
+    if (!owner) throw new Error("Transaction has no fee payer");
+
+    const rule = getPolicy().tools.wallet_sign_and_send;
+    const inspection = await inspectTransaction(getConnection(), transaction, owner, {
+      allowedPrograms: rule.allowedPrograms,
+      allowedDestinations: rule.allowedDestinations,
+    });
+    instructions = inspection.summary;
+
+    if (inspection.violations.length > 0) {
+      const reason = `Instruction policy: ${inspection.violations.join("; ")}`;
+      await appendLedgerEvent("tx_rejected", {
+        intentId,
+        reason,
+        description,
+        instructions,
+        unresolvedLookupTables: inspection.unresolvedLookupTables,
+      });
+      return {
+        intentId,
+        status: "rejected",
+        chain: "solana",
+        description,
+        instructions,
+        error: reason,
+        createdAt,
+      };
+    }
+
     if (config.paperTrade) {
+      await chargePaperTransactionFee(intentId);
       const paperResult: SignAndSendResult = {
         intentId,
         status: "sent",
         chain: "solana",
         txHash: `paper_perp_${Date.now()}`,
         description,
+        instructions,
         createdAt,
       };
 
@@ -385,14 +705,14 @@ export async function signAndSendTransaction(params: {
         txHash: paperResult.txHash,
         mode: "paper",
         description,
+        instructions,
       });
 
       return paperResult;
     }
 
     const wallet = getKeypair();
-    const txBuffer = Buffer.from(txBase64, "base64");
-    const transaction = VersionedTransaction.deserialize(txBuffer);
+    await simulateBeforeSend(transaction, intentId, "sign_and_send");
     transaction.sign([wallet]);
 
     const conn = getConnection();
@@ -400,6 +720,7 @@ export async function signAndSendTransaction(params: {
       skipPreflight: false,
       maxRetries: 2,
     });
+    await markIntentSubmitted(intentId, txHash);
 
     const latestBlockhash = await conn.getLatestBlockhash();
     await conn.confirmTransaction({
@@ -413,6 +734,7 @@ export async function signAndSendTransaction(params: {
       txHash,
       mode: "live",
       description,
+      instructions,
     });
 
     return {
@@ -421,6 +743,7 @@ export async function signAndSendTransaction(params: {
       chain: "solana",
       txHash,
       description,
+      instructions,
       createdAt,
     };
   } catch (error) {
@@ -430,6 +753,7 @@ export async function signAndSendTransaction(params: {
       intentId,
       error: message,
       description,
+      instructions,
     });
 
     return {
@@ -437,6 +761,7 @@ export async function signAndSendTransaction(params: {
       status: "failed",
       chain: "solana",
       description,
+      instructions,
       error: message,
       createdAt,
     };